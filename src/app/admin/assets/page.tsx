@@ -1,3 +1,4 @@
+import { AdminAssetRegister } from "@/components/AdminAssetRegister";
 import { AdminMaintenanceWorkflow } from "@/components/AdminMaintenanceWorkflow";
 
 export default function AdminAssetsPage() {
@@ -6,12 +7,14 @@ export default function AdminAssetsPage() {
       <article className="card grid">
         <span className="kicker">Asset Management</span>
         <h1>Assets</h1>
-        <p className="lead">Register assets, update warranty tracking, and attach supporting documents.</p>
+        <p className="lead">Register assets, track warranties, values and insurance cover, and plan replacements.</p>
       </article>
 
       <article className="grid">
         <AdminMaintenanceWorkflow showAssets showMaintenance={false} />
       </article>
+
+      <AdminAssetRegister />
     </section>
   );
 }
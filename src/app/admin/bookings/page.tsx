@@ -2,6 +2,8 @@ import { ActiveBookingsPanel } from "@/components/ActiveBookingsPanel";
 import { AdminBookingApprovals } from "@/components/AdminBookingApprovals";
 import { AdminBookingHistory } from "@/components/AdminBookingHistory";
 import { AdminBookingPolicySettings } from "@/components/AdminBookingPolicySettings";
+import { AdminBookingWaitlist } from "@/components/AdminBookingWaitlist";
+import { AdminPeakAllocation } from "@/components/AdminPeakAllocation";
 
 export default function AdminBookingsPage() {
   return (
@@ -24,6 +26,16 @@ export default function AdminBookingsPage() {
         <ActiveBookingsPanel adminMode />
       </article>
 
+      <article className="grid">
+        <h2>Waitlist</h2>
+        <AdminBookingWaitlist />
+      </article>
+
+      <article className="grid">
+        <h2>Peak Season</h2>
+        <AdminPeakAllocation />
+      </article>
+
       <article className="grid">
         <h2>History & Audit Trail</h2>
         <AdminBookingHistory />
@@ -0,0 +1,17 @@
+import { AdminContractorDirectory } from "@/components/AdminContractorDirectory";
+
+export default function AdminContractorsPage() {
+  return (
+    <section className="grid">
+      <article className="card grid">
+        <span className="kicker">Maintenance</span>
+        <h1>Contractors</h1>
+        <p className="lead">
+          Trade contacts, rates and tax/B-BBEE details, with each contractor&apos;s jobs, spend and turnaround.
+        </p>
+      </article>
+
+      <AdminContractorDirectory />
+    </section>
+  );
+}
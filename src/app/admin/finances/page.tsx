@@ -1,5 +1,12 @@
+import { AdminBankReconciliation } from "@/components/AdminBankReconciliation";
+import { AdminExpenseBudgets } from "@/components/AdminExpenseBudgets";
 import { AdminExpensesLedger } from "@/components/AdminExpensesLedger";
+import { AdminFeeConfigVersions } from "@/components/AdminFeeConfigVersions";
 import { AdminFeeTracker } from "@/components/AdminFeeTracker";
+import { AdminFinanceImport } from "@/components/AdminFinanceImport";
+import { AdminFinanceWorkbookExport } from "@/components/AdminFinanceWorkbookExport";
+import { AdminFinancialReports } from "@/components/AdminFinancialReports";
+import { AdminVatReport } from "@/components/AdminVatReport";
 
 export default function AdminFinancesPage() {
   return (
@@ -15,10 +22,45 @@ export default function AdminFinancesPage() {
         <AdminFeeTracker />
       </article>
 
+      <article className="grid">
+        <h2>Fee Versions</h2>
+        <AdminFeeConfigVersions />
+      </article>
+
       <article className="grid">
         <h2>Expenses Ledger</h2>
         <AdminExpensesLedger />
       </article>
+
+      <article className="grid">
+        <h2>Finance Import</h2>
+        <AdminFinanceImport />
+      </article>
+
+      <article className="grid">
+        <h2>Finance Export</h2>
+        <AdminFinanceWorkbookExport />
+      </article>
+
+      <article className="grid">
+        <h2>Bank Reconciliation</h2>
+        <AdminBankReconciliation />
+      </article>
+
+      <article className="grid">
+        <h2>Budgets</h2>
+        <AdminExpenseBudgets />
+      </article>
+
+      <article className="grid">
+        <h2>VAT</h2>
+        <AdminVatReport />
+      </article>
+
+      <article className="grid">
+        <h2>Financial Reports</h2>
+        <AdminFinancialReports />
+      </article>
     </section>
   );
 }
@@ -1,3 +1,5 @@
+import { AdminMaintenancePolicySettings } from "@/components/AdminMaintenancePolicySettings";
+import { AdminMaintenanceSchedule } from "@/components/AdminMaintenanceSchedule";
 import { AdminMaintenanceWorkflow } from "@/components/AdminMaintenanceWorkflow";
 
 export default function AdminMaintenancePage() {
@@ -12,6 +14,10 @@ export default function AdminMaintenancePage() {
       <article className="grid">
         <AdminMaintenanceWorkflow showAssets={false} showMaintenance />
       </article>
+
+      <AdminMaintenanceSchedule />
+
+      <AdminMaintenancePolicySettings />
     </section>
   );
 }
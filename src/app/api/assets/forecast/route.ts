@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { buildReplacementForecast } from "@/lib/asset-register";
+import { getSessionUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/rbac";
+
+const querySchema = z.object({
+  years: z.coerce.number().int().min(1).max(30).optional(),
+  inflation: z.coerce.number().min(0).max(50).optional()
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const forecast = await buildReplacementForecast({
+    years: parsed.data.years,
+    inflationPercent: parsed.data.inflation
+  });
+
+  return NextResponse.json({ forecast });
+}
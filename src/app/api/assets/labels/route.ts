@@ -0,0 +1,51 @@
+import { AssetStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { assetLabelsToPdf, ensureAssetShortCodes } from "@/lib/asset-labels";
+import { getSessionUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const querySchema = z.object({
+  // Comma-separated asset ids; all assets that are not retired when omitted.
+  ids: z.string().max(10000).optional(),
+  copies: z.coerce.number().int().min(1).max(21).default(1)
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "assets:edit")) {
+    return NextResponse.json({ error: "Asset edit permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const ids = parsed.data.ids?.split(",").map((id) => id.trim()).filter(Boolean);
+  const where = ids?.length ? { id: { in: ids } } : { status: { not: AssetStatus.RETIRED } };
+
+  const matching = await prisma.asset.findMany({ where, select: { id: true } });
+  if (matching.length === 0) {
+    return NextResponse.json({ error: "No assets to label" }, { status: 404 });
+  }
+  await ensureAssetShortCodes(matching.map((asset) => asset.id));
+
+  const assets = await prisma.asset.findMany({
+    where,
+    select: { name: true, category: true, location: true, shortCode: true },
+    orderBy: [{ location: "asc" }, { name: "asc" }]
+  });
+  const labels = assets.flatMap((asset) =>
+    Array.from({ length: parsed.data.copies }, () => ({ ...asset, shortCode: asset.shortCode as string }))
+  );
+
+  return new NextResponse(Uint8Array.from(assetLabelsToPdf(labels)).buffer, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": "attachment; filename=asset-labels.pdf"
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  assetRegisterFileName,
+  assetRegisterToXlsx,
+  buildAssetRegister,
+  insuranceScheduleToPdf
+} from "@/lib/asset-register";
+import { getSessionUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/rbac";
+
+const querySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  includeRetired: z.enum(["true", "false"]).optional(),
+  format: z.enum(["json", "pdf", "xlsx"]).default("json")
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const register = await buildAssetRegister({
+    asOf: parsed.data.asOf,
+    includeRetired: parsed.data.includeRetired === "true"
+  });
+
+  if (parsed.data.format === "pdf") {
+    return new NextResponse(Uint8Array.from(insuranceScheduleToPdf(register)).buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename=${assetRegisterFileName(register, "pdf")}`
+      }
+    });
+  }
+
+  if (parsed.data.format === "xlsx") {
+    return new NextResponse(Uint8Array.from(assetRegisterToXlsx(register)).buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename=${assetRegisterFileName(register, "xlsx")}`
+      }
+    });
+  }
+
+  return NextResponse.json({ register });
+}
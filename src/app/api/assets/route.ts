@@ -1,6 +1,8 @@
-import { AssetStatus } from "@prisma/client";
+import { AssetStatus, DepreciationMethod } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { generateShortCode } from "@/lib/asset-labels";
+import { valueAsset } from "@/lib/asset-register";
 import { getSessionUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
@@ -20,7 +22,13 @@ const createAssetSchema = z.object({
   purchaseDate: z.coerce.date().optional(),
   warrantyExpiry: z.coerce.date().optional(),
   warrantyFileUrl: documentUrlSchema.optional(),
-  notes: z.string().max(2000).optional()
+  notes: z.string().max(2000).optional(),
+  purchaseCost: z.number().nonnegative().optional(),
+  usefulLifeYears: z.number().int().min(1).max(100).optional(),
+  residualValue: z.number().nonnegative().optional(),
+  depreciationMethod: z.nativeEnum(DepreciationMethod).default(DepreciationMethod.STRAIGHT_LINE),
+  insuredValue: z.number().nonnegative().optional(),
+  replacementCost: z.number().nonnegative().optional()
 });
 
 export async function GET(req: NextRequest) {
@@ -45,7 +53,26 @@ export async function GET(req: NextRequest) {
     take: 500
   });
 
-  return NextResponse.json({ assets });
+  // Cost, cover and book value are finance data, as on the register and forecast.
+  if (!hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({
+      assets: assets.map(
+        ({
+          purchaseCost: _purchaseCost,
+          residualValue: _residualValue,
+          insuredValue: _insuredValue,
+          replacementCost: _replacementCost,
+          ...asset
+        }) => asset
+      )
+    });
+  }
+
+  const asOf = new Date();
+
+  return NextResponse.json({
+    assets: assets.map((asset) => ({ ...asset, valuation: valueAsset(asset, asOf) }))
+  });
 }
 
 export async function POST(req: NextRequest) {
@@ -63,6 +90,7 @@ export async function POST(req: NextRequest) {
 
   const asset = await prisma.asset.create({
     data: {
+      shortCode: await generateShortCode(),
       name: parsed.data.name,
       category: parsed.data.category,
       serialNumber: parsed.data.serialNumber,
@@ -71,7 +99,13 @@ export async function POST(req: NextRequest) {
       purchaseDate: parsed.data.purchaseDate,
       warrantyExpiry: parsed.data.warrantyExpiry,
       warrantyFileUrl: parsed.data.warrantyFileUrl,
-      notes: parsed.data.notes
+      notes: parsed.data.notes,
+      purchaseCost: parsed.data.purchaseCost,
+      usefulLifeYears: parsed.data.usefulLifeYears,
+      residualValue: parsed.data.residualValue,
+      depreciationMethod: parsed.data.depreciationMethod,
+      insuredValue: parsed.data.insuredValue,
+      replacementCost: parsed.data.replacementCost
     }
   });
 
@@ -93,6 +127,19 @@ export async function PATCH(req: NextRequest) {
     return NextResponse.json({ error: "Asset id is required." }, { status: 400 });
   }
 
+  const existing = await prisma.asset.findUnique({ where: { id: parsed.data.id } });
+  if (!existing) {
+    return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+  }
+  // A changed date is reminded about again.
+  const warrantyChanged =
+    parsed.data.warrantyExpiry !== undefined &&
+    parsed.data.warrantyExpiry.getTime() !== existing.warrantyExpiry?.getTime();
+  const endOfLifeChanged =
+    (parsed.data.purchaseDate !== undefined &&
+      parsed.data.purchaseDate.getTime() !== existing.purchaseDate?.getTime()) ||
+    (parsed.data.usefulLifeYears !== undefined && parsed.data.usefulLifeYears !== existing.usefulLifeYears);
+
   const asset = await prisma.asset.update({
     where: { id: parsed.data.id },
     data: {
@@ -104,7 +151,15 @@ export async function PATCH(req: NextRequest) {
       purchaseDate: parsed.data.purchaseDate,
       warrantyExpiry: parsed.data.warrantyExpiry,
       warrantyFileUrl: parsed.data.warrantyFileUrl,
-      notes: parsed.data.notes
+      notes: parsed.data.notes,
+      purchaseCost: parsed.data.purchaseCost,
+      usefulLifeYears: parsed.data.usefulLifeYears,
+      residualValue: parsed.data.residualValue,
+      depreciationMethod: parsed.data.depreciationMethod,
+      insuredValue: parsed.data.insuredValue,
+      replacementCost: parsed.data.replacementCost,
+      warrantyReminderSentAt: warrantyChanged ? null : undefined,
+      endOfLifeReminderSentAt: endOfLifeChanged ? null : undefined
     }
   });
 
@@ -2,6 +2,7 @@ import { BookingAuditAction, BookingStatus } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionUser } from "@/lib/auth";
 import { buildManageBookingUrl, generateBookingManageToken, getAppBaseUrl } from "@/lib/booking-manage";
+import { getBookingPolicy, summarizeBookingPayments } from "@/lib/booking-payments";
 import { renderEmailTemplate } from "@/lib/email-templates";
 import { sendMail } from "@/lib/mail";
 import { prisma } from "@/lib/prisma";
@@ -43,7 +44,7 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
         approvedAt: new Date(),
         rejectionReason: null
       },
-      include: { requestedBy: true }
+      include: { requestedBy: true, payments: { select: { amount: true, status: true } } }
     }),
     prisma.bookingAuditLog.create({
       data: {
@@ -56,6 +57,8 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
     })
   ]);
 
+  const paymentSummary = summarizeBookingPayments(booking, await getBookingPolicy());
+
   const requesterEmail = booking.requestedBy?.email ?? booking.externalLeadEmail;
   if (requesterEmail) {
     let manageToken = booking.manageToken;
@@ -76,6 +79,9 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
       PET_COUNT: String(booking.petCount),
       CURRENCY: booking.currency,
       TOTAL_AMOUNT: String(booking.totalAmount ?? 0),
+      DEPOSIT_AMOUNT: paymentSummary.depositOutstanding.toFixed(2),
+      DEPOSIT_DUE_DATE: paymentSummary.depositDueDate ?? "",
+      BALANCE_DUE_DATE: paymentSummary.balanceDueDate ?? "",
       SOURCE: booking.source,
       SCOPE: booking.scope,
       REJECTION_REASON: "",
@@ -90,5 +96,6 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
     });
   }
 
-  return NextResponse.json({ booking });
+  const { payments: _payments, ...approvedBooking } = booking;
+  return NextResponse.json({ booking: { ...approvedBooking, paymentSummary } });
 }
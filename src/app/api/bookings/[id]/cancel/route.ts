@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, type SessionUser } from "@/lib/auth";
+import { buildManageBookingUrl, getAppBaseUrl, tokensMatch } from "@/lib/booking-manage";
+import { getBookingPolicy } from "@/lib/booking-payments";
+import { CANCELLABLE_STATUSES, cancelBooking, quoteCancellation } from "@/lib/cancellation";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { getApproverEmails, sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import { offerWaitlistHolds } from "@/lib/waitlist";
+
+const cancelSchema = z.object({
+  token: z.string().min(8).optional(),
+  reason: z.string().trim().max(500).optional(),
+  // Admin-only overrides.
+  refundMethod: z.enum(["REFUND", "CREDIT_NOTE"]).optional(),
+  refundPercent: z.number().min(0).max(100).optional()
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function asDateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+async function loadBooking(id: string) {
+  return prisma.booking.findUnique({
+    where: { id },
+    include: {
+      requestedBy: { select: { id: true, name: true, email: true } },
+      payments: { select: { amount: true, status: true } }
+    }
+  });
+}
+
+type CancelAccess = { isAdmin: boolean; actorLabel: string; user: SessionUser | null };
+
+async function resolveCancelAccess(
+  req: NextRequest,
+  booking: NonNullable<Awaited<ReturnType<typeof loadBooking>>>,
+  token?: string
+): Promise<CancelAccess | null> {
+  const user = await getSessionUser(req);
+  if (user && hasPermission(user.role, "booking:manage")) {
+    return { isAdmin: true, actorLabel: user.name ?? user.email ?? user.id, user };
+  }
+  if (user && booking.requestedById === user.id) {
+    return { isAdmin: false, actorLabel: user.name ?? user.email ?? user.id, user };
+  }
+  if (token && tokensMatch(booking.manageToken, token)) {
+    return { isAdmin: false, actorLabel: "Guest (magic link)", user: null };
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const booking = await loadBooking(id);
+  const access = booking
+    ? await resolveCancelAccess(req, booking, req.nextUrl.searchParams.get("token") ?? undefined)
+    : null;
+  if (!booking || !access) {
+    return NextResponse.json({ error: "Booking not found or access denied" }, { status: 404 });
+  }
+
+  const quote = await quoteCancellation(booking, await getBookingPolicy());
+  return NextResponse.json({
+    cancellable: CANCELLABLE_STATUSES.includes(booking.status) && (access.isAdmin || booking.startDate > new Date()),
+    currency: booking.currency,
+    quote
+  });
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await req.json();
+  const parsed = cancelSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const booking = await loadBooking(id);
+  const access = booking ? await resolveCancelAccess(req, booking, parsed.data.token) : null;
+  if (!booking || !access) {
+    return NextResponse.json({ error: "Booking not found or access denied" }, { status: 404 });
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+    return NextResponse.json({ error: `A ${booking.status.toLowerCase()} booking cannot be cancelled` }, { status: 409 });
+  }
+  if (!access.isAdmin && booking.startDate <= new Date()) {
+    return NextResponse.json({ error: "Stays that have started can only be cancelled by an admin" }, { status: 403 });
+  }
+  if (!access.isAdmin && (parsed.data.refundMethod || parsed.data.refundPercent !== undefined)) {
+    return NextResponse.json({ error: "Only admins can override the refund" }, { status: 403 });
+  }
+
+  let quote = await quoteCancellation(booking, await getBookingPolicy());
+  if (parsed.data.refundPercent !== undefined) {
+    const refundAmount = Math.round(Math.max(0, quote.paidAmount) * parsed.data.refundPercent) / 100;
+    quote = {
+      ...quote,
+      refundPercent: parsed.data.refundPercent,
+      refundAmount,
+      retainedAmount: Math.round((Math.max(0, quote.paidAmount) - refundAmount) * 100) / 100
+    };
+  }
+  const refundMethod = parsed.data.refundMethod ?? quote.refundMethod;
+
+  const cancelled = await cancelBooking({
+    booking,
+    quote,
+    refundMethod,
+    reason: parsed.data.reason || undefined,
+    actorLabel: access.actorLabel,
+    actorId: access.user?.id,
+    actorRole: access.user?.role
+  });
+  if (!cancelled) {
+    return NextResponse.json({ error: "Booking was changed by someone else; reload and try again" }, { status: 409 });
+  }
+
+  const requesterEmail = cancelled.requestedBy?.email ?? cancelled.externalLeadEmail;
+  const context = {
+    BOOKING_REFERENCE: cancelled.id,
+    START_DATE: asDateLabel(cancelled.startDate),
+    END_DATE: asDateLabel(cancelled.endDate),
+    CURRENCY: cancelled.currency,
+    TOTAL_AMOUNT: String(cancelled.totalAmount ?? 0),
+    REFUND_AMOUNT: quote.refundAmount.toFixed(2),
+    REFUND_METHOD: refundMethod === "CREDIT_NOTE" ? "account credit" : "refund",
+    CANCELLATION_FEE: quote.retainedAmount.toFixed(2),
+    CANCELLATION_REASON: cancelled.cancellationReason ?? "Not provided",
+    MANAGE_URL: buildManageBookingUrl(cancelled.id, cancelled.manageToken ?? undefined, requesterEmail ?? undefined),
+    ADMIN_BOOKINGS_URL: `${getAppBaseUrl()}/admin/bookings`
+  };
+
+  const template = await renderEmailTemplate("BOOKING_CANCELLED", context);
+  const recipients = [...(requesterEmail ? [requesterEmail] : []), ...getApproverEmails()];
+  if (recipients.length > 0) {
+    await sendMail({ to: recipients, subject: template.subject, text: template.text });
+  }
+
+  await offerWaitlistHolds();
+
+  const { manageToken: _manageToken, ...sanitizedBooking } = cancelled;
+  return NextResponse.json({ booking: sanitizedBooking, quote, refundMethod });
+}
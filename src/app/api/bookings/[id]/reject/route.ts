@@ -7,6 +7,7 @@ import { renderEmailTemplate } from "@/lib/email-templates";
 import { sendMail } from "@/lib/mail";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
+import { offerWaitlistHolds } from "@/lib/waitlist";
 
 const rejectSchema = z.object({
   reason: z.string().min(3).max(500)
@@ -97,5 +98,8 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
     });
   }
 
+  // The rejected dates are free again; offer them to the waitlist.
+  await offerWaitlistHolds();
+
   return NextResponse.json({ booking });
 }
@@ -1,5 +1,5 @@
-import { BookingStatus } from "@prisma/client";
 import { NextResponse } from "next/server";
+import { BLOCKING_BOOKING_STATUSES } from "@/lib/availability";
 import { prisma } from "@/lib/prisma";
 
 export async function GET() {
@@ -10,21 +10,36 @@ export async function GET() {
   const horizon = new Date(today);
   horizon.setMonth(horizon.getMonth() + 18);
 
-  const bookings = await prisma.booking.findMany({
-    where: {
-      status: { in: [BookingStatus.PENDING, BookingStatus.APPROVED] },
-      startDate: { lt: horizon },
-      endDate: { gt: today }
-    },
-    orderBy: { startDate: "asc" },
-    select: {
-      id: true,
-      status: true,
-      startDate: true,
-      endDate: true
-    },
-    take: 2000
-  });
+  const [bookings, rooms] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        status: { in: BLOCKING_BOOKING_STATUSES },
+        startDate: { lt: horizon },
+        endDate: { gt: today }
+      },
+      orderBy: { startDate: "asc" },
+      select: {
+        id: true,
+        status: true,
+        scope: true,
+        startDate: true,
+        endDate: true,
+        roomAllocations: { select: { roomId: true } }
+      },
+      take: 2000
+    }),
+    prisma.room.findMany({
+      where: { isBookable: true },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, code: true, capacity: true }
+    })
+  ]);
 
-  return NextResponse.json({ bookings });
+  return NextResponse.json({
+    bookings: bookings.map(({ roomAllocations, ...booking }) => ({
+      ...booking,
+      roomIds: roomAllocations.map((allocation) => allocation.roomId)
+    })),
+    rooms
+  });
 }
@@ -2,13 +2,16 @@ import { BookingAuditAction, BookingSource, BookingStatus, Prisma, UserRole } fr
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
+import { findConflictingBooking } from "@/lib/availability";
 import { buildManageBookingUrl, getAppBaseUrl, tokensMatch } from "@/lib/booking-manage";
+import { getBookingPolicy, summarizeBookingPayments } from "@/lib/booking-payments";
 import { calculateNights } from "@/lib/booking";
 import { renderEmailTemplate } from "@/lib/email-templates";
-import { calculateBookingFees } from "@/lib/fees";
+import { calculateBookingFees, minimumNightsError, readFeeSnapshot } from "@/lib/fees";
 import { getApproverEmails, sendMail } from "@/lib/mail";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
+import { findClashingHold } from "@/lib/waitlist";
 
 const lookupSchema = z.object({
   reference: z.string().min(8),
@@ -29,7 +32,11 @@ const updateSchema = lookupSchema.extend({
 
 type AccessResult = {
   booking: Prisma.BookingGetPayload<{
-    include: { requestedBy: { select: { id: true; email: true; role: true } } };
+    include: {
+      requestedBy: { select: { id: true; email: true; role: true } };
+      roomAllocations: { select: { roomId: true } };
+      payments: { select: { amount: true; status: true } };
+    };
   }>;
   actorLabel: string;
   actorId?: string;
@@ -39,7 +46,11 @@ type AccessResult = {
 async function resolveAccess(req: NextRequest, payload: z.infer<typeof lookupSchema>): Promise<AccessResult | null> {
   const booking = await prisma.booking.findUnique({
     where: { id: payload.reference },
-    include: { requestedBy: { select: { id: true, email: true, role: true } } }
+    include: {
+      requestedBy: { select: { id: true, email: true, role: true } },
+      roomAllocations: { select: { roomId: true } },
+      payments: { select: { amount: true, status: true } }
+    }
   });
 
   if (!booking) {
@@ -107,7 +118,9 @@ export async function GET(req: NextRequest) {
       externalLeadEmail: booking.externalLeadEmail,
       externalLeadPhone: booking.externalLeadPhone,
       currency: booking.currency,
-      totalAmount: booking.totalAmount
+      totalAmount: booking.totalAmount,
+      feeBreakdown: readFeeSnapshot(booking.feeSnapshot),
+      paymentSummary: summarizeBookingPayments(booking, await getBookingPolicy())
     }
   });
 }
@@ -136,15 +149,13 @@ export async function PATCH(req: NextRequest) {
     return NextResponse.json({ error: "Booking must be at least one night." }, { status: 400 });
   }
 
-  const overlap = await prisma.booking.findFirst({
-    where: {
-      id: { not: existing.id },
-      status: { in: [BookingStatus.PENDING, BookingStatus.APPROVED] },
-      startDate: { lt: endDate },
-      endDate: { gt: startDate }
-    },
-    select: { id: true, startDate: true, endDate: true, status: true }
-  });
+  const candidate = {
+    scope: existing.scope,
+    startDate,
+    endDate,
+    roomIds: existing.roomAllocations.map((allocation) => allocation.roomId)
+  };
+  const overlap = await findConflictingBooking(candidate, existing.id);
 
   if (overlap) {
     return NextResponse.json(
@@ -156,6 +167,50 @@ export async function PATCH(req: NextRequest) {
     );
   }
 
+  if (await findClashingHold(candidate)) {
+    return NextResponse.json({ error: "These dates are being held for someone on the waitlist" }, { status: 409 });
+  }
+
+  const feeConfig =
+    (await prisma.feeConfig.findFirst({
+      where: {
+        isActive: true,
+        effectiveFrom: { lte: startDate },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDate } }]
+      },
+      orderBy: { effectiveFrom: "desc" }
+    })) ?? (await prisma.feeConfig.create({ data: {} }));
+  const seasonalRates = await prisma.seasonalRate.findMany({ where: { feeConfigId: feeConfig.id, enabled: true } });
+  // Family stays keep their original guest split, so only external bookings are repriced;
+  // the minimum-stay rule applies to both.
+  const breakdown = calculateBookingFees(
+    {
+      source: "EXTERNAL_PUBLIC",
+      startDate,
+      nights,
+      // Last-minute discounts depend on when the stay was booked, not when it was edited.
+      bookedAt: existing.createdAt,
+      petCount: parsed.data.petCount,
+      counts: {
+        member: 0,
+        dependentWithMember: 0,
+        dependentWithoutMember: 0,
+        guestOfMember: 0,
+        guestOfDependent: 0,
+        mereFamily: 0,
+        visitorAdult: parsed.data.totalGuests,
+        visitorChildUnder6: 0
+      }
+    },
+    feeConfig,
+    seasonalRates
+  );
+
+  const stayTooShort = minimumNightsError(breakdown, nights);
+  if (stayTooShort) {
+    return NextResponse.json({ error: stayTooShort, minimumNights: breakdown.minimumNights }, { status: 400 });
+  }
+
   const requiresReapproval = existing.status !== BookingStatus.PENDING;
   const updated = await prisma.$transaction(async (tx) => {
     let totalAmount: Prisma.Decimal | number | string | null = existing.totalAmount;
@@ -163,36 +218,6 @@ export async function PATCH(req: NextRequest) {
       existing.feeSnapshot === null ? undefined : (existing.feeSnapshot as Prisma.InputJsonValue);
 
     if (existing.source === BookingSource.EXTERNAL_PUBLIC) {
-      const feeConfig =
-        (await tx.feeConfig.findFirst({
-          where: {
-            isActive: true,
-            effectiveFrom: { lte: startDate },
-            OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDate } }]
-          },
-          orderBy: { effectiveFrom: "desc" }
-        })) ?? (await tx.feeConfig.create({ data: {} }));
-
-      const seasonalRates = await tx.seasonalRate.findMany({ where: { feeConfigId: feeConfig.id, enabled: true } });
-      const breakdown = calculateBookingFees(
-        {
-          source: "EXTERNAL_PUBLIC",
-          startDate,
-          nights,
-          counts: {
-            member: 0,
-            dependentWithMember: 0,
-            dependentWithoutMember: 0,
-            guestOfMember: 0,
-            guestOfDependent: 0,
-            mereFamily: 0,
-            visitorAdult: parsed.data.totalGuests,
-            visitorChildUnder6: 0
-          }
-        },
-        feeConfig,
-        seasonalRates
-      );
       totalAmount = breakdown.total;
       feeSnapshot = breakdown as Prisma.InputJsonValue;
     }
@@ -1,3 +1,4 @@
+import { DepositType } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
@@ -7,37 +8,48 @@ import {
   DEFAULT_GUEST_BULLETIN_TITLE,
   DEFAULT_PET_NOTICE
 } from "@/lib/booking-policy";
+import { getBookingPolicy } from "@/lib/booking-payments";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
 
+const cancellationTiersSchema = z
+  .array(
+    z.object({
+      minDaysBefore: z.number().int().nonnegative().max(365),
+      refundPercent: z.number().min(0).max(100)
+    })
+  )
+  .max(10);
+
 const updatePolicySchema = z.object({
   petNotice: z.string().trim().min(10).max(2000).optional(),
   guestBulletinTitle: z.string().trim().min(3).max(120).optional(),
-  guestBulletinBody: z.string().trim().min(10).max(6000).optional()
+  guestBulletinBody: z.string().trim().min(10).max(6000).optional(),
+  depositType: z.nativeEnum(DepositType).optional(),
+  depositValue: z.number().nonnegative().max(1000000).optional(),
+  depositDueDays: z.number().int().nonnegative().max(365).optional(),
+  balanceDueDaysBeforeArrival: z.number().int().nonnegative().max(365).optional(),
+  internalCancellationTiers: cancellationTiersSchema.optional(),
+  externalCancellationTiers: cancellationTiersSchema.optional(),
+  waitlistHoldHours: z.number().int().positive().max(720).optional()
 }).superRefine((value, ctx) => {
-  if (
-    value.petNotice === undefined &&
-    value.guestBulletinTitle === undefined &&
-    value.guestBulletinBody === undefined
-  ) {
+  if (Object.values(value).every((field) => field === undefined)) {
     ctx.addIssue({
       code: "custom",
       message: "At least one field must be provided."
     });
   }
+  if (value.depositType === DepositType.PERCENTAGE && value.depositValue !== undefined && value.depositValue > 100) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["depositValue"],
+      message: "Percentage deposits cannot exceed 100."
+    });
+  }
 });
 
 export async function GET() {
-  const policy = await prisma.bookingPolicy.upsert({
-    where: { id: BOOKING_POLICY_ID },
-    update: {},
-    create: {
-      id: BOOKING_POLICY_ID,
-      petNotice: DEFAULT_PET_NOTICE,
-      guestBulletinTitle: DEFAULT_GUEST_BULLETIN_TITLE,
-      guestBulletinBody: DEFAULT_GUEST_BULLETIN_BODY
-    }
-  });
+  const policy = await getBookingPolicy();
 
   return NextResponse.json({ policy });
 }
@@ -54,29 +66,34 @@ export async function PUT(req: NextRequest) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const existingPolicy = await prisma.bookingPolicy.upsert({
-    where: { id: BOOKING_POLICY_ID },
-    update: {},
-    create: {
-      id: BOOKING_POLICY_ID,
-      petNotice: DEFAULT_PET_NOTICE,
-      guestBulletinTitle: DEFAULT_GUEST_BULLETIN_TITLE,
-      guestBulletinBody: DEFAULT_GUEST_BULLETIN_BODY
-    }
-  });
+  const existingPolicy = await getBookingPolicy();
 
   const policy = await prisma.bookingPolicy.upsert({
     where: { id: BOOKING_POLICY_ID },
     update: {
       petNotice: parsed.data.petNotice ?? existingPolicy.petNotice,
       guestBulletinTitle: parsed.data.guestBulletinTitle ?? existingPolicy.guestBulletinTitle,
-      guestBulletinBody: parsed.data.guestBulletinBody ?? existingPolicy.guestBulletinBody
+      guestBulletinBody: parsed.data.guestBulletinBody ?? existingPolicy.guestBulletinBody,
+      depositType: parsed.data.depositType,
+      depositValue: parsed.data.depositValue,
+      depositDueDays: parsed.data.depositDueDays,
+      balanceDueDaysBeforeArrival: parsed.data.balanceDueDaysBeforeArrival,
+      internalCancellationTiers: parsed.data.internalCancellationTiers,
+      externalCancellationTiers: parsed.data.externalCancellationTiers,
+      waitlistHoldHours: parsed.data.waitlistHoldHours
     },
     create: {
       id: BOOKING_POLICY_ID,
       petNotice: parsed.data.petNotice ?? DEFAULT_PET_NOTICE,
       guestBulletinTitle: parsed.data.guestBulletinTitle ?? DEFAULT_GUEST_BULLETIN_TITLE,
-      guestBulletinBody: parsed.data.guestBulletinBody ?? DEFAULT_GUEST_BULLETIN_BODY
+      guestBulletinBody: parsed.data.guestBulletinBody ?? DEFAULT_GUEST_BULLETIN_BODY,
+      depositType: parsed.data.depositType,
+      depositValue: parsed.data.depositValue,
+      depositDueDays: parsed.data.depositDueDays,
+      balanceDueDaysBeforeArrival: parsed.data.balanceDueDaysBeforeArrival,
+      internalCancellationTiers: parsed.data.internalCancellationTiers,
+      externalCancellationTiers: parsed.data.externalCancellationTiers,
+      waitlistHoldHours: parsed.data.waitlistHoldHours
     }
   });
 
@@ -8,14 +8,17 @@ import {
 } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { findConflictingBooking, validateRoomAllocations } from "@/lib/availability";
 import { calculateNights } from "@/lib/booking";
 import { buildManageBookingUrl, generateBookingManageToken, getAppBaseUrl } from "@/lib/booking-manage";
+import { BOOKING_PAYMENT_SELECT, withPaymentSummaries } from "@/lib/booking-payments";
 import { renderEmailTemplate } from "@/lib/email-templates";
-import { calculateBookingFees } from "@/lib/fees";
+import { calculateBookingFees, minimumNightsError } from "@/lib/fees";
 import { getSessionUser } from "@/lib/auth";
 import { getApproverEmails, sendMail } from "@/lib/mail";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
+import { findClashingHold, joinWaitlist, markWaitlistConverted, resolveWaitlistHold } from "@/lib/waitlist";
 
 const bookingGuestSchema = z.object({
   fullName: z.string().min(1),
@@ -65,7 +68,11 @@ const createBookingSchema = z.object({
   externalLeadPhone: z.string().max(50).optional(),
   guests: z.array(bookingGuestSchema).optional(),
   guestBreakdown: guestBreakdownSchema,
-  roomAllocations: z.array(roomAllocationSchema).optional()
+  roomAllocations: z.array(roomAllocationSchema).optional(),
+  // Join the waitlist instead of failing when the dates are taken.
+  joinWaitlist: z.boolean().optional(),
+  // Token from a waitlist offer email; lets the holder book the dates held for them.
+  waitlistHoldToken: z.string().min(8).optional()
 });
 
 function sumGuests(payload: z.infer<typeof createBookingSchema>): number {
@@ -156,14 +163,18 @@ export async function GET(req: NextRequest) {
           actor: { select: { id: true, name: true, email: true, role: true } }
         },
         orderBy: { createdAt: "asc" }
-      }
+      },
+      payments: BOOKING_PAYMENT_SELECT
     },
     take: take > 0 && take <= 1000 ? take : 200
   });
 
-  const sanitizedBookings = bookings.map((booking) => {
-    const { manageToken: _manageToken, ...sanitizedBooking } = booking;
-    return sanitizedBooking;
+  const sanitizedBookings = (await withPaymentSummaries(bookings)).map((booking) => {
+    const { manageToken: _manageToken, payments, paymentSummary, ...sanitizedBooking } = booking;
+    // Members can see other approved stays on the calendar, but not what anyone else has paid.
+    return isAdmin || booking.requestedById === user.id
+      ? { ...sanitizedBooking, payments, paymentSummary }
+      : sanitizedBooking;
   });
 
   return NextResponse.json({ bookings: sanitizedBookings });
@@ -222,23 +233,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const overlap = await prisma.booking.findFirst({
-      where: {
-        status: { in: [BookingStatus.PENDING, BookingStatus.APPROVED] },
-        startDate: { lt: endDate },
-        endDate: { gt: startDate }
-      },
-      select: { id: true, status: true, startDate: true, endDate: true }
-    });
-
-    if (overlap) {
-      return NextResponse.json(
-        {
-          error: "Booking dates overlap with an existing pending or approved booking",
-          conflictingBooking: overlap
-        },
-        { status: 409 }
-      );
+    const roomAllocations = scope === BookingScope.ROOM_SPECIFIC ? payload.roomAllocations ?? [] : [];
+    if (scope === BookingScope.ROOM_SPECIFIC) {
+      const allocationError = await validateRoomAllocations(roomAllocations);
+      if (allocationError) {
+        return NextResponse.json({ error: allocationError }, { status: 400 });
+      }
     }
 
     const { feeConfig, seasonalRates } = await getActiveFeeConfig(startDate);
@@ -247,12 +247,107 @@ export async function POST(req: NextRequest) {
         source: source === BookingSource.EXTERNAL_PUBLIC ? "EXTERNAL_PUBLIC" : "INTERNAL",
         startDate,
         nights,
+        petCount: payload.petCount,
         counts: payload.guestBreakdown
       },
       feeConfig,
       seasonalRates
     );
 
+    const stayTooShort = minimumNightsError(feeBreakdown, nights);
+    if (stayTooShort) {
+      return NextResponse.json(
+        { error: stayTooShort, minimumNights: feeBreakdown.minimumNights },
+        { status: 400 }
+      );
+    }
+
+    const waitlistHold = payload.waitlistHoldToken ? await resolveWaitlistHold(payload.waitlistHoldToken) : null;
+    if (payload.waitlistHoldToken && !waitlistHold) {
+      return NextResponse.json({ error: "This waitlist hold has expired or was already used" }, { status: 410 });
+    }
+    // A hold belongs to whoever joined the waitlist: the member who asked, or for external guests the contact email.
+    if (waitlistHold?.requestedById && !user) {
+      return NextResponse.json({ error: "Sign in to use the dates held for you" }, { status: 401 });
+    }
+    if (
+      waitlistHold &&
+      (waitlistHold.requestedById
+        ? waitlistHold.requestedById !== user?.id
+        : waitlistHold.contactEmail.toLowerCase() !== (user?.email ?? payload.externalLeadEmail ?? "").toLowerCase())
+    ) {
+      return NextResponse.json({ error: "This waitlist hold belongs to someone else" }, { status: 403 });
+    }
+    if (waitlistHold && (startDate < waitlistHold.startDate || endDate > waitlistHold.endDate)) {
+      return NextResponse.json({ error: "Booking dates must fall within the dates held for you" }, { status: 400 });
+    }
+
+    const candidate = {
+      scope,
+      startDate,
+      endDate,
+      roomIds: roomAllocations.map((allocation) => allocation.roomId)
+    };
+    const overlap = await findConflictingBooking(candidate);
+    const hold = overlap ? null : await findClashingHold(candidate, waitlistHold?.id);
+
+    if (overlap || hold) {
+      if (payload.joinWaitlist) {
+        const contactEmail = user?.email ?? payload.externalLeadEmail;
+        if (!contactEmail) {
+          return NextResponse.json({ error: "An email address is required to join the waitlist" }, { status: 400 });
+        }
+
+        // Stored as submitted so the holder can replay it once the dates free up.
+        const { joinWaitlist: _joinWaitlist, waitlistHoldToken: _waitlistHoldToken, ...request } = payload;
+        const requestPayload = JSON.parse(
+          JSON.stringify({
+            ...request,
+            source: source === BookingSource.INTERNAL ? "INTERNAL" : "EXTERNAL_PUBLIC",
+            scope
+          })
+        ) as Prisma.InputJsonValue;
+        const entry = await joinWaitlist({
+          source,
+          scope,
+          startDate,
+          endDate,
+          roomIds: candidate.roomIds,
+          requestedById: user?.id,
+          contactName: user?.name ?? payload.externalLeadName,
+          contactEmail,
+          requestPayload
+        });
+
+        return NextResponse.json(
+          {
+            status: "WAITLISTED",
+            waitlistEntry: {
+              id: entry.id,
+              status: entry.status,
+              position: entry.rank,
+              startDate: entry.startDate,
+              endDate: entry.endDate
+            }
+          },
+          { status: 202 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: overlap
+            ? scope === BookingScope.ROOM_SPECIFIC
+              ? "Requested rooms are already booked for some of these dates"
+              : "Booking dates overlap with an existing pending or approved booking"
+            : "These dates are being held for someone on the waitlist",
+          conflictingBooking: overlap ?? undefined,
+          waitlistAvailable: true
+        },
+        { status: 409 }
+      );
+    }
+
     const manageToken = generateBookingManageToken();
 
     const booking = await prisma.booking.create({
@@ -286,9 +381,9 @@ export async function POST(req: NextRequest) {
             }
           : undefined,
         roomAllocations:
-          scope === BookingScope.ROOM_SPECIFIC && payload.roomAllocations?.length
+          roomAllocations.length > 0
             ? {
-                create: payload.roomAllocations.map((allocation) => ({
+                create: roomAllocations.map((allocation) => ({
                   roomId: allocation.roomId,
                   guestLabel: allocation.guestLabel,
                   guestCount: allocation.guestCount
@@ -300,10 +395,14 @@ export async function POST(req: NextRequest) {
             actorId: user?.id,
             actorRole: user?.role,
             action: BookingAuditAction.CREATED,
-            comment:
+            comment: [
               source === BookingSource.EXTERNAL_PUBLIC
                 ? "Public booking request submitted."
-                : "Member booking request submitted."
+                : "Member booking request submitted.",
+              waitlistHold ? "Converted from a waitlist hold." : ""
+            ]
+              .filter(Boolean)
+              .join(" ")
           }
         }
       },
@@ -321,6 +420,10 @@ export async function POST(req: NextRequest) {
       }
     });
 
+    if (waitlistHold) {
+      await markWaitlistConverted(waitlistHold.id, booking.id);
+    }
+
     const requesterEmail = booking.requestedBy?.email ?? booking.externalLeadEmail;
     const manageUrl = buildManageBookingUrl(booking.id, booking.manageToken ?? undefined, requesterEmail ?? undefined);
     const commonTemplateContext = {
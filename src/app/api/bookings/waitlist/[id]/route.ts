@@ -0,0 +1,46 @@
+import { WaitlistStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import { ACTIVE_WAITLIST_STATUSES, offerWaitlistHolds } from "@/lib/waitlist";
+
+const updateSchema = z.object({
+  status: z.literal(WaitlistStatus.WITHDRAWN)
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await req.json();
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.bookingWaitlistEntry.findUnique({ where: { id } });
+  if (!existing) {
+    return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 });
+  }
+  if (!ACTIVE_WAITLIST_STATUSES.includes(existing.status)) {
+    return NextResponse.json({ error: `A ${existing.status.toLowerCase()} entry cannot be withdrawn` }, { status: 409 });
+  }
+
+  const entry = await prisma.bookingWaitlistEntry.update({
+    where: { id },
+    data: { status: WaitlistStatus.WITHDRAWN, holdToken: null }
+  });
+
+  // Withdrawing a live offer frees its dates for the next person in line.
+  const offers = existing.status === WaitlistStatus.OFFERED ? await offerWaitlistHolds() : null;
+
+  const { holdToken: _holdToken, requestPayload: _requestPayload, ...sanitizedEntry } = entry;
+  return NextResponse.json({ entry: sanitizedEntry, offered: offers?.offered ?? [] });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { resolveWaitlistHold } from "@/lib/waitlist";
+
+// Public lookup for the link in a waitlist offer email; the token is the only credential.
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  if (token.length < 8) {
+    return NextResponse.json({ error: "Hold token is required" }, { status: 400 });
+  }
+
+  const hold = await resolveWaitlistHold(token);
+  if (!hold) {
+    const known = await prisma.bookingWaitlistEntry.findUnique({ where: { holdToken: token }, select: { id: true } });
+    return NextResponse.json(
+      { error: known ? "This hold has expired or was already used" : "Waitlist hold not found" },
+      { status: known ? 410 : 404 }
+    );
+  }
+
+  return NextResponse.json({
+    hold: {
+      id: hold.id,
+      source: hold.source,
+      scope: hold.scope,
+      startDate: hold.startDate,
+      endDate: hold.endDate,
+      holdExpiresAt: hold.holdExpiresAt,
+      requiresSignIn: hold.requestedById !== null,
+      request: hold.requestPayload
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import { ACTIVE_WAITLIST_STATUSES, offerWaitlistHolds, reorderWaitlist } from "@/lib/waitlist";
+
+const reorderSchema = z.object({
+  entryIds: z.array(z.string().min(1)).min(1).max(500)
+});
+
+async function requireManager(req: NextRequest) {
+  const user = await getSessionUser(req);
+  return user && hasPermission(user.role, "booking:manage") ? user : null;
+}
+
+export async function GET(req: NextRequest) {
+  if (!(await requireManager(req))) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const includeClosed = req.nextUrl.searchParams.get("status") === "all";
+  const entries = await prisma.bookingWaitlistEntry.findMany({
+    where: includeClosed ? undefined : { status: { in: ACTIVE_WAITLIST_STATUSES } },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    include: { requestedBy: { select: { name: true, email: true } } },
+    take: 500
+  });
+
+  return NextResponse.json({
+    entries: entries.map(({ holdToken: _holdToken, requestPayload: _requestPayload, ...entry }) => entry)
+  });
+}
+
+// Reorders the active waitlist; the body must list every waiting or offered entry once.
+export async function PATCH(req: NextRequest) {
+  if (!(await requireManager(req))) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const parsed = reorderSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const active = await prisma.bookingWaitlistEntry.findMany({
+    where: { status: { in: ACTIVE_WAITLIST_STATUSES } },
+    select: { id: true }
+  });
+  const requested = new Set(parsed.data.entryIds);
+  const matchesActive =
+    requested.size === parsed.data.entryIds.length &&
+    active.length === requested.size &&
+    active.every((entry) => requested.has(entry.id));
+  if (!matchesActive) {
+    return NextResponse.json(
+      { error: "The waitlist changed since it was loaded; reload and try again" },
+      { status: 409 }
+    );
+  }
+
+  await reorderWaitlist(parsed.data.entryIds);
+  return NextResponse.json({ reordered: parsed.data.entryIds.length });
+}
+
+// Offers holds straight away instead of waiting for the next release or scheduled run.
+export async function POST(req: NextRequest) {
+  if (!(await requireManager(req))) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const summary = await offerWaitlistHolds();
+  return NextResponse.json(summary);
+}
+
@@ -0,0 +1,88 @@
+import { BookingStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { bookingToFeedEvent, type CalendarFeedScope } from "@/lib/calendar-feed";
+import { CHANNEL_BOOKING_SOURCES } from "@/lib/channel-sync";
+import { serializeICalendar } from "@/lib/ical";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ feed: string }> };
+
+const feedInclude = {
+  requestedBy: { select: { name: true, email: true } },
+  roomAllocations: { include: { room: { select: { name: true } } } }
+} as const;
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { feed } = await params;
+  const token = feed.replace(/\.ics$/i, "");
+  if (token.length < 16) {
+    return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+  }
+
+  const statuses: BookingStatus[] =
+    req.nextUrl.searchParams.get("includePending") === "true"
+      ? [BookingStatus.APPROVED, BookingStatus.PENDING]
+      : [BookingStatus.APPROVED];
+
+  // Keep a short tail of past stays so subscribed calendars don't drop them immediately.
+  const since = new Date();
+  since.setDate(since.getDate() - 90);
+
+  let scope: CalendarFeedScope;
+  let calendarName: string;
+  let bookings;
+
+  const connection = await prisma.channelConnection.findUnique({ where: { exportToken: token } });
+  if (connection) {
+    scope = "channel";
+    calendarName = "Reebok House availability";
+    bookings = await prisma.booking.findMany({
+      where: {
+        status: { in: statuses },
+        endDate: { gte: since },
+        // Don't echo a channel's own reservations back to it.
+        source: { not: CHANNEL_BOOKING_SOURCES[connection.provider] }
+      },
+      include: feedInclude,
+      orderBy: { startDate: "asc" },
+      take: 2000
+    });
+  } else {
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: { id: true, role: true, isActive: true }
+    });
+
+    if (!user || !user.isActive) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    scope = hasPermission(user.role, "booking:manage") ? "admin" : "member";
+    calendarName = scope === "admin" ? "Reebok House bookings" : "My Reebok House bookings";
+    bookings = await prisma.booking.findMany({
+      where: {
+        status: { in: statuses },
+        endDate: { gte: since },
+        requestedById: scope === "member" ? user.id : undefined
+      },
+      include: feedInclude,
+      orderBy: { startDate: "asc" },
+      take: 2000
+    });
+  }
+
+  const calendar = serializeICalendar(
+    calendarName,
+    bookings.map((booking) => bookingToFeedEvent(booking, scope))
+  );
+
+  return new NextResponse(calendar, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": "inline; filename=reebok-house.ics",
+      "Cache-Control": "no-store"
+    }
+  });
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser, type SessionUser } from "@/lib/auth";
+import { buildCalendarFeedUrl, generateCalendarToken } from "@/lib/calendar-feed";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const tokenSchema = z.discriminatedUnion("target", [
+  z.object({ target: z.literal("me") }),
+  z.object({ target: z.literal("channel"), connectionId: z.string().min(1) })
+]);
+
+function canManageChannels(user: SessionUser): boolean {
+  return hasPermission(user.role, "booking:manage");
+}
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const account = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { calendarToken: true }
+  });
+
+  const channels = canManageChannels(user)
+    ? await prisma.channelConnection.findMany({
+        orderBy: { provider: "asc" },
+        select: { id: true, provider: true, accountLabel: true, exportToken: true }
+      })
+    : [];
+
+  return NextResponse.json({
+    feedUrl: account?.calendarToken ? buildCalendarFeedUrl(account.calendarToken) : null,
+    channels: channels.map(({ exportToken, ...channel }) => ({
+      ...channel,
+      feedUrl: exportToken ? buildCalendarFeedUrl(exportToken) : null
+    }))
+  });
+}
+
+// Issuing a token always rotates it, so a leaked feed URL can be replaced in one step.
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const body = await req.json();
+  const parsed = tokenSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const token = generateCalendarToken();
+
+  if (parsed.data.target === "channel") {
+    if (!canManageChannels(user)) {
+      return NextResponse.json({ error: "Manage bookings permission required" }, { status: 403 });
+    }
+
+    const existing = await prisma.channelConnection.findUnique({ where: { id: parsed.data.connectionId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Channel connection not found" }, { status: 404 });
+    }
+
+    await prisma.channelConnection.update({ where: { id: existing.id }, data: { exportToken: token } });
+    return NextResponse.json({ feedUrl: buildCalendarFeedUrl(token) }, { status: 201 });
+  }
+
+  await prisma.user.update({ where: { id: user.id }, data: { calendarToken: token } });
+  return NextResponse.json({ feedUrl: buildCalendarFeedUrl(token) }, { status: 201 });
+}
+
+export async function DELETE(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const body = await req.json();
+  const parsed = tokenSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  if (parsed.data.target === "channel") {
+    if (!canManageChannels(user)) {
+      return NextResponse.json({ error: "Manage bookings permission required" }, { status: 403 });
+    }
+
+    await prisma.channelConnection.updateMany({
+      where: { id: parsed.data.connectionId },
+      data: { exportToken: null }
+    });
+  } else {
+    await prisma.user.update({ where: { id: user.id }, data: { calendarToken: null } });
+  }
+
+  return NextResponse.json({ revoked: true });
+}
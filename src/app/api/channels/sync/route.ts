@@ -2,14 +2,21 @@ import { IntegrationProvider, IntegrationStatus, Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
+import { syncChannelConnection } from "@/lib/channel-sync";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
 
 const syncSchema = z.object({
   provider: z.nativeEnum(IntegrationProvider),
   action: z.enum(["connect", "sync"]),
+  connectionId: z.string().optional(),
   accountLabel: z.string().max(120).optional(),
-  settings: z.record(z.unknown()).optional()
+  settings: z
+    .object({
+      icalUrl: z.string().url().optional()
+    })
+    .passthrough()
+    .optional()
 });
 
 export async function GET(req: NextRequest) {
@@ -53,16 +60,22 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ connection }, { status: 201 });
   }
 
-  const updated = await prisma.channelConnection.updateMany({
-    where: { provider: parsed.data.provider, status: IntegrationStatus.CONNECTED },
-    data: {
-      lastSyncAt: new Date(),
-      lastSyncStatus: "Sync placeholder complete. Use iCal/API implementation in next iteration."
-    }
+  const connections = await prisma.channelConnection.findMany({
+    where: {
+      id: parsed.data.connectionId,
+      provider: parsed.data.provider,
+      status: { in: [IntegrationStatus.CONNECTED, IntegrationStatus.ERROR] }
+    },
+    orderBy: { createdAt: "asc" }
   });
 
+  const results = [];
+  for (const connection of connections) {
+    results.push(await syncChannelConnection(connection));
+  }
+
   return NextResponse.json({
-    syncedConnections: updated.count,
-    message: "Channel sync endpoint is scaffolded for iCal/API integration in the next iteration."
+    syncedConnections: results.length,
+    results
   });
 }
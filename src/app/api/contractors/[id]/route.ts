@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { buildContractorHistory, withoutContractorFinance, withoutHistoryFinance } from "@/lib/contractors";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const contractor = await prisma.contractor.findUnique({ where: { id } });
+  if (!contractor) {
+    return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
+  }
+
+  const history = await buildContractorHistory(contractor.id);
+
+  if (!hasPermission(user.role, "finance:view") && !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({
+      contractor: withoutContractorFinance(contractor),
+      history: withoutHistoryFinance(history)
+    });
+  }
+
+  return NextResponse.json({ contractor, history });
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { summarizeContractors, withoutContractorFinance, withoutSummaryFinance } from "@/lib/contractors";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const contractorSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(2).max(160),
+  trade: z.string().max(120).optional(),
+  contactName: z.string().max(160).optional(),
+  email: z.union([z.string().email(), z.literal("")]).optional(),
+  phone: z.string().max(40).optional(),
+  address: z.string().max(500).optional(),
+  hourlyRate: z.number().nonnegative().nullable().optional(),
+  calloutFee: z.number().nonnegative().nullable().optional(),
+  rateNotes: z.string().max(500).optional(),
+  // B-BBEE contributor level, 1 (best) to 8.
+  beeLevel: z.number().int().min(1).max(8).nullable().optional(),
+  beeCertificateNumber: z.string().max(80).optional(),
+  taxNumber: z.string().max(40).optional(),
+  vatNumber: z.string().max(40).optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  notes: z.string().max(2000).optional(),
+  isActive: z.boolean().default(true)
+});
+
+function contractorData(data: z.infer<typeof contractorSchema>) {
+  return {
+    name: data.name,
+    trade: data.trade || null,
+    contactName: data.contactName || null,
+    email: data.email || null,
+    phone: data.phone || null,
+    address: data.address || null,
+    hourlyRate: data.hourlyRate ?? null,
+    calloutFee: data.calloutFee ?? null,
+    rateNotes: data.rateNotes || null,
+    beeLevel: data.beeLevel ?? null,
+    beeCertificateNumber: data.beeCertificateNumber || null,
+    taxNumber: data.taxNumber || null,
+    vatNumber: data.vatNumber || null,
+    rating: data.rating ?? null,
+    notes: data.notes || null,
+    isActive: data.isActive
+  };
+}
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const includeInactive = req.nextUrl.searchParams.get("includeInactive") === "true";
+  const trade = req.nextUrl.searchParams.get("trade");
+
+  const contractors = await prisma.contractor.findMany({
+    where: {
+      isActive: includeInactive ? undefined : true,
+      trade: trade ? { equals: trade, mode: "insensitive" } : undefined
+    },
+    orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    take: 500
+  });
+  const summaries = await summarizeContractors(contractors.map((contractor) => contractor.id));
+
+  if (!hasPermission(user.role, "finance:view") && !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({
+      contractors: contractors.map((contractor) => ({
+        ...withoutContractorFinance(contractor),
+        summary: withoutSummaryFinance(summaries[contractor.id])
+      }))
+    });
+  }
+
+  return NextResponse.json({
+    contractors: contractors.map((contractor) => ({ ...contractor, summary: summaries[contractor.id] }))
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "assets:edit")) {
+    return NextResponse.json({ error: "Asset edit permission required" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = contractorSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const contractor = await prisma.contractor.create({ data: contractorData(parsed.data) });
+
+  return NextResponse.json({ contractor }, { status: 201 });
+}
+
+export async function PATCH(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "assets:edit")) {
+    return NextResponse.json({ error: "Asset edit permission required" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = contractorSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  if (!parsed.data.id) {
+    return NextResponse.json({ error: "Contractor id is required." }, { status: 400 });
+  }
+
+  const existing = await prisma.contractor.findUnique({ where: { id: parsed.data.id }, select: { id: true } });
+  if (!existing) {
+    return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
+  }
+
+  const contractor = await prisma.contractor.update({
+    where: { id: existing.id },
+    data: contractorData(parsed.data)
+  });
+
+  return NextResponse.json({ contractor });
+}
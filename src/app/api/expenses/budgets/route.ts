@@ -0,0 +1,97 @@
+import { ExpenseCategory, Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { buildBudgetReport, notifyBudgetOverruns } from "@/lib/budgets";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const budgetSchema = z
+  .object({
+    year: z.number().int().min(2000).max(2100),
+    category: z.nativeEnum(ExpenseCategory),
+    annualAmount: z.number().nonnegative(),
+    // Optional phasing; when given it must add up to the annual amount.
+    monthlyAmounts: z.array(z.number().nonnegative()).length(12).nullable().optional(),
+    alertEnabled: z.boolean().default(true)
+  })
+  .refine(
+    (value) =>
+      !value.monthlyAmounts ||
+      Math.abs(value.monthlyAmounts.reduce((sum, amount) => sum + amount, 0) - value.annualAmount) < 0.01,
+    { message: "Monthly amounts must add up to the annual amount", path: ["monthlyAmounts"] }
+  );
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const year = Number(req.nextUrl.searchParams.get("year") ?? new Date().getUTCFullYear());
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+  }
+
+  const report = await buildBudgetReport(year);
+  return NextResponse.json({ report });
+}
+
+export async function PUT(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = budgetSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const monthlyAmounts = parsed.data.monthlyAmounts ?? Prisma.DbNull;
+  // A new amount re-arms the overrun alert.
+  const budget = await prisma.expenseBudget.upsert({
+    where: { year_category: { year: parsed.data.year, category: parsed.data.category } },
+    update: {
+      annualAmount: parsed.data.annualAmount,
+      monthlyAmounts,
+      alertEnabled: parsed.data.alertEnabled,
+      alertedAt: null
+    },
+    create: {
+      year: parsed.data.year,
+      category: parsed.data.category,
+      annualAmount: parsed.data.annualAmount,
+      monthlyAmounts,
+      alertEnabled: parsed.data.alertEnabled
+    }
+  });
+
+  try {
+    await notifyBudgetOverruns(parsed.data.year);
+  } catch (error) {
+    console.error(error);
+  }
+
+  return NextResponse.json({ budget });
+}
+
+export async function DELETE(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Budget id is required" }, { status: 400 });
+  }
+
+  const deleted = await prisma.expenseBudget.deleteMany({ where: { id } });
+  if (deleted.count === 0) {
+    return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ deleted: true });
+}
@@ -2,6 +2,7 @@ import { ExpenseCategory, Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
+import { notifyBudgetOverruns } from "@/lib/budgets";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
 
@@ -18,14 +19,24 @@ const expenseSchema = z.object({
   supplier: z.string().max(160).optional(),
   invoiceNumber: z.string().max(120).optional(),
   amount: z.number().nonnegative(),
+  // Input VAT on the invoice. Amounts are stored VAT-inclusive; send amountIncludesVat: false
+  // to capture the exclusive amount and have the VAT added to it.
+  vatAmount: z.number().nonnegative().optional(),
+  amountIncludesVat: z.boolean().default(true),
   currency: z.string().default("ZAR"),
   serviceDate: z.coerce.date().optional(),
   dueDate: z.coerce.date().optional(),
   paidDate: z.coerce.date().optional(),
   invoiceFileUrl: documentUrlSchema.optional(),
+  // Links the expense to a registered contractor; an empty string unlinks it.
+  contractorId: z.string().optional(),
   ocrData: z.unknown().optional()
 });
 
+function inclusiveAmount(data: z.infer<typeof expenseSchema>): number {
+  return data.amountIncludesVat ? data.amount : Math.round((data.amount + (data.vatAmount ?? 0)) * 100) / 100;
+}
+
 export async function GET(req: NextRequest) {
   const user = await getSessionUser(req);
   if (!user || !hasPermission(user.role, "finance:view")) {
@@ -33,14 +44,17 @@ export async function GET(req: NextRequest) {
   }
 
   const category = req.nextUrl.searchParams.get("category") as ExpenseCategory | null;
+  const contractorId = req.nextUrl.searchParams.get("contractorId");
   const take = Number(req.nextUrl.searchParams.get("take") ?? 200);
 
   const expenses = await prisma.expense.findMany({
     where: {
-      category: category && Object.values(ExpenseCategory).includes(category) ? category : undefined
+      category: category && Object.values(ExpenseCategory).includes(category) ? category : undefined,
+      contractorId: contractorId || undefined
     },
     include: {
-      createdBy: { select: { id: true, name: true, email: true } }
+      createdBy: { select: { id: true, name: true, email: true } },
+      contractor: { select: { id: true, name: true } }
     },
     orderBy: { serviceDate: "desc" },
     take: take > 0 && take <= 1000 ? take : 200
@@ -61,6 +75,20 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
+  const amount = inclusiveAmount(parsed.data);
+  if ((parsed.data.vatAmount ?? 0) > amount) {
+    return NextResponse.json({ error: "VAT amount cannot exceed the invoice total" }, { status: 400 });
+  }
+
+  const contractor = parsed.data.contractorId
+    ? await prisma.contractor.findUnique({ where: { id: parsed.data.contractorId }, select: { id: true, name: true } })
+    : null;
+  if (parsed.data.contractorId && !contractor) {
+    return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
+  }
+  const supplier = parsed.data.supplier || contractor?.name || undefined;
+  const contractorId = parsed.data.contractorId === undefined ? undefined : (contractor?.id ?? null);
+
   const expense = parsed.data.id
     ? await prisma.expense.update({
         where: { id: parsed.data.id },
@@ -68,9 +96,11 @@ export async function POST(req: NextRequest) {
           category: parsed.data.category,
           title: parsed.data.title,
           description: parsed.data.description,
-          supplier: parsed.data.supplier,
+          supplier,
+          contractorId,
           invoiceNumber: parsed.data.invoiceNumber,
-          amount: parsed.data.amount,
+          amount,
+          vatAmount: parsed.data.vatAmount,
           currency: parsed.data.currency,
           serviceDate: parsed.data.serviceDate,
           dueDate: parsed.data.dueDate,
@@ -84,9 +114,11 @@ export async function POST(req: NextRequest) {
           category: parsed.data.category,
           title: parsed.data.title,
           description: parsed.data.description,
-          supplier: parsed.data.supplier,
+          supplier,
+          contractorId,
           invoiceNumber: parsed.data.invoiceNumber,
-          amount: parsed.data.amount,
+          amount,
+          vatAmount: parsed.data.vatAmount,
           currency: parsed.data.currency,
           serviceDate: parsed.data.serviceDate,
           dueDate: parsed.data.dueDate,
@@ -97,5 +129,12 @@ export async function POST(req: NextRequest) {
         }
       });
 
+  // The expense is saved either way; a failed alert is retried by the budget-alerts job.
+  try {
+    await notifyBudgetOverruns((expense.serviceDate ?? expense.createdAt).getUTCFullYear());
+  } catch (error) {
+    console.error(error);
+  }
+
   return NextResponse.json({ expense }, { status: 201 });
 }
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { calculateBookingFees } from "@/lib/fees";
+import { calculateBookingFees, minimumNightsError } from "@/lib/fees";
 import { prisma } from "@/lib/prisma";
 
 const schema = z.object({
   source: z.enum(["INTERNAL", "EXTERNAL_PUBLIC"]),
   startDate: z.coerce.date(),
   nights: z.number().int().positive(),
+  petCount: z.number().int().nonnegative().max(20).default(0),
   counts: z.object({
     member: z.number().int().nonnegative().default(0),
     dependentWithMember: z.number().int().nonnegative().default(0),
@@ -45,6 +46,7 @@ export async function POST(req: NextRequest) {
 
   return NextResponse.json({
     breakdown,
+    minimumNightsError: minimumNightsError(breakdown, parsed.data.nights),
     feeConfigId: feeConfig.id
   });
 }
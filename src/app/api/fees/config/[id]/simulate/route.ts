@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { simulateFeeConfig } from "@/lib/fee-versions";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// What-if repricing: how recent and upcoming approved stays would be charged under this version.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const draft = await prisma.feeConfig.findUnique({ where: { id }, include: { seasonalRates: true } });
+  if (!draft) {
+    return NextResponse.json({ error: "Fee config not found" }, { status: 404 });
+  }
+
+  const simulation = await simulateFeeConfig(draft);
+  return NextResponse.json({ simulation });
+}
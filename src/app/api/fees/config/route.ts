@@ -14,6 +14,14 @@ const seasonalRateSchema = z.object({
   priority: z.number().int().default(0),
   externalAdultNightRate: z.number().positive(),
   externalChildNightRate: z.number().nonnegative(),
+  // Internal tiers are optional per season; omitted ones keep the base rate.
+  memberNightRate: z.number().nonnegative().nullable().optional(),
+  dependentWithMemberNightRate: z.number().nonnegative().nullable().optional(),
+  dependentWithoutMemberNightRate: z.number().nonnegative().nullable().optional(),
+  guestOfMemberNightRate: z.number().nonnegative().nullable().optional(),
+  guestOfDependentNightRate: z.number().nonnegative().nullable().optional(),
+  mereFamilyNightRate: z.number().nonnegative().nullable().optional(),
+  minNights: z.number().int().min(1).max(90).nullable().optional(),
   enabled: z.boolean().default(true)
 });
 
@@ -28,9 +36,23 @@ const feeConfigSchema = z.object({
   externalAdultNightRate: z.number().nonnegative(),
   externalChildNightRate: z.number().nonnegative(),
   externalWholeHouseMinRate: z.number().nonnegative().optional(),
+  minNights: z.number().int().min(1).max(90).default(1),
+  weeklyDiscountPercent: z.number().min(0).max(100).default(0),
+  monthlyDiscountPercent: z.number().min(0).max(100).default(0),
+  lastMinuteDays: z.number().int().min(0).max(90).default(0),
+  lastMinuteDiscountPercent: z.number().min(0).max(100).default(0),
+  petNightFee: z.number().nonnegative().default(0),
+  cleaningFee: z.number().nonnegative().default(0),
+  damageDeposit: z.number().nonnegative().default(0),
+  vatRegistered: z.boolean().default(false),
+  vatRate: z.number().min(0).max(100).default(15),
+  vatNumber: z.string().trim().max(30).optional(),
+  externalRatesIncludeVat: z.boolean().default(true),
   overdueReminderEnabled: z.boolean().default(true),
   currency: z.string().default("ZAR"),
   effectiveFrom: z.coerce.date().optional(),
+  // Inactive rows are drafts: listed under versions and simulated, but never used for pricing.
+  isActive: z.boolean().default(true),
   seasonalRates: z.array(seasonalRateSchema).default([])
 });
 
@@ -82,8 +104,21 @@ export async function POST(req: NextRequest) {
         externalAdultNightRate: parsed.data.externalAdultNightRate,
         externalChildNightRate: parsed.data.externalChildNightRate,
         externalWholeHouseMinRate: parsed.data.externalWholeHouseMinRate,
+        minNights: parsed.data.minNights,
+        weeklyDiscountPercent: parsed.data.weeklyDiscountPercent,
+        monthlyDiscountPercent: parsed.data.monthlyDiscountPercent,
+        lastMinuteDays: parsed.data.lastMinuteDays,
+        lastMinuteDiscountPercent: parsed.data.lastMinuteDiscountPercent,
+        petNightFee: parsed.data.petNightFee,
+        cleaningFee: parsed.data.cleaningFee,
+        damageDeposit: parsed.data.damageDeposit,
+        vatRegistered: parsed.data.vatRegistered,
+        vatRate: parsed.data.vatRate,
+        vatNumber: parsed.data.vatNumber || null,
+        externalRatesIncludeVat: parsed.data.externalRatesIncludeVat,
         overdueReminderEnabled: parsed.data.overdueReminderEnabled,
         currency: parsed.data.currency,
+        isActive: parsed.data.isActive,
         effectiveFrom: parsed.data.effectiveFrom ?? new Date()
       }
     });
@@ -100,6 +135,13 @@ export async function POST(req: NextRequest) {
           priority: rate.priority,
           externalAdultNightRate: rate.externalAdultNightRate,
           externalChildNightRate: rate.externalChildNightRate,
+          memberNightRate: rate.memberNightRate,
+          dependentWithMemberNightRate: rate.dependentWithMemberNightRate,
+          dependentWithoutMemberNightRate: rate.dependentWithoutMemberNightRate,
+          guestOfMemberNightRate: rate.guestOfMemberNightRate,
+          guestOfDependentNightRate: rate.guestOfDependentNightRate,
+          mereFamilyNightRate: rate.mereFamilyNightRate,
+          minNights: rate.minNights,
           enabled: rate.enabled
         }))
       });
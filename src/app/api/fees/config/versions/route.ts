@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { listFeeConfigVersions } from "@/lib/fee-versions";
+import { hasPermission } from "@/lib/rbac";
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const versions = await listFeeConfigVersions();
+  return NextResponse.json({ versions });
+}
@@ -0,0 +1,87 @@
+import { BankMatchStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { BANK_STATEMENT_FORMATS, detectBankStatementFormat } from "@/lib/bank-statements";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import { importBankStatement } from "@/lib/reconciliation";
+
+const importSchema = z.object({
+  fileName: z.string().trim().min(1).max(200),
+  format: z.enum(BANK_STATEMENT_FORMATS).optional(),
+  data: z.string().min(1)
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const status = req.nextUrl.searchParams.get("status");
+  if (status && !Object.values(BankMatchStatus).includes(status as BankMatchStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const [imports, transactions] = await Promise.all([
+    prisma.bankStatementImport.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      include: { uploadedBy: { select: { id: true, name: true } } }
+    }),
+    prisma.bankTransaction.findMany({
+      where: status ? { matchStatus: status as BankMatchStatus } : undefined,
+      orderBy: [{ postedAt: "desc" }, { createdAt: "desc" }],
+      take: 300,
+      include: {
+        payment: {
+          select: {
+            id: true,
+            amount: true,
+            status: true,
+            reference: true,
+            bookingId: true,
+            payer: { select: { id: true, name: true } }
+          }
+        },
+        subscription: { select: { id: true, monthlyAmount: true, user: { select: { id: true, name: true } } } },
+        expense: { select: { id: true, title: true, supplier: true, amount: true, paidDate: true } },
+        confirmedBy: { select: { id: true, name: true } }
+      }
+    })
+  ]);
+
+  return NextResponse.json({ imports, transactions });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const parsed = importSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const format = parsed.data.format ?? detectBankStatementFormat(parsed.data.fileName, parsed.data.data);
+  let result;
+  try {
+    result = await importBankStatement({
+      fileName: parsed.data.fileName,
+      format,
+      content: parsed.data.data,
+      uploadedById: user.id
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not read the bank statement" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ result }, { status: 201 });
+}
@@ -0,0 +1,135 @@
+import { BankMatchStatus, BankTransactionDirection, PaymentStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import { bankAmountMismatch, confirmBankMatch, findMatchCandidates } from "@/lib/reconciliation";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("confirm"),
+    targetType: z.enum(["PAYMENT", "SUBSCRIPTION", "EXPENSE"]),
+    targetId: z.string().min(1),
+    monthsCovered: z.number().int().positive().max(24).optional(),
+    acceptAmountDifference: z.boolean().optional()
+  }),
+  z.object({ action: z.literal("ignore") }),
+  z.object({ action: z.literal("unmatch") })
+]);
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const transaction = await prisma.bankTransaction.findUnique({ where: { id } });
+  if (!transaction) {
+    return NextResponse.json({ error: "Bank transaction not found" }, { status: 404 });
+  }
+
+  const candidates = await findMatchCandidates(transaction);
+  return NextResponse.json({ transaction, candidates });
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await req.json();
+  const parsed = actionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const transaction = await prisma.bankTransaction.findUnique({ where: { id } });
+  if (!transaction) {
+    return NextResponse.json({ error: "Bank transaction not found" }, { status: 404 });
+  }
+  // Confirmed lines have already moved money in the payment or expense ledgers.
+  if (transaction.matchStatus === BankMatchStatus.CONFIRMED) {
+    return NextResponse.json({ error: "Bank transaction is already confirmed" }, { status: 409 });
+  }
+
+  if (parsed.data.action !== "confirm") {
+    const updated = await prisma.bankTransaction.update({
+      where: { id },
+      data: {
+        matchStatus: parsed.data.action === "ignore" ? BankMatchStatus.IGNORED : BankMatchStatus.UNMATCHED,
+        matchScore: null,
+        matchReason: null,
+        paymentId: null,
+        subscriptionId: null,
+        expenseId: null
+      }
+    });
+    return NextResponse.json({ transaction: updated });
+  }
+
+  const { targetType, targetId, monthsCovered, acceptAmountDifference } = parsed.data;
+  const isCredit = transaction.direction === BankTransactionDirection.CREDIT;
+  if (isCredit === (targetType === "EXPENSE")) {
+    return NextResponse.json(
+      { error: isCredit ? "Money in can only match a payment or subscription" : "Money out can only match an expense" },
+      { status: 400 }
+    );
+  }
+
+  let amountMismatch: string | null = null;
+  if (targetType === "PAYMENT") {
+    const payment = await prisma.payment.findUnique({
+      where: { id: targetId },
+      select: { status: true, amount: true }
+    });
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+    if (payment.status !== PaymentStatus.PENDING) {
+      return NextResponse.json({ error: `Payment is already ${payment.status.toLowerCase()}` }, { status: 409 });
+    }
+    amountMismatch = bankAmountMismatch(transaction.amount, payment.amount, "payment");
+  }
+  if (targetType === "SUBSCRIPTION") {
+    const subscription = await prisma.subscription.findUnique({ where: { id: targetId }, select: { id: true } });
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+  }
+  if (targetType === "EXPENSE") {
+    const expense = await prisma.expense.findUnique({
+      where: { id: targetId },
+      select: { paidDate: true, amount: true }
+    });
+    if (!expense) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+    if (expense.paidDate) {
+      return NextResponse.json({ error: "Expense is already marked paid" }, { status: 409 });
+    }
+    amountMismatch = bankAmountMismatch(transaction.amount, expense.amount, "expense");
+  }
+  if (amountMismatch && !acceptAmountDifference) {
+    return NextResponse.json(
+      { error: `${amountMismatch} Send acceptAmountDifference to confirm it anyway.` },
+      { status: 409 }
+    );
+  }
+
+  const confirmed = await confirmBankMatch(
+    id,
+    { type: targetType, id: targetId, monthsCovered, acceptAmountDifference },
+    user.id
+  );
+  if (!confirmed) {
+    return NextResponse.json({ error: "The transaction or its match changed; reload and try again" }, { status: 409 });
+  }
+
+  return NextResponse.json({ transaction: confirmed });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionUser } from "@/lib/auth";
 import { toCsv } from "@/lib/csv";
+import { readFeeSnapshot } from "@/lib/fees";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
 import { toXlsxBuffer } from "@/lib/xlsx";
@@ -49,10 +50,30 @@ export async function GET(req: NextRequest) {
 
   let rows: Array<Record<string, unknown>> = [];
 
+  // Expense amounts are stored VAT-inclusive; bookings carry their VAT split on the fee snapshot.
   if (entity === "expenses") {
-    rows = sanitizeRows(await prisma.expense.findMany({ orderBy: { createdAt: "desc" }, take: 5000 }));
+    const expenses = await prisma.expense.findMany({ orderBy: { createdAt: "desc" }, take: 5000 });
+    rows = sanitizeRows(
+      expenses.map((expense) => ({
+        ...expense,
+        amountExclVat: Math.round((Number(expense.amount) - Number(expense.vatAmount ?? 0)) * 100) / 100,
+        amountInclVat: Number(expense.amount)
+      }))
+    );
   } else if (entity === "bookings") {
-    rows = sanitizeRows(await prisma.booking.findMany({ orderBy: { createdAt: "desc" }, take: 5000 }));
+    const bookings = await prisma.booking.findMany({ orderBy: { createdAt: "desc" }, take: 5000 });
+    rows = sanitizeRows(
+      bookings.map((booking) => {
+        const vat = readFeeSnapshot(booking.feeSnapshot)?.vat;
+        return {
+          ...booking,
+          vatRate: vat?.rate ?? null,
+          amountExclVat: vat?.amountExclVat ?? null,
+          vatAmount: vat?.vatAmount ?? null,
+          amountInclVat: vat?.amountInclVat ?? null
+        };
+      })
+    );
   } else if (entity === "payments") {
     rows = sanitizeRows(await prisma.payment.findMany({ orderBy: { createdAt: "desc" }, take: 5000 }));
   } else if (entity === "subscriptions") {
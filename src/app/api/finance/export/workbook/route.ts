@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import {
+  buildFinanceWorkbook,
+  financeWorkbookFileName,
+  financeWorkbookToXlsx,
+  financeWorkbookToZip
+} from "@/lib/finance-workbook";
+import { hasPermission } from "@/lib/rbac";
+import { resolveStatementPeriod } from "@/lib/statements";
+
+const querySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(["xlsx", "zip"]).default("xlsx")
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:import-export")) {
+    return NextResponse.json({ error: "Finance import/export permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const period = resolveStatementPeriod(parsed.data.from, parsed.data.to);
+  if (period.from > period.to) {
+    return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  }
+
+  const workbook = await buildFinanceWorkbook(period.from, period.to);
+
+  if (parsed.data.format === "zip") {
+    return new NextResponse(Uint8Array.from(financeWorkbookToZip(workbook)).buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename=${financeWorkbookFileName(workbook, "zip")}`
+      }
+    });
+  }
+
+  return new NextResponse(Uint8Array.from(financeWorkbookToXlsx(workbook)).buffer, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename=${financeWorkbookFileName(workbook, "xlsx")}`
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { FinanceImportStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth";
+import { findRollbackBlockers, rollbackFinanceImport } from "@/lib/finance-import";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:import-export")) {
+    return NextResponse.json({ error: "Finance import/export permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const batch = await prisma.financeImportBatch.findUnique({ where: { id }, select: { status: true } });
+  if (!batch) {
+    return NextResponse.json({ error: "Import batch not found" }, { status: 404 });
+  }
+  if (batch.status === FinanceImportStatus.ROLLED_BACK) {
+    return NextResponse.json({ error: "Import batch is already rolled back" }, { status: 409 });
+  }
+
+  const blockers = await findRollbackBlockers(id);
+  if (blockers.length > 0) {
+    return NextResponse.json({ error: "Import batch cannot be rolled back", blockers }, { status: 409 });
+  }
+
+  const result = await rollbackFinanceImport(id, user.id);
+  if (!result) {
+    return NextResponse.json({ error: "Import batch is already rolled back" }, { status: 409 });
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import {
+  buildFinancialReport,
+  financialReportFileName,
+  financialReportToPdf,
+  financialReportToXlsx
+} from "@/lib/financial-reports";
+import { hasPermission } from "@/lib/rbac";
+
+const querySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  format: z.enum(["json", "pdf", "xlsx"]).default("json")
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const currentYear = new Date().getUTCFullYear();
+  const year = parsed.data.year ?? currentYear;
+  if (year > currentYear) {
+    return NextResponse.json({ error: "year cannot be in the future" }, { status: 400 });
+  }
+
+  const report = await buildFinancialReport(year);
+
+  if (parsed.data.format === "pdf") {
+    return new NextResponse(Uint8Array.from(financialReportToPdf(report)).buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename=${financialReportFileName(report, "pdf")}`
+      }
+    });
+  }
+
+  if (parsed.data.format === "xlsx") {
+    return new NextResponse(Uint8Array.from(financialReportToXlsx(report)).buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename=${financialReportFileName(report, "xlsx")}`
+      }
+    });
+  }
+
+  return NextResponse.json({ report });
+}
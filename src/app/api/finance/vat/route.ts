@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/rbac";
+import { resolveStatementPeriod } from "@/lib/statements";
+import { buildVatReport, vatReportFileName, vatReportToCsv } from "@/lib/vat";
+
+const querySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(["json", "csv"]).default("json")
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const period = resolveStatementPeriod(parsed.data.from, parsed.data.to);
+  if (period.from > period.to) {
+    return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  }
+
+  const report = await buildVatReport(period.from, period.to);
+
+  if (parsed.data.format === "csv") {
+    return new NextResponse(vatReportToCsv(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename=${vatReportFileName(report)}`
+      }
+    });
+  }
+
+  return NextResponse.json({ report });
+}
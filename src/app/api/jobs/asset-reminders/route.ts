@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_REMINDER_LEAD_DAYS, sendAssetReminders } from "@/lib/asset-register";
+
+function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return true;
+  }
+
+  return req.headers.get("x-cron-secret") === secret;
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const requested = Number(req.nextUrl.searchParams.get("leadDays") ?? process.env.ASSET_REMINDER_LEAD_DAYS);
+  const leadDays = Number.isInteger(requested) && requested >= 0 ? requested : DEFAULT_REMINDER_LEAD_DAYS;
+
+  const result = await sendAssetReminders(leadDays);
+
+  return NextResponse.json({ ...result, leadDays });
+}
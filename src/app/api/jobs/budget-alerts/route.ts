@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notifyBudgetOverruns } from "@/lib/budgets";
+
+function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return true;
+  }
+
+  return req.headers.get("x-cron-secret") === secret;
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const alerted = await notifyBudgetOverruns();
+
+  return NextResponse.json({ alerted });
+}
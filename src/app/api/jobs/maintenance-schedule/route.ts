@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_LEAD_DAYS, spawnDueOccurrences } from "@/lib/maintenance-schedule";
+
+function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return true;
+  }
+
+  return req.headers.get("x-cron-secret") === secret;
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const requested = Number(req.nextUrl.searchParams.get("leadDays") ?? process.env.MAINTENANCE_LEAD_DAYS);
+  const leadDays = Number.isInteger(requested) && requested >= 0 ? requested : DEFAULT_LEAD_DAYS;
+
+  const created = await spawnDueOccurrences(leadDays);
+
+  return NextResponse.json({ created, leadDays });
+}
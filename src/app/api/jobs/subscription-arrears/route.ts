@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { accrueSubscriptionArrears } from "@/lib/arrears";
+
+function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return true;
+  }
+
+  return req.headers.get("x-cron-secret") === secret;
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const summary = await accrueSubscriptionArrears();
+
+  return NextResponse.json({
+    asOf: summary.asOf,
+    subscriptionsProcessed: summary.subscriptionsProcessed,
+    chargesAdded: summary.results.reduce((total, result) => total + result.chargesAdded, 0),
+    inArrears: summary.results.filter((result) => result.arrearsAmount > 0).length
+  });
+}
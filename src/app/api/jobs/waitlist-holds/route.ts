@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { offerWaitlistHolds } from "@/lib/waitlist";
+
+function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return true;
+  }
+
+  return req.headers.get("x-cron-secret") === secret;
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const summary = await offerWaitlistHolds();
+
+  return NextResponse.json({
+    expired: summary.expired,
+    offered: summary.offered.length
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { getMaintenancePolicy, MAINTENANCE_POLICY_ID } from "@/lib/maintenance-approvals";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const updatePolicySchema = z
+  .object({
+    approvalThreshold: z.number().nonnegative().max(10000000).optional(),
+    requiredApprovals: z.number().int().min(1).max(20).optional(),
+    overrunTolerancePercent: z.number().min(0).max(100).optional()
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "At least one field must be provided."
+  });
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const policy = await getMaintenancePolicy();
+
+  return NextResponse.json({ policy });
+}
+
+export async function PUT(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Manage bookings permission required" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const parsed = updatePolicySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const policy = await prisma.maintenancePolicy.upsert({
+    where: { id: MAINTENANCE_POLICY_ID },
+    update: parsed.data,
+    create: { id: MAINTENANCE_POLICY_ID, ...parsed.data }
+  });
+
+  return NextResponse.json({ policy });
+}
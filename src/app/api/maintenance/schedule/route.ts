@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import {
+  applyOccurrenceException,
+  buildMaintenanceSchedule,
+  findSeries,
+  isSeriesOccurrence,
+  startOfUtcDay
+} from "@/lib/maintenance-schedule";
+import { hasPermission } from "@/lib/rbac";
+
+const occurrenceSchema = z
+  .object({
+    seriesId: z.string().min(1),
+    occurrenceDate: z.coerce.date(),
+    action: z.enum(["skip", "reschedule", "restore"]),
+    date: z.coerce.date().optional(),
+    note: z.string().max(300).optional()
+  })
+  .refine((data) => data.action !== "reschedule" || data.date, {
+    message: "Pick the new date for the occurrence.",
+    path: ["date"]
+  });
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const assetId = req.nextUrl.searchParams.get("assetId") ?? undefined;
+  const days = Number(req.nextUrl.searchParams.get("days") ?? 365);
+  const horizonDays = Number.isInteger(days) && days > 0 ? Math.min(days, 730) : 365;
+
+  const schedule = await buildMaintenanceSchedule({ assetId, horizonDays });
+
+  return NextResponse.json({ schedule });
+}
+
+export async function PATCH(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Only admins can change the maintenance schedule" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = occurrenceSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const series = await findSeries(parsed.data.seriesId);
+  if (!series) {
+    return NextResponse.json({ error: "Recurring task not found" }, { status: 404 });
+  }
+
+  const occurrenceDate = startOfUtcDay(parsed.data.occurrenceDate);
+  if (!isSeriesOccurrence(series, occurrenceDate)) {
+    return NextResponse.json({ error: "The date is not an occurrence of this schedule" }, { status: 400 });
+  }
+
+  const result = await applyOccurrenceException({
+    seriesId: series.seriesId,
+    occurrenceDate,
+    action: parsed.data.action,
+    rescheduledTo: parsed.data.date ? startOfUtcDay(parsed.data.date) : undefined,
+    note: parsed.data.note,
+    userId: user.id
+  });
+  if (!result) {
+    return NextResponse.json(
+      { error: "This occurrence has already been started and can no longer be changed" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ occurrence: result });
+}
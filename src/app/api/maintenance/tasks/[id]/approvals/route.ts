@@ -0,0 +1,81 @@
+import { MaintenanceStatus, UserRole } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { getSpendApprovalStatus, recordSpendApproval } from "@/lib/maintenance-approvals";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const approvalSchema = z.object({
+  note: z.string().trim().max(500).optional()
+});
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const approval = await getSpendApprovalStatus(id);
+  if (!approval) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ approval });
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || user.role !== UserRole.SHAREHOLDER) {
+    return NextResponse.json({ error: "Only shareholders can approve maintenance spend." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const payload = await req.json().catch(() => ({}));
+  const parsed = approvalSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const task = await prisma.maintenanceTask.findUnique({ where: { id }, select: { id: true, status: true } });
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  if (task.status !== MaintenanceStatus.OPEN) {
+    return NextResponse.json({ error: "Spend can only be approved while the task awaits approval." }, { status: 409 });
+  }
+
+  try {
+    const approval = await recordSpendApproval(task.id, user.id, parsed.data.note || undefined);
+    return NextResponse.json({ approval });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not record the approval" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || user.role !== UserRole.SHAREHOLDER) {
+    return NextResponse.json({ error: "Only shareholders can approve maintenance spend." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const task = await prisma.maintenanceTask.findUnique({ where: { id }, select: { id: true, status: true } });
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  if (task.status !== MaintenanceStatus.OPEN) {
+    return NextResponse.json({ error: "Approvals are fixed once the task has been approved." }, { status: 409 });
+  }
+
+  await prisma.maintenanceApproval.deleteMany({ where: { taskId: task.id, userId: user.id } });
+  const approval = await getSpendApprovalStatus(task.id);
+
+  return NextResponse.json({ approval });
+}
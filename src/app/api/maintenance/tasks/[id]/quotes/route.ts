@@ -0,0 +1,141 @@
+import { MaintenanceQuoteStatus, MaintenanceStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { acceptQuote } from "@/lib/maintenance-approvals";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const documentUrlSchema = z
+  .string()
+  .max(2048)
+  .refine((value) => value.startsWith("/") || /^https?:\/\//.test(value), "Document URL must be absolute or root-relative.");
+
+const createQuoteSchema = z
+  .object({
+    contractorId: z.string().optional(),
+    supplierName: z.string().trim().max(160).optional(),
+    amount: z.number().positive(),
+    validUntil: z.coerce.date().optional(),
+    documentUrl: documentUrlSchema.optional(),
+    notes: z.string().max(2000).optional()
+  })
+  .refine((data) => data.contractorId || data.supplierName, {
+    message: "Pick a contractor or enter the supplier name.",
+    path: ["supplierName"]
+  });
+
+const updateQuoteSchema = z.object({
+  quoteId: z.string().min(1),
+  status: z.nativeEnum(MaintenanceQuoteStatus)
+});
+
+const QUOTE_INCLUDE = {
+  contractor: { select: { id: true, name: true, trade: true } },
+  createdBy: { select: { id: true, name: true } }
+};
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "maintenance:view")) {
+    return NextResponse.json({ error: "Maintenance view permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const quotes = await prisma.maintenanceQuote.findMany({
+    where: { taskId: id },
+    include: QUOTE_INCLUDE,
+    orderBy: { amount: "asc" }
+  });
+
+  return NextResponse.json({ quotes });
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Only admins can add quotes." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const payload = await req.json();
+  const parsed = createQuoteSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const task = await prisma.maintenanceTask.findUnique({ where: { id }, select: { id: true, status: true } });
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  if (task.status !== MaintenanceStatus.OPEN) {
+    return NextResponse.json({ error: "Quotes can only be added while the task awaits approval." }, { status: 409 });
+  }
+  if (parsed.data.contractorId) {
+    const contractor = await prisma.contractor.findUnique({
+      where: { id: parsed.data.contractorId },
+      select: { id: true }
+    });
+    if (!contractor) {
+      return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
+    }
+  }
+
+  const quote = await prisma.maintenanceQuote.create({
+    data: {
+      taskId: task.id,
+      contractorId: parsed.data.contractorId,
+      supplierName: parsed.data.supplierName || undefined,
+      amount: parsed.data.amount,
+      validUntil: parsed.data.validUntil,
+      documentUrl: parsed.data.documentUrl,
+      notes: parsed.data.notes,
+      createdById: user.id
+    },
+    include: QUOTE_INCLUDE
+  });
+
+  return NextResponse.json({ quote }, { status: 201 });
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Only admins can accept or decline quotes." }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const payload = await req.json();
+  const parsed = updateQuoteSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const quote = await prisma.maintenanceQuote.findFirst({
+    where: { id: parsed.data.quoteId, taskId: id },
+    include: { task: { select: { status: true } } }
+  });
+  if (!quote) {
+    return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+  }
+  if (quote.task.status !== MaintenanceStatus.OPEN) {
+    return NextResponse.json({ error: "Quotes are fixed once the task has been approved." }, { status: 409 });
+  }
+
+  if (parsed.data.status === MaintenanceQuoteStatus.ACCEPTED) {
+    const accepted = await acceptQuote(id, quote.id);
+    if (!accepted) {
+      return NextResponse.json({ error: "Quotes are fixed once the task has been approved." }, { status: 409 });
+    }
+    return NextResponse.json({ quote: accepted });
+  }
+
+  const updated = await prisma.maintenanceQuote.update({
+    where: { id: quote.id },
+    data: { status: parsed.data.status }
+  });
+
+  return NextResponse.json({ quote: updated });
+}
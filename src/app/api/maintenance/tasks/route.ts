@@ -2,7 +2,18 @@ import { MaintenancePriority, MaintenanceStatus } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
+import { notifyBudgetOverruns } from "@/lib/budgets";
+import { sendJobCard, type JobCardResult } from "@/lib/contractors";
+import {
+  costOverrun,
+  createTaskExpense,
+  getMaintenancePolicy,
+  getSpendApprovalStatus,
+  SPEND_APPROVAL_INCLUDE,
+  summarizeSpendApproval
+} from "@/lib/maintenance-approvals";
 import { prisma } from "@/lib/prisma";
+import { normalizeRecurrenceRule, spawnNextOccurrence, startOfUtcDay } from "@/lib/maintenance-schedule";
 import { hasPermission } from "@/lib/rbac";
 
 const documentUrlSchema = z
@@ -10,6 +21,12 @@ const documentUrlSchema = z
   .max(2048)
   .refine((value) => value.startsWith("/") || /^https?:\/\//.test(value), "Document URL must be absolute or root-relative.");
 
+// RFC 5545 RRULE such as FREQ=MONTHLY;INTERVAL=3; an empty string clears it.
+const recurrenceRuleSchema = z
+  .string()
+  .max(180)
+  .refine((value) => value.trim() === "" || normalizeRecurrenceRule(value) !== null, "Invalid RRULE recurrence rule.");
+
 const createTaskSchema = z.object({
   id: z.string().optional(),
   assetId: z.string().optional(),
@@ -19,8 +36,13 @@ const createTaskSchema = z.object({
   dueDate: z.coerce.date().optional(),
   estimatedCost: z.number().nonnegative().optional(),
   assignedToId: z.string().optional(),
-  recurrenceRule: z.string().max(180).optional(),
+  contractorId: z.string().optional(),
+  sendJobCard: z.boolean().default(false),
+  recurrenceRule: recurrenceRuleSchema.optional(),
   invoiceFileUrl: documentUrlSchema.optional()
+}).refine((data) => !data.recurrenceRule?.trim() || data.dueDate, {
+  message: "A recurring task needs a due date for its first occurrence.",
+  path: ["dueDate"]
 });
 
 const updateTaskSchema = z.object({
@@ -32,10 +54,26 @@ const updateTaskSchema = z.object({
   estimatedCost: z.number().nonnegative().optional(),
   actualCost: z.number().nonnegative().optional(),
   assignedToId: z.string().optional(),
-  recurrenceRule: z.string().max(180).optional(),
+  // An empty string removes the contractor.
+  contractorId: z.string().optional(),
+  sendJobCard: z.boolean().default(false),
+  recurrenceRule: recurrenceRuleSchema.optional(),
   invoiceFileUrl: documentUrlSchema.optional()
 });
 
+async function findActiveContractor(contractorId: string) {
+  return prisma.contractor.findFirst({ where: { id: contractorId, isActive: true }, select: { id: true } });
+}
+
+async function trySendJobCard(taskId: string): Promise<{ jobCard?: JobCardResult; jobCardError?: string }> {
+  try {
+    return { jobCard: (await sendJobCard(taskId)) ?? undefined };
+  } catch (error) {
+    console.error(error);
+    return { jobCardError: error instanceof Error ? error.message : "Could not send the job card" };
+  }
+}
+
 export async function GET(req: NextRequest) {
   const user = await getSessionUser(req);
   if (!user || !hasPermission(user.role, "maintenance:view")) {
@@ -43,24 +81,49 @@ export async function GET(req: NextRequest) {
   }
 
   const statusFilter = req.nextUrl.searchParams.get("status") as MaintenanceStatus | null;
+  const overrunOnly = req.nextUrl.searchParams.get("overrun") === "true";
 
-  const tasks = await prisma.maintenanceTask.findMany({
-    where: {
-      status: statusFilter && Object.values(MaintenanceStatus).includes(statusFilter)
-        ? statusFilter
-        : undefined
-    },
-    include: {
-      asset: true,
-      assignedTo: { select: { id: true, name: true, email: true, role: true } },
-      createdBy: { select: { id: true, name: true, email: true, role: true } }
-    },
-    orderBy: [{ status: "asc" }, { dueDate: "asc" }, { createdAt: "desc" }],
-    take: 300
-  });
+  const [tasks, policy] = await Promise.all([
+    prisma.maintenanceTask.findMany({
+      where: {
+        status: statusFilter && Object.values(MaintenanceStatus).includes(statusFilter)
+          ? statusFilter
+          : undefined,
+        overrunAmount: overrunOnly ? { not: null } : undefined
+      },
+      include: {
+        // Family members can list tasks, so the asset's cost and cover values are left out.
+        asset: {
+          select: {
+            id: true,
+            shortCode: true,
+            name: true,
+            category: true,
+            serialNumber: true,
+            location: true,
+            status: true,
+            warrantyExpiry: true
+          }
+        },
+        assignedTo: { select: { id: true, name: true, email: true, role: true } },
+        contractor: { select: { id: true, name: true, trade: true, email: true, phone: true } },
+        createdBy: { select: { id: true, name: true, email: true, role: true } },
+        quotes: {
+          include: { contractor: { select: { id: true, name: true } } },
+          orderBy: { amount: "asc" }
+        },
+        approvals: SPEND_APPROVAL_INCLUDE.approvals,
+        expense: { select: { id: true, amount: true, paidDate: true } }
+      },
+      orderBy: [{ status: "asc" }, { dueDate: "asc" }, { createdAt: "desc" }],
+      take: 300
+    }),
+    getMaintenancePolicy()
+  ]);
 
   return NextResponse.json({
-    tasks,
+    tasks: tasks.map((task) => ({ ...task, spendApproval: summarizeSpendApproval(task, policy) })),
+    policy,
     currentUser: { id: user.id, role: user.role }
   });
 }
@@ -78,23 +141,47 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const task = await prisma.maintenanceTask.create({
-    data: {
-      assetId: parsed.data.assetId,
-      title: parsed.data.title,
-      description: parsed.data.description,
-      priority: parsed.data.priority,
-      dueDate: parsed.data.dueDate,
-      estimatedCost: parsed.data.estimatedCost,
-      assignedToId: parsed.data.assignedToId,
-      recurrenceRule: parsed.data.recurrenceRule,
-      invoiceFileUrl: parsed.data.invoiceFileUrl,
-      createdById: user.id,
-      status: MaintenanceStatus.OPEN
+  if (parsed.data.contractorId) {
+    if (!hasPermission(user.role, "booking:manage")) {
+      return NextResponse.json({ error: "Only admins can assign contractors." }, { status: 403 });
+    }
+    if (!(await findActiveContractor(parsed.data.contractorId))) {
+      return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
     }
+  }
+
+  const recurrenceRule = parsed.data.recurrenceRule?.trim()
+    ? normalizeRecurrenceRule(parsed.data.recurrenceRule)
+    : null;
+
+  // A recurring task starts its own series, with its due date as the first occurrence.
+  const task = await prisma.$transaction(async (tx) => {
+    const created = await tx.maintenanceTask.create({
+      data: {
+        assetId: parsed.data.assetId,
+        title: parsed.data.title,
+        description: parsed.data.description,
+        priority: parsed.data.priority,
+        dueDate: parsed.data.dueDate,
+        estimatedCost: parsed.data.estimatedCost,
+        assignedToId: parsed.data.assignedToId,
+        contractorId: parsed.data.contractorId,
+        contractorAssignedAt: parsed.data.contractorId ? new Date() : undefined,
+        recurrenceRule,
+        occurrenceDate: recurrenceRule && parsed.data.dueDate ? startOfUtcDay(parsed.data.dueDate) : undefined,
+        invoiceFileUrl: parsed.data.invoiceFileUrl,
+        createdById: user.id,
+        status: MaintenanceStatus.OPEN
+      }
+    });
+    return recurrenceRule
+      ? tx.maintenanceTask.update({ where: { id: created.id }, data: { seriesId: created.id } })
+      : created;
   });
 
-  return NextResponse.json({ task }, { status: 201 });
+  const jobCard = parsed.data.sendJobCard ? await trySendJobCard(task.id) : {};
+
+  return NextResponse.json({ task, ...jobCard }, { status: 201 });
 }
 
 export async function PATCH(req: NextRequest) {
@@ -114,7 +201,14 @@ export async function PATCH(req: NextRequest) {
     select: {
       id: true,
       createdById: true,
-      status: true
+      status: true,
+      dueDate: true,
+      seriesId: true,
+      contractorId: true,
+      approvedCost: true,
+      estimatedCost: true,
+      actualCost: true,
+      invoiceFileUrl: true
     }
   });
   if (!task) {
@@ -133,6 +227,14 @@ export async function PATCH(req: NextRequest) {
     ) {
       return NextResponse.json({ error: "Only admins can approve, complete, or reject tasks." }, { status: 403 });
     }
+    if (parsed.data.contractorId !== undefined || parsed.data.sendJobCard) {
+      return NextResponse.json({ error: "Only admins can assign contractors." }, { status: 403 });
+    }
+  }
+  if (parsed.data.contractorId && parsed.data.contractorId !== task.contractorId) {
+    if (!(await findActiveContractor(parsed.data.contractorId))) {
+      return NextResponse.json({ error: "Contractor not found" }, { status: 404 });
+    }
   }
 
   const updateData: {
@@ -143,7 +245,15 @@ export async function PATCH(req: NextRequest) {
     estimatedCost?: number;
     actualCost?: number;
     assignedToId?: string | null;
-    recurrenceRule?: string;
+    contractorId?: string | null;
+    contractorAssignedAt?: Date | null;
+    jobCardSentAt?: null;
+    approvedCost?: number | null;
+    approvedAt?: Date | null;
+    overrunAmount?: number | null;
+    recurrenceRule?: string | null;
+    seriesId?: string;
+    occurrenceDate?: Date;
     invoiceFileUrl?: string;
     completedAt?: Date | null;
   } = {};
@@ -174,17 +284,121 @@ export async function PATCH(req: NextRequest) {
   if (parsed.data.assignedToId !== undefined) {
     updateData.assignedToId = parsed.data.assignedToId || null;
   }
+  if (parsed.data.contractorId !== undefined && (parsed.data.contractorId || null) !== task.contractorId) {
+    updateData.contractorId = parsed.data.contractorId || null;
+    updateData.contractorAssignedAt = parsed.data.contractorId ? new Date() : null;
+    updateData.jobCardSentAt = null;
+  }
   if (parsed.data.recurrenceRule !== undefined) {
-    updateData.recurrenceRule = parsed.data.recurrenceRule;
+    updateData.recurrenceRule = parsed.data.recurrenceRule.trim()
+      ? normalizeRecurrenceRule(parsed.data.recurrenceRule)
+      : null;
+    if (updateData.recurrenceRule && !task.seriesId) {
+      const firstDue = parsed.data.dueDate ?? task.dueDate;
+      if (!firstDue) {
+        return NextResponse.json(
+          { error: "Set a due date before making the task recurring." },
+          { status: 400 }
+        );
+      }
+      updateData.seriesId = task.id;
+      updateData.occurrenceDate = startOfUtcDay(firstDue);
+    }
   }
   if (parsed.data.invoiceFileUrl !== undefined) {
     updateData.invoiceFileUrl = parsed.data.invoiceFileUrl;
   }
 
+  // Spend above the policy threshold needs enough shareholder approvals before work can start, whichever
+  // status the task is coming from (a cancelled task must not be restarted around the approvals).
+  const startsWork =
+    task.approvedCost === null &&
+    updateData.status !== task.status &&
+    (updateData.status === MaintenanceStatus.IN_PROGRESS || updateData.status === MaintenanceStatus.DONE);
+  if (startsWork) {
+    const currentEstimate = task.estimatedCost === null ? null : Number(task.estimatedCost);
+    if (
+      parsed.data.estimatedCost !== undefined &&
+      currentEstimate !== null &&
+      parsed.data.estimatedCost < currentEstimate
+    ) {
+      return NextResponse.json(
+        { error: "Save the lower estimate before starting work so approvals are checked against it." },
+        { status: 409 }
+      );
+    }
+    const approval = await getSpendApprovalStatus(task.id, { estimatedCost: parsed.data.estimatedCost });
+    // Without a cost there is nothing to check against the threshold or to measure an overrun from.
+    if (approval?.committedCost === null) {
+      return NextResponse.json(
+        { error: "Add an estimated cost or accept a quote before starting work." },
+        { status: 409 }
+      );
+    }
+    if (approval?.needsApproval && approval.remaining > 0) {
+      return NextResponse.json(
+        {
+          error: `Spend of ZAR ${approval.committedCost?.toFixed(2)} needs ${approval.remaining} more shareholder ` +
+            `approval${approval.remaining === 1 ? "" : "s"}.`
+        },
+        { status: 409 }
+      );
+    }
+    updateData.approvedCost = approval?.committedCost ?? null;
+    updateData.approvedAt = new Date();
+  } else if (updateData.status === MaintenanceStatus.OPEN && task.status !== MaintenanceStatus.OPEN) {
+    updateData.approvedCost = null;
+    updateData.approvedAt = null;
+  }
+
+  if (task.status === MaintenanceStatus.DONE && updateData.status && updateData.status !== MaintenanceStatus.DONE) {
+    updateData.overrunAmount = null;
+  }
+  if (updateData.status === MaintenanceStatus.DONE && task.status !== MaintenanceStatus.DONE) {
+    const actualCost = parsed.data.actualCost ?? (task.actualCost === null ? null : Number(task.actualCost));
+    if ((parsed.data.invoiceFileUrl ?? task.invoiceFileUrl) && actualCost === null) {
+      return NextResponse.json(
+        { error: "Enter the actual cost before completing a task with an invoice." },
+        { status: 400 }
+      );
+    }
+    const approvedCost = updateData.approvedCost ?? (task.approvedCost === null ? null : Number(task.approvedCost));
+    const policy = await getMaintenancePolicy();
+    updateData.overrunAmount = costOverrun(
+      approvedCost,
+      actualCost,
+      Number(policy.overrunTolerancePercent)
+    );
+  }
+
   const updatedTask = await prisma.maintenanceTask.update({
     where: { id: task.id },
     data: updateData
   });
 
-  return NextResponse.json({ task: updatedTask });
+  let nextTask = null;
+  if (updatedTask.seriesId && updateData.status === MaintenanceStatus.DONE && task.status !== MaintenanceStatus.DONE) {
+    try {
+      nextTask = await spawnNextOccurrence(updatedTask.seriesId);
+    } catch (error) {
+      console.error("Failed to schedule the next maintenance occurrence", error);
+    }
+  }
+
+  let expense = null;
+  if (updateData.status === MaintenanceStatus.DONE && task.status !== MaintenanceStatus.DONE) {
+    expense = await createTaskExpense(updatedTask.id, user.id);
+    if (expense) {
+      try {
+        await notifyBudgetOverruns((expense.serviceDate ?? expense.createdAt).getUTCFullYear());
+      } catch (error) {
+        console.error(error);
+      }
+    }
+  }
+
+  // The task is saved either way; a failed job card is reported alongside it.
+  const jobCard = parsed.data.sendJobCard ? await trySendJobCard(updatedTask.id) : {};
+
+  return NextResponse.json({ task: updatedTask, nextTask, expense, ...jobCard });
 }
@@ -2,16 +2,31 @@ import { ExpenseCategory, Prisma } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/auth";
-import { extractInvoiceWithOpenAI } from "@/lib/ocr";
+import { loadStoredDocument } from "@/lib/documents";
+import { extractInvoice } from "@/lib/ocr";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
 
-const schema = z.object({
-  imageUrl: z.string().url(),
-  saveExpense: z.boolean().default(false),
-  category: z.nativeEnum(ExpenseCategory).optional(),
-  title: z.string().max(160).optional()
-});
+const documentUrlSchema = z
+  .string()
+  .max(2048)
+  .refine((value) => value.startsWith("/uploads/") || /^https?:\/\//.test(value), "Use an /uploads/ path or a URL.");
+
+// imageUrl is kept for older clients; fileUrl also takes PDFs uploaded through /api/uploads.
+const schema = z
+  .object({
+    fileUrl: documentUrlSchema.optional(),
+    imageUrl: z.string().url().optional(),
+    saveExpense: z.boolean().default(false),
+    category: z.nativeEnum(ExpenseCategory).optional(),
+    title: z.string().max(160).optional()
+  })
+  .refine((data) => data.fileUrl || data.imageUrl, { message: "fileUrl is required", path: ["fileUrl"] });
+
+function parseDate(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
 
 export async function POST(req: NextRequest) {
   const user = await getSessionUser(req);
@@ -26,10 +41,29 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const extraction = await extractInvoiceWithOpenAI(parsed.data.imageUrl);
+  const fileUrl = (parsed.data.fileUrl ?? parsed.data.imageUrl) as string;
+  const document = await loadStoredDocument(fileUrl);
+  if (!document) {
+    return NextResponse.json({ error: "Invoice file not found or larger than 10MB" }, { status: 404 });
+  }
+  if (!document.mimeType) {
+    return NextResponse.json({ error: "Upload the invoice as a PDF, PNG, JPEG, WebP or BMP file" }, { status: 415 });
+  }
+
+  let result;
+  try {
+    result = await extractInvoice(document);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not extract the invoice" },
+      { status: 422 }
+    );
+  }
+
+  const { extraction } = result;
 
   if (!parsed.data.saveExpense) {
-    return NextResponse.json({ extraction });
+    return NextResponse.json(result);
   }
 
   const amount = extraction.amountTotal ?? 0;
@@ -40,14 +74,15 @@ export async function POST(req: NextRequest) {
       supplier: extraction.supplierName,
       invoiceNumber: extraction.invoiceNumber,
       amount,
+      vatAmount: extraction.vatAmount,
       currency: extraction.currency ?? "ZAR",
-      serviceDate: extraction.invoiceDate ? new Date(extraction.invoiceDate) : undefined,
-      dueDate: extraction.dueDate ? new Date(extraction.dueDate) : undefined,
-      invoiceFileUrl: parsed.data.imageUrl,
-      ocrData: extraction as Prisma.InputJsonValue,
+      serviceDate: parseDate(extraction.invoiceDate),
+      dueDate: parseDate(extraction.dueDate),
+      invoiceFileUrl: fileUrl,
+      ocrData: result as unknown as Prisma.InputJsonValue,
       createdById: user.id
     }
   });
 
-  return NextResponse.json({ extraction, expense }, { status: 201 });
+  return NextResponse.json({ ...result, expense }, { status: 201 });
 }
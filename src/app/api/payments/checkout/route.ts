@@ -0,0 +1,188 @@
+import { BookingStatus, PaymentStatus, Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { buildManageBookingUrl, getAppBaseUrl, tokensMatch } from "@/lib/booking-manage";
+import { getBookingPolicy, summarizeBookingPayments } from "@/lib/booking-payments";
+import { buildSubscriptionCoverage } from "@/lib/fees";
+import { GATEWAY_PROVIDERS, getPaymentGateway } from "@/lib/payment-gateway";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const checkoutSchema = z.object({
+  provider: z.enum(GATEWAY_PROVIDERS),
+  bookingId: z.string().optional(),
+  manageToken: z.string().min(8).optional(),
+  portion: z.enum(["deposit", "outstanding"]).default("outstanding"),
+  monthsCovered: z.number().int().positive().max(24).default(1),
+  periodStart: z.coerce.date().optional()
+});
+
+type CheckoutTarget = {
+  amount: number;
+  currency: string;
+  description: string;
+  bookingId?: string;
+  payerId?: string;
+  customerEmail?: string;
+  returnUrl: string;
+  subscription?: { id: string; periodStart: Date; periodEnd: Date; monthsCovered: number };
+};
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  const parsed = checkoutSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const gateway = getPaymentGateway(parsed.data.provider);
+  if (!gateway || !gateway.isConfigured()) {
+    return NextResponse.json({ error: "Payment provider is not configured" }, { status: 400 });
+  }
+
+  const user = await getSessionUser(req);
+  let target: CheckoutTarget;
+
+  if (parsed.data.bookingId) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: parsed.data.bookingId },
+      include: {
+        requestedBy: { select: { email: true } },
+        payments: { select: { amount: true, status: true } }
+      }
+    });
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const canPay =
+      (user && (booking.requestedById === user.id || hasPermission(user.role, "booking:manage"))) ||
+      tokensMatch(booking.manageToken, parsed.data.manageToken);
+    if (!canPay) {
+      return NextResponse.json({ error: "Booking not found or access denied" }, { status: 404 });
+    }
+
+    if (booking.status !== BookingStatus.APPROVED) {
+      return NextResponse.json({ error: "Only approved bookings can be paid" }, { status: 400 });
+    }
+
+    const summary = summarizeBookingPayments(booking, await getBookingPolicy());
+    const amount =
+      parsed.data.portion === "deposit" && summary.depositOutstanding > 0
+        ? summary.depositOutstanding
+        : summary.outstandingAmount;
+    if (amount <= 0) {
+      return NextResponse.json({ error: "Booking has no amount due" }, { status: 400 });
+    }
+
+    const customerEmail = booking.requestedBy?.email ?? booking.externalLeadEmail ?? undefined;
+    target = {
+      amount,
+      currency: booking.currency,
+      description: `Reebok House booking ${booking.id}`,
+      bookingId: booking.id,
+      payerId: user?.id,
+      customerEmail,
+      returnUrl: buildManageBookingUrl(booking.id, parsed.data.manageToken, customerEmail)
+    };
+  } else {
+    if (!user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const subscription =
+      (await prisma.subscription.findUnique({ where: { userId: user.id } })) ??
+      (await prisma.subscription.create({
+        data: {
+          userId: user.id,
+          monthlyAmount:
+            (await prisma.feeConfig.findFirst({ where: { isActive: true }, orderBy: { createdAt: "desc" } }))
+              ?.monthlyMemberSubscription ?? 100,
+          reminderEnabled: true,
+          arrearsAmount: 0
+        }
+      }));
+
+    const coverage = buildSubscriptionCoverage(
+      parsed.data.periodStart ?? subscription.nextDueDate ?? new Date(),
+      parsed.data.monthsCovered
+    );
+
+    target = {
+      amount: Number(subscription.monthlyAmount) * parsed.data.monthsCovered,
+      currency: "ZAR",
+      description: `Reebok House subscription (${parsed.data.monthsCovered} month${parsed.data.monthsCovered === 1 ? "" : "s"})`,
+      payerId: user.id,
+      customerEmail: user.email,
+      returnUrl: `${getAppBaseUrl()}/member`,
+      subscription: { id: subscription.id, ...coverage, monthsCovered: parsed.data.monthsCovered }
+    };
+  }
+
+  const payment = await prisma.payment.create({
+    data: {
+      bookingId: target.bookingId,
+      payerId: target.payerId,
+      amount: target.amount,
+      currency: target.currency,
+      method: gateway.method,
+      status: PaymentStatus.PENDING,
+      gatewayProvider: gateway.provider,
+      periodStart: target.subscription?.periodStart,
+      periodEnd: target.subscription?.periodEnd,
+      monthsCovered: target.subscription?.monthsCovered,
+      subscriptionLinks: target.subscription
+        ? {
+            create: {
+              subscriptionId: target.subscription.id,
+              periodStart: target.subscription.periodStart,
+              periodEnd: target.subscription.periodEnd,
+              monthsCovered: target.subscription.monthsCovered
+            }
+          }
+        : undefined
+    }
+  });
+
+  const withOutcome = (outcome: string) => {
+    const url = new URL(target.returnUrl);
+    url.searchParams.set("payment", outcome);
+    url.searchParams.set("paymentId", payment.id);
+    return url.toString();
+  };
+
+  try {
+    const checkout = await gateway.createCheckout({
+      paymentId: payment.id,
+      amount: target.amount,
+      currency: target.currency,
+      description: target.description,
+      successUrl: withOutcome("success"),
+      cancelUrl: withOutcome("cancelled"),
+      failureUrl: withOutcome("failed"),
+      notifyUrl: `${getAppBaseUrl()}/api/payments/webhooks/${gateway.provider}`,
+      customerEmail: target.customerEmail
+    });
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        reference: checkout.checkoutId,
+        gatewayPayload: { checkout: checkout.raw, events: [] } as Prisma.InputJsonObject
+      }
+    });
+
+    return NextResponse.json({ paymentId: payment.id, redirectUrl: checkout.redirectUrl }, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.FAILED,
+        gatewayPayload: { error: error instanceof Error ? error.message : "Checkout failed" }
+      }
+    });
+    return NextResponse.json({ error: "Could not start checkout with the payment provider" }, { status: 502 });
+  }
+}
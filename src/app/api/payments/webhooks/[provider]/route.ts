@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyGatewayWebhook, getPaymentGateway, type GatewayWebhookEvent } from "@/lib/payment-gateway";
+
+type RouteContext = { params: Promise<{ provider: string }> };
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const { provider } = await params;
+  const gateway = getPaymentGateway(provider);
+  if (!gateway || !gateway.isConfigured()) {
+    return NextResponse.json({ error: "Unknown payment provider" }, { status: 404 });
+  }
+
+  const rawBody = await req.text();
+  let event: GatewayWebhookEvent | null = null;
+  try {
+    event = gateway.parseWebhook(rawBody, req.headers);
+  } catch (error) {
+    console.error(error);
+  }
+
+  if (!event) {
+    return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 });
+  }
+
+  const outcome = await applyGatewayWebhook(gateway, event);
+  if (!outcome.paymentId) {
+    return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+  }
+  if (outcome.mismatch) {
+    return NextResponse.json({ error: outcome.mismatch }, { status: 409 });
+  }
+
+  return NextResponse.json({ received: true, ...outcome });
+}
@@ -0,0 +1,80 @@
+import { PeakPeriodStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { buildManageBookingUrl, getAppBaseUrl } from "@/lib/booking-manage";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import { PEAK_PERIOD_INCLUDE, runPeakDraw, serializePeakPeriod } from "@/lib/peak-allocation";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const drawSchema = z.object({
+  seed: z.string().trim().min(1).max(64).optional(),
+  // Lets an admin draw before the deadline once every branch has confirmed its ranking.
+  force: z.boolean().optional()
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function asDateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  const parsed = drawSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const period = await prisma.peakPeriod.findUnique({ where: { id } });
+  if (!period) {
+    return NextResponse.json({ error: "Peak period not found" }, { status: 404 });
+  }
+  if (period.status !== PeakPeriodStatus.OPEN) {
+    return NextResponse.json({ error: `This period is already ${period.status.toLowerCase()}` }, { status: 409 });
+  }
+  if (new Date() < period.preferenceDeadline && !parsed.data.force) {
+    return NextResponse.json(
+      { error: "Preferences are still open; wait for the deadline or force the draw" },
+      { status: 409 }
+    );
+  }
+
+  const result = await runPeakDraw(period.id, { id: user.id, role: user.role }, parsed.data.seed);
+  if (!result) {
+    return NextResponse.json({ error: "This period was drawn by someone else" }, { status: 409 });
+  }
+
+  for (const allocation of result.allocations) {
+    const { booking } = allocation;
+    if (!booking.requestedBy?.email) {
+      continue;
+    }
+    const template = await renderEmailTemplate("BOOKING_REQUEST_RECEIVED", {
+      BOOKING_REFERENCE: booking.id,
+      START_DATE: asDateLabel(booking.startDate),
+      END_DATE: asDateLabel(booking.endDate),
+      TOTAL_GUESTS: String(booking.totalGuests),
+      PET_COUNT: String(booking.petCount),
+      CURRENCY: booking.currency,
+      TOTAL_AMOUNT: String(booking.totalAmount ?? 0),
+      SOURCE: booking.source,
+      SCOPE: booking.scope,
+      REJECTION_REASON: "",
+      MANAGE_URL: buildManageBookingUrl(booking.id, booking.manageToken ?? undefined, booking.requestedBy.email),
+      ADMIN_BOOKINGS_URL: `${getAppBaseUrl()}/admin/bookings`
+    });
+    await sendMail({ to: booking.requestedBy.email, subject: template.subject, text: template.text });
+  }
+
+  const drawn = await prisma.peakPeriod.findUniqueOrThrow({ where: { id }, include: PEAK_PERIOD_INCLUDE });
+  return NextResponse.json({ period: serializePeakPeriod(drawn, null, true), seed: result.seed });
+}
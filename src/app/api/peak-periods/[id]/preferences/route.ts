@@ -0,0 +1,88 @@
+import { PeakPeriodStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { getUserFamilyBranch, listFamilyBranches, peakSlots } from "@/lib/peak-allocation";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const preferencesSchema = z.object({
+  // Slot start dates in order of preference; an empty list withdraws the branch from the draw.
+  slotStarts: z.array(z.coerce.date()).max(60),
+  familyBranch: z.string().trim().min(1).max(80).optional()
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Replaces the branch's whole ranking. Any member of a branch can submit for it; the latest
+// submission wins.
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:create:family")) {
+    return NextResponse.json({ error: "Family booking permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await req.json();
+  const parsed = preferencesSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const isManager = hasPermission(user.role, "booking:manage");
+  const ownBranch = await getUserFamilyBranch(user.id);
+  const familyBranch = parsed.data.familyBranch ?? ownBranch;
+  if (familyBranch && familyBranch !== ownBranch) {
+    if (!isManager) {
+      return NextResponse.json({ error: "You can only submit preferences for your own branch" }, { status: 403 });
+    }
+    if (!(await listFamilyBranches()).includes(familyBranch)) {
+      return NextResponse.json({ error: "Unknown family branch" }, { status: 400 });
+    }
+  }
+  if (!familyBranch) {
+    return NextResponse.json(
+      { error: "Your profile has no family branch; ask an administrator to set one" },
+      { status: 400 }
+    );
+  }
+
+  const period = await prisma.peakPeriod.findUnique({ where: { id } });
+  if (!period) {
+    return NextResponse.json({ error: "Peak period not found" }, { status: 404 });
+  }
+  if (period.status !== PeakPeriodStatus.OPEN) {
+    return NextResponse.json({ error: "Preferences for this period are closed" }, { status: 409 });
+  }
+  if (new Date() > period.preferenceDeadline) {
+    return NextResponse.json({ error: "The preference deadline has passed" }, { status: 409 });
+  }
+
+  const slotStarts = new Set(peakSlots(period).map((slot) => slot.start.getTime()));
+  const requested = parsed.data.slotStarts.map((slotStart) => slotStart.getTime());
+  if (new Set(requested).size !== requested.length) {
+    return NextResponse.json({ error: "Each slot can only be ranked once" }, { status: 400 });
+  }
+  if (requested.some((slotStart) => !slotStarts.has(slotStart))) {
+    return NextResponse.json({ error: "Preferences must use the period's slot start dates" }, { status: 400 });
+  }
+
+  const preferences = await prisma.$transaction(async (tx) => {
+    await tx.peakPreference.deleteMany({ where: { periodId: period.id, familyBranch } });
+    await tx.peakPreference.createMany({
+      data: requested.map((slotStart, index) => ({
+        periodId: period.id,
+        familyBranch,
+        slotStart: new Date(slotStart),
+        rank: index + 1,
+        submittedById: user.id
+      }))
+    });
+    return tx.peakPreference.findMany({
+      where: { periodId: period.id, familyBranch },
+      orderBy: { rank: "asc" }
+    });
+  });
+
+  return NextResponse.json({ familyBranch, preferences });
+}
@@ -0,0 +1,98 @@
+import { PeakAllocationMethod, PeakPeriodStatus } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { getUserFamilyBranch, PEAK_PERIOD_INCLUDE, serializePeakPeriod } from "@/lib/peak-allocation";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const updateSchema = z
+  .object({
+    name: z.string().trim().min(2).max(120).optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    slotNights: z.number().int().min(1).max(31).optional(),
+    slotsPerBranch: z.number().int().min(1).max(10).optional(),
+    preferenceDeadline: z.coerce.date().optional(),
+    method: z.nativeEnum(PeakAllocationMethod).optional(),
+    status: z.literal(PeakPeriodStatus.CANCELLED).optional()
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "At least one field must be provided"
+  });
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:create:family")) {
+    return NextResponse.json({ error: "Family booking permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const period = await prisma.peakPeriod.findUnique({ where: { id }, include: PEAK_PERIOD_INCLUDE });
+  if (!period) {
+    return NextResponse.json({ error: "Peak period not found" }, { status: 404 });
+  }
+
+  const familyBranch = await getUserFamilyBranch(user.id);
+  return NextResponse.json({
+    familyBranch,
+    period: serializePeakPeriod(period, familyBranch, hasPermission(user.role, "booking:manage"))
+  });
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const body = await req.json();
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.peakPeriod.findUnique({
+    where: { id },
+    include: { _count: { select: { preferences: true } } }
+  });
+  if (!existing) {
+    return NextResponse.json({ error: "Peak period not found" }, { status: 404 });
+  }
+  if (existing.status !== PeakPeriodStatus.OPEN) {
+    return NextResponse.json({ error: `A ${existing.status.toLowerCase()} period cannot be changed` }, { status: 409 });
+  }
+
+  const { startDate, endDate, slotNights } = parsed.data;
+  const reshapesSlots =
+    (startDate && startDate.getTime() !== existing.startDate.getTime()) ||
+    (endDate && endDate.getTime() !== existing.endDate.getTime()) ||
+    (slotNights !== undefined && slotNights !== existing.slotNights);
+  if (reshapesSlots && existing._count.preferences > 0) {
+    return NextResponse.json(
+      { error: "Slots cannot change once preferences have been submitted; cancel and recreate the period instead" },
+      { status: 409 }
+    );
+  }
+
+  const nextStart = startDate ?? existing.startDate;
+  const nextEnd = endDate ?? existing.endDate;
+  const nextDeadline = parsed.data.preferenceDeadline ?? existing.preferenceDeadline;
+  if (nextEnd <= nextStart) {
+    return NextResponse.json({ error: "End date must be after start date" }, { status: 400 });
+  }
+  if (nextDeadline >= nextStart) {
+    return NextResponse.json({ error: "Preferences must close before the period starts" }, { status: 400 });
+  }
+
+  const period = await prisma.peakPeriod.update({
+    where: { id },
+    data: parsed.data,
+    include: PEAK_PERIOD_INCLUDE
+  });
+
+  return NextResponse.json({ period: serializePeakPeriod(period, null, true) });
+}
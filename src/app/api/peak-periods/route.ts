@@ -0,0 +1,79 @@
+import { PeakAllocationMethod } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import {
+  getUserFamilyBranch,
+  listFamilyBranches,
+  PEAK_PERIOD_INCLUDE,
+  serializePeakPeriod
+} from "@/lib/peak-allocation";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const createSchema = z
+  .object({
+    name: z.string().trim().min(2).max(120),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    slotNights: z.number().int().min(1).max(31).default(7),
+    slotsPerBranch: z.number().int().min(1).max(10).default(1),
+    preferenceDeadline: z.coerce.date(),
+    method: z.nativeEnum(PeakAllocationMethod).default(PeakAllocationMethod.ROTATION)
+  })
+  .superRefine((value, ctx) => {
+    if (value.endDate <= value.startDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must be after start date" });
+    }
+    if (value.preferenceDeadline >= value.startDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["preferenceDeadline"],
+        message: "Preferences must close before the period starts"
+      });
+    }
+  });
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:create:family")) {
+    return NextResponse.json({ error: "Family booking permission required" }, { status: 403 });
+  }
+
+  const isManager = hasPermission(user.role, "booking:manage");
+  const [periods, familyBranch, branches] = await Promise.all([
+    prisma.peakPeriod.findMany({
+      orderBy: { startDate: "desc" },
+      include: PEAK_PERIOD_INCLUDE,
+      take: 50
+    }),
+    getUserFamilyBranch(user.id),
+    isManager ? listFamilyBranches() : Promise.resolve([])
+  ]);
+
+  return NextResponse.json({
+    familyBranch,
+    branches,
+    periods: periods.map((period) => serializePeakPeriod(period, familyBranch, isManager))
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "booking:manage")) {
+    return NextResponse.json({ error: "Booking management permission required" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const parsed = createSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const period = await prisma.peakPeriod.create({
+    data: parsed.data,
+    include: PEAK_PERIOD_INCLUDE
+  });
+
+  return NextResponse.json({ period: serializePeakPeriod(period, null, true) }, { status: 201 });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+import {
+  buildMemberStatement,
+  resolveStatementPeriod,
+  statementFileName,
+  statementToCsv,
+  statementToPdf
+} from "@/lib/statements";
+
+// Omit userId to send every active member with a subscription their statement (month-end run).
+const emailSchema = z.object({
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = emailSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const period = resolveStatementPeriod(parsed.data.from, parsed.data.to);
+  if (period.from > period.to) {
+    return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  }
+
+  const recipients = parsed.data.userId
+    ? [parsed.data.userId]
+    : (
+        await prisma.subscription.findMany({
+          where: { user: { isActive: true } },
+          select: { userId: true }
+        })
+      ).map((subscription) => subscription.userId);
+
+  let sent = 0;
+  const failed: Array<{ userId: string; error: string }> = [];
+
+  for (const userId of recipients) {
+    const statement = await buildMemberStatement(userId, period.from, period.to);
+    if (!statement) {
+      failed.push({ userId, error: "Member not found" });
+      continue;
+    }
+
+    const statementUrl = new URL("/member", getAppBaseUrl());
+    statementUrl.searchParams.set("statementFrom", statement.periodStart);
+    statementUrl.searchParams.set("statementTo", statement.periodEnd);
+
+    try {
+      const message = await renderEmailTemplate("MEMBER_STATEMENT", {
+        MEMBER_NAME: statement.member.name,
+        PERIOD_START: statement.periodStart,
+        PERIOD_END: statement.periodEnd,
+        CURRENCY: statement.currency,
+        OPENING_BALANCE: statement.openingBalance.toFixed(2),
+        CLOSING_BALANCE: statement.closingBalance.toFixed(2),
+        STATEMENT_URL: statementUrl.toString()
+      });
+
+      await sendMail({
+        to: statement.member.email,
+        subject: message.subject,
+        text: message.text,
+        attachments: [
+          {
+            filename: statementFileName(statement, "pdf"),
+            content: statementToPdf(statement),
+            contentType: "application/pdf"
+          },
+          {
+            filename: statementFileName(statement, "csv"),
+            content: statementToCsv(statement),
+            contentType: "text/csv"
+          }
+        ]
+      });
+      sent += 1;
+    } catch (error) {
+      console.error(error);
+      failed.push({ userId, error: "Could not send statement" });
+    }
+  }
+
+  return NextResponse.json({ sent, failed, periodStart: period.from, periodEnd: period.to });
+}
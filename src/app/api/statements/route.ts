@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/rbac";
+import {
+  buildMemberStatement,
+  resolveStatementPeriod,
+  statementFileName,
+  statementToCsv,
+  statementToPdf
+} from "@/lib/statements";
+
+const querySchema = z.object({
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(["json", "csv", "pdf"]).default("json")
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const targetUserId = parsed.data.userId ?? user.id;
+  if (targetUserId !== user.id && !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const period = resolveStatementPeriod(parsed.data.from, parsed.data.to);
+  if (period.from > period.to) {
+    return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  }
+
+  const statement = await buildMemberStatement(targetUserId, period.from, period.to);
+  if (!statement) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  if (parsed.data.format === "csv") {
+    return new NextResponse(statementToCsv(statement), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename=${statementFileName(statement, "csv")}`
+      }
+    });
+  }
+
+  if (parsed.data.format === "pdf") {
+    const body = Uint8Array.from(statementToPdf(statement)).buffer;
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename=${statementFileName(statement, "pdf")}`
+      }
+    });
+  }
+
+  return NextResponse.json({ statement });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { accrueSubscriptionArrears } from "@/lib/arrears";
+import { getSessionUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+const rerunSchema = z.object({
+  from: z.coerce.date().optional(),
+  userId: z.string().optional()
+});
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const requestedUserId = req.nextUrl.searchParams.get("userId");
+  const targetUserId = requestedUserId ?? user.id;
+  if (targetUserId !== user.id && !hasPermission(user.role, "finance:view")) {
+    return NextResponse.json({ error: "Finance view permission required" }, { status: 403 });
+  }
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { userId: targetUserId },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      ledgerEntries: { orderBy: [{ periodStart: "asc" }, { createdAt: "asc" }] }
+    }
+  });
+
+  if (!subscription) {
+    return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+  }
+
+  const { ledgerEntries, ...rest } = subscription;
+  return NextResponse.json({ subscription: rest, entries: ledgerEntries });
+}
+
+// Re-run accrual after payments have been corrected; credits are rebuilt, charges keep their amounts.
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user || !hasPermission(user.role, "finance:edit")) {
+    return NextResponse.json({ error: "Finance edit permission required" }, { status: 403 });
+  }
+
+  const payload = await req.json();
+  const parsed = rerunSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const summary = await accrueSubscriptionArrears({ from: parsed.data.from, userId: parsed.data.userId });
+
+  return NextResponse.json(summary);
+}
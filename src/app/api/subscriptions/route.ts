@@ -1,6 +1,7 @@
 import { ReminderFrequency } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { recordArrearsAdjustment } from "@/lib/arrears";
 import { getSessionUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/rbac";
@@ -73,6 +74,10 @@ export async function POST(req: NextRequest) {
     }
   });
 
+  if (parsed.data.arrearsAmount !== undefined) {
+    await recordArrearsAdjustment(subscription.id, parsed.data.arrearsAmount);
+  }
+
   return NextResponse.json({ subscription }, { status: 201 });
 }
 
@@ -121,5 +126,9 @@ export async function PATCH(req: NextRequest) {
     }
   });
 
+  if (canEditFinance && parsed.data.arrearsAmount !== undefined) {
+    await recordArrearsAdjustment(subscription.id, parsed.data.arrearsAmount);
+  }
+
   return NextResponse.json({ subscription });
 }
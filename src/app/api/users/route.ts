@@ -14,20 +14,40 @@ const createUserSchema = z.object({
   isActive: z.boolean().optional().default(true)
 });
 
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  shareholderProfile: { select: { familyBranch: true } }
+} satisfies Prisma.UserSelect;
+
+type SelectedUser = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
+
+function withFamilyBranch({ shareholderProfile, ...user }: SelectedUser) {
+  return { ...user, familyBranch: shareholderProfile?.familyBranch ?? null };
+}
+
 const updateUserSchema = z
   .object({
     userId: z.string().min(1),
     name: z.string().min(2).max(120).optional(),
     role: z.nativeEnum(UserRole).optional(),
     isActive: z.boolean().optional(),
-    password: z.string().min(4).max(120).optional()
+    password: z.string().min(4).max(120).optional(),
+    // Empty string clears the branch.
+    familyBranch: z.string().trim().max(80).optional()
   })
   .superRefine((value, ctx) => {
     if (
       value.name === undefined &&
       value.role === undefined &&
       value.isActive === undefined &&
-      value.password === undefined
+      value.password === undefined &&
+      value.familyBranch === undefined
     ) {
       ctx.addIssue({
         code: "custom",
@@ -44,18 +64,10 @@ export async function GET(req: NextRequest) {
 
   const users = await prisma.user.findMany({
     orderBy: [{ role: "asc" }, { name: "asc" }],
-    select: {
-      id: true,
-      email: true,
-      name: true,
-      role: true,
-      isActive: true,
-      createdAt: true,
-      updatedAt: true
-    }
+    select: USER_SELECT
   });
 
-  return NextResponse.json({ users });
+  return NextResponse.json({ users: users.map(withFamilyBranch) });
 }
 
 export async function PATCH(req: NextRequest) {
@@ -91,6 +103,13 @@ export async function PATCH(req: NextRequest) {
     data.passwordHash = hashPassword(parsed.data.password);
   }
 
+  if (parsed.data.familyBranch !== undefined) {
+    const familyBranch = parsed.data.familyBranch || null;
+    data.shareholderProfile = {
+      upsert: { create: { familyBranch }, update: { familyBranch } }
+    };
+  }
+
   if (Object.keys(data).length === 0) {
     return NextResponse.json({ error: "No changes provided." }, { status: 400 });
   }
@@ -107,18 +126,10 @@ export async function PATCH(req: NextRequest) {
   const updated = await prisma.user.update({
     where: { id: parsed.data.userId },
     data,
-    select: {
-      id: true,
-      email: true,
-      name: true,
-      role: true,
-      isActive: true,
-      createdAt: true,
-      updatedAt: true
-    }
+    select: USER_SELECT
   });
 
-  return NextResponse.json({ user: updated });
+  return NextResponse.json({ user: withFamilyBranch(updated) });
 }
 
 export async function POST(req: NextRequest) {
@@ -172,5 +183,5 @@ export async function POST(req: NextRequest) {
     return userRecord;
   });
 
-  return NextResponse.json({ user: created }, { status: 201 });
+  return NextResponse.json({ user: { ...created, familyBranch: null } }, { status: 201 });
 }
@@ -0,0 +1,116 @@
+import { MaintenanceStatus } from "@prisma/client";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { AssetFaultReport } from "@/components/AssetFaultReport";
+import { normalizeShortCode } from "@/lib/asset-labels";
+import { getSessionUserFromCookies } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/rbac";
+
+type Props = {
+  params: Promise<{ code: string }>;
+};
+
+function dateLabel(value: Date | null): string {
+  return value ? value.toISOString().slice(0, 10) : "Not set";
+}
+
+export default async function AssetPage({ params }: Props) {
+  const { code } = await params;
+  const shortCode = normalizeShortCode(code);
+  if (!shortCode) {
+    notFound();
+  }
+
+  const user = await getSessionUserFromCookies();
+  if (!user) {
+    redirect(`/login?next=/assets/${shortCode}`);
+  }
+  if (!hasPermission(user.role, "maintenance:view")) {
+    redirect("/guest");
+  }
+
+  const asset = await prisma.asset.findUnique({
+    where: { shortCode },
+    include: {
+      maintenanceTasks: {
+        where: { status: { in: [MaintenanceStatus.OPEN, MaintenanceStatus.IN_PROGRESS] } },
+        orderBy: [{ status: "asc" }, { createdAt: "desc" }]
+      }
+    }
+  });
+  if (!asset) {
+    notFound();
+  }
+
+  const warrantyActive = asset.warrantyExpiry !== null && asset.warrantyExpiry >= new Date();
+
+  return (
+    <section className="grid">
+      <article className="card grid">
+        <span className="kicker">Asset {asset.shortCode}</span>
+        <h1>{asset.name}</h1>
+        <div className="status-line">
+          <span className={`status-pill status-${asset.status.toLowerCase()}`}>{asset.status}</span>
+          <span className="lead">{asset.category}</span>
+        </div>
+        <p className="lead">
+          Location: {asset.location ?? "Not set"} | Serial: {asset.serialNumber ?? "Not set"}
+        </p>
+        <p className="lead">
+          Warranty: {warrantyActive ? `until ${dateLabel(asset.warrantyExpiry)}` : "expired or not recorded"}
+        </p>
+        {asset.warrantyFileUrl ? (
+          <p>
+            <a className="doc-link" href={asset.warrantyFileUrl} target="_blank" rel="noreferrer">
+              Open warranty document
+            </a>
+          </p>
+        ) : null}
+      </article>
+
+      <article className="card grid">
+        <h2>Open Tasks</h2>
+        {asset.maintenanceTasks.length === 0 ? (
+          <p className="lead">No open maintenance tasks for this asset.</p>
+        ) : (
+          asset.maintenanceTasks.map((task) => (
+            <article key={task.id} className="decision-card">
+              <div className="status-line">
+                <span className={`status-pill status-${task.status === "OPEN" ? "pending_review" : "active"}`}>
+                  {task.status}
+                </span>
+                <span className="lead">{task.priority}</span>
+              </div>
+              <h4>{task.title}</h4>
+              {task.description ? <p className="lead">{task.description}</p> : null}
+              <p className="lead">
+                Reported: {dateLabel(task.createdAt)} | Due: {dateLabel(task.dueDate)}
+              </p>
+              {task.invoiceFileUrl ? (
+                <p>
+                  <a className="doc-link" href={task.invoiceFileUrl} target="_blank" rel="noreferrer">
+                    Open attachment
+                  </a>
+                </p>
+              ) : null}
+            </article>
+          ))
+        )}
+        {asset.maintenanceTasks.length > 0 ? (
+          <p className="lead">Check the list above before reporting, the fault may already be known.</p>
+        ) : null}
+      </article>
+
+      {hasPermission(user.role, "maintenance:edit") ? (
+        <AssetFaultReport assetId={asset.id} assetName={asset.name} />
+      ) : null}
+
+      <p className="lead">
+        <Link href={hasPermission(user.role, "booking:manage") ? "/admin/maintenance" : "/member"}>
+          All maintenance
+        </Link>
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,11 @@
+import { WaitlistHoldPage } from "@/components/WaitlistHoldPage";
+
+type Props = {
+  searchParams: Promise<{ token?: string }>;
+};
+
+export default async function BookingWaitlistPage({ searchParams }: Props) {
+  const params = await searchParams;
+
+  return <WaitlistHoldPage token={params.token ?? ""} />;
+}
@@ -8,12 +8,12 @@ type LoginState = {
   message?: string;
 };
 
-function isAllowedNextPath(value: string | null): value is "/admin" | "/member" | "/guest" {
-  return value === "/admin" || value === "/member" || value === "/guest";
+function isAllowedNextPath(value: string | null): value is string {
+  return value === "/admin" || value === "/member" || value === "/guest" || /^\/assets\/[A-Z0-9]{6}$/.test(value ?? "");
 }
 
 export default function LoginPage() {
-  const [nextPath, setNextPath] = useState<"/admin" | "/member" | "/guest" | null>(null);
+  const [nextPath, setNextPath] = useState<string | null>(null);
 
   useEffect(() => {
     const value = new URLSearchParams(window.location.search).get("next");
@@ -1,10 +1,13 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { ActiveBookingsPanel } from "@/components/ActiveBookingsPanel";
+import { CalendarSubscriptionPanel } from "@/components/CalendarSubscriptionPanel";
 import { MemberDecisionVoting } from "@/components/MemberDecisionVoting";
 import { MemberFeeTracker } from "@/components/MemberFeeTracker";
 import { MemberBookingsPanel } from "@/components/MemberBookingsPanel";
 import { MemberMaintenanceWorkflow } from "@/components/MemberMaintenanceWorkflow";
+import { MemberPeakPreferences } from "@/components/MemberPeakPreferences";
+import { MemberStatementPanel } from "@/components/MemberStatementPanel";
 import { getSessionUserFromCookies } from "@/lib/auth";
 import { hasPermission } from "@/lib/rbac";
 
@@ -43,11 +46,14 @@ export default async function MemberPage() {
       <article className="grid">
         <h2>My Booking History</h2>
         <MemberBookingsPanel />
+        <MemberPeakPreferences />
+        <CalendarSubscriptionPanel />
       </article>
 
       <article className="grid">
         <h2>My Fees</h2>
         <MemberFeeTracker />
+        <MemberStatementPanel />
       </article>
 
       <article className="grid">
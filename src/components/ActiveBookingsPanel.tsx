@@ -18,6 +18,17 @@ type BookingAuditLog = {
   actor?: BookingUser | null;
 };
 
+type PaymentSummary = {
+  depositAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  outstandingAmount: number;
+  depositDueDate: string | null;
+  balanceDueDate: string | null;
+  state: string;
+  label: string;
+};
+
 type Booking = {
   id: string;
   source: string;
@@ -35,6 +46,7 @@ type Booking = {
   requestedBy?: BookingUser | null;
   approvedBy?: BookingUser | null;
   bookingAuditLogs?: BookingAuditLog[];
+  paymentSummary?: PaymentSummary;
 };
 
 type PanelState = { type: "idle" | "success" | "error"; message?: string };
@@ -74,6 +86,7 @@ export function ActiveBookingsPanel({
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
   const [rejectDrafts, setRejectDrafts] = useState<Record<string, string>>({});
+  const [cancelDrafts, setCancelDrafts] = useState<Record<string, string>>({});
 
   const activeBookings = useMemo(() => {
     const today = new Date();
@@ -198,6 +211,42 @@ export function ActiveBookingsPanel({
     }
   }
 
+  async function cancel(bookingId: string) {
+    setProcessingId(bookingId);
+    setState({ type: "idle" });
+    try {
+      const reason = (cancelDrafts[bookingId] ?? "").trim();
+      const response = await fetch(`/api/bookings/${encodeURIComponent(bookingId)}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reason || undefined })
+      });
+      const data = (await response.json()) as {
+        quote?: { refundAmount: number };
+        refundMethod?: string;
+        error?: unknown;
+      };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Cancellation failed.") });
+        return;
+      }
+
+      setCancelDrafts((current) => ({ ...current, [bookingId]: "" }));
+      await loadBookings();
+      setState({
+        type: "success",
+        message: `Cancelled ${bookingId}. Refund recorded: ${(data.quote?.refundAmount ?? 0).toFixed(2)}${
+          data.refundMethod === "CREDIT_NOTE" ? " (account credit)" : ""
+        }.`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Cancellation failed." });
+    } finally {
+      setProcessingId(null);
+    }
+  }
+
   if (loading) {
     return <p className="lead">Loading active bookings...</p>;
   }
@@ -228,12 +277,27 @@ export function ActiveBookingsPanel({
             <article key={booking.id} className="card grid">
               <div className="status-line">
                 <span className={`status-pill status-${booking.status.toLowerCase()}`}>{booking.status}</span>
+                {booking.paymentSummary ? (
+                  <span className={`status-pill payment-${booking.paymentSummary.state.toLowerCase()}`}>
+                    {booking.paymentSummary.label}
+                  </span>
+                ) : null}
                 <span className="lead">{dateLabel(booking.startDate)} to {dateLabel(booking.endDate)}</span>
               </div>
               <p className="lead">
                 Guests: {booking.totalGuests} | {moneyLabel(booking.currency, booking.totalAmount)} | {booking.source}
               </p>
               <p className="lead">Pets: {booking.petCount ?? 0}</p>
+              {booking.paymentSummary ? (
+                <p className="lead">
+                  Paid: {moneyLabel(booking.currency, booking.paymentSummary.paidAmount)} | Outstanding:{" "}
+                  {moneyLabel(booking.currency, booking.paymentSummary.outstandingAmount)} | Deposit:{" "}
+                  {moneyLabel(booking.currency, booking.paymentSummary.depositAmount)}
+                  {booking.paymentSummary.pendingAmount > 0
+                    ? ` | Pending: ${moneyLabel(booking.currency, booking.paymentSummary.pendingAmount)}`
+                    : ""}
+                </p>
+              ) : null}
               <p className="lead">
                 Requester: {requester} ({requestEmail})
               </p>
@@ -288,6 +352,16 @@ export function ActiveBookingsPanel({
                       }
                     />
                   </div>
+                  <div className="field">
+                    <label htmlFor={`booking-cancel-${booking.id}`}>Cancellation reason</label>
+                    <input
+                      id={`booking-cancel-${booking.id}`}
+                      value={cancelDrafts[booking.id] ?? ""}
+                      onChange={(event) =>
+                        setCancelDrafts((current) => ({ ...current, [booking.id]: event.target.value }))
+                      }
+                    />
+                  </div>
                   <div className="action-row">
                     {booking.status === "PENDING" ? (
                       <button
@@ -315,6 +389,14 @@ export function ActiveBookingsPanel({
                     >
                       {isProcessing ? "Working..." : "Reject Booking"}
                     </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      disabled={isProcessing}
+                      onClick={() => void cancel(booking.id)}
+                    >
+                      {isProcessing ? "Working..." : "Cancel Booking"}
+                    </button>
                   </div>
                 </div>
               ) : null}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type RegisterLine = {
+  id: string;
+  name: string;
+  category: string;
+  location: string | null;
+  status: string;
+  purchaseDate: string | null;
+  depreciationMethod: string;
+  usefulLifeYears: number | null;
+  purchaseCost: number | null;
+  bookValue: number | null;
+  accumulatedDepreciation: number | null;
+  endOfLifeDate: string | null;
+  insuredValue: number | null;
+  replacementCost: number | null;
+  underInsured: boolean;
+};
+
+type AssetRegister = {
+  asOf: string;
+  currency: string;
+  lines: RegisterLine[];
+  totals: {
+    purchaseCost: number;
+    bookValue: number;
+    accumulatedDepreciation: number;
+    insuredValue: number;
+    replacementCost: number;
+  };
+};
+
+type ReplacementForecast = {
+  startYear: number;
+  inflationPercent: number;
+  currency: string;
+  rows: Array<{
+    year: number;
+    items: Array<{ assetId: string; name: string; endOfLifeDate: string; overdue: boolean; cost: number }>;
+    total: number;
+  }>;
+  total: number;
+  unplanned: Array<{ assetId: string; name: string; reason: string }>;
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function money(value: number | null): string {
+  return value === null ? "-" : value.toFixed(2);
+}
+
+const todayInput = new Date().toISOString().slice(0, 10);
+const FORECAST_YEARS = [5, 10, 15, 20];
+
+export function AdminAssetRegister() {
+  const [asOf, setAsOf] = useState(todayInput);
+  const [years, setYears] = useState(10);
+  const [inflation, setInflation] = useState("5");
+  const [appliedInflation, setAppliedInflation] = useState("5");
+  const [register, setRegister] = useState<AssetRegister | null>(null);
+  const [forecast, setForecast] = useState<ReplacementForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRegister = useCallback(async (registerDate: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assets/register?asOf=${registerDate}`, { cache: "no-store" });
+      const data = (await response.json()) as { register?: AssetRegister; error?: unknown };
+      if (!response.ok || !data.register) {
+        setError(errorMessage(data, "Could not load the asset register."));
+        return;
+      }
+      setRegister(data.register);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load the asset register.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadForecast = useCallback(async (forecastYears: number, inflationPercent: string) => {
+    const rate = Number(inflationPercent);
+    if (!Number.isFinite(rate) || rate < 0) {
+      setError("Inflation must be 0% or more.");
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(`/api/assets/forecast?years=${forecastYears}&inflation=${rate}`, {
+        cache: "no-store"
+      });
+      const data = (await response.json()) as { forecast?: ReplacementForecast; error?: unknown };
+      if (!response.ok || !data.forecast) {
+        setError(errorMessage(data, "Could not load the replacement forecast."));
+        return;
+      }
+      setForecast(data.forecast);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load the replacement forecast.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (asOf) {
+      void loadRegister(asOf);
+    }
+  }, [loadRegister, asOf]);
+
+  useEffect(() => {
+    void loadForecast(years, appliedInflation);
+  }, [loadForecast, years, appliedInflation]);
+
+  return (
+    <article className="card grid">
+      <h3>Asset Register and Replacement Forecast</h3>
+      <p className="lead">
+        Book values after depreciation, insured cover against replacement cost, and the capital needed to replace
+        assets as they reach the end of their useful life.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="asset-register-date">Values As At</label>
+          <input id="asset-register-date" type="date" value={asOf} onChange={(event) => setAsOf(event.target.value)} />
+        </div>
+      </div>
+      <div className="action-row">
+        <a className="btn-secondary inline-action" href={`/api/assets/register?asOf=${asOf}&format=xlsx`}>
+          Download Register (XLSX)
+        </a>
+        <a className="btn-secondary inline-action" href={`/api/assets/register?asOf=${asOf}&format=pdf`}>
+          Download Insurance Schedule (PDF)
+        </a>
+      </div>
+
+      {error ? <p className="notice error">{error}</p> : null}
+      {loading ? <p className="lead">Loading register...</p> : null}
+
+      {register && !loading ? (
+        <>
+          <div className="inline">
+            <div className="metric">
+              <strong>
+                {register.currency} {register.totals.purchaseCost.toFixed(2)}
+              </strong>
+              <span>Purchase cost</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {register.currency} {register.totals.bookValue.toFixed(2)}
+              </strong>
+              <span>Book value</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {register.currency} {register.totals.insuredValue.toFixed(2)}
+              </strong>
+              <span>Insured value</span>
+            </div>
+            <div className="metric">
+              <strong>{register.lines.filter((line) => line.underInsured).length}</strong>
+              <span>Under-insured assets</span>
+            </div>
+          </div>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>Asset</th>
+                  <th>Purchased</th>
+                  <th>Method</th>
+                  <th>End of Life</th>
+                  <th>Cost</th>
+                  <th>Depreciation</th>
+                  <th>Book Value</th>
+                  <th>Replacement</th>
+                  <th>Insured</th>
+                </tr>
+              </thead>
+              <tbody>
+                {register.lines.map((line) => (
+                  <tr key={line.id}>
+                    <td>
+                      {line.name}
+                      <span className="lead"> {line.category}</span>
+                    </td>
+                    <td>{line.purchaseDate ?? "-"}</td>
+                    <td>
+                      {line.depreciationMethod}
+                      {line.usefulLifeYears ? ` (${line.usefulLifeYears}y)` : ""}
+                    </td>
+                    <td>{line.endOfLifeDate ?? "-"}</td>
+                    <td>{money(line.purchaseCost)}</td>
+                    <td>{money(line.accumulatedDepreciation)}</td>
+                    <td>{money(line.bookValue)}</td>
+                    <td>{money(line.replacementCost)}</td>
+                    <td>
+                      {money(line.insuredValue)}
+                      {line.underInsured ? (
+                        <>
+                          {" "}
+                          <span className="status-pill status-overrun">Under-insured</span>
+                        </>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="statement-total">
+                  <td colSpan={4}>Total</td>
+                  <td>{register.totals.purchaseCost.toFixed(2)}</td>
+                  <td>{register.totals.accumulatedDepreciation.toFixed(2)}</td>
+                  <td>{register.totals.bookValue.toFixed(2)}</td>
+                  <td>{register.totals.replacementCost.toFixed(2)}</td>
+                  <td>{register.totals.insuredValue.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+
+      <h4>Capital Replacement Forecast</h4>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="forecast-years">Years</label>
+          <select id="forecast-years" value={years} onChange={(event) => setYears(Number(event.target.value))}>
+            {FORECAST_YEARS.map((option) => (
+              <option key={option} value={option}>
+                {option} years
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="forecast-inflation">Cost Inflation (% a year)</label>
+          <input
+            id="forecast-inflation"
+            type="number"
+            min="0"
+            step="0.5"
+            value={inflation}
+            onChange={(event) => setInflation(event.target.value)}
+            onBlur={() => setAppliedInflation(inflation)}
+          />
+        </div>
+      </div>
+
+      {forecast ? (
+        <>
+          <p className="lead">
+            {forecast.currency} {forecast.total.toFixed(2)} over {forecast.rows.length} years at{" "}
+            {forecast.inflationPercent}% a year. Assets already past their useful life are planned for{" "}
+            {forecast.startYear}.
+          </p>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th>Replacements</th>
+                  <th>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.rows.map((row) => (
+                  <tr key={row.year}>
+                    <td>{row.year}</td>
+                    <td>
+                      {row.items.length === 0
+                        ? "-"
+                        : row.items
+                            .map((item) =>
+                              item.overdue ? `${item.name} (overdue since ${item.endOfLifeDate})` : item.name
+                            )
+                            .join(", ")}
+                    </td>
+                    <td>{row.total.toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr className="statement-total">
+                  <td colSpan={2}>Total</td>
+                  <td>{forecast.total.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {forecast.unplanned.length > 0 ? (
+            <p className="lead">
+              Not forecast: {forecast.unplanned.map((item) => `${item.name} (${item.reason.toLowerCase()})`).join(", ")}
+            </p>
+          ) : null}
+        </>
+      ) : null}
+    </article>
+  );
+}
@@ -0,0 +1,603 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type MatchStatus = "UNMATCHED" | "PROPOSED" | "CONFIRMED" | "IGNORED";
+
+type MatchTargetType = "PAYMENT" | "SUBSCRIPTION" | "EXPENSE";
+
+type StatementImport = {
+  id: string;
+  fileName: string;
+  format: string;
+  statementStart: string | null;
+  statementEnd: string | null;
+  lineCount: number;
+  duplicateCount: number;
+  createdAt: string;
+  uploadedBy: { id: string; name: string } | null;
+};
+
+type BankTransaction = {
+  id: string;
+  postedAt: string;
+  direction: "CREDIT" | "DEBIT";
+  amount: string | number;
+  description: string;
+  reference: string | null;
+  matchStatus: MatchStatus;
+  matchScore: number | null;
+  matchReason: string | null;
+  paymentId: string | null;
+  subscriptionId: string | null;
+  expenseId: string | null;
+  confirmedAt: string | null;
+  payment: {
+    id: string;
+    amount: string | number;
+    status: string;
+    reference: string | null;
+    bookingId: string | null;
+    payer: { id: string; name: string } | null;
+  } | null;
+  subscription: { id: string; monthlyAmount: string | number; user: { id: string; name: string } } | null;
+  expense: { id: string; title: string; supplier: string | null; amount: string | number } | null;
+  confirmedBy: { id: string; name: string } | null;
+};
+
+type MatchCandidate = {
+  type: MatchTargetType;
+  id: string;
+  label: string;
+  amount: number;
+  score: number;
+  reason: string;
+};
+
+type ImportResult = {
+  lineCount: number;
+  imported: number;
+  duplicates: number;
+  proposed: number;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+type Correction = {
+  transaction: BankTransaction;
+  candidates: MatchCandidate[];
+  selected: string;
+  manualType: MatchTargetType;
+  manualId: string;
+  monthsCovered: string;
+  acceptAmountDifference: boolean;
+};
+
+const STATUS_LABELS: Record<MatchStatus, string> = {
+  UNMATCHED: "Unmatched",
+  PROPOSED: "Proposed",
+  CONFIRMED: "Confirmed",
+  IGNORED: "Ignored"
+};
+
+const MANUAL_TARGET = "manual";
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function dateLabel(value: string | null): string {
+  return value ? value.slice(0, 10) : "-";
+}
+
+function matchLabel(transaction: BankTransaction): string | null {
+  if (transaction.expense) {
+    const supplier = transaction.expense.supplier ? ` (${transaction.expense.supplier})` : "";
+    return `Expense: ${transaction.expense.title}${supplier}`;
+  }
+  if (transaction.subscription) {
+    return `Subscription: ${transaction.subscription.user.name}`;
+  }
+  if (transaction.payment) {
+    const payer = transaction.payment.payer ? ` from ${transaction.payment.payer.name}` : "";
+    const booking = transaction.payment.bookingId ? ` for booking ${transaction.payment.bookingId}` : "";
+    return `Payment${payer}${booking}`;
+  }
+  return null;
+}
+
+function proposedTarget(transaction: BankTransaction): { type: MatchTargetType; id: string } | null {
+  if (transaction.expenseId) {
+    return { type: "EXPENSE", id: transaction.expenseId };
+  }
+  if (transaction.subscriptionId) {
+    return { type: "SUBSCRIPTION", id: transaction.subscriptionId };
+  }
+  if (transaction.paymentId) {
+    return { type: "PAYMENT", id: transaction.paymentId };
+  }
+  return null;
+}
+
+export function AdminBankReconciliation() {
+  const [imports, setImports] = useState<StatementImport[]>([]);
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MatchStatus | "">("");
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [correction, setCorrection] = useState<Correction | null>(null);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadTransactions = useCallback(async (status: MatchStatus | "") => {
+    setLoading(true);
+    try {
+      const query = status ? `?status=${status}` : "";
+      const response = await fetch(`/api/finance/bank-statements${query}`, { cache: "no-store" });
+      const data = (await response.json()) as {
+        imports?: StatementImport[];
+        transactions?: BankTransaction[];
+        error?: unknown;
+      };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load bank transactions.") });
+        return;
+      }
+      setImports(data.imports ?? []);
+      setTransactions(data.transactions ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load bank transactions." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTransactions("");
+  }, [loadTransactions]);
+
+  async function uploadStatement(file: File) {
+    setUploading(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/finance/bank-statements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: file.name, data: await file.text() })
+      });
+      const data = (await response.json()) as { result?: ImportResult; error?: unknown };
+      if (!response.ok || !data.result) {
+        setState({ type: "error", message: errorMessage(data, "Could not import the bank statement.") });
+        return;
+      }
+      await loadTransactions(statusFilter);
+      const { imported, lineCount, duplicates, proposed } = data.result;
+      setState({
+        type: "success",
+        message: `Imported ${imported} of ${lineCount} lines (${duplicates} already imported), ${proposed} matched.`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not import the bank statement." });
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function updateTransaction(transaction: BankTransaction, body: Record<string, unknown>, success: string) {
+    setBusyId(transaction.id);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/finance/bank-statements/transactions/${transaction.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not update the bank transaction.") });
+        return;
+      }
+      setCorrection(null);
+      await loadTransactions(statusFilter);
+      setState({ type: "success", message: success });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not update the bank transaction." });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function openCorrection(transaction: BankTransaction) {
+    setBusyId(transaction.id);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/finance/bank-statements/transactions/${transaction.id}`, {
+        cache: "no-store"
+      });
+      const data = (await response.json()) as { candidates?: MatchCandidate[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load match candidates.") });
+        return;
+      }
+      const candidates = data.candidates ?? [];
+      setCorrection({
+        transaction,
+        candidates,
+        selected: candidates[0] ? `${candidates[0].type}:${candidates[0].id}` : MANUAL_TARGET,
+        manualType: transaction.direction === "DEBIT" ? "EXPENSE" : "PAYMENT",
+        manualId: "",
+        monthsCovered: "",
+        acceptAmountDifference: false
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load match candidates." });
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function confirmCorrection() {
+    if (!correction) {
+      return;
+    }
+    const [type, id] =
+      correction.selected === MANUAL_TARGET
+        ? [correction.manualType, correction.manualId.trim()]
+        : (correction.selected.split(":") as [MatchTargetType, string]);
+    if (!id) {
+      setState({ type: "error", message: "Enter the id of the payment, subscription or expense to match." });
+      return;
+    }
+    const monthsCovered = Number(correction.monthsCovered);
+    void updateTransaction(
+      correction.transaction,
+      {
+        action: "confirm",
+        targetType: type,
+        targetId: id,
+        monthsCovered: type === "SUBSCRIPTION" && monthsCovered > 0 ? monthsCovered : undefined,
+        acceptAmountDifference: type !== "SUBSCRIPTION" && correction.acceptAmountDifference ? true : undefined
+      },
+      "Match confirmed."
+    );
+  }
+
+  const counts = transactions.reduce<Record<MatchStatus, number>>(
+    (totals, transaction) => ({ ...totals, [transaction.matchStatus]: totals[transaction.matchStatus] + 1 }),
+    { UNMATCHED: 0, PROPOSED: 0, CONFIRMED: 0, IGNORED: 0 }
+  );
+  const selectedType =
+    correction?.selected === MANUAL_TARGET ? correction.manualType : correction?.selected.split(":")[0];
+
+  return (
+    <article className="card grid">
+      <h3>Bank Reconciliation</h3>
+      <p className="lead">
+        Upload a CSV, OFX or QIF bank statement. Money in is matched to pending payments and member subscriptions by
+        reference, amount and name; money out is matched to unpaid expenses. Nothing is marked paid until a match is
+        confirmed.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="bank-statement-file">Upload Bank Statement</label>
+          <input
+            id="bank-statement-file"
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif"
+            disabled={uploading}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                void uploadStatement(file);
+              }
+              event.target.value = "";
+            }}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="bank-status-filter">Show</label>
+          <select
+            id="bank-status-filter"
+            value={statusFilter}
+            onChange={(event) => {
+              const status = event.target.value as MatchStatus | "";
+              setStatusFilter(status);
+              void loadTransactions(status);
+            }}
+          >
+            <option value="">All transactions</option>
+            {(Object.keys(STATUS_LABELS) as MatchStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {uploading ? <p className="lead">Importing statement...</p> : null}
+
+      <div className="inline">
+        {(Object.keys(STATUS_LABELS) as MatchStatus[]).map((status) => (
+          <div key={status} className="metric">
+            <strong>{counts[status]}</strong>
+            <span>{STATUS_LABELS[status]}</span>
+          </div>
+        ))}
+      </div>
+
+      {imports.length > 0 ? (
+        <details>
+          <summary>Recent statement imports</summary>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>File</th>
+                  <th>Format</th>
+                  <th>Statement Period</th>
+                  <th>Lines</th>
+                  <th>Already Imported</th>
+                  <th>Uploaded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>{entry.fileName}</td>
+                    <td>{entry.format.toUpperCase()}</td>
+                    <td>
+                      {dateLabel(entry.statementStart)} to {dateLabel(entry.statementEnd)}
+                    </td>
+                    <td>{entry.lineCount}</td>
+                    <td>{entry.duplicateCount}</td>
+                    <td>
+                      {dateLabel(entry.createdAt)}
+                      {entry.uploadedBy ? <small> by {entry.uploadedBy.name}</small> : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      ) : null}
+
+      {correction ? (
+        <div className="card grid">
+          <strong>
+            Match {correction.transaction.direction === "CREDIT" ? "money in" : "money out"} of{" "}
+            {Number(correction.transaction.amount).toFixed(2)} on {dateLabel(correction.transaction.postedAt)}
+          </strong>
+          <p className="lead">{correction.transaction.description}</p>
+          <div className="grid grid-2">
+            <div className="field">
+              <label htmlFor="bank-match-candidate">Match To</label>
+              <select
+                id="bank-match-candidate"
+                value={correction.selected}
+                onChange={(event) =>
+                  setCorrection((current) => (current ? { ...current, selected: event.target.value } : current))
+                }
+              >
+                {correction.candidates.map((candidate) => (
+                  <option key={`${candidate.type}:${candidate.id}`} value={`${candidate.type}:${candidate.id}`}>
+                    {candidate.label} | {candidate.amount.toFixed(2)} | score {candidate.score} ({candidate.reason})
+                  </option>
+                ))}
+                <option value={MANUAL_TARGET}>Other (enter id)</option>
+              </select>
+            </div>
+            {correction.selected === MANUAL_TARGET ? (
+              <>
+                <div className="field">
+                  <label htmlFor="bank-match-type">Target Type</label>
+                  <select
+                    id="bank-match-type"
+                    value={correction.manualType}
+                    onChange={(event) =>
+                      setCorrection((current) =>
+                        current ? { ...current, manualType: event.target.value as MatchTargetType } : current
+                      )
+                    }
+                  >
+                    {correction.transaction.direction === "CREDIT" ? (
+                      <>
+                        <option value="PAYMENT">Pending payment</option>
+                        <option value="SUBSCRIPTION">Member subscription</option>
+                      </>
+                    ) : (
+                      <option value="EXPENSE">Unpaid expense</option>
+                    )}
+                  </select>
+                </div>
+                <div className="field">
+                  <label htmlFor="bank-match-id">Target Id</label>
+                  <input
+                    id="bank-match-id"
+                    value={correction.manualId}
+                    onChange={(event) =>
+                      setCorrection((current) => (current ? { ...current, manualId: event.target.value } : current))
+                    }
+                  />
+                </div>
+              </>
+            ) : null}
+            {selectedType === "SUBSCRIPTION" ? (
+              <div className="field">
+                <label htmlFor="bank-match-months">Months Covered (blank to work out from the amount)</label>
+                <input
+                  id="bank-match-months"
+                  type="number"
+                  min="1"
+                  max="24"
+                  value={correction.monthsCovered}
+                  onChange={(event) =>
+                    setCorrection((current) => (current ? { ...current, monthsCovered: event.target.value } : current))
+                  }
+                />
+              </div>
+            ) : (
+              <div className="field">
+                <label htmlFor="bank-match-difference">If the Amount Differs</label>
+                <select
+                  id="bank-match-difference"
+                  value={correction.acceptAmountDifference ? "accept" : "refuse"}
+                  onChange={(event) =>
+                    setCorrection((current) =>
+                      current ? { ...current, acceptAmountDifference: event.target.value === "accept" } : current
+                    )
+                  }
+                >
+                  <option value="refuse">Refuse the match</option>
+                  <option value="accept">Confirm anyway (payments are recorded at the bank amount)</option>
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="action-row">
+            <button
+              type="button"
+              className="btn-primary"
+              disabled={busyId === correction.transaction.id}
+              onClick={confirmCorrection}
+            >
+              Confirm Match
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setCorrection(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {loading ? (
+        <p className="lead">Loading bank transactions...</p>
+      ) : transactions.length === 0 ? (
+        <p className="lead">No bank transactions to show.</p>
+      ) : (
+        <div className="statement-table-wrap">
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th>In</th>
+                <th>Out</th>
+                <th>Status</th>
+                <th>Match</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((transaction) => {
+                const target = proposedTarget(transaction);
+                const busy = busyId === transaction.id;
+                const amount = Number(transaction.amount).toFixed(2);
+                return (
+                  <tr key={transaction.id}>
+                    <td>{dateLabel(transaction.postedAt)}</td>
+                    <td>
+                      {transaction.description}
+                      {transaction.reference ? <small> {transaction.reference}</small> : null}
+                    </td>
+                    <td>{transaction.direction === "CREDIT" ? amount : ""}</td>
+                    <td>{transaction.direction === "DEBIT" ? amount : ""}</td>
+                    <td>
+                      <span className={`status-pill bank-${transaction.matchStatus.toLowerCase()}`}>
+                        {STATUS_LABELS[transaction.matchStatus]}
+                      </span>
+                    </td>
+                    <td>
+                      {matchLabel(transaction) ?? "-"}
+                      {transaction.matchStatus === "PROPOSED" && transaction.matchScore !== null ? (
+                        <small>
+                          {" "}
+                          score {transaction.matchScore}: {transaction.matchReason}
+                        </small>
+                      ) : null}
+                      {transaction.confirmedBy ? (
+                        <small>
+                          {" "}
+                          confirmed by {transaction.confirmedBy.name} on {dateLabel(transaction.confirmedAt)}
+                        </small>
+                      ) : null}
+                    </td>
+                    <td>
+                      <div className="action-row">
+                        {transaction.matchStatus === "PROPOSED" && target ? (
+                          <button
+                            type="button"
+                            className="btn-primary"
+                            disabled={busy}
+                            onClick={() =>
+                              void updateTransaction(
+                                transaction,
+                                { action: "confirm", targetType: target.type, targetId: target.id },
+                                "Match confirmed."
+                              )
+                            }
+                          >
+                            Confirm
+                          </button>
+                        ) : null}
+                        {transaction.matchStatus === "UNMATCHED" || transaction.matchStatus === "PROPOSED" ? (
+                          <>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              disabled={busy}
+                              onClick={() => void openCorrection(transaction)}
+                            >
+                              {transaction.matchStatus === "PROPOSED" ? "Correct" : "Find Match"}
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              disabled={busy}
+                              onClick={() =>
+                                void updateTransaction(transaction, { action: "ignore" }, "Transaction ignored.")
+                              }
+                            >
+                              Ignore
+                            </button>
+                          </>
+                        ) : null}
+                        {transaction.matchStatus === "IGNORED" ? (
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            disabled={busy}
+                            onClick={() =>
+                              void updateTransaction(transaction, { action: "unmatch" }, "Transaction restored.")
+                            }
+                          >
+                            Restore
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </article>
+  );
+}
@@ -11,6 +11,17 @@ type BookingAuditLog = {
   actor?: { name?: string | null; email?: string | null } | null;
 };
 
+type PaymentSummary = {
+  depositAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  outstandingAmount: number;
+  depositDueDate: string | null;
+  balanceDueDate: string | null;
+  state: string;
+  label: string;
+};
+
 type Booking = {
   id: string;
   status: string;
@@ -27,6 +38,7 @@ type Booking = {
   requestedBy?: { name: string; email: string } | null;
   approvedBy?: { name: string; email: string; role: string } | null;
   bookingAuditLogs?: BookingAuditLog[];
+  paymentSummary?: PaymentSummary;
 };
 
 type PanelState = { type: "idle" | "error"; message?: string };
@@ -71,7 +83,10 @@ export function AdminBookingHistory() {
     () => ({
       total: history.length,
       approved: history.filter((booking) => booking.status === "APPROVED").length,
-      rejected: history.filter((booking) => booking.status === "REJECTED").length
+      rejected: history.filter((booking) => booking.status === "REJECTED").length,
+      outstanding: history.filter(
+        (booking) => booking.status === "APPROVED" && (booking.paymentSummary?.outstandingAmount ?? 0) > 0
+      ).length
     }),
     [history]
   );
@@ -120,6 +135,10 @@ export function AdminBookingHistory() {
           <strong>{summary.rejected}</strong>
           <span>Rejected bookings</span>
         </div>
+        <div className="metric">
+          <strong>{summary.outstanding}</strong>
+          <span>Completed stays with money outstanding</span>
+        </div>
       </article>
 
       {history.length === 0 ? (
@@ -131,6 +150,11 @@ export function AdminBookingHistory() {
           <details key={booking.id} className="card booking-history-item">
             <summary className="booking-history-summary">
               <span className={`status-pill status-${booking.status.toLowerCase()}`}>{booking.status}</span>
+              {booking.paymentSummary ? (
+                <span className={`status-pill payment-${booking.paymentSummary.state.toLowerCase()}`}>
+                  {booking.paymentSummary.label}
+                </span>
+              ) : null}
               <span className="lead">{dateLabel(booking.startDate)} to {dateLabel(booking.endDate)}</span>
               <span className="lead">
                 {booking.source} / {booking.scope} | {booking.totalGuests} guests | {booking.petCount ?? 0} pets
@@ -139,6 +163,13 @@ export function AdminBookingHistory() {
 
             <div className="booking-history-details grid">
               <p className="lead">Amount: {amountLabel(booking.currency, booking.totalAmount)}</p>
+              {booking.paymentSummary ? (
+                <p className="lead">
+                  Paid: {amountLabel(booking.currency, booking.paymentSummary.paidAmount)} | Outstanding:{" "}
+                  {amountLabel(booking.currency, booking.paymentSummary.outstandingAmount)}
+                  {booking.paymentSummary.balanceDueDate ? ` | Balance was due ${booking.paymentSummary.balanceDueDate}` : ""}
+                </p>
+              ) : null}
               <p className="lead">
                 Requested by: {booking.requestedBy?.name ?? "External"} ({booking.requestedBy?.email ?? "No email"})
               </p>
@@ -2,9 +2,13 @@
 
 import { useEffect, useState } from "react";
 import {
+  DEFAULT_DEPOSIT_POLICY,
   DEFAULT_GUEST_BULLETIN_BODY,
   DEFAULT_GUEST_BULLETIN_TITLE,
-  DEFAULT_PET_NOTICE
+  DEFAULT_PET_NOTICE,
+  formatCancellationTiers,
+  parseCancellationTierInput,
+  type CancellationTierInput
 } from "@/lib/booking-policy";
 
 type NoticeState = {
@@ -26,6 +30,13 @@ export function AdminBookingPolicySettings() {
   const [petNotice, setPetNotice] = useState(DEFAULT_PET_NOTICE);
   const [guestBulletinTitle, setGuestBulletinTitle] = useState(DEFAULT_GUEST_BULLETIN_TITLE);
   const [guestBulletinBody, setGuestBulletinBody] = useState(DEFAULT_GUEST_BULLETIN_BODY);
+  const [depositType, setDepositType] = useState(DEFAULT_DEPOSIT_POLICY.depositType);
+  const [depositValue, setDepositValue] = useState(String(DEFAULT_DEPOSIT_POLICY.depositValue));
+  const [depositDueDays, setDepositDueDays] = useState(String(DEFAULT_DEPOSIT_POLICY.depositDueDays));
+  const [balanceDueDays, setBalanceDueDays] = useState(String(DEFAULT_DEPOSIT_POLICY.balanceDueDaysBeforeArrival));
+  const [internalTiers, setInternalTiers] = useState("14:100, 0:50");
+  const [externalTiers, setExternalTiers] = useState("30:100, 14:50, 0:0");
+  const [waitlistHoldHours, setWaitlistHoldHours] = useState("48");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [state, setState] = useState<NoticeState>({ type: "idle" });
@@ -41,6 +52,13 @@ export function AdminBookingPolicySettings() {
             petNotice?: string;
             guestBulletinTitle?: string;
             guestBulletinBody?: string;
+            depositType?: "PERCENTAGE" | "FIXED";
+            depositValue?: number | string;
+            depositDueDays?: number;
+            balanceDueDaysBeforeArrival?: number;
+            internalCancellationTiers?: CancellationTierInput[];
+            externalCancellationTiers?: CancellationTierInput[];
+            waitlistHoldHours?: number;
           };
           error?: unknown;
         };
@@ -52,6 +70,19 @@ export function AdminBookingPolicySettings() {
         setPetNotice(data.policy?.petNotice ?? DEFAULT_PET_NOTICE);
         setGuestBulletinTitle(data.policy?.guestBulletinTitle ?? DEFAULT_GUEST_BULLETIN_TITLE);
         setGuestBulletinBody(data.policy?.guestBulletinBody ?? DEFAULT_GUEST_BULLETIN_BODY);
+        setDepositType(data.policy?.depositType ?? DEFAULT_DEPOSIT_POLICY.depositType);
+        setDepositValue(String(data.policy?.depositValue ?? DEFAULT_DEPOSIT_POLICY.depositValue));
+        setDepositDueDays(String(data.policy?.depositDueDays ?? DEFAULT_DEPOSIT_POLICY.depositDueDays));
+        setBalanceDueDays(
+          String(data.policy?.balanceDueDaysBeforeArrival ?? DEFAULT_DEPOSIT_POLICY.balanceDueDaysBeforeArrival)
+        );
+        if (data.policy?.internalCancellationTiers) {
+          setInternalTiers(formatCancellationTiers(data.policy.internalCancellationTiers));
+        }
+        if (data.policy?.externalCancellationTiers) {
+          setExternalTiers(formatCancellationTiers(data.policy.externalCancellationTiers));
+        }
+        setWaitlistHoldHours(String(data.policy?.waitlistHoldHours ?? 48));
       } catch (error) {
         console.error(error);
         setState({ type: "error", message: "Could not load booking policy." });
@@ -81,6 +112,42 @@ export function AdminBookingPolicySettings() {
       return;
     }
 
+    const parsedDepositValue = Number(depositValue);
+    const parsedDepositDueDays = Number(depositDueDays);
+    const parsedBalanceDueDays = Number(balanceDueDays);
+    if (!Number.isFinite(parsedDepositValue) || parsedDepositValue < 0) {
+      setState({ type: "error", message: "Deposit value must be 0 or more." });
+      return;
+    }
+    if (depositType === "PERCENTAGE" && parsedDepositValue > 100) {
+      setState({ type: "error", message: "Deposit percentage cannot exceed 100." });
+      return;
+    }
+    if (!Number.isInteger(parsedDepositDueDays) || parsedDepositDueDays < 0) {
+      setState({ type: "error", message: "Deposit due days must be a whole number of 0 or more." });
+      return;
+    }
+    if (!Number.isInteger(parsedBalanceDueDays) || parsedBalanceDueDays < 0) {
+      setState({ type: "error", message: "Balance due days must be a whole number of 0 or more." });
+      return;
+    }
+
+    const parsedWaitlistHoldHours = Number(waitlistHoldHours);
+    if (!Number.isInteger(parsedWaitlistHoldHours) || parsedWaitlistHoldHours < 1) {
+      setState({ type: "error", message: "Waitlist hold must be a whole number of hours, at least 1." });
+      return;
+    }
+
+    const parsedInternalTiers = parseCancellationTierInput(internalTiers);
+    const parsedExternalTiers = parseCancellationTierInput(externalTiers);
+    if (!parsedInternalTiers || !parsedExternalTiers) {
+      setState({
+        type: "error",
+        message: "Cancellation tiers must look like 30:100, 14:50, 0:0 (days before arrival : refund %)."
+      });
+      return;
+    }
+
     setSaving(true);
     setState({ type: "idle" });
     try {
@@ -90,7 +157,14 @@ export function AdminBookingPolicySettings() {
         body: JSON.stringify({
           petNotice: trimmedPetNotice,
           guestBulletinTitle: trimmedBulletinTitle,
-          guestBulletinBody: trimmedBulletinBody
+          guestBulletinBody: trimmedBulletinBody,
+          depositType,
+          depositValue: parsedDepositValue,
+          depositDueDays: parsedDepositDueDays,
+          balanceDueDaysBeforeArrival: parsedBalanceDueDays,
+          internalCancellationTiers: parsedInternalTiers,
+          externalCancellationTiers: parsedExternalTiers,
+          waitlistHoldHours: parsedWaitlistHoldHours
         })
       });
       const data = (await response.json()) as { error?: unknown };
@@ -118,7 +192,8 @@ export function AdminBookingPolicySettings() {
     <article className="card grid">
       <h2>Booking Policies</h2>
       <p className="lead">
-        Set the pet notice shown during booking and the guest useful-info bulletin shown on the guest portal.
+        Set the pet notice shown during booking, the guest useful-info bulletin shown on the guest portal, and
+        when booking deposits and balances fall due.
       </p>
       {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
       {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
@@ -149,6 +224,87 @@ export function AdminBookingPolicySettings() {
         />
         <p className="lead">Use one line per information item, contact, or reminder.</p>
       </div>
+      <h3>Deposit Policy</h3>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="deposit-type">Deposit Type</label>
+          <select
+            id="deposit-type"
+            value={depositType}
+            onChange={(event) => setDepositType(event.target.value as typeof depositType)}
+          >
+            <option value="PERCENTAGE">Percentage of total</option>
+            <option value="FIXED">Fixed amount (ZAR)</option>
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="deposit-value">{depositType === "PERCENTAGE" ? "Deposit (%)" : "Deposit (ZAR)"}</label>
+          <input
+            id="deposit-value"
+            type="number"
+            min="0"
+            step="0.01"
+            value={depositValue}
+            onChange={(event) => setDepositValue(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="deposit-due-days">Deposit Due (days after approval)</label>
+          <input
+            id="deposit-due-days"
+            type="number"
+            min="0"
+            value={depositDueDays}
+            onChange={(event) => setDepositDueDays(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="balance-due-days">Balance Due (days before arrival)</label>
+          <input
+            id="balance-due-days"
+            type="number"
+            min="0"
+            value={balanceDueDays}
+            onChange={(event) => setBalanceDueDays(event.target.value)}
+          />
+        </div>
+      </div>
+      <h3>Cancellation Policy</h3>
+      <p className="lead">
+        Refund tiers as days before arrival : refund % of what was paid, e.g. 30:100, 14:50, 0:0. Members are
+        credited on their account; external guests are refunded.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="internal-cancellation-tiers">Family Bookings</label>
+          <input
+            id="internal-cancellation-tiers"
+            value={internalTiers}
+            onChange={(event) => setInternalTiers(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="external-cancellation-tiers">External Bookings</label>
+          <input
+            id="external-cancellation-tiers"
+            value={externalTiers}
+            onChange={(event) => setExternalTiers(event.target.value)}
+          />
+        </div>
+      </div>
+      <h3>Waitlist</h3>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="waitlist-hold-hours">Hold Offered Dates For (hours)</label>
+          <input
+            id="waitlist-hold-hours"
+            type="number"
+            min="1"
+            value={waitlistHoldHours}
+            onChange={(event) => setWaitlistHoldHours(event.target.value)}
+          />
+        </div>
+      </div>
       <div className="action-row">
         <button type="button" className="btn-primary" disabled={saving} onClick={() => void savePolicy()}>
           {saving ? "Saving..." : "Save Policy"}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type WaitlistEntry = {
+  id: string;
+  source: string;
+  scope: string;
+  status: string;
+  position: number;
+  startDate: string;
+  endDate: string;
+  roomIds: string[];
+  contactName?: string | null;
+  contactEmail: string;
+  holdExpiresAt?: string | null;
+  createdAt: string;
+  requestedBy?: { name: string; email: string } | null;
+};
+
+type PanelState = {
+  type: "idle" | "error" | "success";
+  message?: string;
+};
+
+function dateLabel(value: string): string {
+  return value.slice(0, 10);
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function AdminBookingWaitlist() {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [orderChanged, setOrderChanged] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/bookings/waitlist", { cache: "no-store" });
+      const data = (await response.json()) as { entries?: WaitlistEntry[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load the waitlist.") });
+        return;
+      }
+      setEntries(data.entries ?? []);
+      setOrderChanged(false);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load the waitlist." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries]);
+
+  function move(index: number, offset: -1 | 1) {
+    const target = index + offset;
+    if (target < 0 || target >= entries.length) {
+      return;
+    }
+    const next = [...entries];
+    [next[index], next[target]] = [next[target], next[index]];
+    setEntries(next);
+    setOrderChanged(true);
+  }
+
+  async function saveOrder() {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/bookings/waitlist", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entryIds: entries.map((entry) => entry.id) })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save the waitlist order.") });
+        return;
+      }
+      await loadEntries();
+      setState({ type: "success", message: "Waitlist order saved." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save the waitlist order." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function withdraw(entryId: string) {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/bookings/waitlist/${encodeURIComponent(entryId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "WITHDRAWN" })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not withdraw the entry.") });
+        return;
+      }
+      await loadEntries();
+      setState({ type: "success", message: "Waitlist entry withdrawn." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not withdraw the entry." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function offerNow() {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/bookings/waitlist", { method: "POST" });
+      const data = (await response.json()) as { offered?: unknown[]; expired?: number; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not check the waitlist.") });
+        return;
+      }
+      await loadEntries();
+      setState({
+        type: "success",
+        message: `Offered ${data.offered?.length ?? 0} hold(s); ${data.expired ?? 0} expired entr${
+          data.expired === 1 ? "y" : "ies"
+        } closed.`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not check the waitlist." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Waitlist</h3>
+      <p className="lead">
+        Requesters who asked for dates that were taken. When a clashing booking is rejected or cancelled, the first
+        entry in line whose dates are free gets a time-limited hold by email.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      {loading ? (
+        <p className="lead">Loading waitlist...</p>
+      ) : entries.length === 0 ? (
+        <p className="lead">Nobody is waiting for dates right now.</p>
+      ) : (
+        <div className="table-list">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="table-item">
+              <div className="status-line">
+                <strong>#{index + 1}</strong>
+                <span className={`status-pill waitlist-${entry.status.toLowerCase()}`}>{entry.status}</span>
+                <span className="lead">
+                  {dateLabel(entry.startDate)} to {dateLabel(entry.endDate)} | {entry.source} / {entry.scope}
+                </span>
+              </div>
+              <p className="lead">
+                {entry.requestedBy?.name ?? entry.contactName ?? "Guest"} ({entry.contactEmail}) | Joined{" "}
+                {dateLabel(entry.createdAt)}
+                {entry.holdExpiresAt ? ` | Hold expires ${new Date(entry.holdExpiresAt).toLocaleString()}` : ""}
+              </p>
+              <div className="action-row">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  disabled={working || index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  Move Up
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  disabled={working || index === entries.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  Move Down
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  disabled={working}
+                  onClick={() => void withdraw(entry.id)}
+                >
+                  Withdraw
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="action-row">
+        <button
+          type="button"
+          className="btn-primary"
+          disabled={working || !orderChanged}
+          onClick={() => void saveOrder()}
+        >
+          {working ? "Working..." : "Save Order"}
+        </button>
+        <button type="button" className="btn-secondary" disabled={working} onClick={() => void offerNow()}>
+          Offer Free Dates Now
+        </button>
+      </div>
+    </article>
+  );
+}
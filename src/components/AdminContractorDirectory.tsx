@@ -0,0 +1,580 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ContractorSummary = {
+  jobCount: number;
+  openJobs: number;
+  completedJobs: number;
+  spend: number;
+  jobCost: number;
+  averageTurnaroundDays: number | null;
+  lastJobAt: string | null;
+};
+
+type Contractor = {
+  id: string;
+  name: string;
+  trade?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  hourlyRate?: string | number | null;
+  calloutFee?: string | number | null;
+  rateNotes?: string | null;
+  beeLevel?: number | null;
+  beeCertificateNumber?: string | null;
+  taxNumber?: string | null;
+  vatNumber?: string | null;
+  rating?: number | null;
+  notes?: string | null;
+  isActive: boolean;
+  summary: ContractorSummary;
+};
+
+type ContractorHistory = {
+  summary: ContractorSummary;
+  jobs: Array<{
+    id: string;
+    title: string;
+    status: string;
+    asset: { id: string; name: string } | null;
+    assignedAt: string;
+    dueDate: string | null;
+    completedAt: string | null;
+    actualCost: number | null;
+    turnaroundDays: number | null;
+    jobCardSentAt: string | null;
+  }>;
+  expenses: Array<{
+    id: string;
+    title: string;
+    invoiceNumber: string | null;
+    amount: number;
+    serviceDate: string | null;
+    paidDate: string | null;
+  }>;
+};
+
+type ContractorForm = {
+  id: string;
+  name: string;
+  trade: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  hourlyRate: string;
+  calloutFee: string;
+  rateNotes: string;
+  beeLevel: string;
+  beeCertificateNumber: string;
+  taxNumber: string;
+  vatNumber: string;
+  rating: string;
+  notes: string;
+  isActive: boolean;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+const defaultForm: ContractorForm = {
+  id: "",
+  name: "",
+  trade: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  hourlyRate: "",
+  calloutFee: "",
+  rateNotes: "",
+  beeLevel: "",
+  beeCertificateNumber: "",
+  taxNumber: "",
+  vatNumber: "",
+  rating: "",
+  notes: "",
+  isActive: true
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function optionalNumber(value: string): number | null {
+  return value.trim() ? Number(value) : null;
+}
+
+function numberInput(value?: string | number | null): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function buildForm(contractor: Contractor): ContractorForm {
+  return {
+    id: contractor.id,
+    name: contractor.name,
+    trade: contractor.trade ?? "",
+    contactName: contractor.contactName ?? "",
+    email: contractor.email ?? "",
+    phone: contractor.phone ?? "",
+    address: contractor.address ?? "",
+    hourlyRate: numberInput(contractor.hourlyRate),
+    calloutFee: numberInput(contractor.calloutFee),
+    rateNotes: contractor.rateNotes ?? "",
+    beeLevel: numberInput(contractor.beeLevel),
+    beeCertificateNumber: contractor.beeCertificateNumber ?? "",
+    taxNumber: contractor.taxNumber ?? "",
+    vatNumber: contractor.vatNumber ?? "",
+    rating: numberInput(contractor.rating),
+    notes: contractor.notes ?? "",
+    isActive: contractor.isActive
+  };
+}
+
+function turnaroundLabel(days: number | null): string {
+  return days === null ? "-" : `${days.toFixed(1)} days`;
+}
+
+export function AdminContractorDirectory() {
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [form, setForm] = useState<ContractorForm>(defaultForm);
+  const [selected, setSelected] = useState<Contractor | null>(null);
+  const [history, setHistory] = useState<ContractorHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadContractors = useCallback(async (inactive: boolean) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/contractors${inactive ? "?includeInactive=true" : ""}`, {
+        cache: "no-store"
+      });
+      const data = (await response.json()) as { contractors?: Contractor[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load contractors.") });
+        return;
+      }
+      setContractors(data.contractors ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load contractors." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadContractors(includeInactive);
+  }, [loadContractors, includeInactive]);
+
+  async function showHistory(contractor: Contractor) {
+    setSelected(contractor);
+    setHistory(null);
+    try {
+      const response = await fetch(`/api/contractors/${contractor.id}`, { cache: "no-store" });
+      const data = (await response.json()) as { history?: ContractorHistory; error?: unknown };
+      if (!response.ok || !data.history) {
+        setState({ type: "error", message: errorMessage(data, "Could not load the contractor history.") });
+        return;
+      }
+      setHistory(data.history);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load the contractor history." });
+    }
+  }
+
+  async function saveContractor() {
+    if (form.name.trim().length < 2) {
+      setState({ type: "error", message: "Contractor name must be at least 2 characters." });
+      return;
+    }
+
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/contractors", {
+        method: form.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: form.id || undefined,
+          name: form.name.trim(),
+          trade: form.trade.trim(),
+          contactName: form.contactName.trim(),
+          email: form.email.trim(),
+          phone: form.phone.trim(),
+          address: form.address.trim(),
+          hourlyRate: optionalNumber(form.hourlyRate),
+          calloutFee: optionalNumber(form.calloutFee),
+          rateNotes: form.rateNotes.trim(),
+          beeLevel: optionalNumber(form.beeLevel),
+          beeCertificateNumber: form.beeCertificateNumber.trim(),
+          taxNumber: form.taxNumber.trim(),
+          vatNumber: form.vatNumber.trim(),
+          rating: optionalNumber(form.rating),
+          notes: form.notes.trim(),
+          isActive: form.isActive
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save contractor.") });
+        return;
+      }
+
+      setState({ type: "success", message: form.id ? "Contractor updated." : "Contractor added to the directory." });
+      setForm(defaultForm);
+      await loadContractors(includeInactive);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save contractor." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="grid">
+      <article className="card grid">
+        <h3>Contractors and Suppliers</h3>
+        <p className="lead">
+          Jobs count every task assigned to the contractor except cancelled ones. Spend is the total of linked
+          expenses; turnaround runs from assignment to the task being marked done.
+        </p>
+
+        {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+        {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="contractor-filter">Show</label>
+            <select
+              id="contractor-filter"
+              value={includeInactive ? "all" : "active"}
+              onChange={(event) => setIncludeInactive(event.target.value === "all")}
+            >
+              <option value="active">Active contractors</option>
+              <option value="all">Active and inactive</option>
+            </select>
+          </div>
+        </div>
+
+        {loading ? <p className="lead">Loading contractors...</p> : null}
+        {!loading && contractors.length === 0 ? <p className="lead">No contractors registered yet.</p> : null}
+
+        {contractors.length > 0 ? (
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Trade</th>
+                  <th>Contact</th>
+                  <th>Rating</th>
+                  <th>Jobs (open)</th>
+                  <th>Spend</th>
+                  <th>Avg Turnaround</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {contractors.map((contractor) => (
+                  <tr key={contractor.id}>
+                    <td>
+                      {contractor.name}
+                      {contractor.isActive ? null : <small> inactive</small>}
+                    </td>
+                    <td>{contractor.trade ?? "-"}</td>
+                    <td>
+                      {[contractor.contactName, contractor.phone, contractor.email].filter(Boolean).join(" | ") || "-"}
+                    </td>
+                    <td>{contractor.rating ? `${contractor.rating}/5` : "-"}</td>
+                    <td>
+                      {contractor.summary.jobCount} ({contractor.summary.openJobs})
+                    </td>
+                    <td>{contractor.summary.spend.toFixed(2)}</td>
+                    <td>{turnaroundLabel(contractor.summary.averageTurnaroundDays)}</td>
+                    <td>
+                      <div className="action-row">
+                        <button type="button" className="btn-secondary" onClick={() => setForm(buildForm(contractor))}>
+                          Edit
+                        </button>
+                        <button type="button" className="btn-secondary" onClick={() => void showHistory(contractor)}>
+                          History
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </article>
+
+      {selected ? (
+        <article className="card grid">
+          <h3>{selected.name}: History</h3>
+          {!history ? <p className="lead">Loading history...</p> : null}
+          {history ? (
+            <>
+              <p className="lead">
+                {history.summary.completedJobs} completed of {history.summary.jobCount} jobs | Spend: ZAR{" "}
+                {history.summary.spend.toFixed(2)} | Job cost: ZAR {history.summary.jobCost.toFixed(2)} | Average
+                turnaround: {turnaroundLabel(history.summary.averageTurnaroundDays)}
+              </p>
+              <h4>Jobs</h4>
+              {history.jobs.length === 0 ? (
+                <p className="lead">No jobs assigned yet.</p>
+              ) : (
+                <div className="statement-table-wrap">
+                  <table className="statement-table">
+                    <thead>
+                      <tr>
+                        <th>Job</th>
+                        <th>Asset</th>
+                        <th>Status</th>
+                        <th>Assigned</th>
+                        <th>Completed</th>
+                        <th>Turnaround</th>
+                        <th>Actual Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.jobs.map((job) => (
+                        <tr key={job.id}>
+                          <td>{job.title}</td>
+                          <td>{job.asset?.name ?? "-"}</td>
+                          <td>
+                            <span className={`status-pill status-${job.status.toLowerCase()}`}>{job.status}</span>
+                          </td>
+                          <td>{job.assignedAt}</td>
+                          <td>{job.completedAt ?? "-"}</td>
+                          <td>{turnaroundLabel(job.turnaroundDays)}</td>
+                          <td>{job.actualCost === null ? "-" : job.actualCost.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <h4>Expenses</h4>
+              {history.expenses.length === 0 ? (
+                <p className="lead">No expenses linked yet.</p>
+              ) : (
+                <div className="statement-table-wrap">
+                  <table className="statement-table">
+                    <thead>
+                      <tr>
+                        <th>Expense</th>
+                        <th>Invoice</th>
+                        <th>Service Date</th>
+                        <th>Paid</th>
+                        <th>Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.expenses.map((expense) => (
+                        <tr key={expense.id}>
+                          <td>{expense.title}</td>
+                          <td>{expense.invoiceNumber ?? "-"}</td>
+                          <td>{expense.serviceDate ?? "-"}</td>
+                          <td>{expense.paidDate ?? "Unpaid"}</td>
+                          <td>{expense.amount.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          ) : null}
+          <div className="action-row">
+            <button type="button" className="btn-secondary" onClick={() => setSelected(null)}>
+              Close History
+            </button>
+          </div>
+        </article>
+      ) : null}
+
+      <article className="card grid">
+        <h3>{form.id ? `Edit ${form.name}` : "Add Contractor"}</h3>
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="contractor-name">Business Name</label>
+            <input
+              id="contractor-name"
+              value={form.name}
+              onChange={(event) => setForm((current) => ({ ...current, name: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-trade">Trade</label>
+            <input
+              id="contractor-trade"
+              placeholder="Plumber, electrician, pool service..."
+              value={form.trade}
+              onChange={(event) => setForm((current) => ({ ...current, trade: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-contact">Contact Person</label>
+            <input
+              id="contractor-contact"
+              value={form.contactName}
+              onChange={(event) => setForm((current) => ({ ...current, contactName: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-email">Email (job cards are sent here)</label>
+            <input
+              id="contractor-email"
+              type="email"
+              value={form.email}
+              onChange={(event) => setForm((current) => ({ ...current, email: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-phone">Phone</label>
+            <input
+              id="contractor-phone"
+              value={form.phone}
+              onChange={(event) => setForm((current) => ({ ...current, phone: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-address">Address</label>
+            <input
+              id="contractor-address"
+              value={form.address}
+              onChange={(event) => setForm((current) => ({ ...current, address: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-hourly">Hourly Rate (ZAR)</label>
+            <input
+              id="contractor-hourly"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.hourlyRate}
+              onChange={(event) => setForm((current) => ({ ...current, hourlyRate: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-callout">Call-out Fee (ZAR)</label>
+            <input
+              id="contractor-callout"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.calloutFee}
+              onChange={(event) => setForm((current) => ({ ...current, calloutFee: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-rate-notes">Rate Notes</label>
+            <input
+              id="contractor-rate-notes"
+              value={form.rateNotes}
+              onChange={(event) => setForm((current) => ({ ...current, rateNotes: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-bee-level">B-BBEE Level</label>
+            <select
+              id="contractor-bee-level"
+              value={form.beeLevel}
+              onChange={(event) => setForm((current) => ({ ...current, beeLevel: event.target.value }))}
+            >
+              <option value="">Unknown</option>
+              {[1, 2, 3, 4, 5, 6, 7, 8].map((level) => (
+                <option key={level} value={level}>
+                  Level {level}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-bee-number">B-BBEE Certificate Number</label>
+            <input
+              id="contractor-bee-number"
+              value={form.beeCertificateNumber}
+              onChange={(event) => setForm((current) => ({ ...current, beeCertificateNumber: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-tax">Income Tax Number</label>
+            <input
+              id="contractor-tax"
+              value={form.taxNumber}
+              onChange={(event) => setForm((current) => ({ ...current, taxNumber: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-vat">VAT Number</label>
+            <input
+              id="contractor-vat"
+              value={form.vatNumber}
+              onChange={(event) => setForm((current) => ({ ...current, vatNumber: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-rating">Rating</label>
+            <select
+              id="contractor-rating"
+              value={form.rating}
+              onChange={(event) => setForm((current) => ({ ...current, rating: event.target.value }))}
+            >
+              <option value="">Not rated</option>
+              {[5, 4, 3, 2, 1].map((rating) => (
+                <option key={rating} value={rating}>
+                  {rating}/5
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label htmlFor="contractor-active">Active</label>
+            <select
+              id="contractor-active"
+              value={form.isActive ? "yes" : "no"}
+              onChange={(event) => setForm((current) => ({ ...current, isActive: event.target.value === "yes" }))}
+            >
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </div>
+        </div>
+        <div className="field">
+          <label htmlFor="contractor-notes">Notes</label>
+          <textarea
+            id="contractor-notes"
+            value={form.notes}
+            onChange={(event) => setForm((current) => ({ ...current, notes: event.target.value }))}
+          />
+        </div>
+        <div className="action-row">
+          <button type="button" className="btn-primary" disabled={saving} onClick={() => void saveContractor()}>
+            {saving ? "Saving..." : form.id ? "Save Changes" : "Add Contractor"}
+          </button>
+          {form.id ? (
+            <button type="button" className="btn-secondary" onClick={() => setForm(defaultForm)}>
+              Cancel Edit
+            </button>
+          ) : null}
+        </div>
+      </article>
+    </section>
+  );
+}
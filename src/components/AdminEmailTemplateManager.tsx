@@ -175,7 +175,23 @@ export function AdminEmailTemplateManager() {
         <p className="lead">
           {"{{BOOKING_REFERENCE}}"}, {"{{START_DATE}}"}, {"{{END_DATE}}"}, {"{{TOTAL_GUESTS}}"},
           {"{{PET_COUNT}}"}, {"{{CURRENCY}}"}, {"{{TOTAL_AMOUNT}}"}, {"{{SOURCE}}"},
-          {"{{SCOPE}}"}, {"{{REJECTION_REASON}}"}, {"{{MANAGE_URL}}"}, {"{{ADMIN_BOOKINGS_URL}}"}
+          {"{{SCOPE}}"}, {"{{REJECTION_REASON}}"}, {"{{MANAGE_URL}}"}, {"{{ADMIN_BOOKINGS_URL}}"},
+          {" "}{"{{DEPOSIT_AMOUNT}}"}, {"{{DEPOSIT_DUE_DATE}}"}, {"{{BALANCE_DUE_DATE}}"}
+        </p>
+        <p className="lead">
+          Cancellations: {"{{REFUND_AMOUNT}}"}, {"{{REFUND_METHOD}}"}, {"{{CANCELLATION_FEE}}"},
+          {" "}{"{{CANCELLATION_REASON}}"}
+        </p>
+        <p className="lead">
+          Waitlist: {"{{CONTACT_NAME}}"}, {"{{WAITLIST_POSITION}}"}, {"{{HOLD_EXPIRES_AT}}"}, {"{{HOLD_URL}}"}
+        </p>
+        <p className="lead">
+          Member statements: {"{{MEMBER_NAME}}"}, {"{{PERIOD_START}}"}, {"{{PERIOD_END}}"}, {"{{CURRENCY}}"},
+          {" "}{"{{OPENING_BALANCE}}"}, {"{{CLOSING_BALANCE}}"}, {"{{STATEMENT_URL}}"}
+        </p>
+        <p className="lead">
+          Budgets: {"{{RECIPIENT_NAME}}"}, {"{{CATEGORY}}"}, {"{{YEAR}}"}, {"{{CURRENCY}}"}, {"{{BUDGET_AMOUNT}}"},
+          {" "}{"{{ACTUAL_AMOUNT}}"}, {"{{VARIANCE_AMOUNT}}"}, {"{{FORECAST_AMOUNT}}"}, {"{{FINANCES_URL}}"}
         </p>
       </article>
     </section>
@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ExpenseCategory =
+  | "RATES"
+  | "WATER"
+  | "ELECTRICITY"
+  | "INSURANCE"
+  | "MAINTENANCE"
+  | "GENERAL_MAINTENANCE"
+  | "CONSUMABLES"
+  | "OTHER";
+
+const categories: ExpenseCategory[] = [
+  "RATES",
+  "WATER",
+  "ELECTRICITY",
+  "INSURANCE",
+  "MAINTENANCE",
+  "GENERAL_MAINTENANCE",
+  "CONSUMABLES",
+  "OTHER"
+];
+
+type BudgetStatus = "NO_BUDGET" | "ON_TRACK" | "AT_RISK" | "OVER_BUDGET";
+
+type BudgetLine = {
+  category: ExpenseCategory;
+  budgetId: string | null;
+  annualBudget: number | null;
+  monthlyBudgets: number[] | null;
+  alertEnabled: boolean;
+  alertedAt: string | null;
+  budgetToDate: number | null;
+  actual: number;
+  variance: number | null;
+  recurringMonthly: number;
+  forecast: number;
+  forecastVariance: number | null;
+  status: BudgetStatus;
+};
+
+type BudgetReport = {
+  year: number;
+  asOf: string;
+  monthsElapsed: number;
+  currency: string;
+  lines: BudgetLine[];
+  totals: { annualBudget: number; actual: number; forecast: number; variance: number };
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+const STATUS_LABELS: Record<BudgetStatus, string> = {
+  NO_BUDGET: "No budget",
+  ON_TRACK: "On track",
+  AT_RISK: "At risk",
+  OVER_BUDGET: "Over budget"
+};
+
+const defaultForm = {
+  category: "OTHER" as ExpenseCategory,
+  annualAmount: "",
+  monthlyAmounts: "",
+  alertEnabled: true
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function amountLabel(value: number | null): string {
+  return value === null ? "-" : value.toFixed(2);
+}
+
+// Admin form format: twelve comma-separated amounts, January first; blank spreads the year evenly.
+function parseMonthlyInput(value: string): number[] | null | undefined {
+  if (!value.trim()) {
+    return null;
+  }
+  const amounts = value.split(",").map((entry) => Number(entry.trim()));
+  return amounts.length === 12 && amounts.every((amount) => Number.isFinite(amount) && amount >= 0)
+    ? amounts
+    : undefined;
+}
+
+export function AdminExpenseBudgets() {
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [report, setReport] = useState<BudgetReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+  const [form, setForm] = useState(defaultForm);
+
+  const loadReport = useCallback(async (budgetYear: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/expenses/budgets?year=${encodeURIComponent(budgetYear)}`, {
+        cache: "no-store"
+      });
+      const data = (await response.json()) as { report?: BudgetReport; error?: unknown };
+      if (!response.ok || !data.report) {
+        setState({ type: "error", message: errorMessage(data, "Could not load budgets.") });
+        return;
+      }
+      setReport(data.report);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load budgets." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReport(String(new Date().getFullYear()));
+  }, [loadReport]);
+
+  function editLine(line: BudgetLine) {
+    setForm({
+      category: line.category,
+      annualAmount: line.annualBudget === null ? "" : String(line.annualBudget),
+      monthlyAmounts: line.monthlyBudgets ? line.monthlyBudgets.join(", ") : "",
+      alertEnabled: line.budgetId ? line.alertEnabled : true
+    });
+    setState({ type: "idle" });
+  }
+
+  async function saveBudget() {
+    const annualAmount = Number(form.annualAmount);
+    if (!form.annualAmount.trim() || !Number.isFinite(annualAmount) || annualAmount < 0) {
+      setState({ type: "error", message: "Annual budget must be a non-negative number." });
+      return;
+    }
+    const monthlyAmounts = parseMonthlyInput(form.monthlyAmounts);
+    if (monthlyAmounts === undefined) {
+      setState({ type: "error", message: "Monthly budget needs twelve comma-separated amounts, or leave it blank." });
+      return;
+    }
+
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/expenses/budgets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          year: Number(year),
+          category: form.category,
+          annualAmount,
+          monthlyAmounts,
+          alertEnabled: form.alertEnabled
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save the budget.") });
+        return;
+      }
+      setForm(defaultForm);
+      await loadReport(year);
+      setState({ type: "success", message: `${form.category} budget saved for ${year}.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save the budget." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeBudget(line: BudgetLine) {
+    if (!line.budgetId || !window.confirm(`Remove the ${year} budget for ${line.category}?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/expenses/budgets?id=${encodeURIComponent(line.budgetId)}`, {
+        method: "DELETE"
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not remove the budget.") });
+        return;
+      }
+      await loadReport(year);
+      setState({ type: "success", message: `${line.category} budget removed.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not remove the budget." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Budgets</h3>
+      <p className="lead">
+        Annual budget per expense category, with actual spend, variance and a year-end forecast from recurring items
+        and the run rate of one-off spend. Shareholders are emailed when a category with alerts on goes over budget.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      <div className="action-row">
+        <div className="field">
+          <label htmlFor="budget-year">Year</label>
+          <input
+            id="budget-year"
+            type="number"
+            min="2000"
+            max="2100"
+            value={year}
+            onChange={(event) => setYear(event.target.value)}
+          />
+        </div>
+        <button type="button" className="btn-secondary" disabled={loading} onClick={() => void loadReport(year)}>
+          {loading ? "Loading..." : "Show Year"}
+        </button>
+      </div>
+
+      {report ? (
+        <div className="statement-table-wrap">
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th>Budget</th>
+                <th>Budget to Date</th>
+                <th>Actual</th>
+                <th>Variance</th>
+                <th>Forecast</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {report.lines.map((line) => (
+                <tr key={line.category} className={line.status === "OVER_BUDGET" ? "budget-row-over" : undefined}>
+                  <td>
+                    {line.category}
+                    {line.recurringMonthly > 0 ? (
+                      <small> recurring {line.recurringMonthly.toFixed(2)}/month</small>
+                    ) : null}
+                  </td>
+                  <td>{amountLabel(line.annualBudget)}</td>
+                  <td>{amountLabel(line.budgetToDate)}</td>
+                  <td>{line.actual.toFixed(2)}</td>
+                  <td>{amountLabel(line.variance)}</td>
+                  <td>{line.forecast.toFixed(2)}</td>
+                  <td>
+                    <span className={`status-pill budget-${line.status.toLowerCase().replace("_", "-")}`}>
+                      {STATUS_LABELS[line.status]}
+                    </span>
+                  </td>
+                  <td>
+                    <div className="action-row">
+                      <button type="button" className="btn-secondary" onClick={() => editLine(line)}>
+                        {line.budgetId ? "Edit" : "Set"}
+                      </button>
+                      {line.budgetId ? (
+                        <button
+                          type="button"
+                          className="btn-secondary"
+                          disabled={saving}
+                          onClick={() => void removeBudget(line)}
+                        >
+                          Remove
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              <tr className="statement-total">
+                <td>Total ({report.currency})</td>
+                <td>{report.totals.annualBudget.toFixed(2)}</td>
+                <td />
+                <td>{report.totals.actual.toFixed(2)}</td>
+                <td>{report.totals.variance.toFixed(2)}</td>
+                <td>{report.totals.forecast.toFixed(2)}</td>
+                <td colSpan={2}>As of {report.asOf}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      <div className="grid">
+        <strong>Set Budget for {year}</strong>
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="budget-category">Category</label>
+            <select
+              id="budget-category"
+              value={form.category}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, category: event.target.value as ExpenseCategory }))
+              }
+            >
+              {categories.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label htmlFor="budget-annual">Annual Budget (ZAR)</label>
+            <input
+              id="budget-annual"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.annualAmount}
+              onChange={(event) => setForm((current) => ({ ...current, annualAmount: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="budget-monthly">Monthly Budget (optional, Jan to Dec)</label>
+            <input
+              id="budget-monthly"
+              placeholder="e.g. 1000, 1000, 1500, ..."
+              value={form.monthlyAmounts}
+              onChange={(event) => setForm((current) => ({ ...current, monthlyAmounts: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="budget-alert">Email Shareholders When Over Budget</label>
+            <select
+              id="budget-alert"
+              value={form.alertEnabled ? "yes" : "no"}
+              onChange={(event) => setForm((current) => ({ ...current, alertEnabled: event.target.value === "yes" }))}
+            >
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </div>
+        </div>
+        <div className="action-row">
+          <button type="button" className="btn-primary" disabled={saving} onClick={() => void saveBudget()}>
+            {saving ? "Saving..." : "Save Budget"}
+          </button>
+        </div>
+      </div>
+    </article>
+  );
+}
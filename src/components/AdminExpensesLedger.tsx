@@ -21,12 +21,20 @@ type Expense = {
   supplier?: string | null;
   invoiceNumber?: string | null;
   amount: string | number;
+  vatAmount?: string | number | null;
   currency: string;
   serviceDate?: string | null;
   dueDate?: string | null;
   paidDate?: string | null;
   invoiceFileUrl?: string | null;
   createdBy?: { id: string; name: string; email: string } | null;
+  contractor?: { id: string; name: string } | null;
+};
+
+type Contractor = {
+  id: string;
+  name: string;
+  trade?: string | null;
 };
 
 type PanelState = { type: "idle" | "success" | "error"; message?: string };
@@ -47,8 +55,11 @@ const defaultForm = {
   title: "",
   description: "",
   supplier: "",
+  contractorId: "",
   invoiceNumber: "",
   amount: "",
+  vatAmount: "",
+  amountIncludesVat: true,
   serviceDate: "",
   dueDate: "",
   paidDate: "",
@@ -90,11 +101,16 @@ export function AdminExpensesLedger() {
   const [importing, setImporting] = useState(false);
   const [state, setState] = useState<PanelState>({ type: "idle" });
   const [form, setForm] = useState(defaultForm);
+  const [contractors, setContractors] = useState<Contractor[]>([]);
 
   const total = useMemo(
     () => expenses.reduce((sum, expense) => sum + Number(expense.amount), 0),
     [expenses]
   );
+  const vatTotal = useMemo(
+    () => expenses.reduce((sum, expense) => sum + Number(expense.vatAmount ?? 0), 0),
+    [expenses]
+  );
 
   const loadExpenses = useCallback(async () => {
     setLoading(true);
@@ -119,6 +135,21 @@ export function AdminExpensesLedger() {
     void loadExpenses();
   }, [loadExpenses]);
 
+  useEffect(() => {
+    async function loadContractors() {
+      try {
+        const response = await fetch("/api/contractors", { cache: "no-store" });
+        const data = (await response.json()) as { contractors?: Contractor[] };
+        if (response.ok) {
+          setContractors(data.contractors ?? []);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    }
+    void loadContractors();
+  }, []);
+
   async function saveExpense() {
     const amount = Number(form.amount);
     if (form.title.trim().length < 2) {
@@ -129,6 +160,11 @@ export function AdminExpensesLedger() {
       setState({ type: "error", message: "Amount must be a non-negative number." });
       return;
     }
+    const vatAmount = form.vatAmount.trim() ? Number(form.vatAmount) : undefined;
+    if (vatAmount !== undefined && (!Number.isFinite(vatAmount) || vatAmount < 0)) {
+      setState({ type: "error", message: "VAT amount must be a non-negative number." });
+      return;
+    }
 
     setSaving(true);
     setState({ type: "idle" });
@@ -141,8 +177,11 @@ export function AdminExpensesLedger() {
           title: form.title.trim(),
           description: form.description.trim() || undefined,
           supplier: form.supplier.trim() || undefined,
+          contractorId: form.contractorId || undefined,
           invoiceNumber: form.invoiceNumber.trim() || undefined,
           amount,
+          vatAmount,
+          amountIncludesVat: form.amountIncludesVat,
           currency: "ZAR",
           serviceDate: form.serviceDate || undefined,
           dueDate: form.dueDate || undefined,
@@ -245,6 +284,10 @@ export function AdminExpensesLedger() {
             <strong>ZAR {total.toFixed(2)}</strong>
             <span>Total expenses listed</span>
           </div>
+          <div className="metric">
+            <strong>ZAR {vatTotal.toFixed(2)}</strong>
+            <span>Input VAT listed</span>
+          </div>
         </div>
       </article>
 
@@ -286,6 +329,53 @@ export function AdminExpensesLedger() {
               onChange={(event) => setForm((current) => ({ ...current, amount: event.target.value }))}
             />
           </div>
+          <div className="field">
+            <label htmlFor="expense-amount-includes-vat">Amount Includes VAT</label>
+            <select
+              id="expense-amount-includes-vat"
+              value={form.amountIncludesVat ? "yes" : "no"}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, amountIncludesVat: event.target.value === "yes" }))
+              }
+            >
+              <option value="yes">Yes</option>
+              <option value="no">No (VAT is added)</option>
+            </select>
+          </div>
+          <div className="field">
+            <label htmlFor="expense-vat-amount">VAT Amount (ZAR)</label>
+            <input
+              id="expense-vat-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Leave blank if no VAT was charged"
+              value={form.vatAmount}
+              onChange={(event) => setForm((current) => ({ ...current, vatAmount: event.target.value }))}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="expense-contractor">Contractor</label>
+            <select
+              id="expense-contractor"
+              value={form.contractorId}
+              onChange={(event) => {
+                const contractor = contractors.find((entry) => entry.id === event.target.value);
+                setForm((current) => ({
+                  ...current,
+                  contractorId: event.target.value,
+                  supplier: contractor ? contractor.name : current.supplier
+                }));
+              }}
+            >
+              <option value="">Not a registered contractor</option>
+              {contractors.map((contractor) => (
+                <option key={contractor.id} value={contractor.id}>
+                  {contractor.trade ? `${contractor.name} (${contractor.trade})` : contractor.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="field">
             <label htmlFor="expense-supplier">Supplier</label>
             <input
@@ -403,11 +493,16 @@ export function AdminExpensesLedger() {
                   <strong>{expense.title}</strong> ({expense.category})
                 </p>
                 <p className="lead">
-                  {moneyLabel(expense.currency, expense.amount)} | Service: {dateLabel(expense.serviceDate)} | Due:{" "}
-                  {dateLabel(expense.dueDate)}
+                  {moneyLabel(expense.currency, expense.amount)}
+                  {Number(expense.vatAmount ?? 0) > 0
+                    ? ` (incl. VAT ${moneyLabel(expense.currency, expense.vatAmount ?? 0)})`
+                    : ""}{" "}
+                  | Service: {dateLabel(expense.serviceDate)} | Due: {dateLabel(expense.dueDate)}
                 </p>
                 <p className="lead">
-                  Supplier: {expense.supplier ?? "Not set"} | Invoice: {expense.invoiceNumber ?? "Not set"}
+                  Supplier: {expense.supplier ?? "Not set"}
+                  {expense.contractor ? " (registered contractor)" : ""} | Invoice:{" "}
+                  {expense.invoiceNumber ?? "Not set"}
                 </p>
                 <p className="lead">Paid: {dateLabel(expense.paidDate)} | Entered by: {expense.createdBy?.name ?? "System"}</p>
                 {expense.invoiceFileUrl ? (
@@ -0,0 +1,473 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type NumericValue = string | number | null;
+
+type SeasonalRate = {
+  id: string;
+  name: string;
+  startMonth: number;
+  startDay: number;
+  endMonth: number;
+  endDay: number;
+  priority: number;
+  externalAdultNightRate: NumericValue;
+  externalChildNightRate: NumericValue;
+  memberNightRate: NumericValue;
+  dependentWithMemberNightRate: NumericValue;
+  dependentWithoutMemberNightRate: NumericValue;
+  guestOfMemberNightRate: NumericValue;
+  guestOfDependentNightRate: NumericValue;
+  mereFamilyNightRate: NumericValue;
+  minNights: number | null;
+  enabled: boolean;
+};
+
+type FeeConfigVersion = Record<DraftField, NumericValue> & {
+  id: string;
+  isActive: boolean;
+  overdueReminderEnabled: boolean;
+  vatRegistered: boolean;
+  vatNumber: string | null;
+  externalRatesIncludeVat: boolean;
+  currency: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  createdAt: string;
+  seasonalRates: SeasonalRate[];
+  changes: Array<{ field: string; label: string; from: string | null; to: string | null }>;
+};
+
+type Simulation = {
+  windowStart: string;
+  bookingCount: number;
+  pastCount: number;
+  upcomingCount: number;
+  skippedCount: number;
+  currentTotal: number;
+  draftTotal: number;
+  delta: number;
+  tiers: Array<{ key: string; label: string; current: number; draft: number; delta: number }>;
+};
+
+type PanelState = {
+  type: "idle" | "error" | "success";
+  message?: string;
+};
+
+const DRAFT_FIELDS = [
+  ["monthlyMemberSubscription", "Monthly Subscription"],
+  ["memberNightRate", "Member Night Rate"],
+  ["dependentWithMemberNightRate", "Dependent (with member)"],
+  ["dependentWithoutMemberNightRate", "Dependent (without member)"],
+  ["guestOfMemberNightRate", "Guest of Member"],
+  ["guestOfDependentNightRate", "Guest of Dependent"],
+  ["mereFamilyNightRate", "Mere Family"],
+  ["externalAdultNightRate", "External Adult"],
+  ["externalChildNightRate", "External Child (under 6)"],
+  ["externalWholeHouseMinRate", "Whole-House Minimum"],
+  ["minNights", "Minimum Nights"],
+  ["weeklyDiscountPercent", "Weekly Discount (%)"],
+  ["monthlyDiscountPercent", "Monthly Discount (%)"],
+  ["lastMinuteDays", "Last-Minute Window (days)"],
+  ["lastMinuteDiscountPercent", "Last-Minute Discount (%)"],
+  ["petNightFee", "Pet Fee (per night)"],
+  ["cleaningFee", "Cleaning Fee"],
+  ["damageDeposit", "Damage Deposit"],
+  ["vatRate", "VAT Rate (%)"]
+] as const;
+
+type DraftField = (typeof DRAFT_FIELDS)[number][0];
+
+const SEASON_RATE_FIELDS = [
+  "externalAdultNightRate",
+  "externalChildNightRate",
+  "memberNightRate",
+  "dependentWithMemberNightRate",
+  "dependentWithoutMemberNightRate",
+  "guestOfMemberNightRate",
+  "guestOfDependentNightRate",
+  "mereFamilyNightRate"
+] as const;
+
+function dateLabel(value: string): string {
+  return value.slice(0, 10);
+}
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+function signedMoney(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+function optionalNumber(value: NumericValue): number | null {
+  return value === null || value === "" ? null : Number(value);
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function versionStatus(version: FeeConfigVersion): string {
+  if (!version.isActive) {
+    return "DRAFT";
+  }
+  return version.effectiveTo && new Date(version.effectiveTo) < new Date() ? "ENDED" : "ACTIVE";
+}
+
+export function AdminFeeConfigVersions() {
+  const [versions, setVersions] = useState<FeeConfigVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+  const [simulations, setSimulations] = useState<Record<string, Simulation>>({});
+  const [draftSource, setDraftSource] = useState<FeeConfigVersion | null>(null);
+  const [draftValues, setDraftValues] = useState<Record<DraftField, string>>(
+    {} as Record<DraftField, string>
+  );
+  const [draftEffectiveFrom, setDraftEffectiveFrom] = useState("");
+  const [draftVat, setDraftVat] = useState({ registered: false, number: "", ratesIncludeVat: true });
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/fees/config/versions", { cache: "no-store" });
+      const data = (await response.json()) as { versions?: FeeConfigVersion[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load fee versions.") });
+        return;
+      }
+      setVersions(data.versions ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load fee versions." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadVersions();
+  }, [loadVersions]);
+
+  function startDraft(source: FeeConfigVersion) {
+    setDraftSource(source);
+    setDraftValues(
+      Object.fromEntries(
+        DRAFT_FIELDS.map(([field]) => [field, source[field] === null ? "" : String(source[field])])
+      ) as Record<DraftField, string>
+    );
+    setDraftEffectiveFrom(new Date().toISOString().slice(0, 10));
+    setDraftVat({
+      registered: source.vatRegistered,
+      number: source.vatNumber ?? "",
+      ratesIncludeVat: source.externalRatesIncludeVat
+    });
+    setState({ type: "idle" });
+  }
+
+  async function saveDraft() {
+    if (!draftSource) {
+      return;
+    }
+
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const values = Object.fromEntries(
+        DRAFT_FIELDS.map(([field]) => [field, draftValues[field] === "" ? undefined : Number(draftValues[field])])
+      );
+      const response = await fetch("/api/fees/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...values,
+          overdueReminderEnabled: draftSource.overdueReminderEnabled,
+          vatRegistered: draftVat.registered,
+          vatNumber: draftVat.number.trim() || undefined,
+          externalRatesIncludeVat: draftVat.ratesIncludeVat,
+          currency: draftSource.currency,
+          effectiveFrom: draftEffectiveFrom || undefined,
+          isActive: false,
+          seasonalRates: draftSource.seasonalRates.map((rate) => ({
+            name: rate.name,
+            startMonth: rate.startMonth,
+            startDay: rate.startDay,
+            endMonth: rate.endMonth,
+            endDay: rate.endDay,
+            priority: rate.priority,
+            minNights: rate.minNights,
+            enabled: rate.enabled,
+            ...Object.fromEntries(SEASON_RATE_FIELDS.map((field) => [field, optionalNumber(rate[field])]))
+          }))
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save the draft.") });
+        return;
+      }
+      setDraftSource(null);
+      await loadVersions();
+      setState({ type: "success", message: "Draft saved. Simulate it to see the revenue impact before activating." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save the draft." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function simulate(versionId: string) {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/fees/config/${encodeURIComponent(versionId)}/simulate`, {
+        cache: "no-store"
+      });
+      const data = (await response.json()) as { simulation?: Simulation; error?: unknown };
+      if (!response.ok || !data.simulation) {
+        setState({ type: "error", message: errorMessage(data, "Could not run the simulation.") });
+        return;
+      }
+      setSimulations({ ...simulations, [versionId]: data.simulation });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not run the simulation." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function activate(version: FeeConfigVersion) {
+    if (!window.confirm(`Activate this version from ${dateLabel(version.effectiveFrom)}? New quotes will use it.`)) {
+      return;
+    }
+
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/fees/config", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: version.id, isActive: true })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not activate the version.") });
+        return;
+      }
+      await loadVersions();
+      setState({ type: "success", message: "Fee version activated." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not activate the version." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Fee Versions</h3>
+      <p className="lead">
+        Every fee configuration with its changes against the previous version. Save changes as a draft, simulate
+        how the last 12 months and upcoming approved stays would have been charged, then activate it.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      {draftSource ? (
+        <div className="grid">
+          <strong>New draft based on the version from {dateLabel(draftSource.effectiveFrom)}</strong>
+          <div className="grid grid-2">
+            {DRAFT_FIELDS.map(([field, label]) => (
+              <div key={field} className="field">
+                <label htmlFor={`fee-draft-${field}`}>{label}</label>
+                <input
+                  id={`fee-draft-${field}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draftValues[field] ?? ""}
+                  onChange={(event) => setDraftValues({ ...draftValues, [field]: event.target.value })}
+                />
+              </div>
+            ))}
+            <div className="field">
+              <label htmlFor="fee-draft-effective-from">Effective From</label>
+              <input
+                id="fee-draft-effective-from"
+                type="date"
+                value={draftEffectiveFrom}
+                onChange={(event) => setDraftEffectiveFrom(event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="fee-draft-vat-registered">VAT Registered</label>
+              <select
+                id="fee-draft-vat-registered"
+                value={draftVat.registered ? "yes" : "no"}
+                onChange={(event) => setDraftVat({ ...draftVat, registered: event.target.value === "yes" })}
+              >
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </div>
+            <div className="field">
+              <label htmlFor="fee-draft-vat-number">VAT Number</label>
+              <input
+                id="fee-draft-vat-number"
+                value={draftVat.number}
+                onChange={(event) => setDraftVat({ ...draftVat, number: event.target.value })}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="fee-draft-vat-inclusive">External Rates Include VAT</label>
+              <select
+                id="fee-draft-vat-inclusive"
+                value={draftVat.ratesIncludeVat ? "yes" : "no"}
+                onChange={(event) => setDraftVat({ ...draftVat, ratesIncludeVat: event.target.value === "yes" })}
+              >
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </div>
+          </div>
+          <p className="lead">
+            Seasonal rates are copied from the source version ({draftSource.seasonalRates.length}).
+          </p>
+          <div className="action-row">
+            <button type="button" className="btn-primary" disabled={working} onClick={() => void saveDraft()}>
+              {working ? "Saving..." : "Save Draft"}
+            </button>
+            <button type="button" className="btn-secondary" disabled={working} onClick={() => setDraftSource(null)}>
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {loading ? (
+        <p className="lead">Loading fee versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="lead">No fee configuration has been saved yet.</p>
+      ) : (
+        versions.map((version) => {
+          const status = versionStatus(version);
+          const simulation = simulations[version.id];
+          return (
+            <details key={version.id} className="card booking-history-item">
+              <summary className="booking-history-summary">
+                <span className={`status-pill fee-version-${status.toLowerCase()}`}>{status}</span>
+                <span className="lead">
+                  {dateLabel(version.effectiveFrom)} to{" "}
+                  {version.effectiveTo ? dateLabel(version.effectiveTo) : "open"} | Created{" "}
+                  {dateLabel(version.createdAt)} | {version.changes.length} change(s)
+                </span>
+              </summary>
+
+              <div className="booking-history-details grid">
+                <p className="lead">
+                  Member {version.currency} {String(version.memberNightRate)} | External adult{" "}
+                  {String(version.externalAdultNightRate)} / child {String(version.externalChildNightRate)} | Min{" "}
+                  {String(version.minNights)} night(s) | Cleaning {String(version.cleaningFee)} |{" "}
+                  {version.vatRegistered
+                    ? `VAT ${String(version.vatRate)}% ${version.externalRatesIncludeVat ? "included" : "added"}`
+                    : "Not VAT registered"}
+                </p>
+                {version.seasonalRates.length > 0 ? (
+                  <p className="lead">
+                    Seasons:{" "}
+                    {version.seasonalRates
+                      .map(
+                        (rate) =>
+                          `${rate.name} (${rate.startDay}/${rate.startMonth}-${rate.endDay}/${rate.endMonth}${
+                            rate.enabled ? "" : ", disabled"
+                          })`
+                      )
+                      .join(", ")}
+                  </p>
+                ) : null}
+
+                <div className="audit-trail">
+                  <strong>Changes From Previous Version</strong>
+                  {version.changes.length === 0 ? (
+                    <p className="lead">No changes (or first version).</p>
+                  ) : (
+                    version.changes.map((change) => (
+                      <p key={change.field} className="lead">
+                        {change.label}: {change.from ?? "-"} → {change.to ?? "-"}
+                      </p>
+                    ))
+                  )}
+                </div>
+
+                {simulation ? (
+                  <div className="audit-trail">
+                    <strong>What-If Repricing</strong>
+                    <p className="lead">
+                      {simulation.bookingCount} approved stay(s) since {simulation.windowStart} (
+                      {simulation.pastCount} past, {simulation.upcomingCount} upcoming
+                      {simulation.skippedCount > 0 ? `, ${simulation.skippedCount} not priced by the fee engine` : ""})
+                    </p>
+                    {simulation.tiers.map((tier) => (
+                      <p key={tier.key} className="lead">
+                        {tier.label}: {money(tier.current)} → {money(tier.draft)} ({signedMoney(tier.delta)})
+                      </p>
+                    ))}
+                    <p>
+                      <strong>
+                        Total: {money(simulation.currentTotal)} → {money(simulation.draftTotal)} (
+                        {signedMoney(simulation.delta)})
+                      </strong>
+                    </p>
+                  </div>
+                ) : null}
+
+                <div className="action-row">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    disabled={working}
+                    onClick={() => void simulate(version.id)}
+                  >
+                    Simulate
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    disabled={working}
+                    onClick={() => startDraft(version)}
+                  >
+                    New Draft From This Version
+                  </button>
+                  {!version.isActive ? (
+                    <button
+                      type="button"
+                      className="btn-primary"
+                      disabled={working}
+                      onClick={() => void activate(version)}
+                    >
+                      Activate
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </details>
+          );
+        })
+      )}
+    </article>
+  );
+}
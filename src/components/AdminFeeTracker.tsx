@@ -99,6 +99,11 @@ export function AdminFeeTracker() {
   const [loading, setLoading] = useState(true);
   const [savingFees, setSavingFees] = useState(false);
   const [savingPayment, setSavingPayment] = useState(false);
+  const [accrualFrom, setAccrualFrom] = useState("");
+  const [accruing, setAccruing] = useState(false);
+  const [statementFrom, setStatementFrom] = useState("");
+  const [statementTo, setStatementTo] = useState("");
+  const [emailingStatements, setEmailingStatements] = useState(false);
   const [state, setState] = useState<PanelState>({ type: "idle" });
 
   const trackedUsers = useMemo(
@@ -285,6 +290,83 @@ export function AdminFeeTracker() {
     }
   }
 
+  async function rerunAccrual() {
+    setAccruing(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/subscriptions/ledger", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          from: accrualFrom || undefined,
+          userId: selectedUserId || undefined
+        })
+      });
+      const data = (await response.json()) as { subscriptionsProcessed?: number; error?: unknown };
+
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not recalculate arrears.") });
+        return;
+      }
+
+      await loadData();
+      setState({
+        type: "success",
+        message: `Arrears recalculated for ${data.subscriptionsProcessed ?? 0} subscription(s).`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not recalculate arrears." });
+    } finally {
+      setAccruing(false);
+    }
+  }
+
+  async function emailStatements(scope: "selected" | "all") {
+    if (scope === "selected" && !selectedUserId) {
+      setState({ type: "error", message: "Select a member first." });
+      return;
+    }
+
+    setEmailingStatements(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/statements/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: scope === "selected" ? selectedUserId : undefined,
+          from: statementFrom || undefined,
+          to: statementTo || undefined
+        })
+      });
+      const data = (await response.json()) as { sent?: number; failed?: unknown[]; error?: unknown };
+
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not email statements.") });
+        return;
+      }
+
+      const failedCount = data.failed?.length ?? 0;
+      setState({
+        type: failedCount > 0 ? "error" : "success",
+        message: `Statements emailed: ${data.sent ?? 0}${failedCount > 0 ? `, failed: ${failedCount}` : ""}.`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not email statements." });
+    } finally {
+      setEmailingStatements(false);
+    }
+  }
+
+  const statementPdfUrl = `/api/statements?${new URLSearchParams({
+    userId: selectedUserId,
+    format: "pdf",
+    ...(statementFrom ? { from: statementFrom } : {}),
+    ...(statementTo ? { to: statementTo } : {})
+  }).toString()}`;
+
   if (loading) {
     return <p className="lead">Loading member fee tracking...</p>;
   }
@@ -511,6 +593,73 @@ export function AdminFeeTracker() {
           {savingPayment ? "Recording..." : "Record Payment"}
         </button>
       </article>
+
+      <article className="card grid">
+        <h3>Recalculate Arrears</h3>
+        <p className="lead">
+          Arrears accrue automatically each month. After correcting payments, re-run the accrual to rebuild the
+          payment credits; monthly charges keep the amount they were raised at. Applies to the member selected above,
+          or to everyone if none is selected.
+        </p>
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="accrualFrom">Ledger Start (members without a ledger yet)</label>
+            <input id="accrualFrom" type="date" value={accrualFrom} onChange={(event) => setAccrualFrom(event.target.value)} />
+          </div>
+        </div>
+
+        <button type="button" className="btn-secondary" disabled={accruing} onClick={() => void rerunAccrual()}>
+          {accruing ? "Recalculating..." : "Recalculate Arrears"}
+        </button>
+      </article>
+
+      <article className="card grid">
+        <h3>Member Statements</h3>
+        <p className="lead">
+          Statements combine subscription charges, booking fees and payments with a running balance. Leave the
+          dates empty for month-to-date.
+        </p>
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="statementFrom">From</label>
+            <input
+              id="statementFrom"
+              type="date"
+              value={statementFrom}
+              onChange={(event) => setStatementFrom(event.target.value)}
+            />
+          </div>
+
+          <div className="field">
+            <label htmlFor="statementTo">To</label>
+            <input id="statementTo" type="date" value={statementTo} onChange={(event) => setStatementTo(event.target.value)} />
+          </div>
+        </div>
+
+        <div className="action-row">
+          <button
+            type="button"
+            className="btn-primary"
+            disabled={emailingStatements || !selectedUserId}
+            onClick={() => void emailStatements("selected")}
+          >
+            {emailingStatements ? "Sending..." : "Email Selected Member"}
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            disabled={emailingStatements}
+            onClick={() => void emailStatements("all")}
+          >
+            {emailingStatements ? "Sending..." : "Email All Members"}
+          </button>
+          {selectedUserId ? (
+            <a className="btn-secondary inline-action" href={statementPdfUrl}>
+              Download PDF
+            </a>
+          ) : null}
+        </div>
+      </article>
     </section>
   );
 }
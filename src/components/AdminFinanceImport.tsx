@@ -0,0 +1,420 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ImportEntity = "expenses" | "bookings" | "payments" | "subscriptions";
+
+type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+};
+
+type RowReport = {
+  row: number;
+  values: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+  duplicateOf: string | null;
+};
+
+type ImportPreview = {
+  entity: ImportEntity;
+  headers: string[];
+  fields: ImportField[];
+  mapping: Record<string, string | null>;
+  rows: RowReport[];
+  summary: {
+    total: number;
+    ready: number;
+    withErrors: number;
+    duplicates: number;
+    withWarnings: number;
+  };
+};
+
+type ImportBatch = {
+  id: string;
+  entity: ImportEntity;
+  fileName: string | null;
+  format: string;
+  rowCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  status: "COMMITTED" | "ROLLED_BACK";
+  createdAt: string;
+  rolledBackAt: string | null;
+  importedBy: { id: string; name: string } | null;
+  rolledBackBy: { id: string; name: string } | null;
+};
+
+type LoadedFile = {
+  fileName: string;
+  format: "csv" | "xlsx";
+  data: string;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  expenses: "Expenses",
+  bookings: "Bookings",
+  payments: "Payments",
+  subscriptions: "Subscriptions"
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function batchStatus(batch: ImportBatch): string {
+  if (batch.status === "COMMITTED") {
+    return "Imported";
+  }
+  const by = batch.rolledBackBy ? ` by ${batch.rolledBackBy.name}` : "";
+  return `Rolled back ${batch.rolledBackAt?.slice(0, 10) ?? ""}${by}`;
+}
+
+function rowStatus(row: RowReport): { label: string; className: string } {
+  if (row.errors.length > 0) {
+    return { label: "Error", className: "import-row-error" };
+  }
+  if (row.duplicateOf) {
+    return { label: "Duplicate", className: "import-row-duplicate" };
+  }
+  if (row.warnings.length > 0) {
+    return { label: "Warning", className: "import-row-warning" };
+  }
+  return { label: "Ready", className: "import-row-ready" };
+}
+
+export function AdminFinanceImport() {
+  const [entity, setEntity] = useState<ImportEntity>("expenses");
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [working, setWorking] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const response = await fetch("/api/finance/import", { cache: "no-store" });
+      const data = (await response.json()) as { batches?: ImportBatch[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load import history.") });
+        return;
+      }
+      setBatches(data.batches ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load import history." });
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBatches();
+  }, [loadBatches]);
+
+  async function submit(loaded: LoadedFile, columnMapping: Record<string, string>, dryRun: boolean) {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/finance/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entity, ...loaded, mapping: columnMapping, dryRun })
+      });
+      const data = (await response.json()) as {
+        preview?: ImportPreview;
+        imported?: number;
+        skipped?: number;
+        error?: unknown;
+      };
+      if (data.preview) {
+        setPreview(data.preview);
+      }
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Import failed.") });
+        return;
+      }
+      if (!dryRun) {
+        setPreview(null);
+        setFile(null);
+        setMapping({});
+        await loadBatches();
+        const label = ENTITY_LABELS[entity].toLowerCase();
+        setState({
+          type: "success",
+          message: `Imported ${data.imported ?? 0} ${label}; ${data.skipped ?? 0} duplicates skipped.`
+        });
+      }
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Import failed." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function loadFile(selected: File) {
+    const format = selected.name.toLowerCase().endsWith(".xlsx") ? "xlsx" : "csv";
+    const data = format === "csv" ? await selected.text() : toBase64(await selected.arrayBuffer());
+    const loaded = { fileName: selected.name, format, data } as LoadedFile;
+    setFile(loaded);
+    setMapping({});
+    await submit(loaded, {}, true);
+  }
+
+  async function rollback(batch: ImportBatch) {
+    const label = `${batch.fileName ?? ENTITY_LABELS[batch.entity]} from ${batch.createdAt.slice(0, 10)}`;
+    if (!window.confirm(`Roll back the import ${label}? Imported records are deleted.`)) {
+      return;
+    }
+
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/finance/import/${batch.id}/rollback`, { method: "POST" });
+      const data = (await response.json()) as { removed?: number; blockers?: string[]; error?: unknown };
+      if (!response.ok) {
+        const blockers = data.blockers?.length ? `: ${data.blockers.join("; ")}` : "";
+        setState({ type: "error", message: `${errorMessage(data, "Rollback failed.")}${blockers}` });
+        return;
+      }
+      await loadBatches();
+      setState({ type: "success", message: `Import rolled back; ${data.removed ?? 0} records removed.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Rollback failed." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  const flaggedRows = preview
+    ? preview.rows.filter((row) => row.errors.length > 0 || row.duplicateOf || row.warnings.length > 0)
+    : [];
+
+  return (
+    <article className="card grid">
+      <h3>Import With Preview</h3>
+      <p className="lead">
+        Check a CSV or XLSX file before importing: map its columns, review errors, warnings and duplicates, then import
+        every row in one go. Duplicates are skipped; any error blocks the whole import. Each import can be rolled back.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="finance-import-entity">Import</label>
+          <select
+            id="finance-import-entity"
+            value={entity}
+            onChange={(event) => {
+              setEntity(event.target.value as ImportEntity);
+              setPreview(null);
+              setFile(null);
+              setMapping({});
+            }}
+          >
+            {(Object.keys(ENTITY_LABELS) as ImportEntity[]).map((key) => (
+              <option key={key} value={key}>
+                {ENTITY_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="finance-import-file">CSV/XLSX File</label>
+          <input
+            id="finance-import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            disabled={working}
+            onChange={(event) => {
+              const selected = event.target.files?.[0];
+              if (selected) {
+                void loadFile(selected);
+              }
+              event.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {working ? <p className="lead">Checking file...</p> : null}
+
+      {preview && file ? (
+        <>
+          <div className="inline">
+            <div className="metric">
+              <strong>{preview.summary.ready}</strong>
+              <span>Ready to import</span>
+            </div>
+            <div className="metric">
+              <strong>{preview.summary.withErrors}</strong>
+              <span>With errors</span>
+            </div>
+            <div className="metric">
+              <strong>{preview.summary.duplicates}</strong>
+              <span>Duplicates (skipped)</span>
+            </div>
+            <div className="metric">
+              <strong>{preview.summary.withWarnings}</strong>
+              <span>With warnings</span>
+            </div>
+          </div>
+
+          <details open={preview.fields.some((field) => field.required && !preview.mapping[field.key])}>
+            <summary>Column mapping for {file.fileName}</summary>
+            <div className="grid grid-2">
+              {preview.fields.map((field) => (
+                <div key={field.key} className="field">
+                  <label htmlFor={`finance-import-map-${field.key}`}>
+                    {field.label}
+                    {field.required ? " *" : ""}
+                  </label>
+                  <select
+                    id={`finance-import-map-${field.key}`}
+                    value={mapping[field.key] ?? preview.mapping[field.key] ?? ""}
+                    onChange={(event) => setMapping((current) => ({ ...current, [field.key]: event.target.value }))}
+                  >
+                    <option value="">Not imported</option>
+                    {preview.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="action-row">
+              <button
+                type="button"
+                className="btn-secondary"
+                disabled={working}
+                onClick={() => void submit(file, mapping, true)}
+              >
+                Check Again With This Mapping
+              </button>
+            </div>
+          </details>
+
+          {flaggedRows.length === 0 ? (
+            <p className="lead">All {preview.summary.total} rows are ready to import.</p>
+          ) : (
+            <div className="statement-table-wrap">
+              <table className="statement-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Status</th>
+                    <th>Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {flaggedRows.map((row) => {
+                    const status = rowStatus(row);
+                    return (
+                      <tr key={row.row}>
+                        <td>{row.row}</td>
+                        <td>
+                          <span className={`status-pill ${status.className}`}>{status.label}</span>
+                        </td>
+                        <td>
+                          {[...row.errors, row.duplicateOf, ...row.warnings].filter(Boolean).map((message) => (
+                            <div key={message}>{message}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="action-row">
+            <button
+              type="button"
+              className="btn-primary"
+              disabled={working || preview.summary.withErrors > 0 || preview.summary.ready === 0}
+              onClick={() => void submit(file, mapping, false)}
+            >
+              Import {preview.summary.ready} Rows
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {batches.length > 0 ? (
+        <div className="statement-table-wrap">
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Imported</th>
+                <th>Type</th>
+                <th>File</th>
+                <th>Rows</th>
+                <th>Created</th>
+                <th>Updated</th>
+                <th>Skipped</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr key={batch.id}>
+                  <td>
+                    {batch.createdAt.slice(0, 10)}
+                    {batch.importedBy ? <small> by {batch.importedBy.name}</small> : null}
+                  </td>
+                  <td>{ENTITY_LABELS[batch.entity] ?? batch.entity}</td>
+                  <td>{batch.fileName ?? batch.format.toUpperCase()}</td>
+                  <td>{batch.rowCount}</td>
+                  <td>{batch.createdCount}</td>
+                  <td>{batch.updatedCount}</td>
+                  <td>{batch.skippedCount}</td>
+                  <td>{batchStatus(batch)}</td>
+                  <td>
+                    {batch.status === "COMMITTED" ? (
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        disabled={working}
+                        onClick={() => void rollback(batch)}
+                      >
+                        Roll Back
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </article>
+  );
+}
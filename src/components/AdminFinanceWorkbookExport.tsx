@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+
+function monthStartInput(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function todayInput(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function AdminFinanceWorkbookExport() {
+  const [from, setFrom] = useState(monthStartInput);
+  const [to, setTo] = useState(todayInput);
+
+  const exportUrl = (format: "xlsx" | "zip") =>
+    `/api/finance/export/workbook?${new URLSearchParams({ from, to, format }).toString()}`;
+
+  return (
+    <article className="card grid">
+      <h3>Finance Workbook</h3>
+      <p className="lead">
+        One workbook with bookings, guests, room allocations, payments, subscriptions, expenses and maintenance tasks
+        for a period, with names resolved and amounts as numbers. The ZIP holds the same sheets as CSV files.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="workbook-from">From</label>
+          <input id="workbook-from" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+        </div>
+        <div className="field">
+          <label htmlFor="workbook-to">To</label>
+          <input id="workbook-to" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+        </div>
+      </div>
+
+      <div className="action-row">
+        <a className="btn-primary inline-action" href={exportUrl("xlsx")}>
+          Download XLSX Workbook
+        </a>
+        <a className="btn-secondary inline-action" href={exportUrl("zip")}>
+          Download CSV ZIP
+        </a>
+      </div>
+    </article>
+  );
+}
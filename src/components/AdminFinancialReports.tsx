@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ReportLine = {
+  key: string;
+  label: string;
+  current: number;
+  previous: number;
+  change: number | null;
+};
+
+type CashFlowTotals = {
+  bookingReceipts: number;
+  subscriptionReceipts: number;
+  refunds: number;
+  expensesPaid: number;
+  net: number;
+};
+
+type FinancialReport = {
+  year: number;
+  previousYear: number;
+  currency: string;
+  vatRegistered: boolean;
+  periodStart: string;
+  periodEnd: string;
+  previousPeriodEnd: string;
+  incomeStatement: {
+    bookingIncome: ReportLine[];
+    subscriptionIncome: ReportLine[];
+    totalIncome: ReportLine;
+    expenses: ReportLine[];
+    totalExpenses: ReportLine;
+    netIncome: ReportLine;
+  };
+  cashFlow: {
+    months: Array<
+      CashFlowTotals & { month: number; label: string; cumulative: number; previousNet: number; change: number | null }
+    >;
+    totals: CashFlowTotals;
+    previousTotals: CashFlowTotals;
+  };
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function changeLabel(change: number | null): string {
+  return change === null ? "-" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+function StatementRows({ title, lines }: { title: string; lines: ReportLine[] }) {
+  return (
+    <>
+      <tr>
+        <td colSpan={4}>
+          <strong>{title}</strong>
+        </td>
+      </tr>
+      {lines.map((line) => (
+        <tr key={line.key}>
+          <td>{line.label}</td>
+          <td>{line.current.toFixed(2)}</td>
+          <td>{line.previous.toFixed(2)}</td>
+          <td>{changeLabel(line.change)}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function TotalRow({ line }: { line: ReportLine }) {
+  return (
+    <tr className="statement-total">
+      <td>{line.label}</td>
+      <td>{line.current.toFixed(2)}</td>
+      <td>{line.previous.toFixed(2)}</td>
+      <td>{changeLabel(line.change)}</td>
+    </tr>
+  );
+}
+
+const thisYear = new Date().getUTCFullYear();
+const YEARS = Array.from({ length: 6 }, (_value, index) => thisYear - index);
+
+export function AdminFinancialReports() {
+  const [year, setYear] = useState(thisYear);
+  const [report, setReport] = useState<FinancialReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async (reportYear: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/finance/reports?year=${reportYear}`, { cache: "no-store" });
+      const data = (await response.json()) as { report?: FinancialReport; error?: unknown };
+      if (!response.ok || !data.report) {
+        setError(errorMessage(data, "Could not load the financial report."));
+        return;
+      }
+      setReport(data.report);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load the financial report.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReport(year);
+  }, [loadReport, year]);
+
+  return (
+    <article className="card grid">
+      <h3>Income Statement and Cash Flow</h3>
+      <p className="lead">
+        The company&apos;s year at a glance for shareholders: income by booking source and subscriptions against
+        expenses by category, and cash received and paid out per month, each compared with the previous year.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="financial-report-year">Year</label>
+          <select
+            id="financial-report-year"
+            value={year}
+            onChange={(event) => setYear(Number(event.target.value))}
+          >
+            {YEARS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="action-row">
+        <a className="btn-secondary inline-action" href={`/api/finance/reports?year=${year}&format=pdf`}>
+          Download PDF
+        </a>
+        <a className="btn-secondary inline-action" href={`/api/finance/reports?year=${year}&format=xlsx`}>
+          Download XLSX
+        </a>
+      </div>
+
+      {error ? <p className="notice error">{error}</p> : null}
+      {loading ? <p className="lead">Loading report...</p> : null}
+
+      {report && !loading ? (
+        <>
+          <div className="inline">
+            <div className="metric">
+              <strong>
+                {report.currency} {report.incomeStatement.totalIncome.current.toFixed(2)}
+              </strong>
+              <span>Income ({changeLabel(report.incomeStatement.totalIncome.change)})</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {report.currency} {report.incomeStatement.totalExpenses.current.toFixed(2)}
+              </strong>
+              <span>Expenses ({changeLabel(report.incomeStatement.totalExpenses.change)})</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {report.currency} {report.incomeStatement.netIncome.current.toFixed(2)}
+              </strong>
+              <span>Net income</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {report.currency} {report.cashFlow.totals.net.toFixed(2)}
+              </strong>
+              <span>Net cash flow</span>
+            </div>
+          </div>
+
+          <h4>Income Statement</h4>
+          <p className="lead">
+            {report.periodStart} to {report.periodEnd} against {report.previousYear} to {report.previousPeriodEnd},{" "}
+            {report.vatRegistered ? "excluding VAT" : "including VAT"}. Stays count when approved; cancelled stays
+            only for the fee retained.
+          </p>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th />
+                  <th>{report.year}</th>
+                  <th>{report.previousYear}</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                <StatementRows title="Booking income" lines={report.incomeStatement.bookingIncome} />
+                <StatementRows title="Subscription income" lines={report.incomeStatement.subscriptionIncome} />
+                <TotalRow line={report.incomeStatement.totalIncome} />
+                <StatementRows title="Expenses" lines={report.incomeStatement.expenses} />
+                <TotalRow line={report.incomeStatement.totalExpenses} />
+                <TotalRow line={report.incomeStatement.netIncome} />
+              </tbody>
+            </table>
+          </div>
+
+          <h4>Monthly Cash Flow</h4>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>Month</th>
+                  <th>Bookings</th>
+                  <th>Subscriptions</th>
+                  <th>Refunds</th>
+                  <th>Expenses Paid</th>
+                  <th>Net</th>
+                  <th>Cumulative</th>
+                  <th>Net {report.previousYear}</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.cashFlow.months.map((month) => (
+                  <tr key={month.month}>
+                    <td>{month.label}</td>
+                    <td>{month.bookingReceipts.toFixed(2)}</td>
+                    <td>{month.subscriptionReceipts.toFixed(2)}</td>
+                    <td>{month.refunds.toFixed(2)}</td>
+                    <td>{month.expensesPaid.toFixed(2)}</td>
+                    <td>{month.net.toFixed(2)}</td>
+                    <td>{month.cumulative.toFixed(2)}</td>
+                    <td>{month.previousNet.toFixed(2)}</td>
+                    <td>{changeLabel(month.change)}</td>
+                  </tr>
+                ))}
+                <tr className="statement-total">
+                  <td>Total</td>
+                  <td>{report.cashFlow.totals.bookingReceipts.toFixed(2)}</td>
+                  <td>{report.cashFlow.totals.subscriptionReceipts.toFixed(2)}</td>
+                  <td>{report.cashFlow.totals.refunds.toFixed(2)}</td>
+                  <td>{report.cashFlow.totals.expensesPaid.toFixed(2)}</td>
+                  <td>{report.cashFlow.totals.net.toFixed(2)}</td>
+                  <td />
+                  <td>{report.cashFlow.previousTotals.net.toFixed(2)}</td>
+                  <td />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </article>
+  );
+}
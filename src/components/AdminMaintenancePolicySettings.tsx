@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type NoticeState = {
+  type: "idle" | "success" | "error";
+  message?: string;
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function AdminMaintenancePolicySettings() {
+  const [approvalThreshold, setApprovalThreshold] = useState("5000");
+  const [requiredApprovals, setRequiredApprovals] = useState("2");
+  const [overrunTolerance, setOverrunTolerance] = useState("10");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [state, setState] = useState<NoticeState>({ type: "idle" });
+
+  useEffect(() => {
+    async function loadPolicy() {
+      setLoading(true);
+      setState({ type: "idle" });
+      try {
+        const response = await fetch("/api/maintenance/policy", { cache: "no-store" });
+        const data = (await response.json()) as {
+          policy?: {
+            approvalThreshold?: number | string;
+            requiredApprovals?: number;
+            overrunTolerancePercent?: number | string;
+          };
+          error?: unknown;
+        };
+        if (!response.ok) {
+          setState({ type: "error", message: errorMessage(data, "Could not load maintenance policy.") });
+          return;
+        }
+
+        setApprovalThreshold(String(Number(data.policy?.approvalThreshold ?? 5000)));
+        setRequiredApprovals(String(data.policy?.requiredApprovals ?? 2));
+        setOverrunTolerance(String(Number(data.policy?.overrunTolerancePercent ?? 10)));
+      } catch (error) {
+        console.error(error);
+        setState({ type: "error", message: "Could not load maintenance policy." });
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadPolicy();
+  }, []);
+
+  async function savePolicy() {
+    const parsedThreshold = Number(approvalThreshold);
+    const parsedApprovals = Number(requiredApprovals);
+    const parsedTolerance = Number(overrunTolerance);
+    if (!Number.isFinite(parsedThreshold) || parsedThreshold < 0) {
+      setState({ type: "error", message: "Approval threshold must be 0 or more." });
+      return;
+    }
+    if (!Number.isInteger(parsedApprovals) || parsedApprovals < 1) {
+      setState({ type: "error", message: "Required approvals must be a whole number, at least 1." });
+      return;
+    }
+    if (!Number.isFinite(parsedTolerance) || parsedTolerance < 0 || parsedTolerance > 100) {
+      setState({ type: "error", message: "Overrun tolerance must be between 0 and 100%." });
+      return;
+    }
+
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/maintenance/policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          approvalThreshold: parsedThreshold,
+          requiredApprovals: parsedApprovals,
+          overrunTolerancePercent: parsedTolerance
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save maintenance policy.") });
+        return;
+      }
+      setState({ type: "success", message: "Maintenance spend policy updated." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save maintenance policy." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="lead">Loading maintenance policy...</p>;
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Spend Approval Policy</h3>
+      <p className="lead">
+        Tasks whose accepted quote (or estimate) is above the threshold need this many shareholder approvals
+        before work can start. Completed tasks are flagged when the actual cost exceeds the approved cost by
+        more than the tolerance.
+      </p>
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="approval-threshold">Approval Threshold (ZAR)</label>
+          <input
+            id="approval-threshold"
+            type="number"
+            min="0"
+            step="0.01"
+            value={approvalThreshold}
+            onChange={(event) => setApprovalThreshold(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="required-approvals">Shareholder Approvals Required</label>
+          <input
+            id="required-approvals"
+            type="number"
+            min="1"
+            value={requiredApprovals}
+            onChange={(event) => setRequiredApprovals(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="overrun-tolerance">Overrun Tolerance (%)</label>
+          <input
+            id="overrun-tolerance"
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={overrunTolerance}
+            onChange={(event) => setOverrunTolerance(event.target.value)}
+          />
+        </div>
+      </div>
+      <div className="action-row">
+        <button type="button" className="btn-primary" disabled={saving} onClick={() => void savePolicy()}>
+          {saving ? "Saving..." : "Save Policy"}
+        </button>
+      </div>
+    </article>
+  );
+}
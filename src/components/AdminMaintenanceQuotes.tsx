@@ -0,0 +1,400 @@
+"use client";
+
+import { useState } from "react";
+import { uploadDocument } from "@/lib/client-upload";
+
+type QuoteStatus = "SUBMITTED" | "ACCEPTED" | "DECLINED";
+
+type Quote = {
+  id: string;
+  contractorId?: string | null;
+  supplierName?: string | null;
+  amount: string | number;
+  validUntil?: string | null;
+  documentUrl?: string | null;
+  notes?: string | null;
+  status: QuoteStatus;
+  contractor?: { id: string; name: string } | null;
+};
+
+type SpendApproval = {
+  committedCost: number | null;
+  threshold: number;
+  requiredApprovals: number;
+  needsApproval: boolean;
+  approvals: Array<{ userId: string; name: string; amount: number; note: string | null; current: boolean }>;
+  approvedCount: number;
+  remaining: number;
+};
+
+type Contractor = {
+  id: string;
+  name: string;
+  trade?: string | null;
+};
+
+type QuoteForm = {
+  contractorId: string;
+  supplierName: string;
+  amount: string;
+  validUntil: string;
+  documentUrl: string;
+  notes: string;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+type AdminMaintenanceQuotesProps = {
+  taskId: string;
+  quotes: Quote[];
+  spendApproval: SpendApproval;
+  contractors: Contractor[];
+  currentUser: { id: string; role: string } | null;
+  onChanged: () => Promise<void>;
+};
+
+const defaultQuoteForm: QuoteForm = {
+  contractorId: "",
+  supplierName: "",
+  amount: "",
+  validUntil: "",
+  documentUrl: "",
+  notes: ""
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function amountLabel(value?: string | number | null): string {
+  if (value === null || value === undefined) {
+    return "Not set";
+  }
+  return `ZAR ${Number(value).toFixed(2)}`;
+}
+
+function quoteSupplier(quote: Quote): string {
+  return quote.contractor?.name ?? quote.supplierName ?? "Unknown supplier";
+}
+
+function approvalSummary(approval: SpendApproval): string {
+  if (approval.committedCost === null) {
+    return "No quote accepted or cost estimated yet.";
+  }
+  if (!approval.needsApproval) {
+    return `${amountLabel(approval.committedCost)} is within the ${amountLabel(approval.threshold)} threshold.`;
+  }
+  return (
+    `${approval.approvedCount} of ${approval.requiredApprovals} shareholder approvals for ` +
+    `${amountLabel(approval.committedCost)} (above the ${amountLabel(approval.threshold)} threshold).`
+  );
+}
+
+export function AdminMaintenanceQuotes({
+  taskId,
+  quotes,
+  spendApproval,
+  contractors,
+  currentUser,
+  onChanged
+}: AdminMaintenanceQuotesProps) {
+  const [form, setForm] = useState<QuoteForm>(defaultQuoteForm);
+  const [approvalNote, setApprovalNote] = useState("");
+  const [processing, setProcessing] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const isShareholder = currentUser?.role === "SHAREHOLDER";
+  const myApproval = spendApproval.approvals.find((approval) => approval.userId === currentUser?.id);
+
+  async function send(url: string, method: string, body: unknown, fallback: string): Promise<boolean> {
+    setProcessing(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, fallback) });
+        return false;
+      }
+      await onChanged();
+      return true;
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: fallback });
+      return false;
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  async function addQuote() {
+    if (!form.contractorId && form.supplierName.trim().length < 2) {
+      setState({ type: "error", message: "Pick a contractor or enter the supplier name." });
+      return;
+    }
+    if (!(Number(form.amount) > 0)) {
+      setState({ type: "error", message: "Enter the quoted amount." });
+      return;
+    }
+
+    const saved = await send(
+      `/api/maintenance/tasks/${taskId}/quotes`,
+      "POST",
+      {
+        contractorId: form.contractorId || undefined,
+        supplierName: form.contractorId ? undefined : form.supplierName.trim(),
+        amount: Number(form.amount),
+        validUntil: form.validUntil || undefined,
+        documentUrl: form.documentUrl || undefined,
+        notes: form.notes.trim() || undefined
+      },
+      "Could not add the quote."
+    );
+    if (saved) {
+      setForm(defaultQuoteForm);
+      setState({ type: "success", message: "Quote added." });
+    }
+  }
+
+  async function setQuoteStatus(quote: Quote, status: QuoteStatus) {
+    const saved = await send(
+      `/api/maintenance/tasks/${taskId}/quotes`,
+      "PATCH",
+      { quoteId: quote.id, status },
+      "Could not update the quote."
+    );
+    if (saved) {
+      setState({
+        type: "success",
+        message: status === "ACCEPTED" ? `Accepted the quote from ${quoteSupplier(quote)}.` : "Quote updated."
+      });
+    }
+  }
+
+  async function approveSpend() {
+    const saved = await send(
+      `/api/maintenance/tasks/${taskId}/approvals`,
+      "POST",
+      { note: approvalNote.trim() || undefined },
+      "Could not record your approval."
+    );
+    if (saved) {
+      setApprovalNote("");
+      setState({ type: "success", message: "Your approval was recorded." });
+    }
+  }
+
+  async function withdrawApproval() {
+    const saved = await send(
+      `/api/maintenance/tasks/${taskId}/approvals`,
+      "DELETE",
+      {},
+      "Could not withdraw your approval."
+    );
+    if (saved) {
+      setState({ type: "success", message: "Your approval was withdrawn." });
+    }
+  }
+
+  async function uploadQuoteDocument(file: File) {
+    setProcessing(true);
+    try {
+      const uploaded = await uploadDocument(file);
+      setForm((current) => ({ ...current, documentUrl: uploaded.url }));
+      setState({ type: "success", message: `Uploaded ${uploaded.name}. Add the quote to keep it.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: error instanceof Error ? error.message : "Upload failed." });
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  return (
+    <div className="grid">
+      <h4>Quotes</h4>
+      {quotes.length === 0 ? <p className="lead">No quotes yet.</p> : null}
+      {quotes.length > 0 ? (
+        <div className="statement-table-wrap">
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Supplier</th>
+                <th>Amount</th>
+                <th>Valid Until</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.map((quote) => (
+                <tr key={quote.id}>
+                  <td>
+                    {quoteSupplier(quote)}
+                    {quote.documentUrl ? (
+                      <>
+                        {" "}
+                        <a className="doc-link" href={quote.documentUrl} target="_blank" rel="noreferrer">
+                          Quote
+                        </a>
+                      </>
+                    ) : null}
+                    {quote.notes ? <span className="lead"> {quote.notes}</span> : null}
+                  </td>
+                  <td>{amountLabel(quote.amount)}</td>
+                  <td>{quote.validUntil ? quote.validUntil.slice(0, 10) : "-"}</td>
+                  <td>
+                    <span className={`status-pill quote-${quote.status.toLowerCase()}`}>{quote.status}</span>
+                  </td>
+                  <td>
+                    <div className="action-row">
+                      {quote.status !== "ACCEPTED" ? (
+                        <button
+                          type="button"
+                          className="btn-secondary inline-action"
+                          disabled={processing}
+                          onClick={() => void setQuoteStatus(quote, "ACCEPTED")}
+                        >
+                          Accept
+                        </button>
+                      ) : null}
+                      {quote.status !== "DECLINED" ? (
+                        <button
+                          type="button"
+                          className="btn-secondary inline-action"
+                          disabled={processing}
+                          onClick={() => void setQuoteStatus(quote, "DECLINED")}
+                        >
+                          Decline
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      <div className="grid grid-2">
+        <div className="field">
+          <label>Quote From</label>
+          <select
+            value={form.contractorId}
+            onChange={(event) => setForm((current) => ({ ...current, contractorId: event.target.value }))}
+          >
+            <option value="">Other supplier</option>
+            {contractors.map((contractor) => (
+              <option key={contractor.id} value={contractor.id}>
+                {contractor.trade ? `${contractor.name} (${contractor.trade})` : contractor.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!form.contractorId ? (
+          <div className="field">
+            <label>Supplier Name</label>
+            <input
+              value={form.supplierName}
+              onChange={(event) => setForm((current) => ({ ...current, supplierName: event.target.value }))}
+            />
+          </div>
+        ) : null}
+        <div className="field">
+          <label>Amount (ZAR)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={form.amount}
+            onChange={(event) => setForm((current) => ({ ...current, amount: event.target.value }))}
+          />
+        </div>
+        <div className="field">
+          <label>Valid Until</label>
+          <input
+            type="date"
+            value={form.validUntil}
+            onChange={(event) => setForm((current) => ({ ...current, validUntil: event.target.value }))}
+          />
+        </div>
+        <div className="field">
+          <label>Quote Document</label>
+          <input
+            type="file"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                void uploadQuoteDocument(file);
+              }
+            }}
+          />
+        </div>
+        <div className="field">
+          <label>Notes</label>
+          <input
+            value={form.notes}
+            onChange={(event) => setForm((current) => ({ ...current, notes: event.target.value }))}
+          />
+        </div>
+      </div>
+      <div className="action-row">
+        <button type="button" className="btn-secondary" disabled={processing} onClick={() => void addQuote()}>
+          Add Quote
+        </button>
+      </div>
+
+      <h4>Spend Approval</h4>
+      <p className="lead">{approvalSummary(spendApproval)}</p>
+      {spendApproval.approvals.length > 0 ? (
+        <p className="lead">
+          {spendApproval.approvals
+            .map((approval) =>
+              approval.current
+                ? `${approval.name} approved ${amountLabel(approval.amount)}`
+                : `${approval.name} approved ${amountLabel(approval.amount)} (superseded)`
+            )
+            .join(" | ")}
+        </p>
+      ) : null}
+      {isShareholder && spendApproval.needsApproval ? (
+        <div className="action-row">
+          <input
+            aria-label="Approval note"
+            placeholder="Note (optional)"
+            value={approvalNote}
+            onChange={(event) => setApprovalNote(event.target.value)}
+          />
+          {!myApproval?.current ? (
+            <button type="button" className="btn-secondary" disabled={processing} onClick={() => void approveSpend()}>
+              Approve Spend
+            </button>
+          ) : null}
+          {myApproval ? (
+            <button
+              type="button"
+              className="btn-secondary"
+              disabled={processing}
+              onClick={() => void withdrawApproval()}
+            >
+              Withdraw Approval
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {state.type !== "idle" ? <p className={`notice ${state.type}`}>{state.message}</p> : null}
+    </div>
+  );
+}
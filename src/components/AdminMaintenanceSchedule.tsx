@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type OccurrenceState = "TASK" | "SCHEDULED" | "RESCHEDULED" | "SKIPPED";
+type OccurrenceAction = "skip" | "reschedule" | "restore";
+
+type Occurrence = {
+  occurrenceDate: string;
+  dueDate: string;
+  state: OccurrenceState;
+  taskId: string | null;
+  taskStatus: string | null;
+  note: string | null;
+};
+
+type Series = {
+  seriesId: string;
+  title: string;
+  asset: { id: string; name: string } | null;
+  recurrenceRule: string;
+  ruleText: string;
+  occurrences: Occurrence[];
+};
+
+type Asset = {
+  id: string;
+  name: string;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function occurrenceKey(seriesId: string, occurrence: Occurrence): string {
+  return `${seriesId}:${occurrence.occurrenceDate}`;
+}
+
+function stateClass(occurrence: Occurrence): string {
+  if (occurrence.state === "TASK") {
+    return `status-${(occurrence.taskStatus ?? "open").toLowerCase()}`;
+  }
+  return `schedule-${occurrence.state.toLowerCase()}`;
+}
+
+export function AdminMaintenanceSchedule() {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [assetId, setAssetId] = useState("");
+  const [schedule, setSchedule] = useState<Series[]>([]);
+  const [rescheduleDates, setRescheduleDates] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [processingKey, setProcessingKey] = useState<string | null>(null);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadSchedule = useCallback(async (filterAssetId: string) => {
+    setLoading(true);
+    try {
+      const query = filterAssetId ? `?assetId=${encodeURIComponent(filterAssetId)}` : "";
+      const response = await fetch(`/api/maintenance/schedule${query}`, { cache: "no-store" });
+      const data = (await response.json()) as { schedule?: Series[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load the maintenance schedule.") });
+        return;
+      }
+      setSchedule(data.schedule ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load the maintenance schedule." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    async function loadAssets() {
+      try {
+        const response = await fetch("/api/assets", { cache: "no-store" });
+        const data = (await response.json()) as { assets?: Asset[] };
+        if (response.ok) {
+          setAssets(data.assets ?? []);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    }
+    void loadAssets();
+  }, []);
+
+  useEffect(() => {
+    void loadSchedule(assetId);
+  }, [loadSchedule, assetId]);
+
+  async function changeOccurrence(series: Series, occurrence: Occurrence, action: OccurrenceAction) {
+    const key = occurrenceKey(series.seriesId, occurrence);
+    const date = rescheduleDates[key];
+    if (action === "reschedule" && !date) {
+      setState({ type: "error", message: "Pick the new date before rescheduling." });
+      return;
+    }
+
+    setProcessingKey(key);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/maintenance/schedule", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          seriesId: series.seriesId,
+          occurrenceDate: occurrence.occurrenceDate,
+          action,
+          date: action === "reschedule" ? date : undefined
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not update the occurrence.") });
+        return;
+      }
+
+      const labels = { skip: "skipped", reschedule: `moved to ${date}`, restore: "restored" };
+      setState({
+        type: "success",
+        message: `${series.title} on ${occurrence.occurrenceDate} ${labels[action]}.`
+      });
+      await loadSchedule(assetId);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not update the occurrence." });
+    } finally {
+      setProcessingKey(null);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Maintenance Schedule</h3>
+      <p className="lead">
+        Upcoming occurrences of recurring tasks for the next year. Skip or move a single occurrence without
+        changing the rest of the series; a task is created automatically as each one comes due.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="schedule-asset">Asset</label>
+          <select id="schedule-asset" value={assetId} onChange={(event) => setAssetId(event.target.value)}>
+            <option value="">All assets</option>
+            {assets.map((asset) => (
+              <option key={asset.id} value={asset.id}>
+                {asset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {state.type !== "idle" ? <p className={`notice ${state.type}`}>{state.message}</p> : null}
+      {loading ? <p className="lead">Loading schedule...</p> : null}
+      {!loading && schedule.length === 0 ? <p className="lead">No recurring maintenance tasks.</p> : null}
+
+      {schedule.map((series) => (
+        <article key={series.seriesId} className="decision-card">
+          <div className="status-line">
+            <span className="lead">{series.asset?.name ?? "No specific asset"}</span>
+            <span className="lead">{series.ruleText}</span>
+          </div>
+          <h4>{series.title}</h4>
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>Occurrence</th>
+                  <th>Due</th>
+                  <th>State</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {series.occurrences.map((occurrence) => {
+                  const key = occurrenceKey(series.seriesId, occurrence);
+                  const isProcessing = processingKey === key;
+                  const canChange = occurrence.state !== "TASK" || occurrence.taskStatus === "OPEN";
+                  return (
+                    <tr key={key}>
+                      <td>{occurrence.occurrenceDate}</td>
+                      <td>{occurrence.state === "SKIPPED" ? "-" : occurrence.dueDate}</td>
+                      <td>
+                        <span className={`status-pill ${stateClass(occurrence)}`}>
+                          {occurrence.state === "TASK" ? occurrence.taskStatus : occurrence.state}
+                        </span>
+                        {occurrence.note ? <span className="lead"> {occurrence.note}</span> : null}
+                      </td>
+                      <td>
+                        {occurrence.state === "SKIPPED" || occurrence.state === "RESCHEDULED" ? (
+                          <button
+                            type="button"
+                            className="btn-secondary inline-action"
+                            disabled={isProcessing}
+                            onClick={() => void changeOccurrence(series, occurrence, "restore")}
+                          >
+                            Restore
+                          </button>
+                        ) : null}
+                        {canChange && occurrence.state !== "SKIPPED" ? (
+                          <div className="action-row">
+                            <input
+                              type="date"
+                              aria-label="New date"
+                              value={rescheduleDates[key] ?? ""}
+                              onChange={(event) =>
+                                setRescheduleDates((current) => ({ ...current, [key]: event.target.value }))
+                              }
+                            />
+                            <button
+                              type="button"
+                              className="btn-secondary inline-action"
+                              disabled={isProcessing}
+                              onClick={() => void changeOccurrence(series, occurrence, "reschedule")}
+                            >
+                              Reschedule
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-secondary inline-action"
+                              disabled={isProcessing}
+                              onClick={() => void changeOccurrence(series, occurrence, "skip")}
+                            >
+                              Skip
+                            </button>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ))}
+    </article>
+  );
+}
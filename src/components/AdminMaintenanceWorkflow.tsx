@@ -1,14 +1,17 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { AdminMaintenanceQuotes } from "@/components/AdminMaintenanceQuotes";
 import { uploadDocument } from "@/lib/client-upload";
 
 type AssetStatus = "ACTIVE" | "OUT_OF_SERVICE" | "RETIRED";
+type DepreciationMethod = "STRAIGHT_LINE" | "DECLINING_BALANCE" | "NONE";
 type MaintenanceStatus = "OPEN" | "IN_PROGRESS" | "DONE" | "CANCELLED";
 type MaintenancePriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
 
 type Asset = {
   id: string;
+  shortCode?: string | null;
   name: string;
   category: string;
   serialNumber?: string | null;
@@ -18,6 +21,13 @@ type Asset = {
   warrantyExpiry?: string | null;
   warrantyFileUrl?: string | null;
   notes?: string | null;
+  purchaseCost?: string | number | null;
+  usefulLifeYears?: number | null;
+  residualValue?: string | number | null;
+  depreciationMethod: DepreciationMethod;
+  insuredValue?: string | number | null;
+  replacementCost?: string | number | null;
+  valuation?: { bookValue: number | null; accumulatedDepreciation: number | null; endOfLifeDate: string | null };
 };
 
 type Task = {
@@ -32,12 +42,51 @@ type Task = {
   actualCost?: string | number | null;
   invoiceFileUrl?: string | null;
   assignedToId?: string | null;
+  recurrenceRule?: string | null;
+  contractorId?: string | null;
+  jobCardSentAt?: string | null;
+  approvedCost?: string | number | null;
+  approvedAt?: string | null;
+  overrunAmount?: string | number | null;
   asset?: Asset | null;
+  contractor?: Contractor | null;
   assignedTo?: { id: string; name: string; email: string; role: string } | null;
   createdBy?: { id: string; name: string; email: string; role: string } | null;
+  quotes: Quote[];
+  spendApproval: SpendApproval;
+  expense?: { id: string; amount: string | number; paidDate?: string | null } | null;
   createdAt: string;
 };
 
+type Contractor = {
+  id: string;
+  name: string;
+  trade?: string | null;
+  email?: string | null;
+  phone?: string | null;
+};
+
+type Quote = {
+  id: string;
+  supplierName?: string | null;
+  amount: string | number;
+  validUntil?: string | null;
+  documentUrl?: string | null;
+  notes?: string | null;
+  status: "SUBMITTED" | "ACCEPTED" | "DECLINED";
+  contractor?: { id: string; name: string } | null;
+};
+
+type SpendApproval = {
+  committedCost: number | null;
+  threshold: number;
+  requiredApprovals: number;
+  needsApproval: boolean;
+  approvals: Array<{ userId: string; name: string; amount: number; note: string | null; current: boolean }>;
+  approvedCount: number;
+  remaining: number;
+};
+
 type User = {
   id: string;
   name: string;
@@ -62,6 +111,12 @@ type AssetForm = {
   warrantyExpiry: string;
   warrantyFileUrl: string;
   notes: string;
+  purchaseCost: string;
+  usefulLifeYears: string;
+  residualValue: string;
+  depreciationMethod: DepreciationMethod;
+  insuredValue: string;
+  replacementCost: string;
 };
 
 type TaskForm = {
@@ -72,9 +127,28 @@ type TaskForm = {
   dueDate: string;
   estimatedCost: string;
   assignedToId: string;
+  contractorId: string;
+  sendJobCard: boolean;
   invoiceFileUrl: string;
+  repeat: string;
+  customRule: string;
 };
 
+const REPEAT_OPTIONS = [
+  { value: "", label: "Does not repeat" },
+  { value: "FREQ=MONTHLY", label: "Monthly" },
+  { value: "FREQ=MONTHLY;INTERVAL=3", label: "Quarterly" },
+  { value: "FREQ=MONTHLY;INTERVAL=6", label: "Every 6 months" },
+  { value: "FREQ=YEARLY", label: "Annually" },
+  { value: "CUSTOM", label: "Custom RRULE" }
+];
+
+const DEPRECIATION_OPTIONS: Array<{ value: DepreciationMethod; label: string }> = [
+  { value: "STRAIGHT_LINE", label: "Straight line" },
+  { value: "DECLINING_BALANCE", label: "Declining balance" },
+  { value: "NONE", label: "Not depreciated" }
+];
+
 const defaultAssetForm: AssetForm = {
   name: "",
   category: "",
@@ -84,7 +158,13 @@ const defaultAssetForm: AssetForm = {
   purchaseDate: "",
   warrantyExpiry: "",
   warrantyFileUrl: "",
-  notes: ""
+  notes: "",
+  purchaseCost: "",
+  usefulLifeYears: "",
+  residualValue: "",
+  depreciationMethod: "STRAIGHT_LINE",
+  insuredValue: "",
+  replacementCost: ""
 };
 
 const defaultTaskForm: TaskForm = {
@@ -95,7 +175,11 @@ const defaultTaskForm: TaskForm = {
   dueDate: "",
   estimatedCost: "",
   assignedToId: "",
-  invoiceFileUrl: ""
+  contractorId: "",
+  sendJobCard: true,
+  invoiceFileUrl: "",
+  repeat: "",
+  customRule: ""
 };
 
 function buildAssetEdit(asset: Asset): AssetForm {
@@ -108,7 +192,32 @@ function buildAssetEdit(asset: Asset): AssetForm {
     purchaseDate: dateInputValue(asset.purchaseDate),
     warrantyExpiry: dateInputValue(asset.warrantyExpiry),
     warrantyFileUrl: asset.warrantyFileUrl ?? "",
-    notes: asset.notes ?? ""
+    notes: asset.notes ?? "",
+    purchaseCost: amountInputValue(asset.purchaseCost),
+    usefulLifeYears: asset.usefulLifeYears ? String(asset.usefulLifeYears) : "",
+    residualValue: amountInputValue(asset.residualValue),
+    depreciationMethod: asset.depreciationMethod,
+    insuredValue: amountInputValue(asset.insuredValue),
+    replacementCost: amountInputValue(asset.replacementCost)
+  };
+}
+
+function amountInputValue(value?: string | number | null): string {
+  return value === null || value === undefined ? "" : String(Number(value));
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined;
+}
+
+function assetValuePayload(form: AssetForm) {
+  return {
+    purchaseCost: optionalNumber(form.purchaseCost),
+    usefulLifeYears: optionalNumber(form.usefulLifeYears),
+    residualValue: optionalNumber(form.residualValue),
+    depreciationMethod: form.depreciationMethod,
+    insuredValue: optionalNumber(form.insuredValue),
+    replacementCost: optionalNumber(form.replacementCost)
   };
 }
 
@@ -122,6 +231,24 @@ function errorMessage(data: unknown, fallback: string): string {
   return fallback;
 }
 
+// Job card failures come back next to a saved task rather than as an error response.
+function jobCardNote(data: unknown): string {
+  if (typeof data === "object" && data !== null) {
+    const result = data as { jobCard?: { sentTo: string }; jobCardError?: string };
+    if (result.jobCardError) {
+      return ` Job card not sent: ${result.jobCardError}`;
+    }
+    if (result.jobCard) {
+      return ` Job card emailed to ${result.jobCard.sentTo}.`;
+    }
+  }
+  return "";
+}
+
+function contractorLabel(contractor: Contractor): string {
+  return contractor.trade ? `${contractor.name} (${contractor.trade})` : contractor.name;
+}
+
 function dateLabel(value?: string | null): string {
   return value ? value.slice(0, 10) : "Not set";
 }
@@ -144,10 +271,13 @@ export function AdminMaintenanceWorkflow({
   const [assets, setAssets] = useState<Asset[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null);
   const [assetForm, setAssetForm] = useState<AssetForm>(defaultAssetForm);
   const [taskForm, setTaskForm] = useState<TaskForm>(defaultTaskForm);
   const [assetEdits, setAssetEdits] = useState<Record<string, AssetForm>>({});
   const [taskAssignments, setTaskAssignments] = useState<Record<string, string>>({});
+  const [taskContractors, setTaskContractors] = useState<Record<string, string>>({});
   const [taskRejectReasons, setTaskRejectReasons] = useState<Record<string, string>>({});
   const [taskCompletionCost, setTaskCompletionCost] = useState<Record<string, string>>({});
   const [taskCompletionDocs, setTaskCompletionDocs] = useState<Record<string, string>>({});
@@ -178,15 +308,21 @@ export function AdminMaintenanceWorkflow({
     setLoading(true);
     setState({ type: "idle" });
     try {
-      const [assetsRes, tasksRes, usersRes] = await Promise.all([
+      const [assetsRes, tasksRes, usersRes, contractorsRes] = await Promise.all([
         fetch("/api/assets", { cache: "no-store" }),
         fetch("/api/maintenance/tasks", { cache: "no-store" }),
-        fetch("/api/users", { cache: "no-store" })
+        fetch("/api/users", { cache: "no-store" }),
+        fetch("/api/contractors", { cache: "no-store" })
       ]);
 
       const assetsData = (await assetsRes.json()) as { assets?: Asset[]; error?: unknown };
-      const tasksData = (await tasksRes.json()) as { tasks?: Task[]; error?: unknown };
+      const tasksData = (await tasksRes.json()) as {
+        tasks?: Task[];
+        currentUser?: { id: string; role: string };
+        error?: unknown;
+      };
       const usersData = (await usersRes.json()) as { users?: User[]; error?: unknown };
+      const contractorsData = (await contractorsRes.json()) as { contractors?: Contractor[]; error?: unknown };
 
       if (!assetsRes.ok) {
         setState({ type: "error", message: errorMessage(assetsData, "Could not load assets.") });
@@ -200,6 +336,10 @@ export function AdminMaintenanceWorkflow({
         setState({ type: "error", message: errorMessage(usersData, "Could not load users.") });
         return;
       }
+      if (!contractorsRes.ok) {
+        setState({ type: "error", message: errorMessage(contractorsData, "Could not load contractors.") });
+        return;
+      }
 
       const nextAssets = assetsData.assets ?? [];
       const nextTasks = tasksData.tasks ?? [];
@@ -207,7 +347,9 @@ export function AdminMaintenanceWorkflow({
 
       setAssets(nextAssets);
       setTasks(nextTasks);
+      setCurrentUser(tasksData.currentUser ?? null);
       setUsers(nextUsers);
+      setContractors(contractorsData.contractors ?? []);
 
       setAssetEdits((current) => {
         const next = { ...current };
@@ -251,7 +393,8 @@ export function AdminMaintenanceWorkflow({
           purchaseDate: assetForm.purchaseDate || undefined,
           warrantyExpiry: assetForm.warrantyExpiry || undefined,
           warrantyFileUrl: assetForm.warrantyFileUrl.trim() || undefined,
-          notes: assetForm.notes.trim() || undefined
+          notes: assetForm.notes.trim() || undefined,
+          ...assetValuePayload(assetForm)
         })
       });
       const data = (await response.json()) as { error?: unknown };
@@ -293,7 +436,8 @@ export function AdminMaintenanceWorkflow({
           purchaseDate: edit.purchaseDate || undefined,
           warrantyExpiry: edit.warrantyExpiry || undefined,
           warrantyFileUrl: edit.warrantyFileUrl.trim() || undefined,
-          notes: edit.notes.trim() || undefined
+          notes: edit.notes.trim() || undefined,
+          ...assetValuePayload(edit)
         })
       });
       const data = (await response.json()) as { error?: unknown };
@@ -312,6 +456,13 @@ export function AdminMaintenanceWorkflow({
     }
   }
 
+  function updateAssetEdit(asset: Asset, patch: Partial<AssetForm>) {
+    setAssetEdits((current) => ({
+      ...current,
+      [asset.id]: { ...(current[asset.id] ?? buildAssetEdit(asset)), ...patch }
+    }));
+  }
+
   async function uploadAssetWarranty(assetId: string, file: File) {
     setProcessingId(assetId);
     try {
@@ -338,6 +489,12 @@ export function AdminMaintenanceWorkflow({
       return;
     }
 
+    const recurrenceRule = taskForm.repeat === "CUSTOM" ? taskForm.customRule.trim() : taskForm.repeat;
+    if (recurrenceRule && !taskForm.dueDate) {
+      setState({ type: "error", message: "Set a due date for the first occurrence of a recurring task." });
+      return;
+    }
+
     setSaving(true);
     setState({ type: "idle" });
     try {
@@ -352,6 +509,9 @@ export function AdminMaintenanceWorkflow({
           dueDate: taskForm.dueDate || undefined,
           estimatedCost: taskForm.estimatedCost ? Number(taskForm.estimatedCost) : undefined,
           assignedToId: taskForm.assignedToId || undefined,
+          contractorId: taskForm.contractorId || undefined,
+          sendJobCard: Boolean(taskForm.contractorId) && taskForm.sendJobCard,
+          recurrenceRule: recurrenceRule || undefined,
           invoiceFileUrl: taskForm.invoiceFileUrl || undefined
         })
       });
@@ -363,7 +523,7 @@ export function AdminMaintenanceWorkflow({
 
       setTaskForm(defaultTaskForm);
       await loadData();
-      setState({ type: "success", message: "Task logged and queued for approval." });
+      setState({ type: "success", message: `Task logged and queued for approval.${jobCardNote(data)}` });
     } catch (error) {
       console.error(error);
       setState({ type: "error", message: "Could not create task." });
@@ -382,7 +542,9 @@ export function AdminMaintenanceWorkflow({
         body: JSON.stringify({
           id: taskId,
           status: "IN_PROGRESS",
-          assignedToId: taskAssignments[taskId] || undefined
+          assignedToId: taskAssignments[taskId] || undefined,
+          contractorId: taskContractors[taskId] || undefined,
+          sendJobCard: Boolean(taskContractors[taskId])
         })
       });
       const data = (await response.json()) as { error?: unknown };
@@ -391,7 +553,7 @@ export function AdminMaintenanceWorkflow({
         return;
       }
       await loadData();
-      setState({ type: "success", message: "Task approved and moved to in progress." });
+      setState({ type: "success", message: `Task approved and moved to in progress.${jobCardNote(data)}` });
     } catch (error) {
       console.error(error);
       setState({ type: "error", message: "Could not approve task." });
@@ -434,6 +596,30 @@ export function AdminMaintenanceWorkflow({
     }
   }
 
+  async function resendJobCard(taskId: string) {
+    setProcessingId(taskId);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/maintenance/tasks", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: taskId, sendJobCard: true })
+      });
+      const data = (await response.json()) as { error?: unknown; jobCardError?: string };
+      if (!response.ok || data.jobCardError) {
+        setState({ type: "error", message: data.jobCardError ?? errorMessage(data, "Could not send the job card.") });
+        return;
+      }
+      await loadData();
+      setState({ type: "success", message: jobCardNote(data).trim() });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not send the job card." });
+    } finally {
+      setProcessingId(null);
+    }
+  }
+
   async function completeTask(taskId: string) {
     setProcessingId(taskId);
     setState({ type: "idle" });
@@ -454,7 +640,15 @@ export function AdminMaintenanceWorkflow({
         return;
       }
       await loadData();
-      setState({ type: "success", message: "Task marked complete." });
+      const completed = data as { expense?: { id: string } | null; task?: { overrunAmount?: string | null } };
+      const overrun = completed.task?.overrunAmount;
+      setState({
+        type: "success",
+        message:
+          "Task marked complete." +
+          (completed.expense ? " Invoice booked as a maintenance expense." : "") +
+          (overrun ? ` Over the approved cost by ${amountLabel(overrun)}.` : "")
+      });
     } catch (error) {
       console.error(error);
       setState({ type: "error", message: "Could not complete task." });
@@ -526,6 +720,36 @@ export function AdminMaintenanceWorkflow({
               <label htmlFor="asset-warranty-file">Warranty Document URL</label>
               <input id="asset-warranty-file" value={assetForm.warrantyFileUrl} onChange={(event) => setAssetForm((c) => ({ ...c, warrantyFileUrl: event.target.value }))} />
             </div>
+            <div className="field">
+              <label htmlFor="asset-purchase-cost">Purchase Cost (ZAR)</label>
+              <input id="asset-purchase-cost" type="number" min="0" step="0.01" value={assetForm.purchaseCost} onChange={(event) => setAssetForm((c) => ({ ...c, purchaseCost: event.target.value }))} />
+            </div>
+            <div className="field">
+              <label htmlFor="asset-useful-life">Useful Life (years)</label>
+              <input id="asset-useful-life" type="number" min="1" value={assetForm.usefulLifeYears} onChange={(event) => setAssetForm((c) => ({ ...c, usefulLifeYears: event.target.value }))} />
+            </div>
+            <div className="field">
+              <label htmlFor="asset-depreciation">Depreciation Method</label>
+              <select id="asset-depreciation" value={assetForm.depreciationMethod} onChange={(event) => setAssetForm((c) => ({ ...c, depreciationMethod: event.target.value as DepreciationMethod }))}>
+                {DEPRECIATION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="field">
+              <label htmlFor="asset-residual">Residual Value (ZAR)</label>
+              <input id="asset-residual" type="number" min="0" step="0.01" value={assetForm.residualValue} onChange={(event) => setAssetForm((c) => ({ ...c, residualValue: event.target.value }))} />
+            </div>
+            <div className="field">
+              <label htmlFor="asset-insured">Insured Value (ZAR)</label>
+              <input id="asset-insured" type="number" min="0" step="0.01" value={assetForm.insuredValue} onChange={(event) => setAssetForm((c) => ({ ...c, insuredValue: event.target.value }))} />
+            </div>
+            <div className="field">
+              <label htmlFor="asset-replacement">Replacement Cost (ZAR)</label>
+              <input id="asset-replacement" type="number" min="0" step="0.01" value={assetForm.replacementCost} onChange={(event) => setAssetForm((c) => ({ ...c, replacementCost: event.target.value }))} />
+            </div>
           </div>
           <div className="field">
             <label htmlFor="asset-notes">Notes</label>
@@ -585,10 +809,55 @@ export function AdminMaintenanceWorkflow({
                   ))}
                 </select>
               </div>
+              <div className="field">
+                <label htmlFor="task-contractor">Contractor</label>
+                <select id="task-contractor" value={taskForm.contractorId} onChange={(event) => setTaskForm((c) => ({ ...c, contractorId: event.target.value }))}>
+                  <option value="">No contractor</option>
+                  {contractors.map((contractor) => (
+                    <option key={contractor.id} value={contractor.id}>
+                      {contractorLabel(contractor)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {taskForm.contractorId ? (
+                <div className="field">
+                  <label htmlFor="task-job-card">Email Job Card</label>
+                  <select
+                    id="task-job-card"
+                    value={taskForm.sendJobCard ? "yes" : "no"}
+                    onChange={(event) => setTaskForm((c) => ({ ...c, sendJobCard: event.target.value === "yes" }))}
+                  >
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                  </select>
+                </div>
+              ) : null}
               <div className="field">
                 <label htmlFor="task-doc-url">Supporting Document URL</label>
                 <input id="task-doc-url" value={taskForm.invoiceFileUrl} onChange={(event) => setTaskForm((c) => ({ ...c, invoiceFileUrl: event.target.value }))} />
               </div>
+              <div className="field">
+                <label htmlFor="task-repeat">Repeats</label>
+                <select id="task-repeat" value={taskForm.repeat} onChange={(event) => setTaskForm((c) => ({ ...c, repeat: event.target.value }))}>
+                  {REPEAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {taskForm.repeat === "CUSTOM" ? (
+                <div className="field">
+                  <label htmlFor="task-rrule">RRULE</label>
+                  <input
+                    id="task-rrule"
+                    placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+                    value={taskForm.customRule}
+                    onChange={(event) => setTaskForm((c) => ({ ...c, customRule: event.target.value }))}
+                  />
+                </div>
+              ) : null}
             </div>
             <div className="field">
               <label htmlFor="task-description">Description</label>
@@ -616,6 +885,7 @@ export function AdminMaintenanceWorkflow({
                     <p className="lead">{task.description ?? "No description"}</p>
                     <p className="lead">
                       Asset: {task.asset?.name ?? "None"} | Due: {dateLabel(task.dueDate)}
+                      {task.recurrenceRule ? ` | Repeats: ${task.recurrenceRule}` : ""}
                     </p>
                     <p className="lead">
                       Logged by: {task.createdBy?.name ?? "Unknown"} ({task.createdBy?.role ?? "Unknown"})
@@ -640,6 +910,25 @@ export function AdminMaintenanceWorkflow({
                           ))}
                         </select>
                       </div>
+                      <div className="field">
+                        <label>Contractor (job card emailed on approval)</label>
+                        <select
+                          value={taskContractors[task.id] ?? task.contractorId ?? ""}
+                          onChange={(event) =>
+                            setTaskContractors((current) => ({
+                              ...current,
+                              [task.id]: event.target.value
+                            }))
+                          }
+                        >
+                          <option value="">No contractor</option>
+                          {contractors.map((contractor) => (
+                            <option key={contractor.id} value={contractor.id}>
+                              {contractorLabel(contractor)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                       <div className="field">
                         <label>Reject Reason</label>
                         <input
@@ -653,6 +942,14 @@ export function AdminMaintenanceWorkflow({
                         />
                       </div>
                     </div>
+                    <AdminMaintenanceQuotes
+                      taskId={task.id}
+                      quotes={task.quotes}
+                      spendApproval={task.spendApproval}
+                      contractors={contractors}
+                      currentUser={currentUser}
+                      onChanged={loadData}
+                    />
                     <div className="action-row">
                       <button type="button" className="btn-primary" disabled={isProcessing} onClick={() => void approveTask(task.id)}>
                         {isProcessing ? "Processing..." : "Approve Task"}
@@ -681,7 +978,16 @@ export function AdminMaintenanceWorkflow({
                       <span className="lead">{task.assignedTo?.name ?? "Unassigned"}</span>
                     </div>
                     <h4>{task.title}</h4>
-                    <p className="lead">Estimated: {amountLabel(task.estimatedCost)} | Due: {dateLabel(task.dueDate)}</p>
+                    <p className="lead">
+                      Approved: {amountLabel(task.approvedCost ?? task.estimatedCost)} | Due: {dateLabel(task.dueDate)}
+                    </p>
+                    {task.contractor ? (
+                      <p className="lead">
+                        Contractor: {contractorLabel(task.contractor)}
+                        {task.contractor.phone ? ` | ${task.contractor.phone}` : ""} | Job card:{" "}
+                        {task.jobCardSentAt ? `sent ${dateLabel(task.jobCardSentAt)}` : "not sent"}
+                      </p>
+                    ) : null}
                     <div className="grid grid-2">
                       <div className="field">
                         <label>Actual Cost</label>
@@ -727,6 +1033,11 @@ export function AdminMaintenanceWorkflow({
                       <button type="button" className="btn-primary" disabled={isProcessing} onClick={() => void completeTask(task.id)}>
                         {isProcessing ? "Processing..." : "Mark Complete"}
                       </button>
+                      {task.contractor ? (
+                        <button type="button" className="btn-secondary" disabled={isProcessing} onClick={() => void resendJobCard(task.id)}>
+                          {task.jobCardSentAt ? "Resend Job Card" : "Send Job Card"}
+                        </button>
+                      ) : null}
                     </div>
                   </article>
                 );
@@ -739,6 +1050,11 @@ export function AdminMaintenanceWorkflow({
       {showAssets ? (
       <article className="card grid">
         <h3>Assets Registry</h3>
+        <div className="action-row">
+          <a className="btn-secondary inline-action" href="/api/assets/labels">
+            Download QR Labels (PDF)
+          </a>
+        </div>
         {assets.length === 0 ? (
           <p className="lead">No assets registered yet.</p>
         ) : (
@@ -754,6 +1070,24 @@ export function AdminMaintenanceWorkflow({
                 <p className="lead">
                   Category: {asset.category} | Serial: {asset.serialNumber ?? "Not set"} | Location: {asset.location ?? "Not set"}
                 </p>
+                <p className="lead">
+                  Label code:{" "}
+                  {asset.shortCode ? (
+                    <a className="doc-link" href={`/assets/${asset.shortCode}`}>
+                      {asset.shortCode}
+                    </a>
+                  ) : (
+                    "Assigned when labels are printed"
+                  )}{" "}
+                  |{" "}
+                  <a className="doc-link" href={`/api/assets/labels?ids=${asset.id}`}>
+                    Print label
+                  </a>
+                </p>
+                <p className="lead">
+                  Book value: {amountLabel(asset.valuation?.bookValue)} | Insured: {amountLabel(asset.insuredValue)} | End of
+                  life: {dateLabel(asset.valuation?.endOfLifeDate)}
+                </p>
                 <div className="grid grid-2">
                   <div className="field">
                     <label>Warranty Expiry</label>
@@ -784,6 +1118,78 @@ export function AdminMaintenanceWorkflow({
                       <option value="RETIRED">RETIRED</option>
                     </select>
                   </div>
+                  <div className="field">
+                    <label>Purchase Date</label>
+                    <input
+                      type="date"
+                      value={edit?.purchaseDate ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { purchaseDate: event.target.value })}
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Purchase Cost (ZAR)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={edit?.purchaseCost ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { purchaseCost: event.target.value })}
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Useful Life (years)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={edit?.usefulLifeYears ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { usefulLifeYears: event.target.value })}
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Depreciation Method</label>
+                    <select
+                      value={edit?.depreciationMethod ?? asset.depreciationMethod}
+                      onChange={(event) =>
+                        updateAssetEdit(asset, { depreciationMethod: event.target.value as DepreciationMethod })
+                      }
+                    >
+                      {DEPRECIATION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="field">
+                    <label>Residual Value (ZAR)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={edit?.residualValue ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { residualValue: event.target.value })}
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Insured Value (ZAR)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={edit?.insuredValue ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { insuredValue: event.target.value })}
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Replacement Cost (ZAR)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={edit?.replacementCost ?? ""}
+                      onChange={(event) => updateAssetEdit(asset, { replacementCost: event.target.value })}
+                    />
+                  </div>
                 </div>
                 <div className="field">
                   <label>Warranty Document URL</label>
@@ -842,9 +1248,21 @@ export function AdminMaintenanceWorkflow({
               <div className="status-line">
                 <span className={`status-pill status-${task.status.toLowerCase()}`}>{task.status}</span>
                 <span className="lead">{task.asset?.name ?? "No asset"}</span>
+                {task.overrunAmount ? (
+                  <span className="status-pill status-overrun">Over by {amountLabel(task.overrunAmount)}</span>
+                ) : null}
               </div>
               <h4>{task.title}</h4>
-              <p className="lead">Actual cost: {amountLabel(task.actualCost)} | Due: {dateLabel(task.dueDate)}</p>
+              <p className="lead">
+                Actual cost: {amountLabel(task.actualCost)} | Approved: {amountLabel(task.approvedCost)} | Due:{" "}
+                {dateLabel(task.dueDate)}
+              </p>
+              {task.expense ? (
+                <p className="lead">
+                  Booked as a maintenance expense of {amountLabel(task.expense.amount)}
+                  {task.expense.paidDate ? `, paid ${dateLabel(task.expense.paidDate)}` : ", unpaid"}.
+                </p>
+              ) : null}
               {task.invoiceFileUrl ? (
                 <p>
                   <a className="doc-link" href={task.invoiceFileUrl} target="_blank" rel="noreferrer">
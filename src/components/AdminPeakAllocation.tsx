@@ -0,0 +1,456 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type PeakSlot = { start: string; end: string };
+
+type PeakPreference = {
+  id: string;
+  familyBranch: string;
+  slotStart: string;
+  rank: number;
+};
+
+type PeakAllocation = {
+  id: string;
+  familyBranch: string;
+  slotStart: string;
+  slotEnd: string;
+  preferenceRank: number;
+  drawOrder: number;
+  booking?: { id: string; status: string } | null;
+};
+
+type DrawStep = {
+  round: number;
+  pick: number;
+  familyBranch: string;
+  outcome: string;
+  slotStart?: string;
+  rank?: number;
+  skipped: Array<{ slotStart: string; rank: number; reason: string }>;
+};
+
+type DrawLog = {
+  method: string;
+  seed: string;
+  historyYears: number;
+  history: Array<{ familyBranch: string; allocations: number; lastAllocatedAt: string | null }>;
+  weights: Record<string, number> | null;
+  order: string[];
+  unavailableSlots: Array<{ slotStart: string; conflictingBookingId: string }>;
+  steps: DrawStep[];
+};
+
+type PeakPeriod = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  slotNights: number;
+  slotsPerBranch: number;
+  preferenceDeadline: string;
+  method: "ROTATION" | "WEIGHTED_LOTTERY";
+  status: "OPEN" | "DRAWN" | "CANCELLED";
+  drawSeed?: string | null;
+  drawLog?: DrawLog | null;
+  drawnAt?: string | null;
+  drawnBy?: { name: string } | null;
+  slots: PeakSlot[];
+  preferences: PeakPreference[];
+  allocations: PeakAllocation[];
+};
+
+type PanelState = {
+  type: "idle" | "error" | "success";
+  message?: string;
+};
+
+const METHOD_LABELS: Record<PeakPeriod["method"], string> = {
+  ROTATION: "Rotation (fewest recent peak weeks picks first)",
+  WEIGHTED_LOTTERY: "Weighted lottery (fewer recent peak weeks, better odds)"
+};
+
+function dateLabel(value: string): string {
+  return value.slice(0, 10);
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function AdminPeakAllocation() {
+  const [periods, setPeriods] = useState<PeakPeriod[]>([]);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+  const [seeds, setSeeds] = useState<Record<string, string>>({});
+  const [form, setForm] = useState({
+    name: "",
+    startDate: "",
+    endDate: "",
+    slotNights: "7",
+    slotsPerBranch: "1",
+    preferenceDeadline: "",
+    method: "ROTATION" as PeakPeriod["method"]
+  });
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/peak-periods", { cache: "no-store" });
+      const data = (await response.json()) as { periods?: PeakPeriod[]; branches?: string[]; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load peak periods.") });
+        return;
+      }
+      setPeriods(data.periods ?? []);
+      setBranches(data.branches ?? []);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load peak periods." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPeriods();
+  }, [loadPeriods]);
+
+  async function createPeriod() {
+    if (!form.name.trim() || !form.startDate || !form.endDate || !form.preferenceDeadline) {
+      setState({ type: "error", message: "Name, dates, and preference deadline are required." });
+      return;
+    }
+
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/peak-periods", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          startDate: form.startDate,
+          endDate: form.endDate,
+          slotNights: Number(form.slotNights),
+          slotsPerBranch: Number(form.slotsPerBranch),
+          preferenceDeadline: form.preferenceDeadline,
+          method: form.method
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not create the peak period.") });
+        return;
+      }
+      setForm({ ...form, name: "", startDate: "", endDate: "", preferenceDeadline: "" });
+      await loadPeriods();
+      setState({ type: "success", message: "Peak period created. Members can now rank its slots." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not create the peak period." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function cancelPeriod(periodId: string) {
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/peak-periods/${encodeURIComponent(periodId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "CANCELLED" })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not cancel the peak period.") });
+        return;
+      }
+      await loadPeriods();
+      setState({ type: "success", message: "Peak period cancelled." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not cancel the peak period." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function runDraw(period: PeakPeriod) {
+    const early = new Date(period.preferenceDeadline) > new Date();
+    if (early && !window.confirm("Preferences are still open. Run the draw before the deadline?")) {
+      return;
+    }
+
+    setWorking(true);
+    setState({ type: "idle" });
+    try {
+      const seed = seeds[period.id]?.trim();
+      const response = await fetch(`/api/peak-periods/${encodeURIComponent(period.id)}/draw`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seed: seed || undefined, force: early })
+      });
+      const data = (await response.json()) as { period?: PeakPeriod; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not run the draw.") });
+        return;
+      }
+      await loadPeriods();
+      setState({
+        type: "success",
+        message: `Draw complete: ${data.period?.allocations.length ?? 0} slot(s) allocated as pending bookings.`
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not run the draw." });
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Peak-Season Allocation</h3>
+      <p className="lead">
+        Split a peak period into slots, let each family branch rank the slots it wants, then run a recorded draw.
+        Branches with fewer peak allocations in the last five years pick first. Winning slots become pending
+        bookings for the usual approval.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      {branches.length === 0 && !loading ? (
+        <p className="notice error">No members have a family branch yet. Set one per member under Users.</p>
+      ) : null}
+
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="peak-name">Period Name</label>
+          <input
+            id="peak-name"
+            value={form.name}
+            placeholder="December holidays 2026"
+            onChange={(event) => setForm({ ...form, name: event.target.value })}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="peak-method">Allocation Method</label>
+          <select
+            id="peak-method"
+            value={form.method}
+            onChange={(event) => setForm({ ...form, method: event.target.value as PeakPeriod["method"] })}
+          >
+            <option value="ROTATION">{METHOD_LABELS.ROTATION}</option>
+            <option value="WEIGHTED_LOTTERY">{METHOD_LABELS.WEIGHTED_LOTTERY}</option>
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="peak-start">First Arrival</label>
+          <input
+            id="peak-start"
+            type="date"
+            value={form.startDate}
+            onChange={(event) => setForm({ ...form, startDate: event.target.value })}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="peak-end">Last Departure</label>
+          <input
+            id="peak-end"
+            type="date"
+            value={form.endDate}
+            onChange={(event) => setForm({ ...form, endDate: event.target.value })}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="peak-slot-nights">Nights Per Slot</label>
+          <input
+            id="peak-slot-nights"
+            type="number"
+            min="1"
+            max="31"
+            value={form.slotNights}
+            onChange={(event) => setForm({ ...form, slotNights: event.target.value })}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="peak-slots-per-branch">Slots Per Branch</label>
+          <input
+            id="peak-slots-per-branch"
+            type="number"
+            min="1"
+            max="10"
+            value={form.slotsPerBranch}
+            onChange={(event) => setForm({ ...form, slotsPerBranch: event.target.value })}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="peak-deadline">Preference Deadline</label>
+          <input
+            id="peak-deadline"
+            type="date"
+            value={form.preferenceDeadline}
+            onChange={(event) => setForm({ ...form, preferenceDeadline: event.target.value })}
+          />
+        </div>
+      </div>
+      <div className="action-row">
+        <button type="button" className="btn-primary" disabled={working} onClick={() => void createPeriod()}>
+          {working ? "Working..." : "Create Peak Period"}
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="lead">Loading peak periods...</p>
+      ) : periods.length === 0 ? (
+        <p className="lead">No peak periods yet.</p>
+      ) : (
+        periods.map((period) => {
+          const ranked = new Set(period.preferences.map((preference) => preference.familyBranch));
+          const missing = branches.filter((branch) => !ranked.has(branch));
+          return (
+            <details key={period.id} className="card booking-history-item">
+              <summary className="booking-history-summary">
+                <span className={`status-pill peak-${period.status.toLowerCase()}`}>{period.status}</span>
+                <strong>{period.name}</strong>
+                <span className="lead">
+                  {dateLabel(period.startDate)} to {dateLabel(period.endDate)} | {period.slots.length} slot(s) of{" "}
+                  {period.slotNights} night(s) | Preferences close {dateLabel(period.preferenceDeadline)}
+                </span>
+              </summary>
+
+              <div className="booking-history-details grid">
+                <p className="lead">
+                  {METHOD_LABELS[period.method]} | {period.slotsPerBranch} slot(s) per branch
+                </p>
+
+                <div className="audit-trail">
+                  <strong>Branch Preferences</strong>
+                  {[...ranked].map((branch) => (
+                    <p key={branch} className="lead">
+                      {branch}:{" "}
+                      {period.preferences
+                        .filter((preference) => preference.familyBranch === branch)
+                        .map((preference) => `#${preference.rank} ${dateLabel(preference.slotStart)}`)
+                        .join(", ")}
+                    </p>
+                  ))}
+                  {missing.length > 0 ? (
+                    <p className="lead">No preferences yet: {missing.join(", ")}</p>
+                  ) : null}
+                </div>
+
+                {period.status === "OPEN" ? (
+                  <div className="grid">
+                    <div className="field">
+                      <label htmlFor={`peak-seed-${period.id}`}>Draw Seed (optional)</label>
+                      <input
+                        id={`peak-seed-${period.id}`}
+                        value={seeds[period.id] ?? ""}
+                        placeholder="Leave blank for a random seed"
+                        onChange={(event) => setSeeds({ ...seeds, [period.id]: event.target.value })}
+                      />
+                      <p className="lead">Anyone can re-run the draw from the published seed and log.</p>
+                    </div>
+                    <div className="action-row">
+                      <button
+                        type="button"
+                        className="btn-primary"
+                        disabled={working}
+                        onClick={() => void runDraw(period)}
+                      >
+                        Run Draw
+                      </button>
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        disabled={working}
+                        onClick={() => void cancelPeriod(period.id)}
+                      >
+                        Cancel Period
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+
+                {period.status === "DRAWN" ? (
+                  <>
+                    <div className="audit-trail">
+                      <strong>Allocations</strong>
+                      {period.allocations.length === 0 ? (
+                        <p className="lead">No slots were allocated.</p>
+                      ) : (
+                        period.allocations.map((allocation) => (
+                          <p key={allocation.id} className="lead">
+                            {dateLabel(allocation.slotStart)} to {dateLabel(allocation.slotEnd)}:{" "}
+                            {allocation.familyBranch} (choice #{allocation.preferenceRank}, pick{" "}
+                            {allocation.drawOrder}) | Booking {allocation.booking?.status ?? "removed"}
+                          </p>
+                        ))
+                      )}
+                    </div>
+                    {period.drawLog ? (
+                      <div className="audit-trail">
+                        <strong>Draw Log</strong>
+                        <p className="lead">
+                          Drawn {period.drawnAt ? new Date(period.drawnAt).toLocaleString() : ""} by{" "}
+                          {period.drawnBy?.name ?? "an administrator"} | Seed {period.drawLog.seed}
+                        </p>
+                        <p className="lead">
+                          History ({period.drawLog.historyYears} years):{" "}
+                          {period.drawLog.history
+                            .map((entry) => {
+                              const weight = period.drawLog?.weights?.[entry.familyBranch];
+                              return `${entry.familyBranch} ${entry.allocations}${
+                                weight !== undefined ? ` (weight ${weight})` : ""
+                              }`;
+                            })
+                            .join(", ")}
+                        </p>
+                        <p className="lead">Draw order: {period.drawLog.order.join(", ")}</p>
+                        {period.drawLog.unavailableSlots.length > 0 ? (
+                          <p className="lead">
+                            Already booked:{" "}
+                            {period.drawLog.unavailableSlots.map((slot) => dateLabel(slot.slotStart)).join(", ")}
+                          </p>
+                        ) : null}
+                        {period.drawLog.steps.map((step) => (
+                          <p key={step.pick} className="lead">
+                            Pick {step.pick} (round {step.round}) {step.familyBranch}:{" "}
+                            {step.outcome === "ALLOCATED" && step.slotStart
+                              ? `${dateLabel(step.slotStart)} (choice #${step.rank})`
+                              : "no ranked slot left"}
+                            {step.skipped.length > 0
+                              ? ` | skipped ${step.skipped
+                                  .map(
+                                    (skip) => `#${skip.rank} ${dateLabel(skip.slotStart)} ${skip.reason.toLowerCase()}`
+                                  )
+                                  .join(", ")}`
+                              : ""}
+                          </p>
+                        ))}
+                      </div>
+                    ) : null}
+                  </>
+                ) : null}
+              </div>
+            </details>
+          );
+        })
+      )}
+    </article>
+  );
+}
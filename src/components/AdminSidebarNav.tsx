@@ -9,6 +9,7 @@ const adminLinks: Array<{ href: Route; label: string }> = [
   { href: "/admin/bookings", label: "Bookings" },
   { href: "/admin/assets", label: "Asset Management" },
   { href: "/admin/maintenance", label: "Maintenance" },
+  { href: "/admin/contractors", label: "Contractors" },
   { href: "/admin/users", label: "User Administration" },
   { href: "/admin/feedback", label: "Guest Feedback" },
   { href: "/admin/finances", label: "Finances" },
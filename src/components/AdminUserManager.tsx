@@ -9,6 +9,7 @@ type ManagedUser = {
   name: string;
   role: UserRole;
   isActive: boolean;
+  familyBranch?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -17,6 +18,7 @@ type Draft = {
   name: string;
   role: UserRole;
   isActive: boolean;
+  familyBranch: string;
   password: string;
 };
 
@@ -58,6 +60,7 @@ function toDraft(user: ManagedUser): Draft {
     name: user.name,
     role: user.role,
     isActive: user.isActive,
+    familyBranch: user.familyBranch ?? "",
     password: ""
   };
 }
@@ -167,6 +170,9 @@ export function AdminUserManager() {
     if (draft.isActive !== user.isActive) {
       payload.isActive = draft.isActive;
     }
+    if (draft.familyBranch.trim() !== (user.familyBranch ?? "")) {
+      payload.familyBranch = draft.familyBranch.trim();
+    }
     if (draft.password.trim().length > 0) {
       payload.password = draft.password.trim();
     }
@@ -592,6 +598,15 @@ export function AdminUserManager() {
                     <option value="no">No</option>
                   </select>
                 </div>
+
+                <div className="field">
+                  <label>Family Branch</label>
+                  <input
+                    value={draft.familyBranch}
+                    placeholder="Used for peak-season allocation"
+                    onChange={(event) => updateDraft(user.id, { familyBranch: event.target.value })}
+                  />
+                </div>
               </div>
 
               <div className="field">
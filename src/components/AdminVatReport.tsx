@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type VatTotals = {
+  amountExclVat: number;
+  vatAmount: number;
+  amountInclVat: number;
+};
+
+type VatReport = {
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  vatRegistered: boolean;
+  vatNumber: string | null;
+  vatRate: number;
+  output: VatTotals;
+  input: VatTotals;
+  netVat: number;
+  vat201: Array<{ field: string; label: string; amount: number }>;
+  lines: Array<{
+    date: string;
+    kind: "SUPPLY" | "CREDIT" | "EXPENSE";
+    description: string;
+    reference: string | null;
+    rate: number;
+    amountExclVat: number;
+    vatAmount: number;
+    amountInclVat: number;
+  }>;
+};
+
+const KIND_LABELS: Record<VatReport["lines"][number]["kind"], string> = {
+  SUPPLY: "Output",
+  CREDIT: "Output credit",
+  EXPENSE: "Input"
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function monthStartInput(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function todayInput(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function AdminVatReport() {
+  const [from, setFrom] = useState(monthStartInput);
+  const [to, setTo] = useState(todayInput);
+  const [report, setReport] = useState<VatReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async (periodFrom: string, periodTo: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: periodFrom, to: periodTo });
+      const response = await fetch(`/api/finance/vat?${params.toString()}`, { cache: "no-store" });
+      const data = (await response.json()) as { report?: VatReport; error?: unknown };
+      if (!response.ok || !data.report) {
+        setError(errorMessage(data, "Could not load the VAT report."));
+        return;
+      }
+      setReport(data.report);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load the VAT report.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReport(monthStartInput(), todayInput());
+  }, [loadReport]);
+
+  const csvUrl = `/api/finance/vat?${new URLSearchParams({ from, to, format: "csv" }).toString()}`;
+
+  return (
+    <article className="card grid">
+      <h3>VAT Summary</h3>
+      <p className="lead">
+        Output VAT on external stays against input VAT on expenses for a VAT period, with the totals laid out for the
+        SARS VAT201 return.
+      </p>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="vat-from">From</label>
+          <input id="vat-from" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+        </div>
+        <div className="field">
+          <label htmlFor="vat-to">To</label>
+          <input id="vat-to" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+        </div>
+      </div>
+
+      <div className="action-row">
+        <button type="button" className="btn-primary" disabled={loading} onClick={() => void loadReport(from, to)}>
+          {loading ? "Loading..." : "Show VAT Summary"}
+        </button>
+        <a className="btn-secondary inline-action" href={csvUrl}>
+          Download CSV
+        </a>
+      </div>
+
+      {error ? <p className="notice error">{error}</p> : null}
+
+      {report ? (
+        <>
+          {!report.vatRegistered ? (
+            <p className="notice error">
+              The active fee configuration is not VAT registered, so new external stays carry no output VAT.
+            </p>
+          ) : (
+            <p className="lead">
+              VAT number {report.vatNumber ?? "not set"} | Standard rate {report.vatRate}%
+            </p>
+          )}
+
+          <div className="inline">
+            <div className="metric">
+              <strong>
+                {report.currency} {report.output.vatAmount.toFixed(2)}
+              </strong>
+              <span>Output VAT</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {report.currency} {report.input.vatAmount.toFixed(2)}
+              </strong>
+              <span>Input VAT</span>
+            </div>
+            <div className="metric">
+              <strong>
+                {report.currency} {report.netVat.toFixed(2)}
+              </strong>
+              <span>{report.netVat >= 0 ? "VAT payable" : "VAT refundable"}</span>
+            </div>
+          </div>
+
+          <div className="statement-table-wrap">
+            <table className="statement-table">
+              <thead>
+                <tr>
+                  <th>VAT201 Field</th>
+                  <th>Description</th>
+                  <th>Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.vat201.map((entry) => (
+                  <tr key={entry.field}>
+                    <td>{entry.field}</td>
+                    <td>{entry.label}</td>
+                    <td>{entry.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.lines.length === 0 ? (
+            <p className="lead">No VAT transactions in this period.</p>
+          ) : (
+            <div className="statement-table-wrap">
+              <table className="statement-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Type</th>
+                    <th>Description</th>
+                    <th>Excl. VAT</th>
+                    <th>VAT</th>
+                    <th>Incl. VAT</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lines.map((line, index) => (
+                    <tr key={`${line.date}-${index}`}>
+                      <td>{line.date}</td>
+                      <td>{KIND_LABELS[line.kind]}</td>
+                      <td>
+                        {line.description}
+                        {line.reference ? <small> {line.reference}</small> : null}
+                      </td>
+                      <td>{line.amountExclVat.toFixed(2)}</td>
+                      <td>{line.vatAmount.toFixed(2)}</td>
+                      <td>{line.amountInclVat.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  <tr className="statement-total">
+                    <td>{report.periodEnd}</td>
+                    <td />
+                    <td>Net VAT</td>
+                    <td />
+                    <td>{report.netVat.toFixed(2)}</td>
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+    </article>
+  );
+}
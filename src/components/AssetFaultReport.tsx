@@ -0,0 +1,162 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { uploadDocument } from "@/lib/client-upload";
+
+type MaintenancePriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
+
+type FaultForm = {
+  title: string;
+  description: string;
+  priority: MaintenancePriority;
+  photoUrl: string;
+};
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+type AssetFaultReportProps = {
+  assetId: string;
+  assetName: string;
+};
+
+const defaultForm: FaultForm = {
+  title: "",
+  description: "",
+  priority: "MEDIUM",
+  photoUrl: ""
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function AssetFaultReport({ assetId, assetName }: AssetFaultReportProps) {
+  const router = useRouter();
+  const [form, setForm] = useState<FaultForm>(defaultForm);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  async function reportFault() {
+    if (form.title.trim().length < 3) {
+      setState({ type: "error", message: "Describe the fault in at least 3 characters." });
+      return;
+    }
+
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/maintenance/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assetId,
+          title: form.title.trim(),
+          description: form.description.trim() || undefined,
+          priority: form.priority,
+          invoiceFileUrl: form.photoUrl || undefined
+        })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not report the fault.") });
+        return;
+      }
+
+      setForm(defaultForm);
+      setState({ type: "success", message: `Fault on ${assetName} reported. An admin will review it.` });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not report the fault." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleUpload(file: File) {
+    setUploading(true);
+    setState({ type: "idle" });
+    try {
+      const uploaded = await uploadDocument(file);
+      setForm((current) => ({ ...current, photoUrl: uploaded.url }));
+      setState({ type: "success", message: `Uploaded ${uploaded.name}.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: error instanceof Error ? error.message : "Upload failed." });
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <article className="card grid">
+      <h2>Report a Fault</h2>
+      {state.type !== "idle" ? <p className={`notice ${state.type}`}>{state.message}</p> : null}
+      <div className="field">
+        <label htmlFor="fault-title">What is wrong?</label>
+        <input
+          id="fault-title"
+          placeholder="e.g. Not heating, leaking, won't switch on"
+          value={form.title}
+          onChange={(event) => setForm((current) => ({ ...current, title: event.target.value }))}
+        />
+      </div>
+      <div className="field">
+        <label htmlFor="fault-description">Details</label>
+        <textarea
+          id="fault-description"
+          rows={3}
+          value={form.description}
+          onChange={(event) => setForm((current) => ({ ...current, description: event.target.value }))}
+        />
+      </div>
+      <div className="field">
+        <label htmlFor="fault-priority">How urgent?</label>
+        <select
+          id="fault-priority"
+          value={form.priority}
+          onChange={(event) =>
+            setForm((current) => ({ ...current, priority: event.target.value as MaintenancePriority }))
+          }
+        >
+          <option value="LOW">Low - when convenient</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="HIGH">High - affects the stay</option>
+          <option value="URGENT">Urgent - unsafe or causing damage</option>
+        </select>
+      </div>
+      <div className="field">
+        <label htmlFor="fault-photo">Photo (optional)</label>
+        <input
+          id="fault-photo"
+          type="file"
+          accept="image/*"
+          capture="environment"
+          disabled={uploading}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              void handleUpload(file);
+            }
+          }}
+        />
+      </div>
+      <button
+        type="button"
+        className="btn-primary"
+        disabled={saving || uploading}
+        onClick={() => void reportFault()}
+      >
+        {saving ? "Sending..." : "Report Fault"}
+      </button>
+    </article>
+  );
+}
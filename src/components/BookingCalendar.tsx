@@ -1,16 +1,27 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { occupiesWholeHouse, rangeOccupiesRoom } from "@/lib/booking";
 
 type AvailabilityBooking = {
   id: string;
   status: "PENDING" | "APPROVED" | string;
+  scope: "WHOLE_HOUSE" | "ROOM_SPECIFIC" | string;
   startDate: string;
   endDate: string;
+  roomIds: string[];
+};
+
+type AvailabilityRoom = {
+  id: string;
+  name: string;
+  code: string;
+  capacity: number;
 };
 
 type SelectionMode = "start" | "end";
-type NightStatus = "available" | "tentative" | "confirmed" | "past";
+type NightStatus = "available" | "partial" | "tentative" | "confirmed" | "past";
+type RoomNightStatus = "free" | "tentative" | "booked";
 
 type Props = {
   startDate: string;
@@ -61,6 +72,8 @@ const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDateChange }: Props) {
   const [bookings, setBookings] = useState<AvailabilityBooking[]>([]);
+  const [rooms, setRooms] = useState<AvailabilityRoom[]>([]);
+  const [focusedDay, setFocusedDay] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [hint, setHint] = useState<string | null>(null);
@@ -82,6 +95,8 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
     () =>
       bookings.map((booking) => ({
         status: booking.status,
+        scope: booking.scope,
+        roomIds: booking.roomIds ?? [],
         start: parseIsoDate(booking.startDate.slice(0, 10)),
         end: parseIsoDate(booking.endDate.slice(0, 10))
       })),
@@ -94,12 +109,17 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
       setLoadError(null);
       try {
         const response = await fetch("/api/bookings/availability", { cache: "no-store" });
-        const data = (await response.json()) as { bookings?: AvailabilityBooking[]; error?: unknown };
+        const data = (await response.json()) as {
+          bookings?: AvailabilityBooking[];
+          rooms?: AvailabilityRoom[];
+          error?: unknown;
+        };
         if (!response.ok) {
           setLoadError(typeof data.error === "string" ? data.error : "Could not load availability.");
           return;
         }
         setBookings(data.bookings ?? []);
+        setRooms(data.rooms ?? []);
       } catch (error) {
         console.error(error);
         setLoadError("Could not load availability.");
@@ -121,8 +141,13 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
     }
 
     let tentative = false;
+    let partial = false;
     for (const range of ranges) {
       if (day >= range.start && day < range.end) {
+        if (!occupiesWholeHouse(range)) {
+          partial = true;
+          continue;
+        }
         if (range.status === "APPROVED") {
           return "confirmed";
         }
@@ -132,10 +157,27 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
       }
     }
 
-    return tentative ? "tentative" : "available";
+    if (tentative) {
+      return "tentative";
+    }
+    return partial ? "partial" : "available";
+  }
+
+  function roomStatusForNight(day: Date, roomId: string): RoomNightStatus {
+    let tentative = false;
+    for (const range of ranges) {
+      if (day >= range.start && day < range.end && rangeOccupiesRoom(range, roomId)) {
+        if (range.status === "APPROVED") {
+          return "booked";
+        }
+        tentative = true;
+      }
+    }
+    return tentative ? "tentative" : "free";
   }
 
-  function conflictInRange(start: Date, end: Date): "confirmed" | "tentative" | null {
+  function conflictInRange(start: Date, end: Date): "confirmed" | "tentative" | "partial" | null {
+    let partial = false;
     for (let cursor = startOfDay(start); cursor < end; cursor = addDays(cursor, 1)) {
       const status = statusForNight(cursor);
       if (status === "confirmed") {
@@ -144,8 +186,11 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
       if (status === "tentative") {
         return "tentative";
       }
+      if (status === "partial") {
+        partial = true;
+      }
     }
-    return null;
+    return partial ? "partial" : null;
   }
 
   function canSelectStart(day: Date): boolean {
@@ -189,7 +234,9 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
       setHint(
         conflict === "confirmed"
           ? "That range includes confirmed bookings. Please select another check-out date."
-          : "That range includes tentative bookings awaiting approval. Please select another check-out date."
+          : conflict === "tentative"
+            ? "That range includes tentative bookings awaiting approval. Please select another check-out date."
+            : "That range includes nights where some rooms are already booked. Please select another check-out date."
       );
       return;
     }
@@ -201,6 +248,7 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
   const months = [visibleMonth, addMonths(visibleMonth, 1)];
   const canMovePrevious = visibleMonth > firstVisibleAllowedMonth;
   const availabilityReady = !loading && !loadError;
+  const occupancyDay = focusedDay ?? selectedStart;
 
   return (
     <section className="booking-calendar card grid">
@@ -253,6 +301,10 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
           <span className="legend-dot legend-dot-tentative" />
           Tentative booking
         </span>
+        <span className="legend-item">
+          <span className="legend-dot legend-dot-partial" />
+          Some rooms booked
+        </span>
       </div>
 
       <div className="booking-calendar-selection">
@@ -315,6 +367,7 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
                       outside ? "is-outside" : "",
                       visualStatus === "confirmed" ? "is-confirmed" : "",
                       visualStatus === "tentative" ? "is-tentative" : "",
+                      visualStatus === "partial" ? "is-partial" : "",
                       visualStatus === "past" ? "is-past" : "",
                       isStart ? "is-start" : "",
                       isEnd ? "is-end" : "",
@@ -334,6 +387,10 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
                       if (status === "tentative") {
                         return "Tentative booking awaiting approval";
                       }
+                      if (status === "partial") {
+                        const freeRooms = rooms.filter((room) => roomStatusForNight(day, room.id) === "free").length;
+                        return `${freeRooms} of ${rooms.length} rooms free`;
+                      }
                       if (status === "past") {
                         return "Past date";
                       }
@@ -346,6 +403,8 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
                         type="button"
                         className={classes}
                         onClick={() => onDayClick(day)}
+                        onMouseEnter={() => setFocusedDay(day)}
+                        onFocus={() => setFocusedDay(day)}
                         disabled={disabled}
                         title={title}
                         aria-label={`${shortDateFormatter.format(day)} - ${title}`}
@@ -360,6 +419,23 @@ export function BookingCalendar({ startDate, endDate, onStartDateChange, onEndDa
           })}
         </div>
       ) : null}
+
+      {!loading && rooms.length > 0 && occupancyDay && occupancyDay >= today ? (
+        <div className="booking-room-occupancy">
+          <strong>Rooms on the night of {shortDateFormatter.format(occupancyDay)}</strong>
+          <ul className="list">
+            {rooms.map((room) => {
+              const roomStatus = roomStatusForNight(occupancyDay, room.id);
+              return (
+                <li key={room.id}>
+                  {room.name} (sleeps {room.capacity}):{" "}
+                  {roomStatus === "booked" ? "Booked" : roomStatus === "tentative" ? "Tentatively booked" : "Free"}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
     </section>
   );
 }
@@ -9,6 +9,18 @@ type SubmissionState = {
   message?: string;
   bookingId?: string;
   estimate?: string;
+  canJoinWaitlist?: boolean;
+};
+
+type FeeQuote = {
+  breakdown: {
+    lineItems: Array<{ label: string; amount: number; refundable?: boolean }>;
+    total: number;
+    currency: string;
+    refundableDeposit?: number;
+    vat?: { rate: number; inclusive: boolean; vatAmount: number };
+  };
+  minimumNightsError: string | null;
 };
 
 function parseLocalDate(value: string): Date {
@@ -31,6 +43,7 @@ export function BookingRequestPage() {
   const [notes, setNotes] = useState("");
   const [manageReference, setManageReference] = useState("");
   const [petNotice, setPetNotice] = useState(DEFAULT_PET_NOTICE);
+  const [feeQuote, setFeeQuote] = useState<FeeQuote | null>(null);
 
   useEffect(() => {
     async function loadPolicy() {
@@ -59,13 +72,42 @@ export function BookingRequestPage() {
     return diff > 0 ? diff : 0;
   }, [startDate, endDate]);
 
-  async function onSubmit(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    if (!startDate || !endDate || nights < 1) {
-      setSubmission({ type: "error", message: "Please select a valid check-in and check-out range." });
+  useEffect(() => {
+    if (nights < 1) {
+      setFeeQuote(null);
       return;
     }
 
+    let cancelled = false;
+    async function loadQuote() {
+      try {
+        const response = await fetch("/api/fees/calculate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            source: "EXTERNAL_PUBLIC",
+            startDate,
+            nights,
+            petCount: Number(petCount),
+            counts: { visitorAdult: Number(adults), visitorChildUnder6: Number(childrenUnder6) }
+          })
+        });
+        const data = (await response.json()) as FeeQuote;
+        if (!cancelled) {
+          setFeeQuote(response.ok ? data : null);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    }
+
+    void loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, nights, petCount, adults, childrenUnder6]);
+
+  async function submitRequest(joinWaitlist: boolean) {
     setIsSubmitting(true);
     setSubmission({ type: "idle" });
 
@@ -91,7 +133,8 @@ export function BookingRequestPage() {
             mereFamily: 0,
             visitorAdult: Number(adults),
             visitorChildUnder6: Number(childrenUnder6)
-          }
+          },
+          joinWaitlist: joinWaitlist || undefined
         })
       });
 
@@ -100,7 +143,18 @@ export function BookingRequestPage() {
       if (!response.ok) {
         setSubmission({
           type: "error",
-          message: typeof data.error === "string" ? data.error : "Booking request failed"
+          message: typeof data.error === "string" ? data.error : "Booking request failed",
+          canJoinWaitlist: response.status === 409 && data.waitlistAvailable === true
+        });
+        return;
+      }
+
+      if (data.status === "WAITLISTED") {
+        setSubmission({
+          type: "success",
+          message:
+            `Those dates are taken, so you are on the waitlist (position ${data.waitlistEntry?.position}). ` +
+            "We will email you if they free up."
         });
         return;
       }
@@ -121,6 +175,16 @@ export function BookingRequestPage() {
     }
   }
 
+  async function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!startDate || !endDate || nights < 1) {
+      setSubmission({ type: "error", message: "Please select a valid check-in and check-out range." });
+      return;
+    }
+
+    await submitRequest(false);
+  }
+
   return (
     <section className="grid grid-2">
       <article className="card grid">
@@ -222,6 +286,28 @@ export function BookingRequestPage() {
             <strong>{petCount}</strong>
             <span>Pet{petCount === 1 ? "" : "s"}</span>
           </div>
+          {feeQuote ? (
+            <div className="grid">
+              {feeQuote.minimumNightsError ? <p className="notice error">{feeQuote.minimumNightsError}.</p> : null}
+              {feeQuote.breakdown.lineItems.map((item, index) => (
+                <p key={`${item.label}-${index}`} className="lead">
+                  {item.label}: {feeQuote.breakdown.currency} {item.amount.toFixed(2)}
+                  {item.refundable ? " (refundable, not included in total)" : ""}
+                </p>
+              ))}
+              <p>
+                <strong>
+                  Estimated total: {feeQuote.breakdown.currency} {feeQuote.breakdown.total.toFixed(2)}
+                </strong>
+              </p>
+              {feeQuote.breakdown.vat?.inclusive ? (
+                <p className="lead">
+                  Includes VAT ({feeQuote.breakdown.vat.rate}%): {feeQuote.breakdown.currency}{" "}
+                  {feeQuote.breakdown.vat.vatAmount.toFixed(2)}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
           <p className="lead">
             Seasonal rates are automatically applied for external visitors when configured by admin.
           </p>
@@ -278,6 +364,18 @@ export function BookingRequestPage() {
             <p>{submission.message}</p>
             {submission.bookingId ? <p>Reference: {submission.bookingId}</p> : null}
             {submission.estimate ? <p>Estimated total: {submission.estimate}</p> : null}
+            {submission.canJoinWaitlist ? (
+              <div className="action-row">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  disabled={isSubmitting}
+                  onClick={() => void submitRequest(true)}
+                >
+                  {isSubmitting ? "Joining..." : "Join Waitlist For These Dates"}
+                </button>
+              </div>
+            ) : null}
           </article>
         ) : null}
       </aside>
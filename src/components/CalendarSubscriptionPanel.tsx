@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type PanelState = { type: "idle" | "success" | "error"; message?: string };
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function CalendarSubscriptionPanel() {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadFeed = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/calendar/tokens", { cache: "no-store" });
+      const data = (await response.json()) as { feedUrl?: string | null; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load calendar feed.") });
+        return;
+      }
+      setFeedUrl(data.feedUrl ?? null);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load calendar feed." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadFeed();
+  }, [loadFeed]);
+
+  async function updateFeed(method: "POST" | "DELETE") {
+    setSaving(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/calendar/tokens", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target: "me" })
+      });
+      const data = (await response.json()) as { feedUrl?: string; error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not update calendar feed.") });
+        return;
+      }
+
+      setFeedUrl(method === "POST" ? data.feedUrl ?? null : null);
+      setState({
+        type: "success",
+        message:
+          method === "POST"
+            ? "New calendar link issued. Any previous link has stopped working."
+            : "Calendar link revoked."
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not update calendar feed." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="lead">Loading calendar feed...</p>;
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Calendar Subscription</h3>
+      <p className="lead">
+        Subscribe to your approved bookings from your phone or desktop calendar. Append
+        {" "}<code>?includePending=true</code> to also see requests awaiting approval.
+      </p>
+
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      {feedUrl ? (
+        <div className="field">
+          <label htmlFor="calendar-feed-url">Private feed URL</label>
+          <input id="calendar-feed-url" value={feedUrl} readOnly onFocus={(event) => event.target.select()} />
+        </div>
+      ) : (
+        <p className="lead">No calendar link has been issued yet.</p>
+      )}
+
+      <div className="action-row">
+        <button type="button" className="btn-primary" disabled={saving} onClick={() => void updateFeed("POST")}>
+          {saving ? "Working..." : feedUrl ? "Replace Link" : "Create Link"}
+        </button>
+        {feedUrl ? (
+          <button type="button" className="btn-secondary" disabled={saving} onClick={() => void updateFeed("DELETE")}>
+            {saving ? "Working..." : "Revoke Link"}
+          </button>
+        ) : null}
+      </div>
+    </article>
+  );
+}
@@ -18,6 +18,29 @@ type Booking = {
   externalLeadPhone?: string | null;
   currency: string;
   totalAmount: string | number | null;
+  feeBreakdown?: {
+    lineItems: Array<{ label: string; amount: number; season?: string | null }>;
+    seasons?: Array<{ season: string | null; nights: number; firstNight: string; lastNight: string; subtotal: number }>;
+    vat?: { rate: number; inclusive: boolean; vatAmount: number };
+  } | null;
+  paymentSummary?: {
+    depositOutstanding: number;
+    paidAmount: number;
+    outstandingAmount: number;
+    depositDueDate: string | null;
+    balanceDueDate: string | null;
+    state: string;
+    label: string;
+  };
+};
+
+type CancellationQuote = {
+  daysBeforeStart: number;
+  refundPercent: number;
+  paidAmount: number;
+  refundAmount: number;
+  retainedAmount: number;
+  refundMethod: "REFUND" | "CREDIT_NOTE";
 };
 
 type UiState = {
@@ -62,6 +85,10 @@ export function ManageBookingPage({ initialReference = "", initialToken = "", in
 
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelling, setCancelling] = useState(false);
   const [state, setState] = useState<UiState>({ type: "idle" });
 
   useEffect(() => {
@@ -96,6 +123,7 @@ export function ManageBookingPage({ initialReference = "", initialToken = "", in
       }
 
       setBooking(data.booking);
+      setCancelQuote(null);
       setStartDate(toDateInput(data.booking.startDate));
       setEndDate(toDateInput(data.booking.endDate));
       setTotalGuests(data.booking.totalGuests);
@@ -114,6 +142,107 @@ export function ManageBookingPage({ initialReference = "", initialToken = "", in
     }
   }
 
+  async function payOnline(portion: "deposit" | "outstanding") {
+    if (!booking) {
+      return;
+    }
+
+    setPaying(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/payments/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider: "yoco",
+          bookingId: booking.id,
+          manageToken: token.trim() || undefined,
+          portion
+        })
+      });
+      const data = (await response.json()) as { redirectUrl?: string; error?: unknown };
+      if (!response.ok || !data.redirectUrl) {
+        setState({ type: "error", message: errorMessage(data, "Could not start online payment.") });
+        return;
+      }
+      window.location.assign(data.redirectUrl);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not start online payment." });
+    } finally {
+      setPaying(false);
+    }
+  }
+
+  async function reviewCancellation() {
+    if (!booking) {
+      return;
+    }
+
+    setCancelling(true);
+    setState({ type: "idle" });
+    try {
+      const query = new URLSearchParams();
+      if (token.trim()) {
+        query.set("token", token.trim());
+      }
+      const response = await fetch(`/api/bookings/${booking.id}/cancel?${query.toString()}`, { cache: "no-store" });
+      const data = (await response.json()) as { cancellable?: boolean; quote?: CancellationQuote; error?: unknown };
+      if (!response.ok || !data.quote) {
+        setState({ type: "error", message: errorMessage(data, "Could not load the cancellation terms.") });
+        return;
+      }
+      if (!data.cancellable) {
+        setState({ type: "error", message: "This booking can no longer be cancelled online. Contact the house admin." });
+        return;
+      }
+      setCancelQuote(data.quote);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load the cancellation terms." });
+    } finally {
+      setCancelling(false);
+    }
+  }
+
+  async function confirmCancellation() {
+    if (!booking) {
+      return;
+    }
+
+    setCancelling(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/bookings/${booking.id}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: token.trim() || undefined, reason: cancelReason.trim() || undefined })
+      });
+      const data = (await response.json()) as { booking?: Booking; quote?: CancellationQuote; error?: unknown };
+      if (!response.ok || !data.booking || !data.quote) {
+        setState({ type: "error", message: errorMessage(data, "Could not cancel booking.") });
+        return;
+      }
+
+      setBooking({ ...booking, status: data.booking.status });
+      setCancelQuote(null);
+      setState({
+        type: "success",
+        message:
+          data.quote.refundAmount > 0
+            ? `Booking cancelled. ${booking.currency} ${data.quote.refundAmount.toFixed(2)} will be ${
+                data.quote.refundMethod === "CREDIT_NOTE" ? "credited to your account" : "refunded"
+              }.`
+            : "Booking cancelled."
+      });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not cancel booking." });
+    } finally {
+      setCancelling(false);
+    }
+  }
+
   async function saveBooking() {
     if (!booking) {
       return;
@@ -296,11 +425,118 @@ export function ManageBookingPage({ initialReference = "", initialToken = "", in
             Current total: {booking.currency} {Number(booking.totalAmount ?? 0).toFixed(2)}
           </p>
 
+          {booking.feeBreakdown && booking.feeBreakdown.lineItems.length > 0 ? (
+            <div className="audit-trail">
+              {(booking.feeBreakdown.seasons ?? []).length > 1
+                ? booking.feeBreakdown.seasons?.map((season) => (
+                    <p key={season.firstNight} className="lead">
+                      <strong>{season.season ?? "Standard rate"}</strong>: {season.nights} night(s) from{" "}
+                      {season.firstNight} - {booking.currency} {season.subtotal.toFixed(2)}
+                    </p>
+                  ))
+                : null}
+              {booking.feeBreakdown.lineItems.map((item, index) => (
+                <p key={`${item.label}-${index}`} className="lead">
+                  {item.label}: {booking.currency} {item.amount.toFixed(2)}
+                </p>
+              ))}
+              {booking.feeBreakdown.vat?.inclusive ? (
+                <p className="lead">
+                  Includes VAT ({booking.feeBreakdown.vat.rate}%): {booking.currency}{" "}
+                  {booking.feeBreakdown.vat.vatAmount.toFixed(2)}
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {booking.paymentSummary ? (
+            <div className="grid">
+              <div className="status-line">
+                <span className={`status-pill payment-${booking.paymentSummary.state.toLowerCase()}`}>
+                  {booking.paymentSummary.label}
+                </span>
+                <span className="lead">
+                  Paid: {booking.currency} {booking.paymentSummary.paidAmount.toFixed(2)} | Outstanding:{" "}
+                  {booking.currency} {booking.paymentSummary.outstandingAmount.toFixed(2)}
+                </span>
+              </div>
+              {booking.status === "APPROVED" && booking.paymentSummary.outstandingAmount > 0 ? (
+                <div className="action-row">
+                  {booking.paymentSummary.depositOutstanding > 0 ? (
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      disabled={paying}
+                      onClick={() => void payOnline("deposit")}
+                    >
+                      {paying
+                        ? "Redirecting..."
+                        : `Pay Deposit (${booking.currency} ${booking.paymentSummary.depositOutstanding.toFixed(2)})`}
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    disabled={paying}
+                    onClick={() => void payOnline("outstanding")}
+                  >
+                    {paying ? "Redirecting..." : "Pay Full Balance"}
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="action-row">
             <button type="button" className="btn-primary" disabled={saving} onClick={() => void saveBooking()}>
               {saving ? "Saving..." : "Save Changes"}
             </button>
+            {booking.status === "PENDING" || booking.status === "APPROVED" ? (
+              <button
+                type="button"
+                className="btn-secondary"
+                disabled={cancelling}
+                onClick={() => void reviewCancellation()}
+              >
+                Cancel Booking
+              </button>
+            ) : null}
           </div>
+
+          {cancelQuote ? (
+            <div className="grid">
+              <h3>Cancel This Booking</h3>
+              <p className="lead">
+                Cancelling {cancelQuote.daysBeforeStart} day(s) before arrival refunds {cancelQuote.refundPercent}% of
+                what has been paid: {booking.currency} {cancelQuote.refundAmount.toFixed(2)}
+                {cancelQuote.refundMethod === "CREDIT_NOTE" ? " as account credit" : ""}.{" "}
+                {cancelQuote.retainedAmount > 0
+                  ? `${booking.currency} ${cancelQuote.retainedAmount.toFixed(2)} is retained as a cancellation fee.`
+                  : ""}
+              </p>
+              <div className="field">
+                <label htmlFor="manage-cancel-reason">Reason (optional)</label>
+                <textarea
+                  id="manage-cancel-reason"
+                  value={cancelReason}
+                  onChange={(event) => setCancelReason(event.target.value)}
+                />
+              </div>
+              <div className="action-row">
+                <button
+                  type="button"
+                  className="btn-primary"
+                  disabled={cancelling}
+                  onClick={() => void confirmCancellation()}
+                >
+                  {cancelling ? "Cancelling..." : "Confirm Cancellation"}
+                </button>
+                <button type="button" className="btn-secondary" onClick={() => setCancelQuote(null)}>
+                  Keep Booking
+                </button>
+              </div>
+            </div>
+          ) : null}
         </article>
       ) : null}
     </section>
@@ -42,8 +42,11 @@ export function MemberFeeTracker() {
   const [reminderFrequency, setReminderFrequency] = useState<
     "WEEKLY" | "BIWEEKLY" | "MONTHLY" | "QUARTERLY"
   >("MONTHLY");
+  const [payMonths, setPayMonths] = useState("1");
+  const [payProvider, setPayProvider] = useState<"yoco" | "ozow">("yoco");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [paying, setPaying] = useState(false);
   const [state, setState] = useState<PanelState>({ type: "idle" });
 
   const loadSubscription = useCallback(async () => {
@@ -106,6 +109,31 @@ export function MemberFeeTracker() {
     }
   }
 
+  async function startCheckout() {
+    setPaying(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/payments/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider: payProvider, monthsCovered: Number(payMonths) })
+      });
+      const data = (await response.json()) as { redirectUrl?: string; error?: unknown };
+
+      if (!response.ok || !data.redirectUrl) {
+        setState({ type: "error", message: errorMessage(data, "Could not start online payment.") });
+        return;
+      }
+
+      window.location.assign(data.redirectUrl);
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not start online payment." });
+    } finally {
+      setPaying(false);
+    }
+  }
+
   if (loading) {
     return <p className="lead">Loading fee tracking...</p>;
   }
@@ -126,6 +154,38 @@ export function MemberFeeTracker() {
         {subscription?.notes ? <p className="lead">Notes: {subscription.notes}</p> : null}
       </article>
 
+      <article className="card grid">
+        <h3>Pay Online</h3>
+        <div className="grid grid-2">
+          <div className="field">
+            <label htmlFor="member-pay-months">Months</label>
+            <select id="member-pay-months" value={payMonths} onChange={(event) => setPayMonths(event.target.value)}>
+              {["1", "3", "6", "12"].map((months) => (
+                <option key={months} value={months}>
+                  {months} (ZAR {(parseAmount(subscription?.monthlyAmount) * Number(months)).toFixed(2)})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="field">
+            <label htmlFor="member-pay-provider">Pay With</label>
+            <select
+              id="member-pay-provider"
+              value={payProvider}
+              onChange={(event) => setPayProvider(event.target.value as typeof payProvider)}
+            >
+              <option value="yoco">Card (Yoco)</option>
+              <option value="ozow">Instant EFT (Ozow)</option>
+            </select>
+          </div>
+        </div>
+
+        <button type="button" className="btn-primary" disabled={paying} onClick={() => void startCheckout()}>
+          {paying ? "Redirecting..." : "Pay Now"}
+        </button>
+      </article>
+
       <article className="card grid">
         <h3>Reminder Preferences</h3>
         <div className="grid grid-2">
@@ -8,6 +8,7 @@ type MaintenanceStatus = "OPEN" | "IN_PROGRESS" | "DONE" | "CANCELLED";
 
 type Asset = {
   id: string;
+  shortCode?: string | null;
   name: string;
   category: string;
   location?: string | null;
@@ -193,7 +194,7 @@ export function MemberMaintenanceWorkflow() {
               <option value="">General task</option>
               {assets.map((asset) => (
                 <option key={asset.id} value={asset.id}>
-                  {asset.name} ({asset.category})
+                  {asset.name} ({asset.category}){asset.shortCode ? ` - ${asset.shortCode}` : ""}
                 </option>
               ))}
             </select>
@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type PeakSlot = { start: string; end: string };
+
+type PeakPeriod = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  slotsPerBranch: number;
+  preferenceDeadline: string;
+  status: "OPEN" | "DRAWN" | "CANCELLED";
+  slots: PeakSlot[];
+  preferences: Array<{ familyBranch: string; slotStart: string; rank: number }>;
+  allocations: Array<{
+    id: string;
+    familyBranch: string;
+    slotStart: string;
+    slotEnd: string;
+    preferenceRank: number;
+  }>;
+};
+
+type PanelState = {
+  type: "idle" | "error" | "success";
+  message?: string;
+};
+
+function dateLabel(value: string): string {
+  return value.slice(0, 10);
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function MemberPeakPreferences() {
+  const [periods, setPeriods] = useState<PeakPeriod[]>([]);
+  const [familyBranch, setFamilyBranch] = useState<string | null>(null);
+  const [rankings, setRankings] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [state, setState] = useState<PanelState>({ type: "idle" });
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/peak-periods", { cache: "no-store" });
+      const data = (await response.json()) as {
+        periods?: PeakPeriod[];
+        familyBranch?: string | null;
+        error?: unknown;
+      };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not load peak periods.") });
+        return;
+      }
+      const visible = (data.periods ?? []).filter((period) => period.status !== "CANCELLED");
+      setPeriods(visible);
+      setFamilyBranch(data.familyBranch ?? null);
+      setRankings(
+        Object.fromEntries(
+          visible.map((period) => [
+            period.id,
+            [...period.preferences].sort((a, b) => a.rank - b.rank).map((preference) => preference.slotStart)
+          ])
+        )
+      );
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not load peak periods." });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPeriods();
+  }, [loadPeriods]);
+
+  function updateRanking(periodId: string, next: string[]) {
+    setRankings({ ...rankings, [periodId]: next });
+  }
+
+  function move(periodId: string, index: number, offset: -1 | 1) {
+    const ranking = [...(rankings[periodId] ?? [])];
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) {
+      return;
+    }
+    [ranking[index], ranking[target]] = [ranking[target], ranking[index]];
+    updateRanking(periodId, ranking);
+  }
+
+  async function savePreferences(periodId: string) {
+    setSavingId(periodId);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch(`/api/peak-periods/${encodeURIComponent(periodId)}/preferences`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slotStarts: rankings[periodId] ?? [] })
+      });
+      const data = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        setState({ type: "error", message: errorMessage(data, "Could not save your preferences.") });
+        return;
+      }
+      await loadPeriods();
+      setState({ type: "success", message: `Preferences saved for the ${familyBranch ?? "family"} branch.` });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not save your preferences." });
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  if (loading) {
+    return <p className="lead">Loading peak periods...</p>;
+  }
+
+  if (periods.length === 0) {
+    return null;
+  }
+
+  return (
+    <article className="card grid">
+      <h3>Peak-Season Preferences</h3>
+      <p className="lead">
+        Peak weeks are shared out between family branches by a recorded draw. Rank the slots your branch would like,
+        best first; any member of the branch can update the ranking until the deadline.
+      </p>
+      {!familyBranch ? (
+        <p className="notice error">Your profile has no family branch yet. Ask an administrator to set one.</p>
+      ) : null}
+      {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+      {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+
+      {periods.map((period) => {
+        const ranking = rankings[period.id] ?? [];
+        const open = period.status === "OPEN" && new Date(period.preferenceDeadline) >= new Date();
+        const slotEnd = new Map(period.slots.map((slot) => [slot.start, slot.end]));
+        return (
+          <div key={period.id} className="table-item grid">
+            <div className="status-line">
+              <strong>{period.name}</strong>
+              <span className={`status-pill peak-${period.status.toLowerCase()}`}>{period.status}</span>
+              <span className="lead">
+                {dateLabel(period.startDate)} to {dateLabel(period.endDate)} | Up to {period.slotsPerBranch}{" "}
+                slot(s) per branch | Preferences close {dateLabel(period.preferenceDeadline)}
+              </span>
+            </div>
+
+            {period.status === "DRAWN" ? (
+              period.allocations.length === 0 ? (
+                <p className="lead">No slots were allocated in this draw.</p>
+              ) : (
+                period.allocations.map((allocation) => (
+                  <p key={allocation.id} className="lead">
+                    {allocation.familyBranch === familyBranch ? <strong>Your branch: </strong> : null}
+                    {dateLabel(allocation.slotStart)} to {dateLabel(allocation.slotEnd)} -{" "}
+                    {allocation.familyBranch} (choice #{allocation.preferenceRank})
+                  </p>
+                ))
+              )
+            ) : (
+              <>
+                <div className="table-list">
+                  {ranking.length === 0 ? (
+                    <p className="lead">Your branch has not ranked any slots yet.</p>
+                  ) : (
+                    ranking.map((slotStart, index) => (
+                      <div key={slotStart} className="status-line">
+                        <strong>#{index + 1}</strong>
+                        <span className="lead">
+                          {dateLabel(slotStart)} to {dateLabel(slotEnd.get(slotStart) ?? slotStart)}
+                        </span>
+                        {open ? (
+                          <>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              disabled={index === 0}
+                              onClick={() => move(period.id, index, -1)}
+                            >
+                              Up
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              disabled={index === ranking.length - 1}
+                              onClick={() => move(period.id, index, 1)}
+                            >
+                              Down
+                            </button>
+                            <button
+                              type="button"
+                              className="btn-secondary"
+                              onClick={() => updateRanking(period.id, ranking.filter((value) => value !== slotStart))}
+                            >
+                              Remove
+                            </button>
+                          </>
+                        ) : null}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {open ? (
+                  <>
+                    <div className="action-row">
+                      {period.slots
+                        .filter((slot) => !ranking.includes(slot.start))
+                        .map((slot) => (
+                          <button
+                            key={slot.start}
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => updateRanking(period.id, [...ranking, slot.start])}
+                          >
+                            Add {dateLabel(slot.start)} to {dateLabel(slot.end)}
+                          </button>
+                        ))}
+                    </div>
+                    <div className="action-row">
+                      <button
+                        type="button"
+                        className="btn-primary"
+                        disabled={!familyBranch || savingId === period.id}
+                        onClick={() => void savePreferences(period.id)}
+                      >
+                        {savingId === period.id ? "Saving..." : "Save Preferences"}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="lead">Preferences are closed; the draw has not been run yet.</p>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </article>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type StatementLine = {
+  date: string;
+  kind: "SUBSCRIPTION" | "BOOKING" | "PAYMENT" | "ADJUSTMENT";
+  description: string;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+type Statement = {
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+};
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+function monthStartInput(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function todayInput(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function MemberStatementPanel() {
+  const [from, setFrom] = useState(monthStartInput);
+  const [to, setTo] = useState(todayInput);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatement = useCallback(async (periodFrom: string, periodTo: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: periodFrom, to: periodTo });
+      const response = await fetch(`/api/statements?${params.toString()}`, { cache: "no-store" });
+      const data = (await response.json()) as { statement?: Statement; error?: unknown };
+      if (!response.ok || !data.statement) {
+        setError(errorMessage(data, "Could not load statement."));
+        return;
+      }
+      setStatement(data.statement);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Could not load statement.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Statement emails link here with the period preselected.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const initialFrom = params.get("statementFrom") ?? monthStartInput();
+    const initialTo = params.get("statementTo") ?? todayInput();
+    setFrom(initialFrom);
+    setTo(initialTo);
+    void loadStatement(initialFrom, initialTo);
+  }, [loadStatement]);
+
+  const downloadUrl = (format: "pdf" | "csv") =>
+    `/api/statements?${new URLSearchParams({ from, to, format }).toString()}`;
+
+  return (
+    <article className="card grid">
+      <h3>Account Statement</h3>
+      <div className="grid grid-2">
+        <div className="field">
+          <label htmlFor="statement-from">From</label>
+          <input id="statement-from" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+        </div>
+        <div className="field">
+          <label htmlFor="statement-to">To</label>
+          <input id="statement-to" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+        </div>
+      </div>
+
+      <div className="action-row">
+        <button type="button" className="btn-primary" disabled={loading} onClick={() => void loadStatement(from, to)}>
+          {loading ? "Loading..." : "Show Statement"}
+        </button>
+        <a className="btn-secondary inline-action" href={downloadUrl("pdf")}>
+          Download PDF
+        </a>
+        <a className="btn-secondary inline-action" href={downloadUrl("csv")}>
+          Download CSV
+        </a>
+      </div>
+
+      {error ? <p className="notice error">{error}</p> : null}
+
+      {statement ? (
+        <div className="statement-table-wrap">
+          <table className="statement-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th>Debit</th>
+                <th>Credit</th>
+                <th>Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="statement-total">
+                <td>{statement.periodStart}</td>
+                <td>Opening balance</td>
+                <td />
+                <td />
+                <td>{statement.openingBalance.toFixed(2)}</td>
+              </tr>
+              {statement.lines.map((line, index) => (
+                <tr key={`${line.date}-${index}`}>
+                  <td>{line.date}</td>
+                  <td>
+                    {line.description}
+                    {line.reference ? <small> {line.reference}</small> : null}
+                  </td>
+                  <td>{line.debit ? line.debit.toFixed(2) : ""}</td>
+                  <td>{line.credit ? line.credit.toFixed(2) : ""}</td>
+                  <td>{line.balance.toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="statement-total">
+                <td>{statement.periodEnd}</td>
+                <td>Closing balance</td>
+                <td>{statement.totalDebits.toFixed(2)}</td>
+                <td>{statement.totalCredits.toFixed(2)}</td>
+                <td>{statement.closingBalance.toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </article>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Hold = {
+  id: string;
+  source: string;
+  scope: string;
+  startDate: string;
+  endDate: string;
+  holdExpiresAt: string;
+  requiresSignIn: boolean;
+  request: Record<string, unknown>;
+};
+
+type UiState = {
+  type: "idle" | "error" | "success";
+  message?: string;
+};
+
+type Props = {
+  token: string;
+};
+
+function dateLabel(value: string): string {
+  return value.slice(0, 10);
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (typeof data === "object" && data !== null && "error" in data) {
+    const err = (data as { error?: unknown }).error;
+    if (typeof err === "string") {
+      return err;
+    }
+  }
+  return fallback;
+}
+
+export function WaitlistHoldPage({ token }: Props) {
+  const [hold, setHold] = useState<Hold | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [state, setState] = useState<UiState>({ type: "idle" });
+
+  useEffect(() => {
+    async function loadHold() {
+      try {
+        const response = await fetch(`/api/bookings/waitlist/hold?token=${encodeURIComponent(token)}`, {
+          cache: "no-store"
+        });
+        const data = (await response.json()) as { hold?: Hold; error?: unknown };
+        if (!response.ok || !data.hold) {
+          setState({ type: "error", message: errorMessage(data, "Could not load your waitlist hold.") });
+          return;
+        }
+        setHold(data.hold);
+      } catch (error) {
+        console.error(error);
+        setState({ type: "error", message: "Could not load your waitlist hold." });
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadHold();
+  }, [token]);
+
+  async function confirmBooking() {
+    if (!hold) {
+      return;
+    }
+
+    setConfirming(true);
+    setState({ type: "idle" });
+    try {
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...hold.request, waitlistHoldToken: token })
+      });
+      const data = (await response.json()) as { booking?: { id: string }; error?: unknown };
+      if (!response.ok || !data.booking) {
+        setState({ type: "error", message: errorMessage(data, "Could not confirm your booking.") });
+        return;
+      }
+
+      setBookingId(data.booking.id);
+      setState({ type: "success", message: "Booking request submitted and pending approval." });
+    } catch (error) {
+      console.error(error);
+      setState({ type: "error", message: "Could not confirm your booking." });
+    } finally {
+      setConfirming(false);
+    }
+  }
+
+  return (
+    <section className="grid">
+      <article className="card grid">
+        <span className="kicker">Waitlist</span>
+        <h1>Your Dates Are Available</h1>
+        {loading ? <p className="lead">Loading your hold...</p> : null}
+
+        {hold && !bookingId ? (
+          <>
+            <p className="lead">
+              {dateLabel(hold.startDate)} to {dateLabel(hold.endDate)} (
+              {hold.scope === "WHOLE_HOUSE" ? "whole house" : "selected rooms"}) are held for you until{" "}
+              {new Date(hold.holdExpiresAt).toLocaleString()}.
+            </p>
+            <p className="lead">
+              Confirming sends your original request for approval. It goes through the normal approval and payment
+              process from there.
+            </p>
+            {hold.requiresSignIn ? (
+              <p className="notice">
+                This was a member request. <a href="/login">Sign in</a> in this browser, then reopen this link to
+                confirm.
+              </p>
+            ) : null}
+            <div className="action-row">
+              <button
+                type="button"
+                className="btn-primary"
+                disabled={confirming}
+                onClick={() => void confirmBooking()}
+              >
+                {confirming ? "Confirming..." : "Confirm Booking Request"}
+              </button>
+            </div>
+          </>
+        ) : null}
+
+        {state.type === "error" ? <p className="notice error">{state.message}</p> : null}
+        {state.type === "success" ? <p className="notice success">{state.message}</p> : null}
+        {bookingId ? <p className="lead">Reference: {bookingId}</p> : null}
+      </article>
+    </section>
+  );
+}
@@ -0,0 +1,282 @@
+import { PaymentStatus, Prisma, SubscriptionLedgerEntryType, type SubscriptionPayment } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export type AccrualOptions = {
+  asOf?: Date;
+  // Admin re-runs: members without a ledger yet start it at this month instead of the current one.
+  from?: Date;
+  userId?: string;
+};
+
+export type SubscriptionAccrualResult = {
+  subscriptionId: string;
+  userId: string;
+  chargesAdded: number;
+  creditsSynced: number;
+  balance: number;
+  arrearsAmount: number;
+  nextDueDate: string;
+};
+
+export type AccrualSummary = {
+  asOf: string;
+  subscriptionsProcessed: number;
+  results: SubscriptionAccrualResult[];
+};
+
+function startOfMonth(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), 1));
+}
+
+function addMonths(value: Date, months: number): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + months, 1));
+}
+
+function endOfMonth(value: Date): Date {
+  return new Date(addMonths(value, 1).getTime() - 1);
+}
+
+function monthKey(value: Date): string {
+  return value.toISOString().slice(0, 7);
+}
+
+function wholeMonthsBetween(start: Date, end: Date): number {
+  return Math.max(
+    0,
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+  );
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+type CoverageLink = Pick<SubscriptionPayment, "periodStart" | "periodEnd" | "monthsCovered">;
+
+// Months of a confirmed payment that fall on or after the ledger start. Coverage before the
+// ledger began is already reflected in the opening balance.
+export function monthsInLedger(link: CoverageLink, ledgerStart: Date): number {
+  if (link.periodEnd < ledgerStart) {
+    return 0;
+  }
+  const skipped = link.periodStart < ledgerStart ? wholeMonthsBetween(link.periodStart, ledgerStart) : 0;
+  return Math.max(0, link.monthsCovered - skipped);
+}
+
+// The date the accrual job would set: the month after the last one covered by confirmed payments since the
+// ledger began. Before the first accrual run there is no ledger, so coverage only ever moves the date forward.
+export async function coveredNextDueDate(
+  client: Prisma.TransactionClient,
+  subscriptionId: string,
+  coverageEnd: Date
+): Promise<Date> {
+  const opening = await client.subscriptionLedgerEntry.findFirst({
+    where: { subscriptionId, type: SubscriptionLedgerEntryType.OPENING_BALANCE }
+  });
+  if (!opening) {
+    const subscription = await client.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+      select: { nextDueDate: true }
+    });
+    const afterCoverage = new Date(coverageEnd.getTime() + 86400000);
+    return subscription.nextDueDate && subscription.nextDueDate > afterCoverage
+      ? subscription.nextDueDate
+      : afterCoverage;
+  }
+
+  const links = await client.subscriptionPayment.findMany({
+    where: { subscriptionId, payment: { status: PaymentStatus.CONFIRMED } },
+    include: { payment: true }
+  });
+  const monthsPaid = links.reduce((total, link) => total + monthsInLedger(link, opening.periodStart), 0);
+  return addMonths(opening.periodStart, monthsPaid);
+}
+
+async function accrueSubscription(
+  subscriptionId: string,
+  asOf: Date,
+  from?: Date
+): Promise<SubscriptionAccrualResult> {
+  return prisma.$transaction(async (tx) => {
+    const subscription = await tx.subscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+      include: {
+        ledgerEntries: true,
+        payments: {
+          where: { payment: { status: PaymentStatus.CONFIRMED } },
+          include: { payment: true }
+        }
+      }
+    });
+
+    const monthlyAmount = Number(subscription.monthlyAmount);
+    const asOfMonth = startOfMonth(asOf);
+
+    // The first run carries over whatever arrears were captured by hand, then accrues from there.
+    let opening = subscription.ledgerEntries.find(
+      (entry) => entry.type === SubscriptionLedgerEntryType.OPENING_BALANCE
+    );
+    if (!opening) {
+      const openingMonth = from ? startOfMonth(from) : asOfMonth;
+      opening = await tx.subscriptionLedgerEntry.create({
+        data: {
+          subscriptionId,
+          type: SubscriptionLedgerEntryType.OPENING_BALANCE,
+          entryKey: "opening",
+          periodStart: openingMonth,
+          periodEnd: openingMonth,
+          amount: subscription.arrearsAmount,
+          description: "Opening arrears balance"
+        }
+      });
+    }
+    const ledgerStart = opening.periodStart;
+
+    const existingCharges = new Set(
+      subscription.ledgerEntries
+        .filter((entry) => entry.type === SubscriptionLedgerEntryType.CHARGE)
+        .map((entry) => entry.entryKey)
+    );
+
+    // A charge keeps the amount it was raised at, so a later fee change never reprices past months.
+    let chargesAdded = 0;
+    for (let month = ledgerStart; month <= asOfMonth; month = addMonths(month, 1)) {
+      const entryKey = `charge:${monthKey(month)}`;
+      if (!existingCharges.has(entryKey)) {
+        await tx.subscriptionLedgerEntry.create({
+          data: {
+            subscriptionId,
+            type: SubscriptionLedgerEntryType.CHARGE,
+            entryKey,
+            periodStart: month,
+            periodEnd: endOfMonth(month),
+            amount: monthlyAmount,
+            description: `Monthly contribution ${monthKey(month)}`
+          }
+        });
+        chargesAdded += 1;
+      }
+    }
+
+    // Credits mirror confirmed payment coverage exactly, so corrected or reversed payments
+    // are picked up on the next run.
+    let monthsPaid = 0;
+    const creditKeys = new Set<string>();
+    for (const link of subscription.payments) {
+      const months = monthsInLedger(link, ledgerStart);
+      if (months === 0) {
+        continue;
+      }
+      monthsPaid += months;
+
+      const entryKey = `credit:${link.id}`;
+      creditKeys.add(entryKey);
+      const amount = -roundCurrency((Number(link.payment.amount) * months) / Math.max(1, link.monthsCovered));
+      const paidOn = link.payment.paidAt ?? link.payment.createdAt;
+
+      await tx.subscriptionLedgerEntry.upsert({
+        where: { subscriptionId_entryKey: { subscriptionId, entryKey } },
+        update: { amount, periodStart: paidOn, periodEnd: link.periodEnd, paymentId: link.paymentId },
+        create: {
+          subscriptionId,
+          type: SubscriptionLedgerEntryType.CREDIT,
+          entryKey,
+          periodStart: paidOn,
+          periodEnd: link.periodEnd,
+          amount,
+          paymentId: link.paymentId,
+          description: `Payment ${link.payment.reference ?? link.paymentId} (${months} month${months === 1 ? "" : "s"})`
+        }
+      });
+    }
+
+    const staleCredits = subscription.ledgerEntries.filter(
+      (entry) => entry.type === SubscriptionLedgerEntryType.CREDIT && !creditKeys.has(entry.entryKey)
+    );
+    if (staleCredits.length > 0) {
+      await tx.subscriptionLedgerEntry.deleteMany({
+        where: { id: { in: staleCredits.map((entry) => entry.id) } }
+      });
+    }
+
+    const totals = await tx.subscriptionLedgerEntry.aggregate({
+      where: { subscriptionId },
+      _sum: { amount: true }
+    });
+    const balance = roundCurrency(Number(totals._sum.amount ?? 0));
+    const arrearsAmount = Math.max(0, balance);
+    const nextDueDate = addMonths(ledgerStart, monthsPaid);
+
+    await tx.subscription.update({
+      where: { id: subscriptionId },
+      data: { arrearsAmount, nextDueDate }
+    });
+
+    return {
+      subscriptionId,
+      userId: subscription.userId,
+      chargesAdded,
+      creditsSynced: creditKeys.size,
+      balance,
+      arrearsAmount,
+      nextDueDate: nextDueDate.toISOString()
+    };
+  });
+}
+
+// Safe to run any number of times: charges are keyed by month and credits by payment link.
+export async function accrueSubscriptionArrears(options: AccrualOptions = {}): Promise<AccrualSummary> {
+  const asOf = options.asOf ?? new Date();
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId: options.userId, user: { isActive: true } },
+    select: { id: true },
+    orderBy: { createdAt: "asc" }
+  });
+
+  const results: SubscriptionAccrualResult[] = [];
+  for (const subscription of subscriptions) {
+    results.push(await accrueSubscription(subscription.id, asOf, options.from));
+  }
+
+  return { asOf: asOf.toISOString(), subscriptionsProcessed: results.length, results };
+}
+
+// Manual arrears edits become ledger adjustments so the next accrual run keeps them. Returns the id of the
+// adjustment entry, or null when the subscription has no ledger yet or nothing changes.
+export async function recordArrearsAdjustment(
+  subscriptionId: string,
+  targetArrears: number,
+  note?: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  const totals = await client.subscriptionLedgerEntry.aggregate({
+    where: { subscriptionId },
+    _sum: { amount: true },
+    _count: true
+  });
+  if (totals._count === 0) {
+    return null;
+  }
+
+  // Measured from the raw balance so a member in credit ends up owing exactly the target. Re-saving the
+  // arrears already shown (0 while in credit) leaves the credit alone.
+  const balance = Number(totals._sum.amount ?? 0);
+  const difference = roundCurrency(targetArrears - balance);
+  if (difference === 0 || roundCurrency(Math.max(0, balance)) === roundCurrency(targetArrears)) {
+    return null;
+  }
+
+  const now = new Date();
+  const entry = await client.subscriptionLedgerEntry.create({
+    data: {
+      subscriptionId,
+      type: SubscriptionLedgerEntryType.ADJUSTMENT,
+      entryKey: `adjustment:${now.getTime()}`,
+      periodStart: now,
+      periodEnd: now,
+      amount: difference,
+      description: note ?? "Manual arrears adjustment"
+    }
+  });
+  return entry.id;
+}
@@ -0,0 +1,127 @@
+import { randomInt } from "node:crypto";
+import QRCode from "qrcode";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+import {
+  A4_PORTRAIT,
+  addPdfPage,
+  createPdfDocument,
+  drawRect,
+  drawText,
+  renderPdf,
+  truncatePdfText,
+  type PdfPage
+} from "@/lib/pdf";
+import { prisma } from "@/lib/prisma";
+
+// No 0/O, 1/I/L or 5/S, so a code read off a worn label is unambiguous.
+const SHORT_CODE_ALPHABET = "2346789ABCDEFGHJKMNPQRTUVWXYZ";
+const SHORT_CODE_LENGTH = 6;
+const SHORT_CODE_PATTERN = new RegExp(`^[${SHORT_CODE_ALPHABET}]{${SHORT_CODE_LENGTH}}$`);
+
+export type LabelAsset = {
+  name: string;
+  category: string;
+  location: string | null;
+  shortCode: string;
+};
+
+// A4 sheet of 3 x 7 labels, 63.5 x 38.1 mm each (the common L7160 layout), in points.
+const LABEL_COLUMNS = 3;
+const LABEL_ROWS = 7;
+const LABEL_WIDTH = 180;
+const LABEL_HEIGHT = 108;
+const LABEL_GAP = 7.2;
+const SHEET_LEFT = 20.4;
+const SHEET_TOP = 42.8;
+const QR_SIZE = 88;
+
+export function normalizeShortCode(value: string): string | null {
+  const code = value.trim().toUpperCase();
+  return SHORT_CODE_PATTERN.test(code) ? code : null;
+}
+
+export function assetPageUrl(shortCode: string): string {
+  return new URL(`/assets/${shortCode}`, getAppBaseUrl()).toString();
+}
+
+export async function generateShortCode(): Promise<string> {
+  for (;;) {
+    const code = Array.from(
+      { length: SHORT_CODE_LENGTH },
+      () => SHORT_CODE_ALPHABET[randomInt(SHORT_CODE_ALPHABET.length)]
+    ).join("");
+    const existing = await prisma.asset.findUnique({ where: { shortCode: code }, select: { id: true } });
+    if (!existing) {
+      return code;
+    }
+  }
+}
+
+// Codes are assigned once and never change, so printed labels keep working after an asset is renamed.
+export async function ensureAssetShortCodes(assetIds?: string[]): Promise<number> {
+  const missing = await prisma.asset.findMany({
+    where: { shortCode: null, id: assetIds ? { in: assetIds } : undefined },
+    select: { id: true }
+  });
+  for (const asset of missing) {
+    await prisma.asset.update({ where: { id: asset.id }, data: { shortCode: await generateShortCode() } });
+  }
+  return missing.length;
+}
+
+// Dark modules are drawn as one rectangle per horizontal run to keep the page small.
+function drawQrCode(page: PdfPage, value: string, x: number, y: number, size: number): void {
+  const qr = QRCode.create(value, { errorCorrectionLevel: "M" });
+  const count = qr.modules.size;
+  const quietZone = 2;
+  const moduleSize = size / (count + quietZone * 2);
+  for (let row = 0; row < count; row += 1) {
+    let runStart = -1;
+    for (let column = 0; column <= count; column += 1) {
+      const dark = column < count && qr.modules.get(row, column);
+      if (dark && runStart < 0) {
+        runStart = column;
+      } else if (!dark && runStart >= 0) {
+        drawRect(
+          page,
+          x + (quietZone + runStart) * moduleSize,
+          y + (quietZone + row) * moduleSize,
+          (column - runStart) * moduleSize,
+          moduleSize,
+          { fill: [0, 0, 0] }
+        );
+        runStart = -1;
+      }
+    }
+  }
+}
+
+export function assetLabelsToPdf(assets: LabelAsset[]): Buffer {
+  const document = createPdfDocument("Asset Labels");
+  const perPage = LABEL_COLUMNS * LABEL_ROWS;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  const textWidth = LABEL_WIDTH - QR_SIZE - 12;
+  let current = addPdfPage(document, A4_PORTRAIT);
+
+  assets.forEach((asset, index) => {
+    const slot = index % perPage;
+    if (slot === 0 && index > 0) {
+      current = addPdfPage(document, A4_PORTRAIT);
+    }
+    const left = SHEET_LEFT + (slot % LABEL_COLUMNS) * (LABEL_WIDTH + LABEL_GAP);
+    const top = SHEET_TOP + Math.floor(slot / LABEL_COLUMNS) * LABEL_HEIGHT;
+    const textX = left + QR_SIZE + 4;
+
+    drawRect(current, left, top, LABEL_WIDTH, LABEL_HEIGHT, { stroke: [0.85, 0.85, 0.85], lineWidth: 0.3 });
+    drawQrCode(current, assetPageUrl(asset.shortCode), left + 4, top + (LABEL_HEIGHT - QR_SIZE) / 2, QR_SIZE);
+    drawText(current, truncatePdfText(asset.name, textWidth, 10, true), textX, top + 28, { size: 10, bold: true });
+    drawText(current, truncatePdfText(asset.category, textWidth, 8), textX, top + 42, { size: 8, color: grey });
+    if (asset.location) {
+      drawText(current, truncatePdfText(asset.location, textWidth, 8), textX, top + 54, { size: 8, color: grey });
+    }
+    drawText(current, asset.shortCode, textX, top + 76, { size: 12, bold: true });
+    drawText(current, "Scan to report a fault", textX, top + 90, { size: 7, color: grey });
+  });
+
+  return renderPdf(document);
+}
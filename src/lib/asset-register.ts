@@ -0,0 +1,526 @@
+import { AssetStatus, DepreciationMethod, UserRole, type Asset, type Prisma } from "@prisma/client";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import {
+  A4_LANDSCAPE,
+  addPdfPage,
+  createPdfDocument,
+  drawLine,
+  drawRect,
+  drawText,
+  renderPdf,
+  truncatePdfText,
+  type PdfPage
+} from "@/lib/pdf";
+import { prisma } from "@/lib/prisma";
+import { toXlsxWorkbookBuffer } from "@/lib/xlsx";
+
+export const DEFAULT_FORECAST_YEARS = 10;
+export const DEFAULT_INFLATION_PERCENT = 5;
+export const DEFAULT_REMINDER_LEAD_DAYS = 60;
+
+const CURRENCY = "ZAR";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+type ValuedAsset = Pick<
+  Asset,
+  "purchaseDate" | "purchaseCost" | "usefulLifeYears" | "residualValue" | "depreciationMethod"
+>;
+
+export type AssetValuation = {
+  purchaseCost: number | null;
+  bookValue: number | null;
+  accumulatedDepreciation: number | null;
+  endOfLifeDate: string | null;
+};
+
+export type AssetRegisterLine = AssetValuation & {
+  id: string;
+  name: string;
+  category: string;
+  serialNumber: string | null;
+  location: string | null;
+  status: AssetStatus;
+  purchaseDate: string | null;
+  warrantyExpiry: string | null;
+  depreciationMethod: DepreciationMethod;
+  usefulLifeYears: number | null;
+  residualValue: number | null;
+  insuredValue: number | null;
+  replacementCost: number | null;
+  // Insured for less than its replacement cost (or book value when no replacement cost is set).
+  underInsured: boolean;
+};
+
+export type AssetRegisterTotals = {
+  purchaseCost: number;
+  bookValue: number;
+  accumulatedDepreciation: number;
+  insuredValue: number;
+  replacementCost: number;
+};
+
+export type AssetRegister = {
+  asOf: string;
+  currency: string;
+  lines: AssetRegisterLine[];
+  totals: AssetRegisterTotals;
+  generatedAt: string;
+};
+
+export type ReplacementForecastItem = {
+  assetId: string;
+  name: string;
+  category: string;
+  endOfLifeDate: string;
+  // The asset was already past its useful life at the start of the forecast.
+  overdue: boolean;
+  cost: number;
+};
+
+export type ReplacementForecastYear = {
+  year: number;
+  items: ReplacementForecastItem[];
+  total: number;
+};
+
+export type ReplacementForecast = {
+  startYear: number;
+  years: number;
+  inflationPercent: number;
+  currency: string;
+  rows: ReplacementForecastYear[];
+  total: number;
+  // Assets that cannot be forecast, with the missing information.
+  unplanned: Array<{ assetId: string; name: string; reason: string }>;
+};
+
+export type AssetReminderResult = {
+  warranty: number;
+  endOfLife: number;
+  recipients: number;
+};
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: Prisma.Decimal | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function dateLabel(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+export function endOfLifeDate(asset: Pick<Asset, "purchaseDate" | "usefulLifeYears">): Date | null {
+  if (!asset.purchaseDate || !asset.usefulLifeYears) {
+    return null;
+  }
+  const date = new Date(asset.purchaseDate);
+  date.setUTCFullYear(date.getUTCFullYear() + asset.usefulLifeYears);
+  return date;
+}
+
+// Double-declining balance: twice the straight-line rate on the remaining value, switching to straight line over
+// the remaining life once that charges more, so the residual value is reached at the end of the useful life.
+// Each year's charge accrues evenly through that year.
+function decliningBalanceValue(cost: number, residual: number, life: number, elapsed: number): number {
+  const rate = Math.min(1, 2 / life);
+  let value = cost;
+  for (let year = 0; year < elapsed; year += 1) {
+    const charge = Math.min(value - residual, Math.max(value * rate, (value - residual) / (life - year)));
+    value -= charge * Math.min(1, elapsed - year);
+  }
+  return value;
+}
+
+// Straight line spreads cost less residual evenly over the useful life; declining balance is double-declining
+// with the usual switch to straight line. Both reach the residual value at the end of the useful life.
+export function valueAsset(asset: ValuedAsset, asOf = new Date()): AssetValuation {
+  const cost = toNumber(asset.purchaseCost);
+  const endOfLife = endOfLifeDate(asset);
+  if (cost === null) {
+    return { purchaseCost: null, bookValue: null, accumulatedDepreciation: null, endOfLifeDate: dateLabel(endOfLife) };
+  }
+
+  const residual = Math.min(cost, toNumber(asset.residualValue) ?? 0);
+  const life = asset.usefulLifeYears;
+  let bookValue = cost;
+  if (asset.depreciationMethod !== DepreciationMethod.NONE && life && asset.purchaseDate) {
+    const elapsed = Math.max(0, (asOf.getTime() - asset.purchaseDate.getTime()) / YEAR_MS);
+    if (elapsed >= life) {
+      bookValue = residual;
+    } else if (asset.depreciationMethod === DepreciationMethod.STRAIGHT_LINE) {
+      bookValue = cost - ((cost - residual) * elapsed) / life;
+    } else {
+      bookValue = decliningBalanceValue(cost, residual, life, elapsed);
+    }
+  }
+
+  return {
+    purchaseCost: cost,
+    bookValue: roundCurrency(bookValue),
+    accumulatedDepreciation: roundCurrency(cost - bookValue),
+    endOfLifeDate: dateLabel(endOfLife)
+  };
+}
+
+function registerLine(asset: Asset, asOf: Date): AssetRegisterLine {
+  const valuation = valueAsset(asset, asOf);
+  const insuredValue = toNumber(asset.insuredValue);
+  const replacementCost = toNumber(asset.replacementCost);
+  const coverNeeded = replacementCost ?? valuation.bookValue;
+
+  return {
+    id: asset.id,
+    name: asset.name,
+    category: asset.category,
+    serialNumber: asset.serialNumber,
+    location: asset.location,
+    status: asset.status,
+    purchaseDate: dateLabel(asset.purchaseDate),
+    warrantyExpiry: dateLabel(asset.warrantyExpiry),
+    depreciationMethod: asset.depreciationMethod,
+    usefulLifeYears: asset.usefulLifeYears,
+    residualValue: toNumber(asset.residualValue),
+    insuredValue,
+    replacementCost,
+    underInsured: coverNeeded !== null && coverNeeded > 0 && (insuredValue ?? 0) < coverNeeded,
+    ...valuation
+  };
+}
+
+export async function buildAssetRegister(
+  options: { asOf?: Date; includeRetired?: boolean } = {}
+): Promise<AssetRegister> {
+  const asOf = options.asOf ?? new Date();
+  const assets = await prisma.asset.findMany({
+    where: options.includeRetired ? undefined : { status: { not: AssetStatus.RETIRED } },
+    orderBy: [{ category: "asc" }, { name: "asc" }]
+  });
+  const lines = assets.map((asset) => registerLine(asset, asOf));
+  const sum = (pick: (line: AssetRegisterLine) => number | null) =>
+    roundCurrency(lines.reduce((total, line) => total + (pick(line) ?? 0), 0));
+
+  return {
+    asOf: asOf.toISOString().slice(0, 10),
+    currency: CURRENCY,
+    lines,
+    totals: {
+      purchaseCost: sum((line) => line.purchaseCost),
+      bookValue: sum((line) => line.bookValue),
+      accumulatedDepreciation: sum((line) => line.accumulatedDepreciation),
+      insuredValue: sum((line) => line.insuredValue),
+      replacementCost: sum((line) => line.replacementCost)
+    },
+    generatedAt: new Date().toISOString()
+  };
+}
+
+// Each asset is replaced in the year its useful life ends (this year when already past it), at its replacement
+// cost (or purchase cost) grown by inflation, and again every useful life after that within the horizon.
+export async function buildReplacementForecast(
+  options: { years?: number; inflationPercent?: number; now?: Date } = {}
+): Promise<ReplacementForecast> {
+  const years = options.years ?? DEFAULT_FORECAST_YEARS;
+  const inflationPercent = options.inflationPercent ?? DEFAULT_INFLATION_PERCENT;
+  const startYear = (options.now ?? new Date()).getUTCFullYear();
+  const endYear = startYear + years - 1;
+
+  const assets = await prisma.asset.findMany({
+    where: { status: { not: AssetStatus.RETIRED } },
+    orderBy: [{ category: "asc" }, { name: "asc" }]
+  });
+
+  const rows: ReplacementForecastYear[] = Array.from({ length: years }, (_value, index) => ({
+    year: startYear + index,
+    items: [],
+    total: 0
+  }));
+  const unplanned: ReplacementForecast["unplanned"] = [];
+
+  for (const asset of assets) {
+    const endOfLife = endOfLifeDate(asset);
+    const baseCost = toNumber(asset.replacementCost) ?? toNumber(asset.purchaseCost);
+    if (!endOfLife || !asset.usefulLifeYears) {
+      unplanned.push({ assetId: asset.id, name: asset.name, reason: "No purchase date or useful life" });
+      continue;
+    }
+    if (baseCost === null) {
+      unplanned.push({ assetId: asset.id, name: asset.name, reason: "No replacement or purchase cost" });
+      continue;
+    }
+
+    const firstYear = Math.max(startYear, endOfLife.getUTCFullYear());
+    for (let year = firstYear; year <= endYear; year += asset.usefulLifeYears) {
+      const row = rows[year - startYear];
+      const cost = roundCurrency(baseCost * Math.pow(1 + inflationPercent / 100, year - startYear));
+      row.items.push({
+        assetId: asset.id,
+        name: asset.name,
+        category: asset.category,
+        endOfLifeDate: dateLabel(endOfLife) as string,
+        overdue: year === firstYear && endOfLife.getUTCFullYear() < startYear,
+        cost
+      });
+      row.total = roundCurrency(row.total + cost);
+    }
+  }
+
+  return {
+    startYear,
+    years,
+    inflationPercent,
+    currency: CURRENCY,
+    rows,
+    total: roundCurrency(rows.reduce((total, row) => total + row.total, 0)),
+    unplanned
+  };
+}
+
+export function assetRegisterFileName(register: AssetRegister, extension: "pdf" | "xlsx"): string {
+  return extension === "pdf"
+    ? `insurance-schedule-${register.asOf}.pdf`
+    : `asset-register-${register.asOf}.xlsx`;
+}
+
+export function assetRegisterToXlsx(register: AssetRegister): Buffer {
+  return toXlsxWorkbookBuffer([
+    {
+      name: "Asset Register",
+      headers: [
+        "Asset",
+        "Category",
+        "Serial Number",
+        "Location",
+        "Status",
+        "Purchase Date",
+        "Method",
+        "Useful Life (years)",
+        "End of Life",
+        "Purchase Cost",
+        "Residual Value",
+        "Accumulated Depreciation",
+        "Book Value"
+      ],
+      moneyColumns: ["Purchase Cost", "Residual Value", "Accumulated Depreciation", "Book Value"],
+      rows: register.lines.map((line) => ({
+        Asset: line.name,
+        Category: line.category,
+        "Serial Number": line.serialNumber ?? "",
+        Location: line.location ?? "",
+        Status: line.status,
+        "Purchase Date": line.purchaseDate ?? "",
+        Method: line.depreciationMethod,
+        "Useful Life (years)": line.usefulLifeYears,
+        "End of Life": line.endOfLifeDate ?? "",
+        "Purchase Cost": line.purchaseCost,
+        "Residual Value": line.residualValue,
+        "Accumulated Depreciation": line.accumulatedDepreciation,
+        "Book Value": line.bookValue
+      }))
+    },
+    {
+      name: "Insurance Schedule",
+      headers: [
+        "Asset",
+        "Category",
+        "Serial Number",
+        "Location",
+        "Purchase Date",
+        "Warranty Expiry",
+        "Book Value",
+        "Replacement Cost",
+        "Insured Value",
+        "Under Insured"
+      ],
+      moneyColumns: ["Book Value", "Replacement Cost", "Insured Value"],
+      rows: register.lines.map((line) => ({
+        Asset: line.name,
+        Category: line.category,
+        "Serial Number": line.serialNumber ?? "",
+        Location: line.location ?? "",
+        "Purchase Date": line.purchaseDate ?? "",
+        "Warranty Expiry": line.warrantyExpiry ?? "",
+        "Book Value": line.bookValue,
+        "Replacement Cost": line.replacementCost,
+        "Insured Value": line.insuredValue,
+        "Under Insured": line.underInsured ? "Yes" : "No"
+      }))
+    }
+  ]);
+}
+
+type PdfColumn = { label: string; x: number; width: number; align?: "right" };
+
+const INSURANCE_COLUMNS: PdfColumn[] = [
+  { label: "Asset", x: 40, width: 150 },
+  { label: "Category", x: 195, width: 90 },
+  { label: "Serial number", x: 290, width: 100 },
+  { label: "Location", x: 395, width: 90 },
+  { label: "Purchased", x: 490, width: 60 },
+  { label: "Book value", x: 620, width: 65, align: "right" },
+  { label: "Replacement", x: 710, width: 65, align: "right" },
+  { label: "Insured", x: 800, width: 65, align: "right" }
+];
+
+function money(value: number | null): string {
+  return value === null ? "-" : value.toFixed(2);
+}
+
+export function insuranceScheduleToPdf(register: AssetRegister): Buffer {
+  const document = createPdfDocument(`Insurance Schedule ${register.asOf}`);
+  const rowHeight = 16;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  const red: [number, number, number] = [0.56, 0.18, 0.18];
+  let page: PdfPage = addPdfPage(document, A4_LANDSCAPE);
+  let y = 50;
+
+  const drawColumnHeader = () => {
+    drawRect(page, 36, y - 11, page.width - 72, rowHeight, { fill: [0.91, 0.94, 0.9] });
+    for (const column of INSURANCE_COLUMNS) {
+      drawText(page, column.label, column.x, y, { size: 9, bold: true, align: column.align });
+    }
+    y += rowHeight;
+  };
+
+  const drawRow = (cells: string[], options: { bold?: boolean; color?: [number, number, number] } = {}) => {
+    cells.forEach((cell, index) => {
+      const column = INSURANCE_COLUMNS[index];
+      drawText(page, truncatePdfText(cell, column.width, 9, options.bold), column.x, y, {
+        size: 9,
+        bold: options.bold,
+        color: options.color,
+        align: column.align
+      });
+    });
+    y += rowHeight;
+  };
+
+  drawText(page, "Reebok House - Insurance Schedule", 40, y, { size: 16, bold: true });
+  y += 22;
+  drawText(page, `Assets as at ${register.asOf}, values in ${register.currency}`, 40, y, { size: 10, color: grey });
+  y += 14;
+  drawText(page, `Under-insured items are shown in red. Generated ${register.generatedAt.slice(0, 10)}`, 40, y, {
+    size: 9,
+    color: grey
+  });
+  y += 24;
+  drawColumnHeader();
+
+  for (const line of register.lines) {
+    if (y > page.height - 50) {
+      page = addPdfPage(document, A4_LANDSCAPE);
+      y = 50;
+      drawColumnHeader();
+    }
+    drawRow(
+      [
+        line.name,
+        line.category,
+        line.serialNumber ?? "",
+        line.location ?? "",
+        line.purchaseDate ?? "",
+        money(line.bookValue),
+        money(line.replacementCost),
+        money(line.insuredValue)
+      ],
+      { color: line.underInsured ? red : undefined }
+    );
+  }
+
+  drawLine(page, 36, y - 11, page.width - 36, y - 11);
+  drawRow(
+    [
+      `${register.lines.length} assets`,
+      "",
+      "",
+      "",
+      "",
+      money(register.totals.bookValue),
+      money(register.totals.replacementCost),
+      money(register.totals.insuredValue)
+    ],
+    { bold: true }
+  );
+
+  return renderPdf(document);
+}
+
+function reminderLines(items: Array<{ name: string; location: string | null; date: Date }>): string {
+  if (items.length === 0) {
+    return "- None";
+  }
+  return items
+    .map((item) => `- ${item.name}${item.location ? ` (${item.location})` : ""}: ${dateLabel(item.date)}`)
+    .join("\n");
+}
+
+// Emails active shareholders one digest of warranties expiring and assets reaching the end of their useful life
+// within the lead window. Each asset is reminded once per date; editing the date clears the sent marker.
+export async function sendAssetReminders(
+  leadDays = DEFAULT_REMINDER_LEAD_DAYS,
+  now = new Date()
+): Promise<AssetReminderResult> {
+  const horizon = new Date(now.getTime() + leadDays * DAY_MS);
+  const assets = await prisma.asset.findMany({
+    where: {
+      status: { not: AssetStatus.RETIRED },
+      OR: [
+        { warrantyReminderSentAt: null, warrantyExpiry: { gte: now, lte: horizon } },
+        { endOfLifeReminderSentAt: null, purchaseDate: { not: null }, usefulLifeYears: { not: null } }
+      ]
+    },
+    orderBy: { name: "asc" }
+  });
+
+  const inWindow = (date: Date | null): date is Date => date !== null && date >= now && date <= horizon;
+  const warranty = assets.flatMap((asset) =>
+    !asset.warrantyReminderSentAt && inWindow(asset.warrantyExpiry)
+      ? [{ id: asset.id, name: asset.name, location: asset.location, date: asset.warrantyExpiry }]
+      : []
+  );
+  const endOfLife = assets.flatMap((asset) => {
+    const date = endOfLifeDate(asset);
+    return !asset.endOfLifeReminderSentAt && inWindow(date)
+      ? [{ id: asset.id, name: asset.name, location: asset.location, date }]
+      : [];
+  });
+  if (warranty.length === 0 && endOfLife.length === 0) {
+    return { warranty: 0, endOfLife: 0, recipients: 0 };
+  }
+
+  const shareholders = await prisma.user.findMany({
+    where: { role: UserRole.SHAREHOLDER, isActive: true },
+    select: { name: true, email: true }
+  });
+  const assetsUrl = new URL("/admin/assets", getAppBaseUrl()).toString();
+
+  for (const shareholder of shareholders) {
+    const message = await renderEmailTemplate("ASSET_REMINDERS", {
+      RECIPIENT_NAME: shareholder.name,
+      LEAD_DAYS: String(leadDays),
+      WARRANTY_LIST: reminderLines(warranty),
+      END_OF_LIFE_LIST: reminderLines(endOfLife),
+      ASSETS_URL: assetsUrl
+    });
+    await sendMail({ to: shareholder.email, subject: message.subject, text: message.text });
+  }
+
+  const sentAt = new Date();
+  await prisma.$transaction([
+    prisma.asset.updateMany({
+      where: { id: { in: warranty.map((item) => item.id) } },
+      data: { warrantyReminderSentAt: sentAt }
+    }),
+    prisma.asset.updateMany({
+      where: { id: { in: endOfLife.map((item) => item.id) } },
+      data: { endOfLifeReminderSentAt: sentAt }
+    })
+  ]);
+
+  return { warranty: warranty.length, endOfLife: endOfLife.length, recipients: shareholders.length };
+}
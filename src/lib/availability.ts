@@ -0,0 +1,89 @@
+import { BookingScope, BookingStatus } from "@prisma/client";
+import { occupancyRangesClash, type OccupancyRange } from "@/lib/booking";
+import { prisma } from "@/lib/prisma";
+
+export const BLOCKING_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.APPROVED];
+
+export type RoomAllocationRequest = {
+  roomId: string;
+  guestCount: number;
+};
+
+export type BookingConflict = {
+  id: string;
+  status: BookingStatus;
+  scope: BookingScope;
+  startDate: Date;
+  endDate: Date;
+  roomIds: string[];
+};
+
+export async function findConflictingBooking(
+  candidate: OccupancyRange,
+  excludeBookingId?: string
+): Promise<BookingConflict | null> {
+  const overlapping = await prisma.booking.findMany({
+    where: {
+      id: excludeBookingId ? { not: excludeBookingId } : undefined,
+      status: { in: BLOCKING_BOOKING_STATUSES },
+      startDate: { lt: candidate.endDate },
+      endDate: { gt: candidate.startDate }
+    },
+    orderBy: { startDate: "asc" },
+    select: {
+      id: true,
+      status: true,
+      scope: true,
+      startDate: true,
+      endDate: true,
+      roomAllocations: { select: { roomId: true } }
+    }
+  });
+
+  for (const booking of overlapping) {
+    const roomIds = booking.roomAllocations.map((allocation) => allocation.roomId);
+    if (occupancyRangesClash(candidate, { ...booking, roomIds })) {
+      return {
+        id: booking.id,
+        status: booking.status,
+        scope: booking.scope,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        roomIds
+      };
+    }
+  }
+
+  return null;
+}
+
+export async function validateRoomAllocations(allocations: RoomAllocationRequest[]): Promise<string | null> {
+  if (allocations.length === 0) {
+    return "Room-specific bookings require at least one room allocation.";
+  }
+
+  const guestsPerRoom = new Map<string, number>();
+  for (const allocation of allocations) {
+    guestsPerRoom.set(allocation.roomId, (guestsPerRoom.get(allocation.roomId) ?? 0) + allocation.guestCount);
+  }
+
+  const rooms = await prisma.room.findMany({
+    where: { id: { in: [...guestsPerRoom.keys()] } },
+    select: { id: true, name: true, capacity: true, isBookable: true }
+  });
+
+  for (const [roomId, guestCount] of guestsPerRoom) {
+    const room = rooms.find((candidate) => candidate.id === roomId);
+    if (!room) {
+      return `Room ${roomId} was not found.`;
+    }
+    if (!room.isBookable) {
+      return `${room.name} is not available for booking.`;
+    }
+    if (guestCount > room.capacity) {
+      return `${room.name} sleeps at most ${room.capacity} guest${room.capacity === 1 ? "" : "s"} (requested ${guestCount}).`;
+    }
+  }
+
+  return null;
+}
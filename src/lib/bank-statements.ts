@@ -0,0 +1,265 @@
+import { createHash } from "crypto";
+import { fromCsvRows } from "@/lib/csv";
+
+export const BANK_STATEMENT_FORMATS = ["csv", "ofx", "qif"] as const;
+
+export type BankStatementFormat = (typeof BANK_STATEMENT_FORMATS)[number];
+
+export type ParsedBankLine = {
+  postedAt: Date;
+  // Positive for money in, negative for money out.
+  amount: number;
+  description: string;
+  reference: string | null;
+  // OFX FITID; stable across re-downloads of the same statement.
+  externalId: string | null;
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Header names used by the major South African banks' CSV exports, compared without spaces or punctuation.
+const CSV_COLUMNS = {
+  date: ["date", "transactiondate", "postingdate", "posteddate", "valuedate", "txndate"],
+  description: ["description", "narrative", "details", "transactiondescription", "transactiondetails", "payee"],
+  reference: ["reference", "ref", "yourreference", "statementreference", "beneficiaryreference", "memo"],
+  amount: ["amount", "transactionamount", "amountzar", "amountr", "value"],
+  debit: ["debit", "debits", "debitamount", "moneyout", "withdrawal", "withdrawals"],
+  credit: ["credit", "credits", "creditamount", "moneyin", "deposit", "deposits"]
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+// Local banks write dates day-first; ISO and OFX (YYYYMMDD...) dates are recognised by the leading year.
+export function parseBankDate(value: string): Date | null {
+  const text = value.trim().replace(/'/g, "/");
+  let match = /^(\d{4})[-/.]?(\d{2})[-/.]?(\d{2})/.exec(text);
+  if (match) {
+    return utcDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(text);
+  if (match) {
+    const year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    return utcDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = /^(\d{1,2})[\s-]+([a-z]{3})[a-z]*[\s-]+(\d{4})$/i.exec(text);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    return utcDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+  }
+
+  return null;
+}
+
+// Handles "R 1 234.56", "ZAR 1,234.56", "1234,56", "(150.00)" and a trailing "Cr"/"Dr".
+export function parseBankAmount(value: string): number | null {
+  let text = value.replace(/\s/g, "");
+  let sign = 1;
+  const suffix = /(cr|dr)$/i.exec(text);
+  if (suffix) {
+    sign = suffix[1].toLowerCase() === "dr" ? -1 : 1;
+    text = text.slice(0, -2);
+  }
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/^([-+]?)(?:zar|r)/i, "$1");
+  if (text.includes(",") && !text.includes(".") && /,\d{1,2}$/.test(text)) {
+    text = text.replace(/,/g, ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  if (!text || !/^[-+]?\d*\.?\d+$/.test(text)) {
+    return null;
+  }
+  return sign * Number(text);
+}
+
+// A blank amount is a balance or footer row; anything else that does not parse must stop the import
+// rather than silently drop a transaction.
+function requireBankAmount(value: string | null | undefined, where: string): number | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  const amount = parseBankAmount(value);
+  if (amount === null) {
+    throw new Error(`Could not read the amount "${value.trim()}" on ${where}.`);
+  }
+  return amount;
+}
+
+function findColumn(headers: string[], names: string[]): number {
+  return headers.findIndex((header) => names.includes(header));
+}
+
+function parseCsvStatement(content: string): ParsedBankLine[] {
+  const rows = fromCsvRows(content);
+  // Bank exports often start with account details; the header is the first row naming a date and an amount.
+  const headerIndex = rows.slice(0, 30).findIndex((row) => {
+    const headers = row.map(normalizeHeader);
+    return (
+      findColumn(headers, CSV_COLUMNS.date) >= 0 &&
+      (findColumn(headers, CSV_COLUMNS.amount) >= 0 ||
+        findColumn(headers, CSV_COLUMNS.debit) >= 0 ||
+        findColumn(headers, CSV_COLUMNS.credit) >= 0)
+    );
+  });
+  if (headerIndex < 0) {
+    throw new Error("Could not find a header row with date and amount columns.");
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const columns = {
+    date: findColumn(headers, CSV_COLUMNS.date),
+    description: findColumn(headers, CSV_COLUMNS.description),
+    reference: findColumn(headers, CSV_COLUMNS.reference),
+    amount: findColumn(headers, CSV_COLUMNS.amount),
+    debit: findColumn(headers, CSV_COLUMNS.debit),
+    credit: findColumn(headers, CSV_COLUMNS.credit)
+  };
+
+  const lines: ParsedBankLine[] = [];
+  for (const [offset, row] of rows.slice(headerIndex + 1).entries()) {
+    const postedAt = parseBankDate(row[columns.date] ?? "");
+    if (!postedAt) {
+      continue;
+    }
+    const where = `row ${headerIndex + offset + 2}`;
+    let amount: number | null = null;
+    if (columns.amount >= 0) {
+      amount = requireBankAmount(row[columns.amount], where);
+    } else {
+      const credit = columns.credit >= 0 ? requireBankAmount(row[columns.credit], where) : null;
+      const debit = columns.debit >= 0 ? requireBankAmount(row[columns.debit], where) : null;
+      amount = credit || debit ? (credit ?? 0) - Math.abs(debit ?? 0) : null;
+    }
+    // Opening/closing balance rows and footers have no date or amount.
+    if (amount === null || amount === 0) {
+      continue;
+    }
+    const reference = columns.reference >= 0 ? row[columns.reference]?.trim() || null : null;
+    const narrative = columns.description >= 0 ? row[columns.description]?.trim() : "";
+    lines.push({
+      postedAt,
+      amount,
+      description: narrative || reference || "Bank transaction",
+      reference,
+      externalId: null
+    });
+  }
+  return lines;
+}
+
+function describeLine(primary: string | null | undefined, secondary: string | null | undefined): string {
+  const parts = [primary, secondary && secondary !== primary ? secondary : null].filter(Boolean);
+  return parts.join(" - ") || "Bank transaction";
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// OFX 1.x is SGML with unclosed leaf tags and 2.x is XML, so leaf values are read up to the next tag or line end.
+function ofxValue(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match && match[1].trim() ? decodeEntities(match[1].trim()) : null;
+}
+
+function parseOfxStatement(content: string): ParsedBankLine[] {
+  const lines: ParsedBankLine[] = [];
+  for (const match of content.matchAll(/<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|<\/BANKTRANLIST>)/gi)) {
+    const block = match[1];
+    const postedAt = parseBankDate(ofxValue(block, "DTPOSTED") ?? "");
+    const where = `transaction ${ofxValue(block, "FITID") ?? lines.length + 1}`;
+    const amount = requireBankAmount(ofxValue(block, "TRNAMT"), where);
+    if (!postedAt || amount === null || amount === 0) {
+      continue;
+    }
+    lines.push({
+      postedAt,
+      amount,
+      description: describeLine(ofxValue(block, "NAME"), ofxValue(block, "MEMO")),
+      reference: ofxValue(block, "REFNUM") ?? ofxValue(block, "CHECKNUM"),
+      externalId: ofxValue(block, "FITID")
+    });
+  }
+  return lines;
+}
+
+function parseQifStatement(content: string): ParsedBankLine[] {
+  const lines: ParsedBankLine[] = [];
+  let record: Record<string, string> = {};
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) {
+      continue;
+    }
+    if (line === "^") {
+      const postedAt = parseBankDate(record.D ?? "");
+      const amount = requireBankAmount(record.T ?? record.U, `the entry dated ${record.D ?? "(no date)"}`);
+      if (postedAt && amount !== null && amount !== 0) {
+        lines.push({
+          postedAt,
+          amount,
+          description: describeLine(record.P, record.M),
+          reference: record.N ?? null,
+          externalId: null
+        });
+      }
+      record = {};
+      continue;
+    }
+    record[line[0]] = line.slice(1).trim();
+  }
+  return lines;
+}
+
+export function detectBankStatementFormat(fileName: string, content: string): BankStatementFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "ofx" || extension === "qfx" || /<OFX>/i.test(content)) {
+    return "ofx";
+  }
+  if (extension === "qif" || /^!Type:/im.test(content)) {
+    return "qif";
+  }
+  return "csv";
+}
+
+export function parseBankStatement(format: BankStatementFormat, content: string): ParsedBankLine[] {
+  if (format === "ofx") {
+    return parseOfxStatement(content);
+  }
+  if (format === "qif") {
+    return parseQifStatement(content);
+  }
+  return parseCsvStatement(content);
+}
+
+// Identical lines in one statement (two equal transfers on the same day) are told apart by their
+// position among the duplicates, so re-importing an overlapping statement skips exactly the lines
+// already imported.
+export function bankLineFingerprints(lines: ParsedBankLine[]): string[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const base = line.externalId
+      ? `fitid:${line.externalId}|${line.amount.toFixed(2)}`
+      : [line.postedAt.toISOString().slice(0, 10), line.amount.toFixed(2), line.description, line.reference].join("|");
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return createHash("sha256").update(`${base}#${occurrence}`).digest("hex");
+  });
+}
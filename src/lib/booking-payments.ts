@@ -0,0 +1,166 @@
+import { BookingStatus, DepositType, PaymentStatus, type BookingPolicy, type Prisma } from "@prisma/client";
+import {
+  BOOKING_POLICY_ID,
+  DEFAULT_GUEST_BULLETIN_BODY,
+  DEFAULT_GUEST_BULLETIN_TITLE,
+  DEFAULT_PET_NOTICE
+} from "@/lib/booking-policy";
+import { prisma } from "@/lib/prisma";
+
+export type DepositPolicy = Pick<
+  BookingPolicy,
+  "depositType" | "depositValue" | "depositDueDays" | "balanceDueDaysBeforeArrival"
+>;
+
+export type BookingPaymentState =
+  | "NO_CHARGE"
+  | "AWAITING_APPROVAL"
+  | "NOT_PAYABLE"
+  | "CANCELLED"
+  | "DEPOSIT_DUE"
+  | "DEPOSIT_OVERDUE"
+  | "BALANCE_DUE"
+  | "BALANCE_OVERDUE"
+  | "PAID";
+
+export type BookingPaymentSummary = {
+  currency: string;
+  totalAmount: number;
+  depositAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  outstandingAmount: number;
+  depositOutstanding: number;
+  depositDueDate: string | null;
+  balanceDueDate: string | null;
+  state: BookingPaymentState;
+  label: string;
+};
+
+type PayableBooking = {
+  status: BookingStatus;
+  totalAmount: Prisma.Decimal | number | null;
+  currency: string;
+  approvedAt: Date | null;
+  startDate: Date;
+  payments: Array<{ amount: Prisma.Decimal | number; status: PaymentStatus }>;
+};
+
+export const BOOKING_PAYMENT_SELECT = {
+  select: { id: true, amount: true, currency: true, method: true, status: true, paidAt: true, createdAt: true },
+  orderBy: { createdAt: "asc" }
+} as const;
+
+const DAY_MS = 86400000;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+export async function getBookingPolicy(): Promise<BookingPolicy> {
+  return prisma.bookingPolicy.upsert({
+    where: { id: BOOKING_POLICY_ID },
+    update: {},
+    create: {
+      id: BOOKING_POLICY_ID,
+      petNotice: DEFAULT_PET_NOTICE,
+      guestBulletinTitle: DEFAULT_GUEST_BULLETIN_TITLE,
+      guestBulletinBody: DEFAULT_GUEST_BULLETIN_BODY
+    }
+  });
+}
+
+export function calculateDepositAmount(totalAmount: number, policy: DepositPolicy): number {
+  const value = Number(policy.depositValue);
+  const deposit = policy.depositType === DepositType.FIXED ? value : (totalAmount * value) / 100;
+  return roundCurrency(Math.min(totalAmount, Math.max(0, deposit)));
+}
+
+// Deposit falls due N days after approval and the balance N days before arrival;
+// a deposit deadline that would land after the balance deadline is pulled back to it.
+export function summarizeBookingPayments(
+  booking: PayableBooking,
+  policy: DepositPolicy,
+  now = new Date()
+): BookingPaymentSummary {
+  const totalAmount = roundCurrency(Number(booking.totalAmount ?? 0));
+  const depositAmount = calculateDepositAmount(totalAmount, policy);
+  // Refunds and credit notes are recorded as REFUNDED payments and reduce what has been paid.
+  const paidAmount = roundCurrency(
+    booking.payments.reduce((total, payment) => {
+      if (payment.status === PaymentStatus.CONFIRMED) {
+        return total + Number(payment.amount);
+      }
+      if (payment.status === PaymentStatus.REFUNDED) {
+        return total - Number(payment.amount);
+      }
+      return total;
+    }, 0)
+  );
+  const pendingAmount = roundCurrency(
+    booking.payments
+      .filter((payment) => payment.status === PaymentStatus.PENDING)
+      .reduce((total, payment) => total + Number(payment.amount), 0)
+  );
+  const outstandingAmount = roundCurrency(Math.max(0, totalAmount - paidAmount));
+  const depositOutstanding = roundCurrency(Math.max(0, depositAmount - paidAmount));
+
+  const balanceDue = new Date(booking.startDate.getTime() - policy.balanceDueDaysBeforeArrival * DAY_MS);
+  const depositDue = booking.approvedAt
+    ? new Date(Math.min(booking.approvedAt.getTime() + policy.depositDueDays * DAY_MS, balanceDue.getTime()))
+    : null;
+
+  const summary = {
+    currency: booking.currency,
+    totalAmount,
+    depositAmount,
+    paidAmount,
+    pendingAmount,
+    outstandingAmount,
+    depositOutstanding,
+    depositDueDate: depositDue ? dateLabel(depositDue) : null,
+    balanceDueDate: booking.status === BookingStatus.APPROVED ? dateLabel(balanceDue) : null
+  };
+
+  if (booking.status === BookingStatus.CANCELLED) {
+    return {
+      ...summary,
+      outstandingAmount: 0,
+      depositOutstanding: 0,
+      state: "CANCELLED",
+      label: paidAmount > 0 ? "Cancelled - fee retained" : "Cancelled"
+    };
+  }
+  if (totalAmount <= 0) {
+    return { ...summary, state: "NO_CHARGE", label: "No charge" };
+  }
+  if (outstandingAmount === 0) {
+    return { ...summary, state: "PAID", label: "Paid in full" };
+  }
+  if (booking.status === BookingStatus.PENDING) {
+    return { ...summary, state: "AWAITING_APPROVAL", label: "Payment due after approval" };
+  }
+  if (booking.status !== BookingStatus.APPROVED) {
+    return { ...summary, state: "NOT_PAYABLE", label: paidAmount > 0 ? "Refund review" : "Not payable" };
+  }
+  if (depositOutstanding > 0 && depositDue) {
+    return now > depositDue
+      ? { ...summary, state: "DEPOSIT_OVERDUE", label: "Deposit overdue" }
+      : { ...summary, state: "DEPOSIT_DUE", label: `Deposit due ${dateLabel(depositDue)}` };
+  }
+  return now > balanceDue
+    ? { ...summary, state: "BALANCE_OVERDUE", label: "Balance overdue" }
+    : { ...summary, state: "BALANCE_DUE", label: `Balance due ${dateLabel(balanceDue)}` };
+}
+
+export async function withPaymentSummaries<T extends PayableBooking>(
+  bookings: T[]
+): Promise<Array<T & { paymentSummary: BookingPaymentSummary }>> {
+  const policy = await getBookingPolicy();
+  const now = new Date();
+  return bookings.map((booking) => ({ ...booking, paymentSummary: summarizeBookingPayments(booking, policy, now) }));
+}
@@ -13,3 +13,33 @@ export const DEFAULT_GUEST_BULLETIN_BODY = [
   "Report damages or faults on arrival.",
   "For pets, keep furniture and bedrooms pet-free."
 ].join("\n");
+
+export const DEFAULT_DEPOSIT_POLICY = {
+  depositType: "PERCENTAGE" as "PERCENTAGE" | "FIXED",
+  depositValue: 50,
+  depositDueDays: 7,
+  balanceDueDaysBeforeArrival: 14
+};
+
+export type CancellationTierInput = { minDaysBefore: number; refundPercent: number };
+
+// Admin form format: "30:100, 14:50, 0:0" (days before arrival : refund percent).
+export function formatCancellationTiers(tiers: CancellationTierInput[]): string {
+  return tiers.map((tier) => `${tier.minDaysBefore}:${tier.refundPercent}`).join(", ");
+}
+
+export function parseCancellationTierInput(value: string): CancellationTierInput[] | null {
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const tiers: CancellationTierInput[] = [];
+  for (const entry of entries) {
+    const match = /^(\d+)\s*:\s*(\d+(?:\.\d+)?)$/.exec(entry);
+    if (!match || Number(match[2]) > 100) {
+      return null;
+    }
+    tiers.push({ minDaysBefore: Number(match[1]), refundPercent: Number(match[2]) });
+  }
+  return tiers.sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+}
@@ -18,3 +18,31 @@ export function dateRangeOverlaps(
 ): boolean {
   return startA < endB && startB < endA;
 }
+
+export type OccupancyRange = {
+  scope: string;
+  startDate: Date;
+  endDate: Date;
+  roomIds: string[];
+};
+
+// Whole-house bookings, and room-specific bookings without allocations, block every room.
+export function occupiesWholeHouse(range: Pick<OccupancyRange, "scope" | "roomIds">): boolean {
+  return range.scope !== "ROOM_SPECIFIC" || range.roomIds.length === 0;
+}
+
+export function occupancyRangesClash(a: OccupancyRange, b: OccupancyRange): boolean {
+  if (!dateRangeOverlaps(a.startDate, a.endDate, b.startDate, b.endDate)) {
+    return false;
+  }
+
+  if (occupiesWholeHouse(a) || occupiesWholeHouse(b)) {
+    return true;
+  }
+
+  return a.roomIds.some((roomId) => b.roomIds.includes(roomId));
+}
+
+export function rangeOccupiesRoom(range: Pick<OccupancyRange, "scope" | "roomIds">, roomId: string): boolean {
+  return occupiesWholeHouse(range) || range.roomIds.includes(roomId);
+}
@@ -0,0 +1,284 @@
+import { ExpenseCategory, UserRole, type Prisma } from "@prisma/client";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+
+export type BudgetStatus = "NO_BUDGET" | "ON_TRACK" | "AT_RISK" | "OVER_BUDGET";
+
+export type BudgetMonth = {
+  month: number;
+  budget: number | null;
+  actual: number;
+};
+
+export type CategoryBudgetLine = {
+  category: ExpenseCategory;
+  budgetId: string | null;
+  annualBudget: number | null;
+  monthlyBudgets: number[] | null;
+  alertEnabled: boolean;
+  alertedAt: string | null;
+  budgetToDate: number | null;
+  actual: number;
+  // Positive variance is money left; negative means over budget.
+  variance: number | null;
+  recurringMonthly: number;
+  forecast: number;
+  forecastVariance: number | null;
+  status: BudgetStatus;
+  months: BudgetMonth[];
+};
+
+export type BudgetReport = {
+  year: number;
+  asOf: string;
+  monthsElapsed: number;
+  currency: string;
+  lines: CategoryBudgetLine[];
+  totals: {
+    annualBudget: number;
+    actual: number;
+    forecast: number;
+    variance: number;
+  };
+};
+
+type BudgetExpense = {
+  category: ExpenseCategory;
+  title: string;
+  supplier: string | null;
+  amount: Prisma.Decimal;
+  serviceDate: Date | null;
+  createdAt: Date;
+};
+
+// An item seen in at least this many distinct months of the trailing year counts as recurring.
+const RECURRING_MIN_MONTHS = 3;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function expenseDate(expense: BudgetExpense): Date {
+  return expense.serviceDate ?? expense.createdAt;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+}
+
+function recurringKey(expense: BudgetExpense): string {
+  return (expense.supplier?.trim() || expense.title.trim()).toLowerCase();
+}
+
+export function parseMonthlyBudgets(value: Prisma.JsonValue | null): number[] | null {
+  if (!Array.isArray(value) || value.length !== 12) {
+    return null;
+  }
+  const amounts = value.map((entry) => Number(entry));
+  return amounts.every((amount) => Number.isFinite(amount) && amount >= 0) ? amounts : null;
+}
+
+// How far through the budget year we are, in months (fractional for the current month).
+function elapsedMonths(year: number, now: Date): number {
+  if (year < now.getUTCFullYear()) {
+    return 12;
+  }
+  if (year > now.getUTCFullYear()) {
+    return 0;
+  }
+  const daysInMonth = new Date(Date.UTC(year, now.getUTCMonth() + 1, 0)).getUTCDate();
+  return now.getUTCMonth() + now.getUTCDate() / daysInMonth;
+}
+
+// Year-end forecast = actual spend so far, plus recurring items (seen in three or more months of
+// the trailing year) for every month they have not yet been billed, plus the run rate of the
+// remaining one-off spend over the rest of the year.
+function forecastCategory(
+  yearExpenses: BudgetExpense[],
+  trailingExpenses: BudgetExpense[],
+  year: number,
+  now: Date,
+  elapsed: number
+): { forecast: number; recurringMonthly: number } {
+  const actual = yearExpenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+  if (elapsed >= 12 || year < now.getUTCFullYear()) {
+    return { forecast: roundCurrency(actual), recurringMonthly: 0 };
+  }
+
+  const items = new Map<string, { months: Set<string>; total: number }>();
+  for (const expense of trailingExpenses) {
+    const key = recurringKey(expense);
+    const item = items.get(key) ?? { months: new Set<string>(), total: 0 };
+    item.months.add(monthKey(expenseDate(expense)));
+    item.total += Number(expense.amount);
+    items.set(key, item);
+  }
+
+  const currentMonth = year === now.getUTCFullYear() ? now.getUTCMonth() : -1;
+  let recurringMonthly = 0;
+  let recurringProjection = 0;
+  const recurringKeys = new Set<string>();
+  for (const [key, item] of items) {
+    if (item.months.size < RECURRING_MIN_MONTHS) {
+      continue;
+    }
+    const monthly = item.total / item.months.size;
+    recurringKeys.add(key);
+    recurringMonthly += monthly;
+    const billedThisMonth = currentMonth >= 0 && item.months.has(`${year}-${currentMonth}`);
+    recurringProjection += monthly * (currentMonth < 0 ? 12 : 11 - currentMonth + (billedThisMonth ? 0 : 1));
+  }
+
+  const oneOff = yearExpenses
+    .filter((expense) => !recurringKeys.has(recurringKey(expense)))
+    .reduce((sum, expense) => sum + Number(expense.amount), 0);
+  const runRateProjection = elapsed > 0 ? (oneOff / elapsed) * (12 - elapsed) : 0;
+
+  return {
+    forecast: roundCurrency(actual + recurringProjection + runRateProjection),
+    recurringMonthly: roundCurrency(recurringMonthly)
+  };
+}
+
+export async function buildBudgetReport(year: number, now = new Date()): Promise<BudgetReport> {
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+  const trailingStart = new Date(Date.UTC(now.getUTCFullYear() - 1, now.getUTCMonth(), 1));
+  const windowStart = trailingStart < yearStart ? trailingStart : yearStart;
+
+  const [budgets, expenses] = await Promise.all([
+    prisma.expenseBudget.findMany({ where: { year } }),
+    prisma.expense.findMany({
+      where: {
+        OR: [
+          { serviceDate: { gte: windowStart, lt: yearEnd } },
+          { serviceDate: null, createdAt: { gte: windowStart, lt: yearEnd } }
+        ]
+      },
+      select: { category: true, title: true, supplier: true, amount: true, serviceDate: true, createdAt: true }
+    })
+  ]);
+
+  const elapsed = elapsedMonths(year, now);
+  const lines = Object.values(ExpenseCategory).map((category): CategoryBudgetLine => {
+    const budget = budgets.find((candidate) => candidate.category === category);
+    const categoryExpenses = expenses.filter((expense) => expense.category === category);
+    const yearExpenses = categoryExpenses.filter((expense) => {
+      const date = expenseDate(expense);
+      return date >= yearStart && date < yearEnd;
+    });
+    const trailingExpenses = categoryExpenses.filter((expense) => {
+      const date = expenseDate(expense);
+      return date >= trailingStart && date <= now;
+    });
+
+    const months: BudgetMonth[] = Array.from({ length: 12 }, (_, month) => ({
+      month: month + 1,
+      budget: null,
+      actual: 0
+    }));
+    for (const expense of yearExpenses) {
+      months[expenseDate(expense).getUTCMonth()].actual += Number(expense.amount);
+    }
+    const monthlyBudgets = budget ? parseMonthlyBudgets(budget.monthlyAmounts) : null;
+    for (const month of months) {
+      month.actual = roundCurrency(month.actual);
+      month.budget = monthlyBudgets ? monthlyBudgets[month.month - 1] : null;
+    }
+
+    const actual = roundCurrency(months.reduce((sum, month) => sum + month.actual, 0));
+    const { forecast, recurringMonthly } = forecastCategory(yearExpenses, trailingExpenses, year, now, elapsed);
+    const annualBudget = budget ? Number(budget.annualAmount) : null;
+    const budgetToDate =
+      annualBudget === null
+        ? null
+        : roundCurrency(
+            monthlyBudgets
+              ? monthlyBudgets.slice(0, Math.ceil(elapsed)).reduce((sum, amount) => sum + amount, 0)
+              : (annualBudget * elapsed) / 12
+          );
+
+    let status: BudgetStatus = "NO_BUDGET";
+    if (annualBudget !== null) {
+      if (actual > annualBudget) {
+        status = "OVER_BUDGET";
+      } else if (forecast > annualBudget || (budgetToDate !== null && actual > budgetToDate)) {
+        status = "AT_RISK";
+      } else {
+        status = "ON_TRACK";
+      }
+    }
+
+    return {
+      category,
+      budgetId: budget?.id ?? null,
+      annualBudget,
+      monthlyBudgets,
+      alertEnabled: budget?.alertEnabled ?? false,
+      alertedAt: budget?.alertedAt?.toISOString() ?? null,
+      budgetToDate,
+      actual,
+      variance: annualBudget === null ? null : roundCurrency(annualBudget - actual),
+      recurringMonthly,
+      forecast,
+      forecastVariance: annualBudget === null ? null : roundCurrency(annualBudget - forecast),
+      status,
+      months
+    };
+  });
+
+  const budgeted = lines.filter((line) => line.annualBudget !== null);
+  return {
+    year,
+    asOf: now.toISOString().slice(0, 10),
+    monthsElapsed: Math.round(elapsed * 100) / 100,
+    currency: "ZAR",
+    lines,
+    totals: {
+      annualBudget: roundCurrency(budgeted.reduce((sum, line) => sum + (line.annualBudget ?? 0), 0)),
+      actual: roundCurrency(lines.reduce((sum, line) => sum + line.actual, 0)),
+      forecast: roundCurrency(lines.reduce((sum, line) => sum + line.forecast, 0)),
+      variance: roundCurrency(budgeted.reduce((sum, line) => sum + (line.variance ?? 0), 0))
+    }
+  };
+}
+
+// Emails active shareholders once per category when it first goes over its annual budget.
+// Changing the budget clears alertedAt, so a later overrun of the new amount alerts again.
+export async function notifyBudgetOverruns(year = new Date().getUTCFullYear()): Promise<ExpenseCategory[]> {
+  const report = await buildBudgetReport(year);
+  const overruns = report.lines.filter(
+    (line) => line.status === "OVER_BUDGET" && line.budgetId && line.alertEnabled && !line.alertedAt
+  );
+  if (overruns.length === 0) {
+    return [];
+  }
+
+  const shareholders = await prisma.user.findMany({
+    where: { role: UserRole.SHAREHOLDER, isActive: true },
+    select: { name: true, email: true }
+  });
+  const financesUrl = new URL("/admin/finances", getAppBaseUrl()).toString();
+
+  for (const line of overruns) {
+    for (const shareholder of shareholders) {
+      const message = await renderEmailTemplate("BUDGET_OVERRUN", {
+        RECIPIENT_NAME: shareholder.name,
+        CATEGORY: line.category,
+        YEAR: String(year),
+        CURRENCY: report.currency,
+        BUDGET_AMOUNT: (line.annualBudget ?? 0).toFixed(2),
+        ACTUAL_AMOUNT: line.actual.toFixed(2),
+        VARIANCE_AMOUNT: Math.abs(line.variance ?? 0).toFixed(2),
+        FORECAST_AMOUNT: line.forecast.toFixed(2),
+        FINANCES_URL: financesUrl
+      });
+      await sendMail({ to: shareholder.email, subject: message.subject, text: message.text });
+    }
+    await prisma.expenseBudget.update({ where: { id: line.budgetId as string }, data: { alertedAt: new Date() } });
+  }
+
+  return overruns.map((line) => line.category);
+}
@@ -0,0 +1,80 @@
+import { BookingStatus, type Prisma } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { buildManageBookingUrl, getAppBaseUrl } from "@/lib/booking-manage";
+import type { ICalExportEvent } from "@/lib/ical";
+
+export type CalendarFeedScope = "channel" | "member" | "admin";
+
+export type CalendarFeedBooking = Prisma.BookingGetPayload<{
+  include: {
+    requestedBy: { select: { name: true; email: true } };
+    roomAllocations: { include: { room: { select: { name: true } } } };
+  };
+}>;
+
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+export function buildCalendarFeedUrl(token: string): string {
+  return `${getAppBaseUrl()}/api/calendar/${token}.ics`;
+}
+
+function dateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+function roomsLabel(booking: CalendarFeedBooking): string {
+  if (booking.roomAllocations.length === 0) {
+    return "Whole house";
+  }
+  return booking.roomAllocations.map((allocation) => allocation.room.name).join(", ");
+}
+
+// Channel feeds only ever expose blocked dates; guest and requester details stay in the app.
+export function bookingToFeedEvent(booking: CalendarFeedBooking, scope: CalendarFeedScope): ICalExportEvent {
+  const base = {
+    uid: `${booking.id}@reebok-house`,
+    startDate: booking.startDate,
+    endDate: booking.endDate,
+    updatedAt: booking.updatedAt,
+    status: booking.status === BookingStatus.APPROVED ? ("CONFIRMED" as const) : ("TENTATIVE" as const)
+  };
+
+  if (scope === "channel") {
+    return { ...base, summary: "Not available" };
+  }
+
+  const pendingSuffix = booking.status === BookingStatus.PENDING ? " (pending approval)" : "";
+
+  if (scope === "member") {
+    return {
+      ...base,
+      summary: `Reebok House stay${pendingSuffix}`,
+      description: [
+        `Booking reference: ${booking.id}`,
+        `Dates: ${dateLabel(booking.startDate)} to ${dateLabel(booking.endDate)}`,
+        `Guests: ${booking.totalGuests}`,
+        `Rooms: ${roomsLabel(booking)}`,
+        `Manage booking: ${buildManageBookingUrl(booking.id)}`
+      ].join("\n")
+    };
+  }
+
+  const guestLabel = booking.requestedBy?.name ?? booking.externalLeadName ?? "External booking";
+  return {
+    ...base,
+    summary: `${guestLabel} - ${booking.source}${pendingSuffix}`,
+    description: [
+      `Booking reference: ${booking.id}`,
+      `Status: ${booking.status}`,
+      `Source: ${booking.source} / ${booking.scope}`,
+      `Guests: ${booking.totalGuests} | Pets: ${booking.petCount}`,
+      `Rooms: ${roomsLabel(booking)}`,
+      `Contact: ${booking.requestedBy?.email ?? booking.externalLeadEmail ?? "Not available"}`,
+      booking.notes ? `Notes: ${booking.notes}` : ""
+    ]
+      .filter(Boolean)
+      .join("\n")
+  };
+}
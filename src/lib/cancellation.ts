@@ -0,0 +1,191 @@
+import {
+  BookingAuditAction,
+  BookingSource,
+  BookingStatus,
+  PaymentMethod,
+  PaymentStatus,
+  SubscriptionLedgerEntryType,
+  type BookingPolicy,
+  type Prisma,
+  type UserRole
+} from "@prisma/client";
+import type { CancellationTierInput as CancellationTier } from "@/lib/booking-policy";
+import { prisma } from "@/lib/prisma";
+
+export type RefundMethod = "REFUND" | "CREDIT_NOTE";
+
+export type CancellationQuote = {
+  daysBeforeStart: number;
+  refundPercent: number;
+  paidAmount: number;
+  refundAmount: number;
+  retainedAmount: number;
+  refundMethod: RefundMethod;
+};
+
+type CancellableBooking = {
+  id: string;
+  source: BookingSource;
+  status: BookingStatus;
+  startDate: Date;
+  requestedById: string | null;
+  payments: Array<{ amount: Prisma.Decimal | number; status: PaymentStatus }>;
+};
+
+export const CANCELLABLE_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.APPROVED];
+
+const DAY_MS = 86400000;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function parseCancellationTiers(value: Prisma.JsonValue): CancellationTier[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((tier): tier is Prisma.JsonObject => typeof tier === "object" && tier !== null && !Array.isArray(tier))
+    .map((tier) => ({
+      minDaysBefore: Math.max(0, Math.floor(Number(tier.minDaysBefore ?? 0))),
+      refundPercent: Math.min(100, Math.max(0, Number(tier.refundPercent ?? 0)))
+    }))
+    .sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+}
+
+// The first tier whose threshold the cancellation still meets applies; no match means no refund.
+export function refundPercentFor(tiers: CancellationTier[], daysBeforeStart: number): number {
+  return tiers.find((tier) => daysBeforeStart >= tier.minDaysBefore)?.refundPercent ?? 0;
+}
+
+export async function quoteCancellation(
+  booking: CancellableBooking,
+  policy: Pick<BookingPolicy, "internalCancellationTiers" | "externalCancellationTiers">,
+  now = new Date()
+): Promise<CancellationQuote> {
+  const tiers = parseCancellationTiers(
+    booking.source === BookingSource.INTERNAL ? policy.internalCancellationTiers : policy.externalCancellationTiers
+  );
+  const daysBeforeStart = Math.max(0, Math.floor((booking.startDate.getTime() - now.getTime()) / DAY_MS));
+  const refundPercent = refundPercentFor(tiers, daysBeforeStart);
+
+  const paidAmount = roundCurrency(
+    booking.payments.reduce((total, payment) => {
+      if (payment.status === PaymentStatus.CONFIRMED) {
+        return total + Number(payment.amount);
+      }
+      if (payment.status === PaymentStatus.REFUNDED) {
+        return total - Number(payment.amount);
+      }
+      return total;
+    }, 0)
+  );
+  const refundAmount = roundCurrency((Math.max(0, paidAmount) * refundPercent) / 100);
+
+  // Members are credited on their account by default; external guests get their money back.
+  const hasSubscription =
+    booking.source === BookingSource.INTERNAL && booking.requestedById
+      ? (await prisma.subscription.count({ where: { userId: booking.requestedById } })) > 0
+      : false;
+
+  return {
+    daysBeforeStart,
+    refundPercent,
+    paidAmount,
+    refundAmount,
+    retainedAmount: roundCurrency(Math.max(0, paidAmount) - refundAmount),
+    refundMethod: hasSubscription ? "CREDIT_NOTE" : "REFUND"
+  };
+}
+
+type CancelBookingInput = {
+  booking: CancellableBooking & { currency: string };
+  quote: CancellationQuote;
+  refundMethod: RefundMethod;
+  reason?: string;
+  actorLabel: string;
+  actorId?: string;
+  actorRole?: UserRole;
+};
+
+// Refunds are recorded as REFUNDED payments; the money itself is returned outside the app
+// (EFT or the gateway dashboard). Credit notes also post an adjustment to the member's ledger.
+export async function cancelBooking(input: CancelBookingInput) {
+  const { booking, quote } = input;
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const cancelled = await tx.booking.updateMany({
+      where: { id: booking.id, status: { in: CANCELLABLE_STATUSES } },
+      data: {
+        status: BookingStatus.CANCELLED,
+        cancelledAt: now,
+        cancellationReason: input.reason,
+        cancellationFee: quote.retainedAmount
+      }
+    });
+    if (cancelled.count === 0) {
+      return null;
+    }
+
+    if (quote.refundAmount > 0) {
+      const creditNote = input.refundMethod === "CREDIT_NOTE" && booking.requestedById;
+      await tx.payment.create({
+        data: {
+          bookingId: booking.id,
+          payerId: booking.requestedById,
+          amount: quote.refundAmount,
+          currency: booking.currency,
+          method: creditNote ? PaymentMethod.OTHER : PaymentMethod.EFT,
+          status: PaymentStatus.REFUNDED,
+          reference: `${creditNote ? "credit-note" : "refund"}:${booking.id}`,
+          paidAt: now,
+          gatewayPayload: { refundPercent: quote.refundPercent, daysBeforeStart: quote.daysBeforeStart }
+        }
+      });
+
+      if (creditNote) {
+        const subscription = await tx.subscription.findUnique({ where: { userId: booking.requestedById! } });
+        if (subscription) {
+          await tx.subscriptionLedgerEntry.create({
+            data: {
+              subscriptionId: subscription.id,
+              type: SubscriptionLedgerEntryType.ADJUSTMENT,
+              entryKey: `credit-note:${booking.id}`,
+              periodStart: now,
+              periodEnd: now,
+              amount: -quote.refundAmount,
+              description: `Credit note for cancelled booking ${booking.id}`
+            }
+          });
+        }
+      }
+    }
+
+    await tx.bookingAuditLog.create({
+      data: {
+        bookingId: booking.id,
+        actorId: input.actorId,
+        actorRole: input.actorRole,
+        action: BookingAuditAction.CANCELLED,
+        comment: [
+          `Cancelled by ${input.actorLabel} ${quote.daysBeforeStart} day(s) before arrival.`,
+          quote.paidAmount > 0
+            ? `${quote.refundPercent}% refund: ${booking.currency} ${quote.refundAmount.toFixed(2)} as ${
+                input.refundMethod === "CREDIT_NOTE" ? "credit note" : "refund"
+              }, ${booking.currency} ${quote.retainedAmount.toFixed(2)} retained.`
+            : "",
+          input.reason ? `Reason: ${input.reason}` : ""
+        ]
+          .filter(Boolean)
+          .join(" ")
+      }
+    });
+
+    return tx.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      include: { requestedBy: { select: { name: true, email: true } } }
+    });
+  });
+}
@@ -0,0 +1,344 @@
+import {
+  BookingAuditAction,
+  BookingScope,
+  BookingSource,
+  BookingStatus,
+  IntegrationProvider,
+  IntegrationStatus,
+  Prisma,
+  type ChannelConnection
+} from "@prisma/client";
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { findConflictingBooking } from "@/lib/availability";
+import { calculateNights } from "@/lib/booking";
+import { parseICalendar, type ICalEvent } from "@/lib/ical";
+import { prisma } from "@/lib/prisma";
+import { offerWaitlistHolds } from "@/lib/waitlist";
+
+export type ChannelSyncResult = {
+  connectionId: string;
+  provider: IntegrationProvider;
+  syncedAt: string;
+  added: number;
+  updated: number;
+  removed: number;
+  conflicts: string[];
+  errors: string[];
+};
+
+// One hung or oversized channel response must not stall the sync job for every other connection.
+const FEED_TIMEOUT_MS = 20000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+export const CHANNEL_PROVIDER_LABELS: Record<IntegrationProvider, string> = {
+  AIRBNB: "Airbnb",
+  BOOKING_COM: "Booking.com"
+};
+
+export const CHANNEL_BOOKING_SOURCES: Record<IntegrationProvider, BookingSource> = {
+  AIRBNB: BookingSource.AIRBNB,
+  BOOKING_COM: BookingSource.BOOKING_COM
+};
+
+function readSetting(settings: Prisma.JsonValue | null, key: string): string | null {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+    return null;
+  }
+
+  const value = (settings as Prisma.JsonObject)[key];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+export function getChannelFeedUrl(settings: Prisma.JsonValue | null): string | null {
+  return readSetting(settings, "icalUrl");
+}
+
+async function fetchFeed(url: string): Promise<string> {
+  // Local fixture feeds let the sync be exercised without reaching the channel.
+  if (url.startsWith("file://")) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("Local file feeds are not allowed in production.");
+    }
+    return readFile(fileURLToPath(url), "utf8");
+  }
+
+  const response = await fetch(url, {
+    cache: "no-store",
+    headers: { Accept: "text/calendar" },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS)
+  }).catch((error: unknown) => {
+    throw new Error(
+      error instanceof Error && error.name === "TimeoutError"
+        ? `Feed request timed out after ${FEED_TIMEOUT_MS / 1000} seconds.`
+        : "Could not download the iCal feed."
+    );
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Feed request failed with HTTP ${response.status}.`);
+  }
+  const tooLarge = `Feed is larger than ${MAX_FEED_BYTES / 1024 / 1024} MB.`;
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_FEED_BYTES) {
+    await response.body.cancel().catch(() => undefined);
+    throw new Error(tooLarge);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read().catch(() => {
+      throw new Error("Feed download was interrupted or timed out.");
+    });
+    if (done) {
+      break;
+    }
+    size += value.length;
+    if (size > MAX_FEED_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(tooLarge);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function guestNameFor(event: ICalEvent): string | undefined {
+  return event.summary?.trim() || undefined;
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+function eventPayload(event: ICalEvent): Prisma.InputJsonObject {
+  return {
+    uid: event.uid,
+    summary: event.summary ?? null,
+    description: event.description ?? null,
+    status: event.status ?? null,
+    startDate: event.startDate.toISOString(),
+    endDate: event.endDate.toISOString()
+  };
+}
+
+function summarizeResult(result: ChannelSyncResult): string {
+  const parts = [`Added ${result.added}, updated ${result.updated}, removed ${result.removed}.`];
+  if (result.conflicts.length > 0) {
+    parts.push(`${result.conflicts.length} conflict(s) with house bookings.`);
+  }
+  if (result.errors.length > 0) {
+    parts.push(`${result.errors.length} error(s): ${result.errors[0]}`);
+  }
+  return parts.join(" ");
+}
+
+async function recordSyncResult(
+  connection: ChannelConnection,
+  result: ChannelSyncResult,
+  failed: boolean
+): Promise<ChannelSyncResult> {
+  await prisma.channelConnection.update({
+    where: { id: connection.id },
+    data: {
+      status: failed ? IntegrationStatus.ERROR : IntegrationStatus.CONNECTED,
+      lastSyncAt: new Date(result.syncedAt),
+      lastSyncStatus: failed ? `Sync failed. ${summarizeResult(result)}` : summarizeResult(result),
+      lastSyncResult: result as unknown as Prisma.InputJsonObject
+    }
+  });
+
+  return result;
+}
+
+function blockingBookingData(connection: ChannelConnection, event: ICalEvent): Prisma.BookingCreateInput {
+  const label = CHANNEL_PROVIDER_LABELS[connection.provider];
+
+  return {
+    source: CHANNEL_BOOKING_SOURCES[connection.provider],
+    scope: BookingScope.WHOLE_HOUSE,
+    status: BookingStatus.APPROVED,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    nights: Math.max(1, calculateNights(event.startDate, event.endDate)),
+    totalGuests: 0,
+    approvedAt: new Date(),
+    externalReference: event.uid,
+    externalLeadName: guestNameFor(event),
+    notes: `${label} calendar block${connection.accountLabel ? ` (${connection.accountLabel})` : ""}.`,
+    bookingAuditLogs: {
+      create: {
+        action: BookingAuditAction.CREATED,
+        comment: `Imported from ${label} calendar sync.`
+      }
+    }
+  };
+}
+
+export async function syncChannelConnection(connection: ChannelConnection): Promise<ChannelSyncResult> {
+  const label = CHANNEL_PROVIDER_LABELS[connection.provider];
+  const result: ChannelSyncResult = {
+    connectionId: connection.id,
+    provider: connection.provider,
+    syncedAt: new Date().toISOString(),
+    added: 0,
+    updated: 0,
+    removed: 0,
+    conflicts: [],
+    errors: []
+  };
+
+  const feedUrl = getChannelFeedUrl(connection.settings);
+  if (!feedUrl) {
+    result.errors.push("No iCal URL configured. Set settings.icalUrl on the connection.");
+    return recordSyncResult(connection, result, true);
+  }
+
+  let feed: ReturnType<typeof parseICalendar>;
+  try {
+    feed = parseICalendar(await fetchFeed(feedUrl));
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : "Could not download the iCal feed.");
+    return recordSyncResult(connection, result, true);
+  }
+
+  result.errors.push(...feed.errors);
+  const activeEvents = feed.events.filter((event) => event.status !== "CANCELLED");
+  // Events that failed to parse keep their existing booking until the channel sends a readable version.
+  const activeUids = new Set([...activeEvents.map((event) => event.uid), ...feed.invalidUids]);
+
+  const existingEvents = await prisma.externalCalendarEvent.findMany({
+    where: {
+      provider: connection.provider,
+      OR: [{ connectionId: connection.id }, { externalId: { in: [...activeUids] } }]
+    },
+    include: { booking: { select: { id: true, status: true } } }
+  });
+  const existingByUid = new Map(existingEvents.map((event) => [event.externalId, event]));
+
+  for (const event of activeEvents) {
+    const existing = existingByUid.get(event.uid);
+
+    try {
+      let bookingId: string;
+
+      if (!existing) {
+        bookingId = await prisma.$transaction(async (tx) => {
+          const booking = await tx.booking.create({ data: blockingBookingData(connection, event) });
+          await tx.externalCalendarEvent.create({
+            data: {
+              provider: connection.provider,
+              externalId: event.uid,
+              connectionId: connection.id,
+              startDate: event.startDate,
+              endDate: event.endDate,
+              guestName: guestNameFor(event),
+              payload: eventPayload(event),
+              bookingId: booking.id
+            }
+          });
+          return booking.id;
+        });
+        result.added += 1;
+      } else {
+        const unchanged =
+          sameDay(existing.startDate, event.startDate) &&
+          sameDay(existing.endDate, event.endDate) &&
+          (existing.guestName ?? undefined) === guestNameFor(event) &&
+          existing.connectionId === connection.id &&
+          existing.booking?.status === BookingStatus.APPROVED;
+
+        if (unchanged) {
+          continue;
+        }
+
+        bookingId = await prisma.$transaction(async (tx) => {
+          // Re-create the blocking booking if it was deleted since the last sync.
+          const booking = existing.booking
+            ? await tx.booking.update({
+                where: { id: existing.booking.id },
+                data: {
+                  status: BookingStatus.APPROVED,
+                  startDate: event.startDate,
+                  endDate: event.endDate,
+                  nights: Math.max(1, calculateNights(event.startDate, event.endDate)),
+                  externalLeadName: guestNameFor(event),
+                  bookingAuditLogs: {
+                    create: {
+                      action: BookingAuditAction.COMMENT,
+                      comment: `Updated from ${label} calendar sync.`
+                    }
+                  }
+                }
+              })
+            : await tx.booking.create({ data: blockingBookingData(connection, event) });
+
+          await tx.externalCalendarEvent.update({
+            where: { id: existing.id },
+            data: {
+              connectionId: connection.id,
+              startDate: event.startDate,
+              endDate: event.endDate,
+              guestName: guestNameFor(event),
+              payload: eventPayload(event),
+              bookingId: booking.id
+            }
+          });
+
+          return booking.id;
+        });
+        result.updated += 1;
+      }
+
+      const conflict = await findConflictingBooking(
+        { scope: BookingScope.WHOLE_HOUSE, startDate: event.startDate, endDate: event.endDate, roomIds: [] },
+        bookingId
+      );
+      if (conflict) {
+        result.conflicts.push(
+          `${event.uid} overlaps ${conflict.status.toLowerCase()} booking ${conflict.id} ` +
+            `(${conflict.startDate.toISOString().slice(0, 10)} to ${conflict.endDate.toISOString().slice(0, 10)}).`
+        );
+      }
+    } catch (error) {
+      console.error(error);
+      result.errors.push(`${event.uid}: could not be saved.`);
+    }
+  }
+
+  for (const existing of existingEvents) {
+    if (existing.connectionId !== connection.id || activeUids.has(existing.externalId)) {
+      continue;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (existing.booking && existing.booking.status !== BookingStatus.CANCELLED) {
+        await tx.booking.update({
+          where: { id: existing.booking.id },
+          data: {
+            status: BookingStatus.CANCELLED,
+            cancelledAt: new Date(),
+            cancellationReason: `Removed from ${label} calendar feed`,
+            bookingAuditLogs: {
+              create: {
+                action: BookingAuditAction.CANCELLED,
+                comment: `Removed from ${label} calendar feed; booking cancelled.`
+              }
+            }
+          }
+        });
+      }
+
+      await tx.externalCalendarEvent.delete({ where: { id: existing.id } });
+    });
+
+    result.removed += 1;
+  }
+
+  if (result.removed > 0) {
+    await offerWaitlistHolds();
+  }
+
+  return recordSyncResult(connection, result, false);
+}
@@ -0,0 +1,265 @@
+import { MaintenanceStatus, type Contractor } from "@prisma/client";
+import { loadStoredDocument } from "@/lib/documents";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+
+export type ContractorSummary = {
+  jobCount: number;
+  openJobs: number;
+  completedJobs: number;
+  // Linked expenses (what was invoiced) and the actual cost recorded on completed jobs.
+  spend: number;
+  jobCost: number;
+  averageTurnaroundDays: number | null;
+  lastJobAt: string | null;
+};
+
+export type ContractorJob = {
+  id: string;
+  title: string;
+  status: MaintenanceStatus;
+  asset: { id: string; name: string } | null;
+  assignedAt: string;
+  dueDate: string | null;
+  completedAt: string | null;
+  actualCost: number | null;
+  turnaroundDays: number | null;
+  jobCardSentAt: string | null;
+};
+
+export type ContractorExpense = {
+  id: string;
+  title: string;
+  invoiceNumber: string | null;
+  amount: number;
+  serviceDate: string | null;
+  paidDate: string | null;
+};
+
+export type ContractorHistory = {
+  summary: ContractorSummary;
+  jobs: ContractorJob[];
+  expenses: ContractorExpense[];
+};
+
+export type JobCardResult = {
+  sentTo: string;
+  attachments: string[];
+  sentAt: string;
+};
+
+// Rates, tax/B-BBEE registration and spend are finance data; maintenance-only users get contacts and job history.
+export function withoutContractorFinance(contractor: Contractor) {
+  const {
+    hourlyRate: _hourlyRate,
+    calloutFee: _calloutFee,
+    rateNotes: _rateNotes,
+    beeLevel: _beeLevel,
+    beeCertificateNumber: _beeCertificateNumber,
+    taxNumber: _taxNumber,
+    vatNumber: _vatNumber,
+    ...rest
+  } = contractor;
+  return rest;
+}
+
+export function withoutSummaryFinance(summary: ContractorSummary) {
+  const { spend: _spend, jobCost: _jobCost, ...rest } = summary;
+  return rest;
+}
+
+export function withoutHistoryFinance(history: ContractorHistory) {
+  return {
+    summary: withoutSummaryFinance(history.summary),
+    jobs: history.jobs.map(({ actualCost: _actualCost, ...job }) => job),
+    expenses: []
+  };
+}
+
+const OPEN_STATUSES: MaintenanceStatus[] = [MaintenanceStatus.OPEN, MaintenanceStatus.IN_PROGRESS];
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dateLabel(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+// Days from assignment to the contractor (or logging, for older tasks) until the job was marked done.
+function turnaroundDays(task: { contractorAssignedAt: Date | null; createdAt: Date; completedAt: Date | null }) {
+  if (!task.completedAt) {
+    return null;
+  }
+  const start = task.contractorAssignedAt ?? task.createdAt;
+  return Math.max(0, Math.round(((task.completedAt.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) * 10) / 10);
+}
+
+function summarize(
+  tasks: Array<{
+    status: MaintenanceStatus;
+    actualCost: unknown;
+    contractorAssignedAt: Date | null;
+    createdAt: Date;
+    completedAt: Date | null;
+  }>,
+  spend: number
+): ContractorSummary {
+  const done = tasks.filter((task) => task.status === MaintenanceStatus.DONE);
+  const turnarounds = done.flatMap((task) => {
+    const days = turnaroundDays(task);
+    return days === null ? [] : [days];
+  });
+  const lastJob = tasks.reduce<Date | null>((latest, task) => {
+    const assigned = task.contractorAssignedAt ?? task.createdAt;
+    return !latest || assigned > latest ? assigned : latest;
+  }, null);
+
+  return {
+    jobCount: tasks.filter((task) => task.status !== MaintenanceStatus.CANCELLED).length,
+    openJobs: tasks.filter((task) => OPEN_STATUSES.includes(task.status)).length,
+    completedJobs: done.length,
+    spend: roundCurrency(spend),
+    jobCost: roundCurrency(done.reduce((sum, task) => sum + Number(task.actualCost ?? 0), 0)),
+    averageTurnaroundDays:
+      turnarounds.length > 0
+        ? Math.round((turnarounds.reduce((sum, days) => sum + days, 0) / turnarounds.length) * 10) / 10
+        : null,
+    lastJobAt: dateLabel(lastJob)
+  };
+}
+
+export async function summarizeContractors(contractorIds: string[]): Promise<Record<string, ContractorSummary>> {
+  if (contractorIds.length === 0) {
+    return {};
+  }
+
+  const [tasks, spend] = await Promise.all([
+    prisma.maintenanceTask.findMany({
+      where: { contractorId: { in: contractorIds } },
+      select: {
+        contractorId: true,
+        status: true,
+        actualCost: true,
+        contractorAssignedAt: true,
+        createdAt: true,
+        completedAt: true
+      }
+    }),
+    prisma.expense.groupBy({
+      by: ["contractorId"],
+      where: { contractorId: { in: contractorIds } },
+      _sum: { amount: true }
+    })
+  ]);
+
+  return Object.fromEntries(
+    contractorIds.map((id) => [
+      id,
+      summarize(
+        tasks.filter((task) => task.contractorId === id),
+        Number(spend.find((entry) => entry.contractorId === id)?._sum.amount ?? 0)
+      )
+    ])
+  );
+}
+
+export async function buildContractorHistory(contractorId: string): Promise<ContractorHistory> {
+  const [tasks, expenses] = await Promise.all([
+    prisma.maintenanceTask.findMany({
+      where: { contractorId },
+      include: { asset: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "desc" }
+    }),
+    prisma.expense.findMany({
+      where: { contractorId },
+      orderBy: [{ serviceDate: "desc" }, { createdAt: "desc" }]
+    })
+  ]);
+
+  return {
+    summary: summarize(
+      tasks,
+      expenses.reduce((sum, expense) => sum + Number(expense.amount), 0)
+    ),
+    jobs: tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      asset: task.asset,
+      assignedAt: dateLabel(task.contractorAssignedAt ?? task.createdAt) as string,
+      dueDate: dateLabel(task.dueDate),
+      completedAt: dateLabel(task.completedAt),
+      actualCost: task.actualCost === null ? null : Number(task.actualCost),
+      turnaroundDays: turnaroundDays(task),
+      jobCardSentAt: task.jobCardSentAt?.toISOString() ?? null
+    })),
+    expenses: expenses.map((expense) => ({
+      id: expense.id,
+      title: expense.title,
+      invoiceNumber: expense.invoiceNumber,
+      amount: Number(expense.amount),
+      serviceDate: dateLabel(expense.serviceDate),
+      paidDate: dateLabel(expense.paidDate)
+    }))
+  };
+}
+
+// Emails the task's contractor a job card with the asset details, attaching the task document and
+// the asset's warranty document when they can be loaded. Returns null when the task does not exist.
+export async function sendJobCard(taskId: string): Promise<JobCardResult | null> {
+  const task = await prisma.maintenanceTask.findUnique({
+    where: { id: taskId },
+    include: { asset: true, contractor: true }
+  });
+  if (!task) {
+    return null;
+  }
+  if (!task.contractor) {
+    throw new Error("Assign a contractor before sending a job card.");
+  }
+  if (!task.contractor.email) {
+    throw new Error(`${task.contractor.name} has no email address.`);
+  }
+
+  const documentUrls = [task.invoiceFileUrl, task.asset?.warrantyFileUrl].filter((url): url is string => Boolean(url));
+  const documents = (await Promise.all(documentUrls.map((url) => loadStoredDocument(url)))).filter(
+    (document) => document !== null
+  );
+
+  const message = await renderEmailTemplate("CONTRACTOR_JOB_CARD", {
+    CONTRACTOR_NAME: task.contractor.contactName ?? task.contractor.name,
+    JOB_REFERENCE: task.id.slice(-8).toUpperCase(),
+    TASK_TITLE: task.title,
+    PRIORITY: task.priority,
+    DUE_DATE: dateLabel(task.dueDate) ?? "To be agreed",
+    DESCRIPTION: task.description ?? "",
+    ASSET_NAME: task.asset?.name ?? "No specific asset",
+    ASSET_CATEGORY: task.asset?.category ?? "-",
+    ASSET_LOCATION: task.asset?.location ?? "-",
+    ASSET_SERIAL: task.asset?.serialNumber ?? "-",
+    ASSET_WARRANTY_EXPIRY: dateLabel(task.asset?.warrantyExpiry ?? null) ?? "-",
+    DOCUMENTS: documents.length > 0 ? documents.map((document) => document.fileName).join(", ") : "none"
+  });
+
+  await sendMail({
+    to: task.contractor.email,
+    subject: message.subject,
+    text: message.text,
+    attachments: documents.map((document) => ({
+      filename: document.fileName,
+      content: document.data,
+      contentType: document.mimeType ?? undefined
+    }))
+  });
+
+  const sentAt = new Date();
+  await prisma.maintenanceTask.update({ where: { id: task.id }, data: { jobCardSentAt: sentAt } });
+
+  return {
+    sentTo: task.contractor.email,
+    attachments: documents.map((document) => document.fileName),
+    sentAt: sentAt.toISOString()
+  };
+}
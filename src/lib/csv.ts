@@ -1,6 +1,10 @@
 import Papa from "papaparse";
 
-export function toCsv(data: Array<Record<string, unknown>>): string {
+// Pass headers to fix the column order and still get a header row when there is no data.
+export function toCsv(data: Array<Record<string, unknown>>, headers?: string[]): string {
+  if (headers) {
+    return Papa.unparse({ fields: headers, data: data.map((row) => headers.map((header) => row[header] ?? "")) });
+  }
   return Papa.unparse(data);
 }
 
@@ -16,3 +20,14 @@ export function fromCsv(content: string): Array<Record<string, string>> {
 
   return result.data;
 }
+
+// Rows as plain arrays, for files whose header is not on the first line (bank statements).
+export function fromCsvRows(content: string): string[][] {
+  const result = Papa.parse<string[]>(content, { skipEmptyLines: true });
+
+  if (result.errors.length > 0 && result.data.length === 0) {
+    throw new Error(result.errors[0].message);
+  }
+
+  return result.data;
+}
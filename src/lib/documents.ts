@@ -0,0 +1,131 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+
+export type StoredDocument = {
+  url: string;
+  fileName: string;
+  mimeType: string | null;
+  data: Buffer;
+};
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+
+function detectMimeType(data: Buffer): string | null {
+  if (data.subarray(0, 4).toString("latin1") === "%PDF") {
+    return "application/pdf";
+  }
+  if (data[0] === 0x89 && data.subarray(1, 4).toString("latin1") === "PNG") {
+    return "image/png";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  if (data.subarray(0, 2).toString("latin1") === "BM") {
+    return "image/bmp";
+  }
+  return null;
+}
+
+async function readUpload(url: string): Promise<Buffer | null> {
+  let relative: string;
+  try {
+    relative = decodeURIComponent(url.split("?")[0]);
+  } catch {
+    return null;
+  }
+  const uploadsRoot = path.join(process.cwd(), "public", "uploads");
+  const filePath = path.join(process.cwd(), "public", relative);
+  if (!filePath.startsWith(`${uploadsRoot}${path.sep}`)) {
+    return null;
+  }
+  try {
+    return await readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+// Remote documents are only fetched from hosts listed in DOCUMENT_FETCH_HOSTS (comma-separated), so a
+// user-supplied URL cannot make the server call arbitrary or internal addresses.
+function isAllowedRemote(target: URL): boolean {
+  const hosts = (process.env.DOCUMENT_FETCH_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return (target.protocol === "https:" || target.protocol === "http:") && hosts.includes(target.hostname.toLowerCase());
+}
+
+async function fetchRemote(target: URL): Promise<Buffer | null> {
+  const response = await fetch(target, {
+    cache: "no-store",
+    redirect: "error",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  }).catch(() => null);
+  if (!response?.ok || !response.body) {
+    return null;
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_DOCUMENT_BYTES) {
+    await response.body.cancel().catch(() => undefined);
+    return null;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.length;
+      if (size > MAX_DOCUMENT_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+  return Buffer.concat(chunks);
+}
+
+// Files from /api/uploads (also as absolute links to this app) are read from disk; other URLs are fetched
+// only from allow-listed hosts.
+export async function loadStoredDocument(url: string): Promise<StoredDocument | null> {
+  let data: Buffer | null;
+  if (url.startsWith("/uploads/")) {
+    data = await readUpload(url);
+  } else {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return null;
+    }
+    if (target.origin === new URL(getAppBaseUrl()).origin && target.pathname.startsWith("/uploads/")) {
+      data = await readUpload(target.pathname);
+    } else if (isAllowedRemote(target)) {
+      data = await fetchRemote(target);
+    } else {
+      return null;
+    }
+  }
+
+  if (!data || data.length === 0 || data.length > MAX_DOCUMENT_BYTES) {
+    return null;
+  }
+
+  return {
+    url,
+    fileName: path.basename(url.split("?")[0]) || "document",
+    mimeType: detectMimeType(data),
+    data
+  };
+}
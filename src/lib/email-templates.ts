@@ -4,7 +4,14 @@ export const EMAIL_TEMPLATE_KEYS = [
   "BOOKING_REQUEST_RECEIVED",
   "BOOKING_APPROVAL_REQUIRED",
   "BOOKING_APPROVED",
-  "BOOKING_REJECTED"
+  "BOOKING_REJECTED",
+  "BOOKING_CANCELLED",
+  "WAITLIST_JOINED",
+  "WAITLIST_OFFER",
+  "MEMBER_STATEMENT",
+  "BUDGET_OVERRUN",
+  "CONTRACTOR_JOB_CARD",
+  "ASSET_REMINDERS"
 ] as const;
 
 export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
@@ -65,6 +72,8 @@ const DEFAULT_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefault> = {
       "Booking reference: {{BOOKING_REFERENCE}}",
       "Dates: {{START_DATE}} to {{END_DATE}}",
       "Amount due: {{CURRENCY}} {{TOTAL_AMOUNT}}",
+      "Deposit: {{CURRENCY}} {{DEPOSIT_AMOUNT}} due by {{DEPOSIT_DUE_DATE}}",
+      "Balance due by: {{BALANCE_DUE_DATE}}",
       "",
       "Manage your booking: {{MANAGE_URL}}"
     ].join("\n")
@@ -82,6 +91,139 @@ const DEFAULT_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefault> = {
       "",
       "Manage your booking: {{MANAGE_URL}}"
     ].join("\n")
+  },
+  BOOKING_CANCELLED: {
+    key: "BOOKING_CANCELLED",
+    name: "Booking Cancelled",
+    description: "Sent to the requester and approvers when a booking is cancelled.",
+    subjectTemplate: "Booking cancelled ({{START_DATE}} to {{END_DATE}})",
+    bodyTemplate: [
+      "This booking has been cancelled.",
+      "",
+      "Booking reference: {{BOOKING_REFERENCE}}",
+      "Dates: {{START_DATE}} to {{END_DATE}}",
+      "Reason: {{CANCELLATION_REASON}}",
+      "",
+      "Refund: {{CURRENCY}} {{REFUND_AMOUNT}} ({{REFUND_METHOD}})",
+      "Cancellation fee retained: {{CURRENCY}} {{CANCELLATION_FEE}}",
+      "",
+      "Booking details: {{MANAGE_URL}}"
+    ].join("\n")
+  },
+  WAITLIST_JOINED: {
+    key: "WAITLIST_JOINED",
+    name: "Waitlist Joined",
+    description: "Sent when a requester joins the waitlist for dates that are already taken.",
+    subjectTemplate: "You're on the waitlist ({{START_DATE}} to {{END_DATE}})",
+    bodyTemplate: [
+      "Hi {{CONTACT_NAME}},",
+      "",
+      "Those dates are currently taken, so we have added you to the waitlist.",
+      "",
+      "Dates: {{START_DATE}} to {{END_DATE}}",
+      "Position: {{WAITLIST_POSITION}}",
+      "",
+      "If the dates become available we will email you a link to confirm your booking."
+    ].join("\n")
+  },
+  WAITLIST_OFFER: {
+    key: "WAITLIST_OFFER",
+    name: "Waitlist Offer",
+    description: "Sent to the next waitlisted requester when their dates free up, with a time-limited hold.",
+    subjectTemplate: "Your waitlisted dates are available ({{START_DATE}} to {{END_DATE}})",
+    bodyTemplate: [
+      "Hi {{CONTACT_NAME}},",
+      "",
+      "Good news: the dates you were waiting for are now available.",
+      "",
+      "Dates: {{START_DATE}} to {{END_DATE}}",
+      "We are holding them for you until {{HOLD_EXPIRES_AT}}.",
+      "",
+      "Confirm your booking request: {{HOLD_URL}}",
+      "",
+      "After that the dates are offered to the next person on the waitlist."
+    ].join("\n")
+  },
+  MEMBER_STATEMENT: {
+    key: "MEMBER_STATEMENT",
+    name: "Member Statement",
+    description: "Sent to a member with their account statement attached (PDF and CSV).",
+    subjectTemplate: "Reebok House statement ({{PERIOD_START}} to {{PERIOD_END}})",
+    bodyTemplate: [
+      "Hi {{MEMBER_NAME}},",
+      "",
+      "Please find your Reebok House account statement attached.",
+      "",
+      "Period: {{PERIOD_START}} to {{PERIOD_END}}",
+      "Opening balance: {{CURRENCY}} {{OPENING_BALANCE}}",
+      "Closing balance: {{CURRENCY}} {{CLOSING_BALANCE}}",
+      "",
+      "View your statement online: {{STATEMENT_URL}}"
+    ].join("\n")
+  },
+  BUDGET_OVERRUN: {
+    key: "BUDGET_OVERRUN",
+    name: "Budget Overrun",
+    description: "Sent to shareholders the first time an expense category goes over its annual budget.",
+    subjectTemplate: "{{CATEGORY}} is over budget for {{YEAR}}",
+    bodyTemplate: [
+      "Hi {{RECIPIENT_NAME}},",
+      "",
+      "Spending on {{CATEGORY}} has gone over its {{YEAR}} budget.",
+      "",
+      "Budget: {{CURRENCY}} {{BUDGET_AMOUNT}}",
+      "Spent so far: {{CURRENCY}} {{ACTUAL_AMOUNT}}",
+      "Over by: {{CURRENCY}} {{VARIANCE_AMOUNT}}",
+      "Year-end forecast: {{CURRENCY}} {{FORECAST_AMOUNT}}",
+      "",
+      "Review the budget: {{FINANCES_URL}}"
+    ].join("\n")
+  },
+  CONTRACTOR_JOB_CARD: {
+    key: "CONTRACTOR_JOB_CARD",
+    name: "Contractor Job Card",
+    description: "Sent to a contractor when a maintenance task is assigned to them, with the task documents attached.",
+    subjectTemplate: "Job card: {{TASK_TITLE}} ({{JOB_REFERENCE}})",
+    bodyTemplate: [
+      "Hi {{CONTRACTOR_NAME}},",
+      "",
+      "Reebok House would like you to take on the following job.",
+      "",
+      "Job reference: {{JOB_REFERENCE}}",
+      "Job: {{TASK_TITLE}}",
+      "Priority: {{PRIORITY}}",
+      "Due: {{DUE_DATE}}",
+      "",
+      "{{DESCRIPTION}}",
+      "",
+      "Asset: {{ASSET_NAME}} ({{ASSET_CATEGORY}})",
+      "Location: {{ASSET_LOCATION}}",
+      "Serial number: {{ASSET_SERIAL}}",
+      "Warranty until: {{ASSET_WARRANTY_EXPIRY}}",
+      "",
+      "Attached documents: {{DOCUMENTS}}",
+      "",
+      "Please quote the job reference on your invoice."
+    ].join("\n")
+  },
+  ASSET_REMINDERS: {
+    key: "ASSET_REMINDERS",
+    name: "Asset Reminders",
+    description: "Sent to shareholders when asset warranties expire or assets reach the end of their useful life.",
+    subjectTemplate: "Asset reminders: warranties and replacements due",
+    bodyTemplate: [
+      "Hi {{RECIPIENT_NAME}},",
+      "",
+      "The following assets need attention in the next {{LEAD_DAYS}} days.",
+      "",
+      "Warranties expiring:",
+      "{{WARRANTY_LIST}}",
+      "",
+      "Reaching the end of their useful life:",
+      "{{END_OF_LIFE_LIST}}",
+      "",
+      "Review the asset register: {{ASSETS_URL}}"
+    ].join("\n")
   }
 };
 
@@ -0,0 +1,342 @@
+import { BookingSource, BookingStatus, GuestType, type FeeConfig, type SeasonalRate } from "@prisma/client";
+import {
+  calculateBookingFees,
+  FEE_LINE_LABELS,
+  readFeeSnapshot,
+  type FeeInput,
+  type FeeLineKey
+} from "@/lib/fees";
+import { prisma } from "@/lib/prisma";
+
+export type FeeConfigWithRates = FeeConfig & { seasonalRates: SeasonalRate[] };
+
+export type FeeConfigChange = {
+  field: string;
+  label: string;
+  from: string | null;
+  to: string | null;
+};
+
+// Compared field by field between versions; the label is what the versions view shows.
+const CONFIG_FIELDS: Array<[keyof FeeConfig, string]> = [
+  ["monthlyMemberSubscription", "Monthly subscription"],
+  ["memberNightRate", "Member night rate"],
+  ["dependentWithMemberNightRate", "Dependent (with member) night rate"],
+  ["dependentWithoutMemberNightRate", "Dependent (without member) night rate"],
+  ["guestOfMemberNightRate", "Guest of member night rate"],
+  ["guestOfDependentNightRate", "Guest of dependent night rate"],
+  ["mereFamilyNightRate", "Mere family night rate"],
+  ["externalAdultNightRate", "External adult night rate"],
+  ["externalChildNightRate", "External child night rate"],
+  ["externalWholeHouseMinRate", "Whole-house minimum"],
+  ["minNights", "Minimum nights"],
+  ["weeklyDiscountPercent", "Weekly discount %"],
+  ["monthlyDiscountPercent", "Monthly discount %"],
+  ["lastMinuteDays", "Last-minute window (days)"],
+  ["lastMinuteDiscountPercent", "Last-minute discount %"],
+  ["petNightFee", "Pet fee per night"],
+  ["cleaningFee", "Cleaning fee"],
+  ["damageDeposit", "Damage deposit"],
+  ["vatRegistered", "VAT registered"],
+  ["vatRate", "VAT rate %"],
+  ["vatNumber", "VAT number"],
+  ["externalRatesIncludeVat", "External rates include VAT"],
+  ["overdueReminderEnabled", "Overdue reminders"],
+  ["currency", "Currency"]
+];
+
+const SEASON_FIELDS: Array<[keyof SeasonalRate, string]> = [
+  ["priority", "priority"],
+  ["externalAdultNightRate", "external adult rate"],
+  ["externalChildNightRate", "external child rate"],
+  ["memberNightRate", "member rate"],
+  ["dependentWithMemberNightRate", "dependent (with member) rate"],
+  ["dependentWithoutMemberNightRate", "dependent (without member) rate"],
+  ["guestOfMemberNightRate", "guest of member rate"],
+  ["guestOfDependentNightRate", "guest of dependent rate"],
+  ["mereFamilyNightRate", "mere family rate"],
+  ["minNights", "minimum nights"],
+  ["enabled", "enabled"]
+];
+
+const SIMULATION_MONTHS = 12;
+
+function asText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  // Decimals compare by value so 50 and 50.00 are not reported as a change.
+  if (typeof value === "object" && "toNumber" in value) {
+    return String((value as { toNumber: () => number }).toNumber());
+  }
+  return String(value);
+}
+
+function seasonWindow(rate: SeasonalRate): string {
+  return `${rate.startDay}/${rate.startMonth} - ${rate.endDay}/${rate.endMonth}`;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function diffFeeConfigs(previous: FeeConfigWithRates | null, current: FeeConfigWithRates): FeeConfigChange[] {
+  if (!previous) {
+    return [];
+  }
+
+  const changes: FeeConfigChange[] = [];
+  for (const [field, label] of CONFIG_FIELDS) {
+    const from = asText(previous[field]);
+    const to = asText(current[field]);
+    if (from !== to) {
+      changes.push({ field, label, from, to });
+    }
+  }
+
+  // Seasons are matched by name; a renamed season shows as one removed and one added.
+  const before = new Map(previous.seasonalRates.map((rate) => [rate.name, rate]));
+  const after = new Map(current.seasonalRates.map((rate) => [rate.name, rate]));
+  for (const [name, rate] of after) {
+    const old = before.get(name);
+    if (!old) {
+      changes.push({ field: `season:${name}`, label: `Season "${name}" added`, from: null, to: seasonWindow(rate) });
+      continue;
+    }
+    if (seasonWindow(old) !== seasonWindow(rate)) {
+      changes.push({
+        field: `season:${name}:window`,
+        label: `Season "${name}" dates`,
+        from: seasonWindow(old),
+        to: seasonWindow(rate)
+      });
+    }
+    for (const [field, label] of SEASON_FIELDS) {
+      const from = asText(old[field]);
+      const to = asText(rate[field]);
+      if (from !== to) {
+        changes.push({ field: `season:${name}:${field}`, label: `Season "${name}" ${label}`, from, to });
+      }
+    }
+  }
+  for (const [name, rate] of before) {
+    if (!after.has(name)) {
+      changes.push({ field: `season:${name}`, label: `Season "${name}" removed`, from: seasonWindow(rate), to: null });
+    }
+  }
+
+  return changes;
+}
+
+// Every version, newest first, each with its changes against the version created before it.
+export async function listFeeConfigVersions() {
+  const versions = await prisma.feeConfig.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { seasonalRates: { orderBy: [{ priority: "desc" }, { name: "asc" }] } }
+  });
+
+  return versions
+    .map((version, index) => ({ ...version, changes: diffFeeConfigs(versions[index - 1] ?? null, version) }))
+    .reverse();
+}
+
+const GUEST_TYPE_COUNTS: Record<GuestType, keyof FeeInput["counts"]> = {
+  [GuestType.MEMBER]: "member",
+  [GuestType.DEPENDENT_WITH_MEMBER]: "dependentWithMember",
+  [GuestType.DEPENDENT_WITHOUT_MEMBER]: "dependentWithoutMember",
+  [GuestType.GUEST_OF_MEMBER]: "guestOfMember",
+  [GuestType.GUEST_OF_DEPENDENT]: "guestOfDependent",
+  [GuestType.MERE_FAMILY]: "mereFamily",
+  [GuestType.VISITOR_ADULT]: "visitorAdult",
+  [GuestType.VISITOR_CHILD_UNDER_6]: "visitorChildUnder6"
+};
+
+type SimulatedBooking = {
+  source: BookingSource;
+  totalGuests: number;
+  feeSnapshot: Parameters<typeof readFeeSnapshot>[0];
+  guests: Array<{ guestType: GuestType }>;
+};
+
+// Guest mix for repricing: named guests if recorded, else the quantities on the fee snapshot,
+// else every guest in the booking's default tier (older snapshots carry no quantities).
+function bookingGuestCounts(booking: SimulatedBooking): FeeInput["counts"] {
+  const counts: FeeInput["counts"] = {
+    member: 0,
+    dependentWithMember: 0,
+    dependentWithoutMember: 0,
+    guestOfMember: 0,
+    guestOfDependent: 0,
+    mereFamily: 0,
+    visitorAdult: 0,
+    visitorChildUnder6: 0
+  };
+
+  if (booking.guests.length > 0) {
+    for (const guest of booking.guests) {
+      counts[GUEST_TYPE_COUNTS[guest.guestType]] += 1;
+    }
+    return counts;
+  }
+
+  const snapshot = readFeeSnapshot(booking.feeSnapshot);
+  const seen = new Set<string>();
+  for (const item of snapshot?.lineItems ?? []) {
+    if (item.key && item.key in counts && item.quantity && !seen.has(item.key)) {
+      counts[item.key as keyof FeeInput["counts"]] = item.quantity;
+      seen.add(item.key);
+    }
+  }
+  if (seen.size > 0) {
+    return counts;
+  }
+
+  counts[booking.source === BookingSource.EXTERNAL_PUBLIC ? "visitorAdult" : "member"] = booking.totalGuests;
+  return counts;
+}
+
+function inForceConfig(configs: FeeConfigWithRates[], date: Date): FeeConfigWithRates | undefined {
+  return configs
+    .filter(
+      (config) =>
+        config.isActive && config.effectiveFrom <= date && (config.effectiveTo === null || config.effectiveTo >= date)
+    )
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+}
+
+export type FeeSimulationTier = {
+  key: FeeLineKey;
+  label: string;
+  current: number;
+  draft: number;
+  delta: number;
+};
+
+export type FeeSimulation = {
+  draftId: string;
+  windowStart: string;
+  bookingCount: number;
+  pastCount: number;
+  upcomingCount: number;
+  skippedCount: number;
+  currentTotal: number;
+  draftTotal: number;
+  delta: number;
+  tiers: FeeSimulationTier[];
+  bookings: Array<{
+    id: string;
+    startDate: string;
+    source: BookingSource;
+    current: number;
+    draft: number;
+    delta: number;
+  }>;
+};
+
+// Re-prices approved stays from the last twelve months and all upcoming approved stays twice:
+// under the version that was in force for each stay and under the draft. Both sides go through
+// the same fee engine, so deltas reflect the rate change rather than engine changes since booking.
+export async function simulateFeeConfig(draft: FeeConfigWithRates, now = new Date()): Promise<FeeSimulation> {
+  const windowStart = new Date(now);
+  windowStart.setUTCMonth(windowStart.getUTCMonth() - SIMULATION_MONTHS);
+
+  const [bookings, configs] = await Promise.all([
+    prisma.booking.findMany({
+      where: { status: BookingStatus.APPROVED, startDate: { gte: windowStart } },
+      orderBy: { startDate: "asc" },
+      select: {
+        id: true,
+        source: true,
+        startDate: true,
+        nights: true,
+        totalGuests: true,
+        petCount: true,
+        feeSnapshot: true,
+        createdAt: true,
+        guests: { select: { guestType: true } }
+      }
+    }),
+    prisma.feeConfig.findMany({ where: { isActive: true }, include: { seasonalRates: true } })
+  ]);
+
+  const tiers = new Map<FeeLineKey, FeeSimulationTier>();
+  const addToTier = (key: FeeLineKey, side: "current" | "draft", amount: number) => {
+    const tier = tiers.get(key) ?? { key, label: FEE_LINE_LABELS[key], current: 0, draft: 0, delta: 0 };
+    tier[side] += amount;
+    tiers.set(key, tier);
+  };
+
+  const rows: FeeSimulation["bookings"] = [];
+  let skippedCount = 0;
+  let pastCount = 0;
+
+  for (const booking of bookings) {
+    // Channel and imported stays are priced outside the fee engine.
+    const priced = booking.source === BookingSource.INTERNAL || booking.source === BookingSource.EXTERNAL_PUBLIC;
+    const inForce = priced ? inForceConfig(configs, booking.startDate) : undefined;
+    if (!inForce) {
+      skippedCount += 1;
+      continue;
+    }
+
+    const input: FeeInput = {
+      source: booking.source === BookingSource.EXTERNAL_PUBLIC ? "EXTERNAL_PUBLIC" : "INTERNAL",
+      startDate: booking.startDate,
+      nights: booking.nights,
+      petCount: booking.petCount,
+      bookedAt: booking.createdAt,
+      counts: bookingGuestCounts(booking)
+    };
+    const current = calculateBookingFees(input, inForce, inForce.seasonalRates.filter((rate) => rate.enabled));
+    const proposed = calculateBookingFees(input, draft, draft.seasonalRates.filter((rate) => rate.enabled));
+
+    for (const [side, breakdown] of [
+      ["current", current],
+      ["draft", proposed]
+    ] as const) {
+      for (const item of breakdown.lineItems) {
+        if (item.key && !item.refundable) {
+          addToTier(item.key, side, item.amount);
+        }
+      }
+    }
+
+    if (booking.startDate < now) {
+      pastCount += 1;
+    }
+    rows.push({
+      id: booking.id,
+      startDate: booking.startDate.toISOString().slice(0, 10),
+      source: booking.source,
+      current: current.total,
+      draft: proposed.total,
+      delta: roundCurrency(proposed.total - current.total)
+    });
+  }
+
+  const tierList = [...tiers.values()].map((tier) => ({
+    ...tier,
+    current: roundCurrency(tier.current),
+    draft: roundCurrency(tier.draft),
+    delta: roundCurrency(tier.draft - tier.current)
+  }));
+  const currentTotal = roundCurrency(rows.reduce((sum, row) => sum + row.current, 0));
+  const draftTotal = roundCurrency(rows.reduce((sum, row) => sum + row.draft, 0));
+
+  return {
+    draftId: draft.id,
+    windowStart: windowStart.toISOString().slice(0, 10),
+    bookingCount: rows.length,
+    pastCount,
+    upcomingCount: rows.length - pastCount,
+    skippedCount,
+    currentTotal,
+    draftTotal,
+    delta: roundCurrency(draftTotal - currentTotal),
+    tiers: tierList,
+    bookings: rows
+  };
+}
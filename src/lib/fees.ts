@@ -1,9 +1,12 @@
-import type { FeeConfig, SeasonalRate } from "@prisma/client";
+import type { FeeConfig, Prisma, SeasonalRate } from "@prisma/client";
 
 export type FeeInput = {
   source: "INTERNAL" | "EXTERNAL_PUBLIC";
   startDate: Date;
   nights: number;
+  petCount?: number;
+  // When the request is made; drives last-minute discounts. Defaults to now.
+  bookedAt?: Date;
   counts: {
     member: number;
     dependentWithMember: number;
@@ -16,17 +19,112 @@ export type FeeInput = {
   };
 };
 
+export type FeeLineKey =
+  | keyof FeeInput["counts"]
+  | "minimumAdjustment"
+  | "stayDiscount"
+  | "lastMinuteDiscount"
+  | "petFee"
+  | "cleaningFee"
+  | "damageDeposit"
+  | "vat";
+
+export const FEE_LINE_LABELS: Record<FeeLineKey, string> = {
+  member: "Members",
+  dependentWithMember: "Dependents (with member)",
+  dependentWithoutMember: "Dependents (without member)",
+  guestOfMember: "Guests of member",
+  guestOfDependent: "Guests of dependent",
+  mereFamily: "Mere family",
+  visitorAdult: "External visitors (adult)",
+  visitorChildUnder6: "External visitors (child under 6)",
+  minimumAdjustment: "Whole-house minimum adjustment",
+  stayDiscount: "Length-of-stay discount",
+  lastMinuteDiscount: "Last-minute discount",
+  petFee: "Pet fee",
+  cleaningFee: "Cleaning fee",
+  damageDeposit: "Refundable damage deposit",
+  vat: "VAT"
+};
+
+export type FeeLineItem = {
+  label: string;
+  amount: number;
+  key?: FeeLineKey;
+  // Set on snapshots priced per night; older snapshots only carry label and amount.
+  season?: string | null;
+  quantity?: number;
+  nights?: number;
+  rate?: number;
+  // Refundable deposits are listed but kept out of the total.
+  refundable?: boolean;
+};
+
+export type FeeSeasonSummary = {
+  season: string | null;
+  nights: number;
+  firstNight: string;
+  lastNight: string;
+  subtotal: number;
+};
+
+// VAT on an external stay. With inclusive rates the VAT is carried inside the total; otherwise
+// it is added as its own line item. Internal stays and unregistered configs carry no VAT.
+export type FeeVat = {
+  rate: number;
+  inclusive: boolean;
+  amountExclVat: number;
+  vatAmount: number;
+  amountInclVat: number;
+};
+
 export type FeeBreakdown = {
-  lineItems: Array<{ label: string; amount: number }>;
+  lineItems: FeeLineItem[];
   total: number;
   currency: string;
+  seasons?: FeeSeasonSummary[];
+  minimumNights?: number;
+  refundableDeposit?: number;
+  vat?: FeeVat;
   effectiveRateName?: string;
 };
 
+type RateKey =
+  | "memberNightRate"
+  | "dependentWithMemberNightRate"
+  | "dependentWithoutMemberNightRate"
+  | "guestOfMemberNightRate"
+  | "guestOfDependentNightRate"
+  | "mereFamilyNightRate"
+  | "externalAdultNightRate"
+  | "externalChildNightRate";
+
+type GuestTier = { count: keyof FeeInput["counts"]; rate: RateKey };
+
+const INTERNAL_TIERS: GuestTier[] = [
+  { count: "member", rate: "memberNightRate" },
+  { count: "dependentWithMember", rate: "dependentWithMemberNightRate" },
+  { count: "dependentWithoutMember", rate: "dependentWithoutMemberNightRate" },
+  { count: "guestOfMember", rate: "guestOfMemberNightRate" },
+  { count: "guestOfDependent", rate: "guestOfDependentNightRate" },
+  { count: "mereFamily", rate: "mereFamilyNightRate" }
+];
+
+const EXTERNAL_TIERS: GuestTier[] = [
+  { count: "visitorAdult", rate: "externalAdultNightRate" },
+  { count: "visitorChildUnder6", rate: "externalChildNightRate" }
+];
+
+const DAY_MS = 86400000;
+
 function asNumber(value: unknown): number {
   return Number(value ?? 0);
 }
 
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 function isDateInSeason(date: Date, rate: SeasonalRate): boolean {
   const monthDay = date.getMonth() + 1 + date.getDate() / 100;
   const seasonStart = rate.startMonth + rate.startDay / 100;
@@ -46,90 +144,254 @@ function pickSeasonalRate(date: Date, seasonalRates: SeasonalRate[]): SeasonalRa
     .sort((a, b) => b.priority - a.priority)[0];
 }
 
+// A season's override wins; internal tiers left blank on the season fall back to the base rate.
+function nightRate(key: RateKey, feeConfig: FeeConfig, season: SeasonalRate | undefined): number {
+  const override = season?.[key];
+  return override === null || override === undefined ? asNumber(feeConfig[key]) : asNumber(override);
+}
+
+// Each night is priced by the season it falls in, so a stay that runs into peak season pays
+// peak rates only for the peak nights. Line items are grouped by season in night order.
 export function calculateBookingFees(
   input: FeeInput,
   feeConfig: FeeConfig,
   seasonalRates: SeasonalRate[] = []
 ): FeeBreakdown {
   const nights = Math.max(1, input.nights);
-  const items: Array<{ label: string; amount: number }> = [];
-
-  if (input.source === "INTERNAL") {
-    items.push(
-      {
-        label: "Members",
-        amount: asNumber(feeConfig.memberNightRate) * input.counts.member * nights
-      },
-      {
-        label: "Dependents (with member)",
-        amount:
-          asNumber(feeConfig.dependentWithMemberNightRate) *
-          input.counts.dependentWithMember *
-          nights
-      },
-      {
-        label: "Dependents (without member)",
-        amount:
-          asNumber(feeConfig.dependentWithoutMemberNightRate) *
-          input.counts.dependentWithoutMember *
-          nights
-      },
-      {
-        label: "Guests of member",
-        amount: asNumber(feeConfig.guestOfMemberNightRate) * input.counts.guestOfMember * nights
-      },
-      {
-        label: "Guests of dependent",
-        amount:
-          asNumber(feeConfig.guestOfDependentNightRate) * input.counts.guestOfDependent * nights
-      },
-      {
-        label: "Mere family",
-        amount: asNumber(feeConfig.mereFamilyNightRate) * input.counts.mereFamily * nights
-      }
-    );
-  } else {
-    const activeSeason = pickSeasonalRate(input.startDate, seasonalRates);
-    const adultRate = activeSeason
-      ? asNumber(activeSeason.externalAdultNightRate)
-      : asNumber(feeConfig.externalAdultNightRate);
-    const childRate = activeSeason
-      ? asNumber(activeSeason.externalChildNightRate)
-      : asNumber(feeConfig.externalChildNightRate);
-
-    items.push(
-      {
-        label: "External visitors (adult)",
-        amount: adultRate * input.counts.visitorAdult * nights
-      },
-      {
-        label: "External visitors (child under 6)",
-        amount: childRate * input.counts.visitorChildUnder6 * nights
+  const tiers = input.source === "INTERNAL" ? INTERNAL_TIERS : EXTERNAL_TIERS;
+  const groups: Array<{ season: SeasonalRate | undefined; nights: Date[] }> = [];
+
+  for (let index = 0; index < nights; index += 1) {
+    const night = new Date(input.startDate.getTime() + index * DAY_MS);
+    const season = pickSeasonalRate(night, seasonalRates);
+    const group = groups.find((candidate) => candidate.season?.id === season?.id);
+    if (group) {
+      group.nights.push(night);
+    } else {
+      groups.push({ season, nights: [night] });
+    }
+  }
+
+  const splitAcrossSeasons = groups.length > 1;
+  const items: FeeLineItem[] = [];
+  const seasons: FeeSeasonSummary[] = groups.map((group) => {
+    const seasonName = group.season?.name ?? null;
+    let subtotal = 0;
+
+    for (const tier of tiers) {
+      const quantity = input.counts[tier.count];
+      if (quantity <= 0) {
+        continue;
       }
-    );
+      const rate = nightRate(tier.rate, feeConfig, group.season);
+      const amount = roundCurrency(rate * quantity * group.nights.length);
+      subtotal += amount;
+      items.push({
+        label: splitAcrossSeasons
+          ? `${FEE_LINE_LABELS[tier.count]} - ${seasonName ?? "Standard rate"}`
+          : FEE_LINE_LABELS[tier.count],
+        amount,
+        key: tier.count,
+        season: seasonName,
+        quantity,
+        nights: group.nights.length,
+        rate
+      });
+    }
 
+    return {
+      season: seasonName,
+      nights: group.nights.length,
+      firstNight: group.nights[0].toISOString().slice(0, 10),
+      lastNight: group.nights[group.nights.length - 1].toISOString().slice(0, 10),
+      subtotal: roundCurrency(subtotal)
+    };
+  });
+
+  if (input.source === "EXTERNAL_PUBLIC") {
     const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
     const minWholeHouse = asNumber(feeConfig.externalWholeHouseMinRate);
 
     if (minWholeHouse > 0 && subtotal < minWholeHouse) {
       items.push({
-        label: "Whole-house minimum adjustment",
-        amount: minWholeHouse - subtotal
+        label: FEE_LINE_LABELS.minimumAdjustment,
+        amount: roundCurrency(minWholeHouse - subtotal),
+        key: "minimumAdjustment"
       });
     }
+  }
 
+  items.push(...pricingRuleItems(input, nights, feeConfig, items));
+  const vat = input.source === "EXTERNAL_PUBLIC" ? vatForCharges(items, feeConfig) : undefined;
+  if (vat && !vat.inclusive) {
+    items.push({ label: `VAT (${vat.rate}%)`, amount: vat.vatAmount, key: "vat", rate: vat.rate });
+  }
+
+  const refundableDeposit = roundCurrency(asNumber(feeConfig.damageDeposit));
+  if (refundableDeposit > 0) {
+    items.push({
+      label: FEE_LINE_LABELS.damageDeposit,
+      amount: refundableDeposit,
+      key: "damageDeposit",
+      refundable: true
+    });
+  }
+
+  return {
+    lineItems: items,
+    total: roundCurrency(items.filter((item) => !item.refundable).reduce((sum, item) => sum + item.amount, 0)),
+    currency: feeConfig.currency,
+    seasons,
+    // A season's minimum replaces the base minimum; the strictest season touched by the stay applies.
+    minimumNights: Math.max(1, ...groups.map((group) => group.season?.minNights ?? feeConfig.minNights)),
+    refundableDeposit,
+    vat,
+    effectiveRateName: groups[0].season?.name
+  };
+}
+
+export function vatIncludedIn(amountInclVat: number, rate: number): number {
+  return rate > 0 ? roundCurrency((amountInclVat * rate) / (100 + rate)) : 0;
+}
+
+// Refundable deposits are not a supply, so VAT is worked out on the charges alone.
+function vatForCharges(items: FeeLineItem[], feeConfig: FeeConfig): FeeVat | undefined {
+  const rate = asNumber(feeConfig.vatRate);
+  if (!feeConfig.vatRegistered || rate <= 0) {
+    return undefined;
+  }
+
+  const charges = roundCurrency(items.filter((item) => !item.refundable).reduce((sum, item) => sum + item.amount, 0));
+  if (feeConfig.externalRatesIncludeVat) {
+    const vatAmount = vatIncludedIn(charges, rate);
     return {
-      lineItems: items,
-      total: items.reduce((sum, item) => sum + item.amount, 0),
-      currency: feeConfig.currency,
-      effectiveRateName: activeSeason?.name
+      rate,
+      inclusive: true,
+      amountExclVat: roundCurrency(charges - vatAmount),
+      vatAmount,
+      amountInclVat: charges
     };
   }
 
+  const vatAmount = roundCurrency((charges * rate) / 100);
   return {
-    lineItems: items,
-    total: items.reduce((sum, item) => sum + item.amount, 0),
-    currency: feeConfig.currency
+    rate,
+    inclusive: false,
+    amountExclVat: charges,
+    vatAmount,
+    amountInclVat: roundCurrency(charges + vatAmount)
+  };
+}
+
+// Discounts are percentages of the accommodation charge (nightly rates plus any minimum
+// adjustment). A monthly discount replaces the weekly one; a last-minute discount stacks.
+function pricingRuleItems(
+  input: FeeInput,
+  nights: number,
+  feeConfig: FeeConfig,
+  accommodation: FeeLineItem[]
+): FeeLineItem[] {
+  const items: FeeLineItem[] = [];
+  const base = accommodation.reduce((sum, item) => sum + item.amount, 0);
+
+  const monthly = asNumber(feeConfig.monthlyDiscountPercent);
+  const weekly = asNumber(feeConfig.weeklyDiscountPercent);
+  if (nights >= 28 && monthly > 0) {
+    items.push({
+      label: `Monthly stay discount (${monthly}%)`,
+      amount: -roundCurrency((base * monthly) / 100),
+      key: "stayDiscount"
+    });
+  } else if (nights >= 7 && weekly > 0) {
+    items.push({
+      label: `Weekly stay discount (${weekly}%)`,
+      amount: -roundCurrency((base * weekly) / 100),
+      key: "stayDiscount"
+    });
+  }
+
+  const lastMinute = asNumber(feeConfig.lastMinuteDiscountPercent);
+  const daysBeforeArrival = Math.floor((input.startDate.getTime() - (input.bookedAt ?? new Date()).getTime()) / DAY_MS);
+  if (lastMinute > 0 && feeConfig.lastMinuteDays > 0 && daysBeforeArrival <= feeConfig.lastMinuteDays) {
+    items.push({
+      label: `Last-minute discount (${lastMinute}%)`,
+      amount: -roundCurrency((base * lastMinute) / 100),
+      key: "lastMinuteDiscount"
+    });
+  }
+
+  const petCount = input.petCount ?? 0;
+  const petRate = asNumber(feeConfig.petNightFee);
+  if (petCount > 0 && petRate > 0) {
+    items.push({
+      label: FEE_LINE_LABELS.petFee,
+      amount: roundCurrency(petRate * petCount * nights),
+      key: "petFee",
+      quantity: petCount,
+      nights,
+      rate: petRate
+    });
+  }
+
+  const cleaningFee = asNumber(feeConfig.cleaningFee);
+  if (cleaningFee > 0) {
+    items.push({ label: FEE_LINE_LABELS.cleaningFee, amount: roundCurrency(cleaningFee), key: "cleaningFee" });
+  }
+
+  return items;
+}
+
+export function minimumNightsError(breakdown: FeeBreakdown, nights: number): string | null {
+  const minimum = breakdown.minimumNights ?? 1;
+  return nights < minimum
+    ? `These dates require a minimum stay of ${minimum} night${minimum === 1 ? "" : "s"}`
+    : null;
+}
+
+// Reads a stored Booking.feeSnapshot. Snapshots written before nightly pricing have no
+// per-season detail and are returned with their line items as they were saved.
+export function readFeeSnapshot(value: Prisma.JsonValue | null): FeeBreakdown | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value) || !Array.isArray(value.lineItems)) {
+    return null;
+  }
+
+  const lineItems = value.lineItems
+    .filter((item): item is Prisma.JsonObject => typeof item === "object" && item !== null && !Array.isArray(item))
+    .map((item) => ({
+      label: String(item.label ?? ""),
+      amount: asNumber(item.amount),
+      key: typeof item.key === "string" && item.key in FEE_LINE_LABELS ? (item.key as FeeLineKey) : undefined,
+      season: typeof item.season === "string" || item.season === null ? item.season : undefined,
+      quantity: typeof item.quantity === "number" ? item.quantity : undefined,
+      nights: typeof item.nights === "number" ? item.nights : undefined,
+      rate: typeof item.rate === "number" ? item.rate : undefined,
+      refundable: item.refundable === true ? true : undefined
+    }));
+
+  return {
+    lineItems,
+    total: asNumber(
+      value.total ?? lineItems.filter((item) => !item.refundable).reduce((sum, item) => sum + item.amount, 0)
+    ),
+    currency: typeof value.currency === "string" ? value.currency : "ZAR",
+    seasons: Array.isArray(value.seasons) ? (value.seasons as unknown as FeeSeasonSummary[]) : undefined,
+    minimumNights: typeof value.minimumNights === "number" ? value.minimumNights : undefined,
+    refundableDeposit: typeof value.refundableDeposit === "number" ? value.refundableDeposit : undefined,
+    vat: readFeeVat(value.vat),
+    effectiveRateName: typeof value.effectiveRateName === "string" ? value.effectiveRateName : undefined
+  };
+}
+
+function readFeeVat(value: Prisma.JsonValue | undefined): FeeVat | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  return {
+    rate: asNumber(value.rate),
+    inclusive: value.inclusive !== false,
+    amountExclVat: asNumber(value.amountExclVat),
+    vatAmount: asNumber(value.vatAmount),
+    amountInclVat: asNumber(value.amountInclVat)
   };
 }
 
@@ -0,0 +1,828 @@
+import {
+  BankMatchStatus,
+  BookingScope,
+  BookingSource,
+  BookingStatus,
+  ExpenseCategory,
+  FinanceImportStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma
+} from "@prisma/client";
+import { recordArrearsAdjustment } from "@/lib/arrears";
+import { BLOCKING_BOOKING_STATUSES, findConflictingBooking } from "@/lib/availability";
+import { occupancyRangesClash, type OccupancyRange } from "@/lib/booking";
+import { fromCsv } from "@/lib/csv";
+import { prisma } from "@/lib/prisma";
+import { fromXlsxBuffer } from "@/lib/xlsx";
+
+export const FINANCE_IMPORT_ENTITIES = ["expenses", "bookings", "payments", "subscriptions"] as const;
+
+export type FinanceImportEntity = (typeof FINANCE_IMPORT_ENTITIES)[number];
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  // Spreadsheet headers recognised without a mapping, compared without case, spaces or punctuation.
+  aliases: string[];
+};
+
+export type ImportRowReport = {
+  row: number;
+  values: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+  // What the row duplicates; duplicate rows are skipped on commit rather than blocking it.
+  duplicateOf: string | null;
+};
+
+export type ImportPreview = {
+  entity: FinanceImportEntity;
+  headers: string[];
+  fields: ImportField[];
+  mapping: Record<string, string | null>;
+  rows: ImportRowReport[];
+  summary: {
+    total: number;
+    ready: number;
+    withErrors: number;
+    duplicates: number;
+    withWarnings: number;
+  };
+};
+
+type SubscriptionRow = {
+  userId: string;
+  monthlyAmount: number | null;
+  arrearsAmount: number | null;
+  reminderEnabled: boolean | null;
+  lastPaymentDate: Date | null;
+  nextDueDate: Date | null;
+};
+
+type PlannedRow =
+  | { entity: "expenses"; data: Prisma.ExpenseCreateManyInput }
+  | { entity: "bookings"; data: Prisma.BookingCreateManyInput }
+  | { entity: "payments"; data: Prisma.PaymentCreateManyInput }
+  | { entity: "subscriptions"; data: SubscriptionRow };
+
+export type ValidatedImport = {
+  preview: ImportPreview;
+  planned: Array<PlannedRow | null>;
+};
+
+type SubscriptionChange = {
+  subscriptionId: string;
+  created: boolean;
+  // Ledger adjustment posted for an imported arrears amount, removed again on rollback.
+  adjustmentEntryId?: string | null;
+  previous: {
+    monthlyAmount: string;
+    arrearsAmount: string;
+    reminderEnabled: boolean;
+    lastPaymentDate: string | null;
+    nextDueDate: string | null;
+  } | null;
+};
+
+export const FINANCE_IMPORT_FIELDS: Record<FinanceImportEntity, ImportField[]> = {
+  expenses: [
+    { key: "title", label: "Title", required: true, aliases: ["item", "expense", "name"] },
+    { key: "category", label: "Category", required: false, aliases: ["type", "expensecategory"] },
+    { key: "amount", label: "Amount (incl. VAT)", required: true, aliases: ["total", "amountzar", "amountinclvat"] },
+    { key: "vatAmount", label: "VAT Amount", required: false, aliases: ["vat", "tax", "inputvat"] },
+    { key: "supplier", label: "Supplier", required: false, aliases: ["vendor", "payee", "suppliername"] },
+    { key: "invoiceNumber", label: "Invoice Number", required: false, aliases: ["invoice", "invoiceno", "invno"] },
+    { key: "description", label: "Description", required: false, aliases: ["details", "notes", "memo"] },
+    { key: "currency", label: "Currency", required: false, aliases: [] },
+    { key: "serviceDate", label: "Service Date", required: false, aliases: ["date", "invoicedate", "expensedate"] },
+    { key: "dueDate", label: "Due Date", required: false, aliases: ["due"] },
+    { key: "paidDate", label: "Paid Date", required: false, aliases: ["paid", "paymentdate", "datepaid"] }
+  ],
+  bookings: [
+    { key: "startDate", label: "Arrival", required: true, aliases: ["arrival", "checkin", "from", "start"] },
+    { key: "endDate", label: "Departure", required: true, aliases: ["departure", "checkout", "to", "end"] },
+    { key: "source", label: "Source", required: false, aliases: ["channel", "bookingsource"] },
+    { key: "status", label: "Status", required: false, aliases: ["bookingstatus"] },
+    { key: "scope", label: "Scope", required: false, aliases: [] },
+    { key: "totalGuests", label: "Guests", required: false, aliases: ["guests", "pax", "numberofguests"] },
+    { key: "nights", label: "Nights", required: false, aliases: [] },
+    { key: "totalAmount", label: "Total Amount", required: false, aliases: ["amount", "total", "price"] },
+    { key: "currency", label: "Currency", required: false, aliases: [] },
+    { key: "externalReference", label: "External Reference", required: false, aliases: ["reference", "bookingref"] },
+    { key: "externalLeadName", label: "Guest Name", required: false, aliases: ["guestname", "leadname", "name"] },
+    { key: "externalLeadEmail", label: "Guest Email", required: false, aliases: ["guestemail", "email"] },
+    { key: "notes", label: "Notes", required: false, aliases: ["comments"] }
+  ],
+  payments: [
+    { key: "amount", label: "Amount", required: true, aliases: ["total", "amountzar", "paid"] },
+    { key: "method", label: "Method", required: false, aliases: ["paymentmethod"] },
+    { key: "status", label: "Status", required: false, aliases: ["paymentstatus"] },
+    { key: "reference", label: "Reference", required: false, aliases: ["ref", "paymentreference"] },
+    { key: "bookingId", label: "Booking Id", required: false, aliases: ["booking", "bookingreference"] },
+    { key: "currency", label: "Currency", required: false, aliases: [] },
+    { key: "paidAt", label: "Paid At", required: false, aliases: ["date", "paymentdate", "datepaid"] },
+    { key: "proofFileUrl", label: "Proof URL", required: false, aliases: ["proof", "proofurl"] },
+    { key: "gatewayProvider", label: "Gateway", required: false, aliases: ["provider", "gateway"] }
+  ],
+  subscriptions: [
+    { key: "userId", label: "Member Id", required: false, aliases: ["memberid", "user"] },
+    { key: "email", label: "Member Email", required: false, aliases: ["memberemail", "emailaddress"] },
+    { key: "monthlyAmount", label: "Monthly Amount", required: false, aliases: ["monthly", "subscription", "fee"] },
+    { key: "arrearsAmount", label: "Arrears", required: false, aliases: ["arrears", "balance", "owing"] },
+    { key: "reminderEnabled", label: "Reminders", required: false, aliases: ["reminders", "remind"] },
+    { key: "lastPaymentDate", label: "Last Payment", required: false, aliases: ["lastpayment", "lastpaid"] },
+    { key: "nextDueDate", label: "Next Due", required: false, aliases: ["nextdue", "duedate"] }
+  ]
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+export function parseImportRows(format: "csv" | "xlsx", data: string): Array<Record<string, unknown>> {
+  if (format === "csv") {
+    return fromCsv(data);
+  }
+  return fromXlsxBuffer(Buffer.from(data, "base64"));
+}
+
+// An explicit mapping wins (an empty string leaves the field unmapped). Other fields take the header
+// named after them, then the first unused header matching one of their aliases.
+export function resolveColumnMapping(
+  entity: FinanceImportEntity,
+  headers: string[],
+  mapping: Record<string, string> = {}
+): Record<string, string | null> {
+  const fields = FINANCE_IMPORT_FIELDS[entity];
+  const resolved: Record<string, string | null> = {};
+  for (const field of fields) {
+    const explicit = mapping[field.key];
+    resolved[field.key] =
+      explicit !== undefined
+        ? explicit && headers.includes(explicit)
+          ? explicit
+          : null
+        : (headers.find((header) => normalizeHeader(header) === normalizeHeader(field.key)) ?? null);
+  }
+  for (const field of fields.filter((candidate) => mapping[candidate.key] === undefined && !resolved[candidate.key])) {
+    const used = new Set(Object.values(resolved));
+    const aliases = field.aliases.map(normalizeHeader);
+    resolved[field.key] =
+      headers.find((header) => !used.has(header) && aliases.includes(normalizeHeader(header))) ?? null;
+  }
+  return resolved;
+}
+
+// Collects errors and warnings while reading one row's mapped values.
+function createRowChecker(values: Record<string, string>) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const hasError = (key: string) => errors.some((error) => error.startsWith(`${key} `));
+
+  function text(key: string, maxLength = 500): string | null {
+    const value = values[key];
+    if (!value) {
+      return null;
+    }
+    if (value.length > maxLength) {
+      if (!warnings.some((warning) => warning.startsWith(`${key} `))) {
+        warnings.push(`${key} is longer than ${maxLength} characters and will be cut short`);
+      }
+      return value.slice(0, maxLength);
+    }
+    return value;
+  }
+
+  function number(key: string, options: { min?: number; integer?: boolean } = {}): number | null {
+    const value = values[key];
+    if (!value) {
+      return null;
+    }
+    const parsed = Number(value.replace(/[R\s,]/g, ""));
+    if (!Number.isFinite(parsed) || (options.integer && !Number.isInteger(parsed))) {
+      errors.push(`${key} "${value}" is not a valid ${options.integer ? "whole number" : "number"}`);
+      return null;
+    }
+    if (options.min !== undefined && parsed < options.min) {
+      errors.push(`${key} must be at least ${options.min}`);
+      return null;
+    }
+    return parsed;
+  }
+
+  // Spreadsheet dates may arrive as Excel serial day numbers.
+  function date(key: string): Date | null {
+    const value = values[key];
+    if (!value) {
+      return null;
+    }
+    const serial = Number(value);
+    const parsed =
+      Number.isFinite(serial) && serial > 20000 && serial < 80000
+        ? new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 86400000)
+        : new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      errors.push(`${key} "${value}" is not a valid date`);
+      return null;
+    }
+    return parsed;
+  }
+
+  function boolean(key: string): boolean | null {
+    const value = values[key]?.toLowerCase();
+    if (!value) {
+      return null;
+    }
+    if (["true", "yes", "y", "1"].includes(value)) {
+      return true;
+    }
+    if (["false", "no", "n", "0"].includes(value)) {
+      return false;
+    }
+    errors.push(`${key} "${values[key]}" must be yes or no`);
+    return null;
+  }
+
+  function choice<T extends string>(key: string, options: readonly T[], fallback: T): T {
+    const value = values[key];
+    if (!value) {
+      return fallback;
+    }
+    const normalized = value.toUpperCase().replace(/[\s-]+/g, "_");
+    if (!options.includes(normalized as T)) {
+      errors.push(`${key} "${value}" is not one of ${options.join(", ")}`);
+      return fallback;
+    }
+    return normalized as T;
+  }
+
+  function require(key: string, value: unknown) {
+    if ((value === null || value === undefined) && !hasError(key)) {
+      errors.push(`${key} is required`);
+    }
+  }
+
+  return { errors, warnings, hasError, text, number, date, boolean, choice, require };
+}
+
+type RowChecker = ReturnType<typeof createRowChecker>;
+
+function lowerKey(...parts: Array<string | null | undefined>): string {
+  return parts.map((part) => (part ?? "").trim().toLowerCase()).join("|");
+}
+
+async function validateExpenses(checks: RowChecker[], reports: ImportRowReport[]): Promise<Array<PlannedRow | null>> {
+  const keyed = checks.map((check) => {
+    const supplier = check.text("supplier", 200);
+    const invoiceNumber = check.text("invoiceNumber", 120);
+    return supplier && invoiceNumber ? lowerKey(supplier, invoiceNumber) : null;
+  });
+  const invoiceNumbers = checks.map((check) => check.text("invoiceNumber", 120)).filter(Boolean) as string[];
+  const existing =
+    invoiceNumbers.length > 0
+      ? await prisma.expense.findMany({
+          where: { invoiceNumber: { in: invoiceNumbers, mode: "insensitive" }, supplier: { not: null } },
+          select: { id: true, supplier: true, invoiceNumber: true }
+        })
+      : [];
+  const known = new Map(existing.map((expense) => [lowerKey(expense.supplier, expense.invoiceNumber), expense.id]));
+  const seen = new Map<string, number>();
+
+  return checks.map((check, index) => {
+    const report = reports[index];
+    const amount = check.number("amount", { min: 0.01 });
+    const vatAmount = check.number("vatAmount", { min: 0 });
+    let title = check.text("title", 200);
+    if (!title && check.text("description")) {
+      title = check.text("description", 200);
+      check.warnings.push("No title; the description is used instead");
+    }
+    check.require("title", title);
+    check.require("amount", amount);
+    if (amount !== null && vatAmount !== null && vatAmount > amount) {
+      check.errors.push("vatAmount cannot be more than amount");
+    }
+    const category = check.choice("category", Object.values(ExpenseCategory), ExpenseCategory.OTHER);
+
+    const key = keyed[index];
+    if (key && known.has(key)) {
+      report.duplicateOf = `Expense ${known.get(key)} has the same supplier and invoice number`;
+    } else if (key && seen.has(key)) {
+      report.duplicateOf = `Row ${seen.get(key)} has the same supplier and invoice number`;
+    } else if (key) {
+      seen.set(key, report.row);
+    }
+
+    return {
+      entity: "expenses",
+      data: {
+        category,
+        title: title ?? "",
+        description: check.text("description") ?? undefined,
+        supplier: check.text("supplier", 200) ?? undefined,
+        invoiceNumber: check.text("invoiceNumber", 120) ?? undefined,
+        amount: amount ?? 0,
+        vatAmount: vatAmount ?? undefined,
+        currency: check.text("currency", 3)?.toUpperCase() ?? "ZAR",
+        serviceDate: check.date("serviceDate") ?? undefined,
+        dueDate: check.date("dueDate") ?? undefined,
+        paidDate: check.date("paidDate") ?? undefined
+      }
+    };
+  });
+}
+
+async function validateBookings(checks: RowChecker[], reports: ImportRowReport[]): Promise<Array<PlannedRow | null>> {
+  const references = checks.map((check) => check.text("externalReference", 120)).filter(Boolean) as string[];
+  const existing =
+    references.length > 0
+      ? await prisma.booking.findMany({
+          where: { externalReference: { in: references } },
+          select: { id: true, source: true, externalReference: true }
+        })
+      : [];
+  const known = new Map(existing.map((booking) => [lowerKey(booking.source, booking.externalReference), booking.id]));
+  const seen = new Map<string, number>();
+
+  const planned: Array<PlannedRow | null> = checks.map((check, index) => {
+    const report = reports[index];
+    const startDate = check.date("startDate");
+    const endDate = check.date("endDate");
+    check.require("startDate", startDate);
+    check.require("endDate", endDate);
+    const stayNights =
+      startDate && endDate ? Math.round((endDate.getTime() - startDate.getTime()) / 86400000) : null;
+    if (stayNights !== null && stayNights < 1) {
+      check.errors.push("endDate must be after startDate");
+    }
+    const nights = check.number("nights", { min: 1, integer: true });
+    if (nights !== null && stayNights !== null && stayNights >= 1 && nights !== stayNights) {
+      check.warnings.push(`nights is ${nights} but the dates span ${stayNights}; the dates are used`);
+    }
+    const totalGuests = check.number("totalGuests", { min: 1, integer: true });
+    if (totalGuests === null && !check.hasError("totalGuests")) {
+      check.warnings.push("No guest count; 1 guest is assumed");
+    }
+    const source = check.choice("source", Object.values(BookingSource), BookingSource.MANUAL_IMPORT);
+    const externalReference = check.text("externalReference", 120);
+
+    const key = externalReference ? lowerKey(source, externalReference) : null;
+    if (key && known.has(key)) {
+      report.duplicateOf = `Booking ${known.get(key)} has the same source and reference`;
+    } else if (key && seen.has(key)) {
+      report.duplicateOf = `Row ${seen.get(key)} has the same source and reference`;
+    } else if (key) {
+      seen.set(key, report.row);
+    }
+
+    if (!startDate || !endDate) {
+      return null;
+    }
+    return {
+      entity: "bookings",
+      data: {
+        source,
+        status: check.choice("status", Object.values(BookingStatus), BookingStatus.PENDING),
+        scope: check.choice("scope", Object.values(BookingScope), BookingScope.WHOLE_HOUSE),
+        startDate,
+        endDate,
+        nights: stayNights ?? nights ?? 1,
+        totalGuests: totalGuests ?? 1,
+        notes: check.text("notes") ?? undefined,
+        totalAmount: check.number("totalAmount", { min: 0 }) ?? 0,
+        currency: check.text("currency", 3)?.toUpperCase() ?? "ZAR",
+        externalReference: externalReference ?? undefined,
+        externalLeadName: check.text("externalLeadName", 200) ?? undefined,
+        externalLeadEmail: check.text("externalLeadEmail", 200) ?? undefined
+      }
+    };
+  });
+
+  // Pending and approved imports hold their dates, so they must not overlap stored bookings or each other.
+  const holding: Array<{ row: number; range: OccupancyRange }> = [];
+  for (const [index, planRow] of planned.entries()) {
+    if (
+      planRow?.entity !== "bookings" ||
+      reports[index].duplicateOf ||
+      checks[index].errors.length > 0 ||
+      !BLOCKING_BOOKING_STATUSES.includes(planRow.data.status ?? BookingStatus.PENDING)
+    ) {
+      continue;
+    }
+    const range: OccupancyRange = {
+      scope: planRow.data.scope ?? BookingScope.WHOLE_HOUSE,
+      startDate: new Date(planRow.data.startDate),
+      endDate: new Date(planRow.data.endDate),
+      roomIds: []
+    };
+    const conflict = await findConflictingBooking(range);
+    const earlier = holding.find((entry) => occupancyRangesClash(range, entry.range));
+    if (conflict) {
+      checks[index].errors.push(
+        `Overlaps ${conflict.status.toLowerCase()} booking ${conflict.id} ` +
+          `(${conflict.startDate.toISOString().slice(0, 10)} to ${conflict.endDate.toISOString().slice(0, 10)})`
+      );
+    } else if (earlier) {
+      checks[index].errors.push(`Overlaps the booking on row ${earlier.row}`);
+    } else {
+      holding.push({ row: reports[index].row, range });
+    }
+  }
+
+  return planned;
+}
+
+async function validatePayments(checks: RowChecker[], reports: ImportRowReport[]): Promise<Array<PlannedRow | null>> {
+  const references = checks.map((check) => check.text("reference", 120)).filter(Boolean) as string[];
+  const bookingIds = checks.map((check) => check.text("bookingId", 60)).filter(Boolean) as string[];
+  const [existing, bookings] = await Promise.all([
+    references.length > 0
+      ? prisma.payment.findMany({
+          where: { reference: { in: references, mode: "insensitive" } },
+          select: { id: true, reference: true, amount: true }
+        })
+      : [],
+    bookingIds.length > 0
+      ? prisma.booking.findMany({ where: { id: { in: bookingIds } }, select: { id: true } })
+      : []
+  ]);
+  const known = new Map(
+    existing.map((payment) => [lowerKey(payment.reference, Number(payment.amount).toFixed(2)), payment.id])
+  );
+  const bookingSet = new Set(bookings.map((booking) => booking.id));
+  const seen = new Map<string, number>();
+
+  return checks.map((check, index) => {
+    const report = reports[index];
+    const amount = check.number("amount", { min: 0.01 });
+    check.require("amount", amount);
+    const bookingId = check.text("bookingId", 60);
+    if (bookingId && !bookingSet.has(bookingId)) {
+      check.errors.push(`bookingId "${bookingId}" does not match a booking`);
+    }
+    const reference = check.text("reference", 120);
+
+    const key = reference && amount !== null ? lowerKey(reference, amount.toFixed(2)) : null;
+    if (key && known.has(key)) {
+      report.duplicateOf = `Payment ${known.get(key)} has the same reference and amount`;
+    } else if (key && seen.has(key)) {
+      report.duplicateOf = `Row ${seen.get(key)} has the same reference and amount`;
+    } else if (key) {
+      seen.set(key, report.row);
+    }
+
+    return {
+      entity: "payments",
+      data: {
+        bookingId: bookingId && bookingSet.has(bookingId) ? bookingId : undefined,
+        amount: amount ?? 0,
+        currency: check.text("currency", 3)?.toUpperCase() ?? "ZAR",
+        method: check.choice("method", Object.values(PaymentMethod), PaymentMethod.MANUAL_PROOF),
+        status: check.choice("status", Object.values(PaymentStatus), PaymentStatus.PENDING),
+        reference: reference ?? undefined,
+        proofFileUrl: check.text("proofFileUrl") ?? undefined,
+        paidAt: check.date("paidAt") ?? undefined,
+        gatewayProvider: check.text("gatewayProvider", 50) ?? undefined
+      }
+    };
+  });
+}
+
+async function validateSubscriptions(
+  checks: RowChecker[],
+  reports: ImportRowReport[]
+): Promise<Array<PlannedRow | null>> {
+  const ids = checks.map((check) => check.text("userId", 60)).filter(Boolean) as string[];
+  const emails = checks.map((check) => check.text("email", 200)?.toLowerCase()).filter(Boolean) as string[];
+  const users =
+    ids.length > 0 || emails.length > 0
+      ? await prisma.user.findMany({
+          where: { OR: [{ id: { in: ids } }, { email: { in: emails, mode: "insensitive" } }] },
+          select: { id: true, email: true, subscription: { select: { id: true } } }
+        })
+      : [];
+  const seen = new Map<string, number>();
+
+  return checks.map((check, index) => {
+    const report = reports[index];
+    const userId = check.text("userId", 60);
+    const email = check.text("email", 200)?.toLowerCase();
+    if (!userId && !email) {
+      check.errors.push("userId or email is required");
+      return null;
+    }
+    const user = users.find((candidate) =>
+      userId ? candidate.id === userId : candidate.email.toLowerCase() === email
+    );
+    if (!user) {
+      check.errors.push(userId ? `userId "${userId}" does not match a member` : `No member has email ${email}`);
+      return null;
+    }
+    if (seen.has(user.id)) {
+      report.duplicateOf = `Row ${seen.get(user.id)} is for the same member`;
+    } else {
+      seen.set(user.id, report.row);
+    }
+
+    const monthlyAmount = check.number("monthlyAmount", { min: 0 });
+    if (user.subscription) {
+      check.warnings.push("Updates the member's existing subscription");
+    } else if (monthlyAmount === null) {
+      check.warnings.push("No monthly amount; the active fee configuration's subscription is used");
+    }
+
+    return {
+      entity: "subscriptions",
+      data: {
+        userId: user.id,
+        monthlyAmount,
+        arrearsAmount: check.number("arrearsAmount", { min: 0 }),
+        reminderEnabled: check.boolean("reminderEnabled"),
+        lastPaymentDate: check.date("lastPaymentDate"),
+        nextDueDate: check.date("nextDueDate")
+      }
+    };
+  });
+}
+
+export async function validateFinanceImport(
+  entity: FinanceImportEntity,
+  rows: Array<Record<string, unknown>>,
+  mapping: Record<string, string> = {}
+): Promise<ValidatedImport> {
+  const headers = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const resolved = resolveColumnMapping(entity, headers, mapping);
+  const fields = FINANCE_IMPORT_FIELDS[entity];
+
+  const reports: ImportRowReport[] = rows.map((row, index) => ({
+    // Row 1 is the header, so the first data row is spreadsheet row 2.
+    row: index + 2,
+    values: Object.fromEntries(
+      fields.map((field) => [field.key, resolved[field.key] ? cellText(row[resolved[field.key] as string]) : ""])
+    ),
+    errors: [],
+    warnings: [],
+    duplicateOf: null
+  }));
+  const checks = reports.map((report) => createRowChecker(report.values));
+
+  const validators = {
+    expenses: validateExpenses,
+    bookings: validateBookings,
+    payments: validatePayments,
+    subscriptions: validateSubscriptions
+  };
+  const planned = await validators[entity](checks, reports);
+
+  reports.forEach((report, index) => {
+    report.errors = checks[index].errors;
+    report.warnings = checks[index].warnings;
+  });
+  for (const field of fields.filter((candidate) => candidate.required && !resolved[candidate.key])) {
+    reports.forEach((report) => report.errors.unshift(`No column is mapped to ${field.key}`));
+  }
+
+  return {
+    preview: {
+      entity,
+      headers,
+      fields,
+      mapping: resolved,
+      rows: reports,
+      summary: {
+        total: reports.length,
+        ready: reports.filter((report) => report.errors.length === 0 && !report.duplicateOf).length,
+        withErrors: reports.filter((report) => report.errors.length > 0).length,
+        duplicates: reports.filter((report) => report.duplicateOf && report.errors.length === 0).length,
+        withWarnings: reports.filter((report) => report.warnings.length > 0).length
+      }
+    },
+    planned: planned.map((row, index) => (reports[index].errors.length === 0 ? row : null))
+  };
+}
+
+// Callers only commit imports whose preview has no errors. Everything is written in one transaction,
+// so a failure part-way leaves nothing behind.
+export async function commitFinanceImport(input: {
+  validated: ValidatedImport;
+  fileName: string | null;
+  format: string;
+  actorId: string;
+}) {
+  const { preview, planned } = input.validated;
+  const rows = planned.filter(
+    (row, index): row is PlannedRow => row !== null && !preview.rows[index].duplicateOf
+  );
+
+  return prisma.$transaction(
+    async (tx) => {
+      const batch = await tx.financeImportBatch.create({
+        data: {
+          entity: preview.entity,
+          fileName: input.fileName,
+          format: input.format,
+          columnMapping: preview.mapping as Prisma.InputJsonObject,
+          rowCount: preview.summary.total,
+          skippedCount: preview.summary.total - rows.length,
+          importedById: input.actorId
+        }
+      });
+
+      let createdCount = 0;
+      let updatedCount = 0;
+      const subscriptionChanges: SubscriptionChange[] = [];
+
+      if (preview.entity === "expenses") {
+        const data = rows.flatMap((row) => (row.entity === "expenses" ? [row.data] : []));
+        createdCount = (
+          await tx.expense.createMany({
+            data: data.map((row) => ({ ...row, createdById: input.actorId, importBatchId: batch.id }))
+          })
+        ).count;
+      }
+      if (preview.entity === "bookings") {
+        const data = rows.flatMap((row) => (row.entity === "bookings" ? [row.data] : []));
+        createdCount = (await tx.booking.createMany({ data: data.map((row) => ({ ...row, importBatchId: batch.id })) }))
+          .count;
+      }
+      if (preview.entity === "payments") {
+        const data = rows.flatMap((row) => (row.entity === "payments" ? [row.data] : []));
+        createdCount = (await tx.payment.createMany({ data: data.map((row) => ({ ...row, importBatchId: batch.id })) }))
+          .count;
+      }
+      if (preview.entity === "subscriptions") {
+        const feeConfig = await tx.feeConfig.findFirst({ where: { isActive: true }, orderBy: { createdAt: "desc" } });
+        for (const row of rows) {
+          if (row.entity !== "subscriptions") {
+            continue;
+          }
+          const data = row.data;
+          const existing = await tx.subscription.findUnique({ where: { userId: data.userId } });
+          const fields = {
+            ...(data.monthlyAmount !== null ? { monthlyAmount: data.monthlyAmount } : {}),
+            ...(data.arrearsAmount !== null ? { arrearsAmount: data.arrearsAmount } : {}),
+            ...(data.reminderEnabled !== null ? { reminderEnabled: data.reminderEnabled } : {}),
+            ...(data.lastPaymentDate ? { lastPaymentDate: data.lastPaymentDate } : {}),
+            ...(data.nextDueDate ? { nextDueDate: data.nextDueDate } : {})
+          };
+          if (existing) {
+            await tx.subscription.update({ where: { id: existing.id }, data: fields });
+            // Once the arrears ledger exists it is the source of truth; the accrual run would overwrite a bare
+            // arrearsAmount, so the imported figure is booked as an adjustment instead.
+            const adjustmentEntryId =
+              data.arrearsAmount !== null
+                ? await recordArrearsAdjustment(existing.id, data.arrearsAmount, "Finance import", tx)
+                : null;
+            subscriptionChanges.push({
+              subscriptionId: existing.id,
+              created: false,
+              adjustmentEntryId,
+              previous: {
+                monthlyAmount: existing.monthlyAmount.toString(),
+                arrearsAmount: existing.arrearsAmount.toString(),
+                reminderEnabled: existing.reminderEnabled,
+                lastPaymentDate: existing.lastPaymentDate?.toISOString() ?? null,
+                nextDueDate: existing.nextDueDate?.toISOString() ?? null
+              }
+            });
+            updatedCount += 1;
+          } else {
+            const created = await tx.subscription.create({
+              data: {
+                userId: data.userId,
+                monthlyAmount: feeConfig?.monthlyMemberSubscription ?? 100,
+                ...fields
+              }
+            });
+            subscriptionChanges.push({ subscriptionId: created.id, created: true, previous: null });
+            createdCount += 1;
+          }
+        }
+      }
+
+      return tx.financeImportBatch.update({
+        where: { id: batch.id },
+        data: {
+          createdCount,
+          updatedCount,
+          subscriptionChanges:
+            subscriptionChanges.length > 0 ? (subscriptionChanges as Prisma.InputJsonArray) : Prisma.DbNull
+        }
+      });
+    },
+    { timeout: 60000 }
+  );
+}
+
+function readSubscriptionChanges(value: Prisma.JsonValue | null): SubscriptionChange[] {
+  return Array.isArray(value) ? (value as unknown as SubscriptionChange[]) : [];
+}
+
+// Records created by the batch that other data now depends on; rolling back would orphan or misstate them.
+export async function findRollbackBlockers(batchId: string): Promise<string[]> {
+  const batch = await prisma.financeImportBatch.findUnique({ where: { id: batchId } });
+  if (!batch) {
+    return [];
+  }
+  const createdSubscriptions = readSubscriptionChanges(batch.subscriptionChanges)
+    .filter((change) => change.created)
+    .map((change) => change.subscriptionId);
+
+  const [reconciledExpenses, bookingsWithPayments, linkedPayments, paidSubscriptions] = await Promise.all([
+    prisma.expense.count({
+      where: { importBatchId: batchId, bankTransactions: { some: { matchStatus: BankMatchStatus.CONFIRMED } } }
+    }),
+    prisma.booking.count({
+      where: { importBatchId: batchId, payments: { some: { NOT: { importBatchId: batchId } } } }
+    }),
+    prisma.payment.count({
+      where: {
+        importBatchId: batchId,
+        OR: [
+          { subscriptionLinks: { some: {} } },
+          { bankTransactions: { some: { matchStatus: BankMatchStatus.CONFIRMED } } }
+        ]
+      }
+    }),
+    createdSubscriptions.length > 0
+      ? prisma.subscriptionPayment.count({ where: { subscriptionId: { in: createdSubscriptions } } })
+      : 0
+  ]);
+
+  const blockers: string[] = [];
+  if (reconciledExpenses > 0) {
+    blockers.push(`${reconciledExpenses} imported expenses are reconciled against bank transactions`);
+  }
+  if (bookingsWithPayments > 0) {
+    blockers.push(`${bookingsWithPayments} imported bookings have payments recorded against them`);
+  }
+  if (linkedPayments > 0) {
+    blockers.push(`${linkedPayments} imported payments are linked to subscriptions or bank transactions`);
+  }
+  if (paidSubscriptions > 0) {
+    blockers.push(`${paidSubscriptions} payments have been recorded on subscriptions this import created`);
+  }
+  return blockers;
+}
+
+// Deletes what the batch created and restores subscriptions it updated. Returns null if the batch
+// was rolled back in the meantime.
+export async function rollbackFinanceImport(batchId: string, actorId: string) {
+  return prisma.$transaction(
+    async (tx) => {
+      const claimed = await tx.financeImportBatch.updateMany({
+        where: { id: batchId, status: FinanceImportStatus.COMMITTED },
+        data: { status: FinanceImportStatus.ROLLED_BACK, rolledBackById: actorId, rolledBackAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const batch = await tx.financeImportBatch.findUniqueOrThrow({ where: { id: batchId } });
+      const [expenses, bookings, payments] = await Promise.all([
+        tx.expense.deleteMany({ where: { importBatchId: batchId } }),
+        tx.booking.deleteMany({ where: { importBatchId: batchId } }),
+        tx.payment.deleteMany({ where: { importBatchId: batchId } })
+      ]);
+
+      let subscriptions = 0;
+      for (const change of readSubscriptionChanges(batch.subscriptionChanges)) {
+        if (change.created) {
+          subscriptions += (await tx.subscription.deleteMany({ where: { id: change.subscriptionId } })).count;
+        } else if (change.previous) {
+          if (change.adjustmentEntryId) {
+            await tx.subscriptionLedgerEntry.deleteMany({ where: { id: change.adjustmentEntryId } });
+          }
+          subscriptions += (
+            await tx.subscription.updateMany({
+              where: { id: change.subscriptionId },
+              data: {
+                monthlyAmount: change.previous.monthlyAmount,
+                arrearsAmount: change.previous.arrearsAmount,
+                reminderEnabled: change.previous.reminderEnabled,
+                lastPaymentDate: change.previous.lastPaymentDate ? new Date(change.previous.lastPaymentDate) : null,
+                nextDueDate: change.previous.nextDueDate ? new Date(change.previous.nextDueDate) : null
+              }
+            })
+          ).count;
+        }
+      }
+
+      return {
+        batch,
+        removed: expenses.count + bookings.count + payments.count,
+        subscriptionsReverted: subscriptions
+      };
+    },
+    { timeout: 60000 }
+  );
+}
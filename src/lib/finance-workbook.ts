@@ -0,0 +1,379 @@
+import { PaymentStatus, type Prisma } from "@prisma/client";
+import { strToU8, zipSync } from "fflate";
+import { toCsv } from "@/lib/csv";
+import { readFeeSnapshot } from "@/lib/fees";
+import { prisma } from "@/lib/prisma";
+import { toXlsxWorkbookBuffer, type XlsxSheet } from "@/lib/xlsx";
+
+export type FinanceWorkbook = {
+  periodStart: string;
+  periodEnd: string;
+  sheets: XlsxSheet[];
+};
+
+const EXPORT_LIMIT = 10000;
+
+const BOOKING_HEADERS = [
+  "Booking Ref",
+  "Source",
+  "Status",
+  "Scope",
+  "Arrival",
+  "Departure",
+  "Nights",
+  "Guests",
+  "Pets",
+  "Requested By",
+  "Requester Email",
+  "Guest Names",
+  "Rooms",
+  "Total Amount",
+  "VAT Amount",
+  "Cancellation Fee",
+  "Currency",
+  "External Reference",
+  "Approved By",
+  "Approved On",
+  "Cancelled On",
+  "Created On"
+];
+
+const GUEST_HEADERS = ["Booking Ref", "Arrival", "Guest", "Type", "Age", "Nights", "Primary Contact"];
+
+const ROOM_HEADERS = ["Booking Ref", "Arrival", "Departure", "Room", "Room Code", "Guest Label", "Guests"];
+
+const PAYMENT_HEADERS = [
+  "Payment Id",
+  "Paid On",
+  "Amount",
+  "Currency",
+  "Method",
+  "Status",
+  "Reference",
+  "Payer",
+  "Payer Email",
+  "Booking Ref",
+  "Booking Arrival",
+  "Booking Guest",
+  "Months Covered",
+  "Period Start",
+  "Period End",
+  "Verified By",
+  "Gateway",
+  "Created On"
+];
+
+const SUBSCRIPTION_HEADERS = [
+  "Member",
+  "Email",
+  "Member Active",
+  "Monthly Amount",
+  "Arrears",
+  "Paid In Period",
+  "Last Payment",
+  "Next Due",
+  "Reminders",
+  "Reminder Frequency"
+];
+
+const EXPENSE_HEADERS = [
+  "Date",
+  "Category",
+  "Title",
+  "Supplier",
+  "Invoice Number",
+  "Amount Excl. VAT",
+  "VAT",
+  "Amount Incl. VAT",
+  "Currency",
+  "Due On",
+  "Paid On",
+  "Captured By",
+  "Expense Id"
+];
+
+const MAINTENANCE_HEADERS = [
+  "Title",
+  "Asset",
+  "Status",
+  "Priority",
+  "Due On",
+  "Completed On",
+  "Estimated Cost",
+  "Actual Cost",
+  "Assigned To",
+  "Created By",
+  "Created On",
+  "Task Id"
+];
+
+function dateCell(value: Date | null | undefined): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+function moneyCell(value: Prisma.Decimal | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value) * 100) / 100;
+}
+
+async function bookingSheets(from: Date, to: Date): Promise<XlsxSheet[]> {
+  const bookings = await prisma.booking.findMany({
+    where: { startDate: { lte: to }, endDate: { gte: from } },
+    orderBy: { startDate: "asc" },
+    take: EXPORT_LIMIT,
+    include: {
+      requestedBy: { select: { name: true, email: true } },
+      approvedBy: { select: { name: true } },
+      guests: { orderBy: { createdAt: "asc" } },
+      roomAllocations: { include: { room: { select: { name: true, code: true } } } }
+    }
+  });
+
+  return [
+    {
+      name: "Bookings",
+      headers: BOOKING_HEADERS,
+      moneyColumns: ["Total Amount", "VAT Amount", "Cancellation Fee"],
+      rows: bookings.map((booking) => ({
+        "Booking Ref": booking.id,
+        Source: booking.source,
+        Status: booking.status,
+        Scope: booking.scope,
+        Arrival: dateCell(booking.startDate),
+        Departure: dateCell(booking.endDate),
+        Nights: booking.nights,
+        Guests: booking.totalGuests,
+        Pets: booking.petCount,
+        "Requested By": booking.requestedBy?.name ?? booking.externalLeadName,
+        "Requester Email": booking.requestedBy?.email ?? booking.externalLeadEmail,
+        "Guest Names": booking.guests.map((guest) => guest.fullName).join(", "),
+        Rooms: booking.roomAllocations
+          .map((allocation) => `${allocation.room.name} (${allocation.guestCount})`)
+          .join(", "),
+        "Total Amount": moneyCell(booking.totalAmount),
+        "VAT Amount": moneyCell(readFeeSnapshot(booking.feeSnapshot)?.vat?.vatAmount),
+        "Cancellation Fee": moneyCell(booking.cancellationFee),
+        Currency: booking.currency,
+        "External Reference": booking.externalReference,
+        "Approved By": booking.approvedBy?.name ?? null,
+        "Approved On": dateCell(booking.approvedAt),
+        "Cancelled On": dateCell(booking.cancelledAt),
+        "Created On": dateCell(booking.createdAt)
+      }))
+    },
+    {
+      name: "Booking Guests",
+      headers: GUEST_HEADERS,
+      rows: bookings.flatMap((booking) =>
+        booking.guests.map((guest) => ({
+          "Booking Ref": booking.id,
+          Arrival: dateCell(booking.startDate),
+          Guest: guest.fullName,
+          Type: guest.guestType,
+          Age: guest.age,
+          Nights: guest.nights ?? booking.nights,
+          "Primary Contact": guest.isPrimaryContact ? "Yes" : "No"
+        }))
+      )
+    },
+    {
+      name: "Room Allocations",
+      headers: ROOM_HEADERS,
+      rows: bookings.flatMap((booking) =>
+        booking.roomAllocations.map((allocation) => ({
+          "Booking Ref": booking.id,
+          Arrival: dateCell(booking.startDate),
+          Departure: dateCell(booking.endDate),
+          Room: allocation.room.name,
+          "Room Code": allocation.room.code,
+          "Guest Label": allocation.guestLabel,
+          Guests: allocation.guestCount
+        }))
+      )
+    }
+  ];
+}
+
+async function paymentSheet(from: Date, to: Date): Promise<XlsxSheet> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      OR: [{ paidAt: { gte: from, lte: to } }, { paidAt: null, createdAt: { gte: from, lte: to } }]
+    },
+    orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }],
+    take: EXPORT_LIMIT,
+    include: {
+      payer: { select: { name: true, email: true } },
+      verifiedBy: { select: { name: true } },
+      booking: {
+        select: { id: true, startDate: true, externalLeadName: true, requestedBy: { select: { name: true } } }
+      }
+    }
+  });
+
+  return {
+    name: "Payments",
+    headers: PAYMENT_HEADERS,
+    moneyColumns: ["Amount"],
+    rows: payments.map((payment) => ({
+      "Payment Id": payment.id,
+      "Paid On": dateCell(payment.paidAt),
+      Amount: moneyCell(payment.amount),
+      Currency: payment.currency,
+      Method: payment.method,
+      Status: payment.status,
+      Reference: payment.reference,
+      Payer: payment.payer?.name ?? null,
+      "Payer Email": payment.payer?.email ?? null,
+      "Booking Ref": payment.booking?.id ?? null,
+      "Booking Arrival": dateCell(payment.booking?.startDate),
+      "Booking Guest": payment.booking?.requestedBy?.name ?? payment.booking?.externalLeadName ?? null,
+      "Months Covered": payment.monthsCovered,
+      "Period Start": dateCell(payment.periodStart),
+      "Period End": dateCell(payment.periodEnd),
+      "Verified By": payment.verifiedBy?.name ?? null,
+      Gateway: payment.gatewayProvider,
+      "Created On": dateCell(payment.createdAt)
+    }))
+  };
+}
+
+async function subscriptionSheet(from: Date, to: Date): Promise<XlsxSheet> {
+  const subscriptions = await prisma.subscription.findMany({
+    orderBy: { user: { name: "asc" } },
+    take: EXPORT_LIMIT,
+    include: {
+      user: { select: { name: true, email: true, isActive: true } },
+      payments: {
+        where: { payment: { status: PaymentStatus.CONFIRMED, paidAt: { gte: from, lte: to } } },
+        include: { payment: { select: { amount: true } } }
+      }
+    }
+  });
+
+  return {
+    name: "Subscriptions",
+    headers: SUBSCRIPTION_HEADERS,
+    moneyColumns: ["Monthly Amount", "Arrears", "Paid In Period"],
+    rows: subscriptions.map((subscription) => ({
+      Member: subscription.user.name,
+      Email: subscription.user.email,
+      "Member Active": subscription.user.isActive ? "Yes" : "No",
+      "Monthly Amount": moneyCell(subscription.monthlyAmount),
+      Arrears: moneyCell(subscription.arrearsAmount),
+      "Paid In Period": moneyCell(
+        subscription.payments.reduce((sum, link) => sum + Number(link.payment.amount), 0)
+      ),
+      "Last Payment": dateCell(subscription.lastPaymentDate),
+      "Next Due": dateCell(subscription.nextDueDate),
+      Reminders: subscription.reminderEnabled ? "Yes" : "No",
+      "Reminder Frequency": subscription.reminderFrequency
+    }))
+  };
+}
+
+async function expenseSheet(from: Date, to: Date): Promise<XlsxSheet> {
+  const expenses = await prisma.expense.findMany({
+    where: {
+      OR: [{ serviceDate: { gte: from, lte: to } }, { serviceDate: null, createdAt: { gte: from, lte: to } }]
+    },
+    orderBy: [{ serviceDate: "asc" }, { createdAt: "asc" }],
+    take: EXPORT_LIMIT,
+    include: { createdBy: { select: { name: true } } }
+  });
+
+  // Amounts are stored VAT-inclusive.
+  return {
+    name: "Expenses",
+    headers: EXPENSE_HEADERS,
+    moneyColumns: ["Amount Excl. VAT", "VAT", "Amount Incl. VAT"],
+    rows: expenses.map((expense) => ({
+      Date: dateCell(expense.serviceDate ?? expense.createdAt),
+      Category: expense.category,
+      Title: expense.title,
+      Supplier: expense.supplier,
+      "Invoice Number": expense.invoiceNumber,
+      "Amount Excl. VAT": moneyCell(Number(expense.amount) - Number(expense.vatAmount ?? 0)),
+      VAT: moneyCell(expense.vatAmount ?? 0),
+      "Amount Incl. VAT": moneyCell(expense.amount),
+      Currency: expense.currency,
+      "Due On": dateCell(expense.dueDate),
+      "Paid On": dateCell(expense.paidDate),
+      "Captured By": expense.createdBy?.name ?? null,
+      "Expense Id": expense.id
+    }))
+  };
+}
+
+async function maintenanceSheet(from: Date, to: Date): Promise<XlsxSheet> {
+  const tasks = await prisma.maintenanceTask.findMany({
+    where: {
+      OR: [
+        { createdAt: { gte: from, lte: to } },
+        { dueDate: { gte: from, lte: to } },
+        { completedAt: { gte: from, lte: to } }
+      ]
+    },
+    orderBy: { createdAt: "asc" },
+    take: EXPORT_LIMIT,
+    include: {
+      asset: { select: { name: true } },
+      assignedTo: { select: { name: true } },
+      createdBy: { select: { name: true } }
+    }
+  });
+
+  return {
+    name: "Maintenance Tasks",
+    headers: MAINTENANCE_HEADERS,
+    moneyColumns: ["Estimated Cost", "Actual Cost"],
+    rows: tasks.map((task) => ({
+      Title: task.title,
+      Asset: task.asset?.name ?? null,
+      Status: task.status,
+      Priority: task.priority,
+      "Due On": dateCell(task.dueDate),
+      "Completed On": dateCell(task.completedAt),
+      "Estimated Cost": moneyCell(task.estimatedCost),
+      "Actual Cost": moneyCell(task.actualCost),
+      "Assigned To": task.assignedTo?.name ?? null,
+      "Created By": task.createdBy?.name ?? null,
+      "Created On": dateCell(task.createdAt),
+      "Task Id": task.id
+    }))
+  };
+}
+
+// Bookings are included when the stay overlaps the period; subscriptions are a current snapshot with the
+// confirmed payments received in the period.
+export async function buildFinanceWorkbook(from: Date, to: Date): Promise<FinanceWorkbook> {
+  const [bookings, payments, subscriptions, expenses, maintenance] = await Promise.all([
+    bookingSheets(from, to),
+    paymentSheet(from, to),
+    subscriptionSheet(from, to),
+    expenseSheet(from, to),
+    maintenanceSheet(from, to)
+  ]);
+
+  return {
+    periodStart: dateCell(from) as string,
+    periodEnd: dateCell(to) as string,
+    sheets: [...bookings, payments, subscriptions, expenses, maintenance]
+  };
+}
+
+export function financeWorkbookFileName(workbook: FinanceWorkbook, extension: "xlsx" | "zip"): string {
+  return `finance-${workbook.periodStart}-to-${workbook.periodEnd}.${extension}`;
+}
+
+export function financeWorkbookToXlsx(workbook: FinanceWorkbook): Buffer {
+  return toXlsxWorkbookBuffer(workbook.sheets);
+}
+
+export function financeWorkbookToZip(workbook: FinanceWorkbook): Uint8Array {
+  const files = Object.fromEntries(
+    workbook.sheets.map((sheet) => [
+      `${sheet.name.toLowerCase().replace(/\s+/g, "-")}.csv`,
+      strToU8(toCsv(sheet.rows, sheet.headers))
+    ])
+  );
+  return zipSync(files);
+}
@@ -0,0 +1,541 @@
+import {
+  BookingSource,
+  BookingStatus,
+  ExpenseCategory,
+  PaymentStatus,
+  SubscriptionLedgerEntryType
+} from "@prisma/client";
+import { readFeeSnapshot, vatIncludedIn } from "@/lib/fees";
+import {
+  A4_LANDSCAPE,
+  addPdfPage,
+  createPdfDocument,
+  drawLine,
+  drawRect,
+  drawText,
+  renderPdf,
+  truncatePdfText,
+  type PdfPage
+} from "@/lib/pdf";
+import { prisma } from "@/lib/prisma";
+import { toXlsxWorkbookBuffer } from "@/lib/xlsx";
+
+export type ReportLine = {
+  key: string;
+  label: string;
+  current: number;
+  previous: number;
+  // Percentage change on the previous year; null when there is nothing to compare with.
+  change: number | null;
+};
+
+export type IncomeStatement = {
+  bookingIncome: ReportLine[];
+  subscriptionIncome: ReportLine[];
+  totalIncome: ReportLine;
+  expenses: ReportLine[];
+  totalExpenses: ReportLine;
+  netIncome: ReportLine;
+};
+
+export type CashFlowMonth = {
+  month: number;
+  label: string;
+  bookingReceipts: number;
+  subscriptionReceipts: number;
+  refunds: number;
+  expensesPaid: number;
+  net: number;
+  cumulative: number;
+  previousNet: number;
+  change: number | null;
+};
+
+export type CashFlowTotals = {
+  bookingReceipts: number;
+  subscriptionReceipts: number;
+  refunds: number;
+  expensesPaid: number;
+  net: number;
+};
+
+export type FinancialReport = {
+  year: number;
+  previousYear: number;
+  currency: string;
+  vatRegistered: boolean;
+  periodStart: string;
+  periodEnd: string;
+  previousPeriodEnd: string;
+  incomeStatement: IncomeStatement;
+  cashFlow: {
+    months: CashFlowMonth[];
+    totals: CashFlowTotals;
+    previousTotals: CashFlowTotals;
+  };
+  generatedAt: string;
+};
+
+type DatedAmount = { date: Date; key: string; amount: number };
+
+type CashKey = keyof Omit<CashFlowTotals, "net">;
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const SOURCE_LABELS: Record<BookingSource, string> = {
+  INTERNAL: "Member stays",
+  EXTERNAL_PUBLIC: "External guest stays",
+  AIRBNB: "Airbnb",
+  BOOKING_COM: "Booking.com",
+  MANUAL_IMPORT: "Imported bookings"
+};
+
+const SUBSCRIPTION_LINES = [
+  { key: "CHARGE", label: "Member subscriptions" },
+  { key: "ADJUSTMENT", label: "Subscription adjustments" }
+];
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+function categoryLabel(category: ExpenseCategory): string {
+  const words = category.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+}
+
+function reportLine(key: string, label: string, current: number, previous: number): ReportLine {
+  const rounded = { current: roundCurrency(current), previous: roundCurrency(previous) };
+  return { key, label, ...rounded, change: percentChange(rounded.current, rounded.previous) };
+}
+
+function totalLine(key: string, label: string, lines: ReportLine[]): ReportLine {
+  return reportLine(
+    key,
+    label,
+    lines.reduce((sum, line) => sum + line.current, 0),
+    lines.reduce((sum, line) => sum + line.previous, 0)
+  );
+}
+
+function sumWithin(amounts: DatedAmount[], key: string, from: Date, to: Date): number {
+  return amounts
+    .filter((entry) => entry.key === key && entry.date >= from && entry.date <= to)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+// Invoice basis, as for VAT: stays count as income when approved and cancelled stays only for the
+// fee retained, at cancellation. Subscription income is what was charged to members; credit notes
+// for cancelled stays land on the subscription ledger but are not subscription income.
+async function collectIncome(from: Date, to: Date, excludeVat: boolean) {
+  const [approved, cancelled, ledgerEntries, expenses] = await Promise.all([
+    prisma.booking.findMany({
+      where: { status: BookingStatus.APPROVED, approvedAt: { gte: from, lte: to } },
+      select: { source: true, approvedAt: true, totalAmount: true, feeSnapshot: true }
+    }),
+    prisma.booking.findMany({
+      where: { status: BookingStatus.CANCELLED, cancellationFee: { gt: 0 }, cancelledAt: { gte: from, lte: to } },
+      select: { cancelledAt: true, cancellationFee: true, feeSnapshot: true }
+    }),
+    prisma.subscriptionLedgerEntry.findMany({
+      where: {
+        type: { in: [SubscriptionLedgerEntryType.CHARGE, SubscriptionLedgerEntryType.ADJUSTMENT] },
+        NOT: { entryKey: { startsWith: "credit-note:" } },
+        periodStart: { gte: from, lte: to }
+      },
+      select: { type: true, periodStart: true, amount: true }
+    }),
+    prisma.expense.findMany({
+      where: {
+        OR: [{ serviceDate: { gte: from, lte: to } }, { serviceDate: null, createdAt: { gte: from, lte: to } }]
+      },
+      select: { category: true, amount: true, vatAmount: true, serviceDate: true, createdAt: true }
+    })
+  ]);
+
+  const income: DatedAmount[] = [
+    ...approved.map((booking) => ({
+      date: booking.approvedAt as Date,
+      key: booking.source,
+      amount: readFeeSnapshot(booking.feeSnapshot)?.vat?.amountExclVat ?? Number(booking.totalAmount ?? 0)
+    })),
+    ...cancelled.map((booking) => {
+      const fee = Number(booking.cancellationFee ?? 0);
+      const rate = readFeeSnapshot(booking.feeSnapshot)?.vat?.rate ?? 0;
+      return { date: booking.cancelledAt as Date, key: "CANCELLATION_FEES", amount: fee - vatIncludedIn(fee, rate) };
+    }),
+    ...ledgerEntries.map((entry) => ({ date: entry.periodStart, key: entry.type, amount: Number(entry.amount) }))
+  ];
+
+  // Input VAT is only recoverable, and so only kept out of costs, when the company is VAT registered.
+  const costs: DatedAmount[] = expenses.map((expense) => ({
+    date: expense.serviceDate ?? expense.createdAt,
+    key: expense.category,
+    amount: Number(expense.amount) - (excludeVat ? Number(expense.vatAmount ?? 0) : 0)
+  }));
+
+  return { income, costs };
+}
+
+// Cash basis: confirmed payments by date paid, refunds paid out (credit notes move no cash) and
+// expenses by the date they were paid.
+async function collectCash(from: Date, to: Date): Promise<DatedAmount[]> {
+  const [payments, expenses] = await Promise.all([
+    prisma.payment.findMany({
+      where: {
+        status: { in: [PaymentStatus.CONFIRMED, PaymentStatus.REFUNDED] },
+        paidAt: { gte: from, lte: to },
+        OR: [{ reference: null }, { NOT: { reference: { startsWith: "credit-note:" } } }]
+      },
+      select: { status: true, bookingId: true, amount: true, paidAt: true }
+    }),
+    prisma.expense.findMany({
+      where: { paidDate: { gte: from, lte: to } },
+      select: { amount: true, paidDate: true }
+    })
+  ]);
+
+  return [
+    ...payments.map((payment) => ({
+      date: payment.paidAt as Date,
+      key:
+        payment.status === PaymentStatus.REFUNDED
+          ? "refunds"
+          : payment.bookingId
+            ? "bookingReceipts"
+            : "subscriptionReceipts",
+      amount: Number(payment.amount)
+    })),
+    ...expenses.map((expense) => ({
+      date: expense.paidDate as Date,
+      key: "expensesPaid",
+      amount: Number(expense.amount)
+    }))
+  ];
+}
+
+function cashTotals(cash: DatedAmount[], from: Date, to: Date): CashFlowTotals {
+  const keys: CashKey[] = ["bookingReceipts", "subscriptionReceipts", "refunds", "expensesPaid"];
+  const totals = Object.fromEntries(
+    keys.map((key) => [key, roundCurrency(sumWithin(cash, key, from, to))])
+  ) as Record<CashKey, number>;
+  return {
+    ...totals,
+    net: roundCurrency(totals.bookingReceipts + totals.subscriptionReceipts - totals.refunds - totals.expensesPaid)
+  };
+}
+
+// A year still in progress is compared with the same part of the previous year.
+export async function buildFinancialReport(year: number, now = new Date()): Promise<FinancialReport> {
+  const from = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999));
+  const to = now < yearEnd ? now : yearEnd;
+  const previousFrom = new Date(Date.UTC(year - 1, 0, 1));
+  const previousYearEnd = new Date(Date.UTC(year - 1, 11, 31, 23, 59, 59, 999));
+  const previousTo = new Date(to);
+  previousTo.setUTCFullYear(year - 1);
+
+  const feeConfig = await prisma.feeConfig.findFirst({
+    where: { isActive: true, effectiveFrom: { lte: to } },
+    orderBy: { effectiveFrom: "desc" }
+  });
+  const vatRegistered = feeConfig?.vatRegistered ?? false;
+
+  const [{ income, costs }, cash] = await Promise.all([
+    collectIncome(previousFrom, to, vatRegistered),
+    collectCash(previousFrom, yearEnd)
+  ]);
+
+  const compare = (amounts: DatedAmount[], key: string, label: string) =>
+    reportLine(key, label, sumWithin(amounts, key, from, to), sumWithin(amounts, key, previousFrom, previousTo));
+
+  const bookingIncome = [
+    ...Object.values(BookingSource).map((source) => compare(income, source, SOURCE_LABELS[source])),
+    compare(income, "CANCELLATION_FEES", "Cancellation fees retained")
+  ];
+  const subscriptionIncome = SUBSCRIPTION_LINES.map((line) => compare(income, line.key, line.label));
+  const expenses = Object.values(ExpenseCategory).map((category) =>
+    compare(costs, category, categoryLabel(category))
+  );
+  const totalIncome = totalLine("TOTAL_INCOME", "Total income", [...bookingIncome, ...subscriptionIncome]);
+  const totalExpenses = totalLine("TOTAL_EXPENSES", "Total expenses", expenses);
+
+  let cumulative = 0;
+  const months = MONTH_LABELS.map((label, month) => {
+    const totals = cashTotals(
+      cash,
+      new Date(Date.UTC(year, month, 1)),
+      new Date(Date.UTC(year, month + 1, 1) - 1)
+    );
+    const previous = cashTotals(
+      cash,
+      new Date(Date.UTC(year - 1, month, 1)),
+      new Date(Date.UTC(year - 1, month + 1, 1) - 1)
+    );
+    cumulative = roundCurrency(cumulative + totals.net);
+    return {
+      month: month + 1,
+      label,
+      ...totals,
+      cumulative,
+      previousNet: previous.net,
+      change: percentChange(totals.net, previous.net)
+    };
+  });
+
+  return {
+    year,
+    previousYear: year - 1,
+    currency: feeConfig?.currency ?? "ZAR",
+    vatRegistered,
+    periodStart: dateLabel(from),
+    periodEnd: dateLabel(to),
+    previousPeriodEnd: dateLabel(previousTo),
+    incomeStatement: {
+      bookingIncome,
+      subscriptionIncome,
+      totalIncome,
+      expenses,
+      totalExpenses,
+      netIncome: reportLine(
+        "NET_INCOME",
+        "Net income",
+        totalIncome.current - totalExpenses.current,
+        totalIncome.previous - totalExpenses.previous
+      )
+    },
+    cashFlow: {
+      months,
+      totals: cashTotals(cash, from, yearEnd),
+      previousTotals: cashTotals(cash, previousFrom, previousYearEnd)
+    },
+    generatedAt: new Date().toISOString()
+  };
+}
+
+export function financialReportFileName(report: FinancialReport, extension: "pdf" | "xlsx"): string {
+  return `financial-report-${report.year}.${extension}`;
+}
+
+function changeLabel(change: number | null): string {
+  return change === null ? "" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+function incomeStatementRows(report: FinancialReport): Array<{ section: string; line: ReportLine; total?: boolean }> {
+  const statement = report.incomeStatement;
+  return [
+    ...statement.bookingIncome.map((line) => ({ section: "Booking income", line })),
+    ...statement.subscriptionIncome.map((line) => ({ section: "Subscription income", line })),
+    { section: "Income", line: statement.totalIncome, total: true },
+    ...statement.expenses.map((line) => ({ section: "Expenses", line })),
+    { section: "Expenses", line: statement.totalExpenses, total: true },
+    { section: "Result", line: statement.netIncome, total: true }
+  ];
+}
+
+export function financialReportToXlsx(report: FinancialReport): Buffer {
+  const current = String(report.year);
+  const previous = String(report.previousYear);
+  return toXlsxWorkbookBuffer([
+    {
+      name: "Income Statement",
+      headers: ["Section", "Line", current, previous, "Change %"],
+      moneyColumns: [current, previous],
+      rows: incomeStatementRows(report).map(({ section, line }) => ({
+        Section: section,
+        Line: line.label,
+        [current]: line.current,
+        [previous]: line.previous,
+        "Change %": line.change
+      }))
+    },
+    {
+      name: "Cash Flow",
+      headers: [
+        "Month",
+        "Booking Receipts",
+        "Subscription Receipts",
+        "Refunds Paid",
+        "Expenses Paid",
+        "Net Cash Flow",
+        "Cumulative",
+        `Net ${previous}`,
+        "Change %"
+      ],
+      moneyColumns: [
+        "Booking Receipts",
+        "Subscription Receipts",
+        "Refunds Paid",
+        "Expenses Paid",
+        "Net Cash Flow",
+        "Cumulative",
+        `Net ${previous}`
+      ],
+      rows: [
+        ...report.cashFlow.months.map((month) => ({
+          Month: `${month.label} ${report.year}`,
+          "Booking Receipts": month.bookingReceipts,
+          "Subscription Receipts": month.subscriptionReceipts,
+          "Refunds Paid": month.refunds,
+          "Expenses Paid": month.expensesPaid,
+          "Net Cash Flow": month.net,
+          Cumulative: month.cumulative,
+          [`Net ${previous}`]: month.previousNet,
+          "Change %": month.change
+        })),
+        {
+          Month: "Total",
+          "Booking Receipts": report.cashFlow.totals.bookingReceipts,
+          "Subscription Receipts": report.cashFlow.totals.subscriptionReceipts,
+          "Refunds Paid": report.cashFlow.totals.refunds,
+          "Expenses Paid": report.cashFlow.totals.expensesPaid,
+          "Net Cash Flow": report.cashFlow.totals.net,
+          [`Net ${previous}`]: report.cashFlow.previousTotals.net,
+          "Change %": percentChange(report.cashFlow.totals.net, report.cashFlow.previousTotals.net)
+        }
+      ]
+    }
+  ]);
+}
+
+type PdfColumn = { label: string; x: number; width: number; align?: "right" };
+
+const INCOME_COLUMNS: PdfColumn[] = [
+  { label: "", x: 40, width: 300 },
+  { label: "", x: 420, width: 80, align: "right" },
+  { label: "", x: 500, width: 80, align: "right" },
+  { label: "Change", x: 555, width: 50, align: "right" }
+];
+
+const CASH_COLUMNS: PdfColumn[] = [
+  { label: "Month", x: 40, width: 50 },
+  { label: "Bookings", x: 180, width: 80, align: "right" },
+  { label: "Subscriptions", x: 270, width: 80, align: "right" },
+  { label: "Refunds", x: 360, width: 80, align: "right" },
+  { label: "Expenses", x: 450, width: 80, align: "right" },
+  { label: "Net", x: 540, width: 80, align: "right" },
+  { label: "Cumulative", x: 630, width: 80, align: "right" },
+  { label: "Prior year", x: 720, width: 80, align: "right" },
+  { label: "Change", x: 800, width: 50, align: "right" }
+];
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+export function financialReportToPdf(report: FinancialReport): Buffer {
+  const document = createPdfDocument(`Financial Report ${report.year}`);
+  const rowHeight = 16;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  let page: PdfPage;
+  let y = 0;
+
+  const drawColumnHeader = (columns: PdfColumn[], labels: string[]) => {
+    drawRect(page, 36, y - 11, page.width - 72, rowHeight, { fill: [0.91, 0.94, 0.9] });
+    columns.forEach((column, index) => {
+      drawText(page, labels[index] ?? column.label, column.x, y, { size: 9, bold: true, align: column.align });
+    });
+    y += rowHeight;
+  };
+
+  const drawRow = (columns: PdfColumn[], cells: string[], bold = false) => {
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      drawText(page, truncatePdfText(cell, column.width, 9, bold), column.x, y, {
+        size: 9,
+        bold,
+        align: column.align
+      });
+    });
+    y += rowHeight;
+  };
+
+  page = addPdfPage(document);
+  y = 50;
+  drawText(page, `Reebok House - Income Statement ${report.year}`, 40, y, { size: 16, bold: true });
+  y += 22;
+  drawText(
+    page,
+    `${report.periodStart} to ${report.periodEnd}, compared with ${report.previousYear} to ${report.previousPeriodEnd}`,
+    40,
+    y,
+    { size: 10, color: grey }
+  );
+  y += 14;
+  const basis = report.vatRegistered ? "excluding VAT" : "including VAT";
+  drawText(page, `${report.currency}, ${basis}. Generated ${report.generatedAt.slice(0, 10)}`, 40, y, {
+    size: 9,
+    color: grey
+  });
+  y += 24;
+  drawColumnHeader(INCOME_COLUMNS, ["", String(report.year), String(report.previousYear), "Change"]);
+
+  let section = "";
+  for (const row of incomeStatementRows(report)) {
+    if (!row.total && row.section !== section) {
+      section = row.section;
+      y += 4;
+      drawText(page, section, 40, y, { size: 10, bold: true });
+      y += rowHeight;
+    }
+    if (row.total) {
+      drawLine(page, 36, y - 11, page.width - 36, y - 11);
+    }
+    drawRow(
+      INCOME_COLUMNS,
+      [row.line.label, money(row.line.current), money(row.line.previous), changeLabel(row.line.change)],
+      row.total
+    );
+  }
+
+  page = addPdfPage(document, A4_LANDSCAPE);
+  y = 50;
+  drawText(page, `Reebok House - Monthly Cash Flow ${report.year}`, 40, y, { size: 16, bold: true });
+  y += 22;
+  drawText(page, `Cash received and paid out by month, compared with ${report.previousYear}`, 40, y, {
+    size: 10,
+    color: grey
+  });
+  y += 24;
+  drawColumnHeader(CASH_COLUMNS, []);
+  for (const month of report.cashFlow.months) {
+    drawRow(CASH_COLUMNS, [
+      month.label,
+      money(month.bookingReceipts),
+      money(month.subscriptionReceipts),
+      money(month.refunds),
+      money(month.expensesPaid),
+      money(month.net),
+      money(month.cumulative),
+      money(month.previousNet),
+      changeLabel(month.change)
+    ]);
+  }
+  const { totals, previousTotals } = report.cashFlow;
+  drawLine(page, 36, y - 11, page.width - 36, y - 11);
+  drawRow(
+    CASH_COLUMNS,
+    [
+      "Total",
+      money(totals.bookingReceipts),
+      money(totals.subscriptionReceipts),
+      money(totals.refunds),
+      money(totals.expensesPaid),
+      money(totals.net),
+      "",
+      money(previousTotals.net),
+      changeLabel(percentChange(totals.net, previousTotals.net))
+    ],
+    true
+  );
+
+  return renderPdf(document);
+}
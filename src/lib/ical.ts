@@ -0,0 +1,215 @@
+export type ICalEvent = {
+  uid: string;
+  summary?: string;
+  description?: string;
+  status?: string;
+  startDate: Date;
+  endDate: Date;
+};
+
+export type ICalParseResult = {
+  events: ICalEvent[];
+  errors: string[];
+  // UIDs of events that were present but could not be read; callers must not treat them as removed.
+  invalidUids: string[];
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const separator = line.indexOf(":");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ""] = part.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
+
+// Date-only values and floating/TZID times are read as UTC; channel feeds only block whole days.
+export function parseICalDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = match;
+  return new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds))
+  );
+}
+
+// An HTML error page or an empty body must not look like a calendar with no events.
+export function parseICalendar(content: string): ICalParseResult {
+  const lines = unfoldLines(content);
+  if (lines[0]?.replace(/^\uFEFF/, "").trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    throw new Error("Feed is not an iCalendar file (BEGIN:VCALENDAR missing).");
+  }
+  if (!lines.some((line) => line.trim().toUpperCase() === "END:VCALENDAR")) {
+    throw new Error("Feed is incomplete (END:VCALENDAR missing).");
+  }
+
+  const events: ICalEvent[] = [];
+  const errors: string[] = [];
+  const invalidUids: string[] = [];
+  let current: Record<string, ContentLine> | null = null;
+  let eventIndex = 0;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) {
+      continue;
+    }
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = {};
+      eventIndex += 1;
+      continue;
+    }
+
+    if (line.name === "END" && line.value.toUpperCase() === "VEVENT") {
+      if (!current) {
+        continue;
+      }
+
+      const uid = current.UID?.value.trim();
+      const startDate = current.DTSTART ? parseICalDate(current.DTSTART.value) : null;
+      let endDate = current.DTEND ? parseICalDate(current.DTEND.value) : null;
+
+      if (!uid) {
+        errors.push(`Event ${eventIndex}: missing UID.`);
+      } else if (!startDate) {
+        errors.push(`Event ${eventIndex} (${uid}): missing or invalid DTSTART.`);
+        invalidUids.push(uid);
+      } else {
+        endDate = endDate ?? new Date(startDate.getTime() + MS_PER_DAY);
+        if (endDate <= startDate) {
+          errors.push(`Event ${eventIndex} (${uid}): DTEND must be after DTSTART.`);
+          invalidUids.push(uid);
+        } else {
+          events.push({
+            uid,
+            summary: current.SUMMARY ? unescapeText(current.SUMMARY.value) : undefined,
+            description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION.value) : undefined,
+            status: current.STATUS?.value.toUpperCase(),
+            startDate,
+            endDate
+          });
+        }
+      }
+
+      current = null;
+      continue;
+    }
+
+    if (current && !(line.name in current)) {
+      current[line.name] = line;
+    }
+  }
+
+  if (current) {
+    errors.push(`Event ${eventIndex}: missing END:VEVENT.`);
+    const uid = current.UID?.value.trim();
+    if (uid) {
+      invalidUids.push(uid);
+    }
+  }
+
+  return { events, errors, invalidUids };
+}
+
+export type ICalExportEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  startDate: Date;
+  endDate: Date;
+  updatedAt?: Date;
+};
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function formatICalDate(value: Date): string {
+  return value.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatICalDateTime(value: Date): string {
+  return `${value.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+export function serializeICalendar(calendarName: string, events: ICalExportEvent[]): string {
+  const stamp = formatICalDateTime(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Sandeney Pty Ltd//Reebok House Manager//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.updatedAt ? formatICalDateTime(event.updatedAt) : stamp}`,
+      `DTSTART;VALUE=DATE:${formatICalDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(event.endDate)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    lines.push("TRANSP:OPAQUE", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
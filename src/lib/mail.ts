@@ -5,6 +5,7 @@ export type MailPayload = {
   subject: string;
   text: string;
   html?: string;
+  attachments?: Array<{ filename: string; content: Buffer | string; contentType?: string }>;
 };
 
 function createTransport() {
@@ -36,7 +37,8 @@ export async function sendMail(payload: MailPayload): Promise<void> {
     to: payload.to,
     subject: payload.subject,
     text: payload.text,
-    html: payload.html
+    html: payload.html,
+    attachments: payload.attachments
   });
 }
 
@@ -0,0 +1,221 @@
+import {
+  ExpenseCategory,
+  MaintenanceQuoteStatus,
+  MaintenanceStatus,
+  UserRole,
+  type Expense,
+  type MaintenancePolicy,
+  type Prisma
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export const MAINTENANCE_POLICY_ID = "default";
+
+export type SpendApprovalStatus = {
+  committedCost: number | null;
+  threshold: number;
+  requiredApprovals: number;
+  needsApproval: boolean;
+  approvals: Array<{
+    userId: string;
+    name: string;
+    amount: number;
+    note: string | null;
+    createdAt: string;
+    // False once the committed cost has risen above the amount this shareholder approved.
+    current: boolean;
+  }>;
+  approvedCount: number;
+  remaining: number;
+};
+
+type ApprovalTask = {
+  estimatedCost: Prisma.Decimal | number | null;
+  quotes: Array<{ amount: Prisma.Decimal | number; status: MaintenanceQuoteStatus }>;
+  approvals: Array<{
+    userId: string;
+    amount: Prisma.Decimal | number;
+    note: string | null;
+    createdAt: Date;
+    user: { name: string; role: UserRole; isActive: boolean };
+  }>;
+};
+
+export const SPEND_APPROVAL_INCLUDE = {
+  quotes: { select: { amount: true, status: true } },
+  approvals: {
+    include: { user: { select: { name: true, role: true, isActive: true } } },
+    orderBy: { createdAt: "asc" }
+  }
+} satisfies Prisma.MaintenanceTaskInclude;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export async function getMaintenancePolicy(): Promise<MaintenancePolicy> {
+  return prisma.maintenancePolicy.upsert({
+    where: { id: MAINTENANCE_POLICY_ID },
+    update: {},
+    create: { id: MAINTENANCE_POLICY_ID }
+  });
+}
+
+// The amount the house commits to: the accepted quote, or the task estimate when no quote is accepted.
+export function committedCost(task: Pick<ApprovalTask, "estimatedCost" | "quotes">): number | null {
+  const accepted = task.quotes.find((quote) => quote.status === MaintenanceQuoteStatus.ACCEPTED);
+  if (accepted) {
+    return Number(accepted.amount);
+  }
+  return task.estimatedCost === null ? null : Number(task.estimatedCost);
+}
+
+// Only approvals from active shareholders for at least the committed cost count towards the threshold.
+export function summarizeSpendApproval(task: ApprovalTask, policy: MaintenancePolicy): SpendApprovalStatus {
+  const cost = committedCost(task);
+  const threshold = Number(policy.approvalThreshold);
+  const approvals = task.approvals.map((approval) => ({
+    userId: approval.userId,
+    name: approval.user.name,
+    amount: Number(approval.amount),
+    note: approval.note,
+    createdAt: approval.createdAt.toISOString(),
+    current:
+      approval.user.isActive &&
+      approval.user.role === UserRole.SHAREHOLDER &&
+      cost !== null &&
+      Number(approval.amount) >= cost
+  }));
+  const approvedCount = approvals.filter((approval) => approval.current).length;
+  const needsApproval = cost !== null && cost > threshold;
+
+  return {
+    committedCost: cost,
+    threshold,
+    requiredApprovals: policy.requiredApprovals,
+    needsApproval,
+    approvals,
+    approvedCount,
+    remaining: needsApproval ? Math.max(0, policy.requiredApprovals - approvedCount) : 0
+  };
+}
+
+export async function getSpendApprovalStatus(
+  taskId: string,
+  overrides: { estimatedCost?: number } = {}
+): Promise<SpendApprovalStatus | null> {
+  const [task, policy] = await Promise.all([
+    prisma.maintenanceTask.findUnique({ where: { id: taskId }, include: SPEND_APPROVAL_INCLUDE }),
+    getMaintenancePolicy()
+  ]);
+  if (!task) {
+    return null;
+  }
+  return summarizeSpendApproval(
+    { ...task, estimatedCost: overrides.estimatedCost ?? task.estimatedCost },
+    policy
+  );
+}
+
+// Records (or refreshes) a shareholder's approval for the task's current committed cost.
+export async function recordSpendApproval(
+  taskId: string,
+  userId: string,
+  note?: string
+): Promise<SpendApprovalStatus | null> {
+  const status = await getSpendApprovalStatus(taskId);
+  if (!status) {
+    return null;
+  }
+  if (status.committedCost === null) {
+    throw new Error("Add a quote or an estimated cost before approving the spend.");
+  }
+
+  await prisma.maintenanceApproval.upsert({
+    where: { taskId_userId: { taskId, userId } },
+    update: { amount: status.committedCost, note: note ?? null, createdAt: new Date() },
+    create: { taskId, userId, amount: status.committedCost, note }
+  });
+  return getSpendApprovalStatus(taskId);
+}
+
+// Accepting a quote makes its amount the task estimate and its contractor the task contractor. Returns
+// null when the task has left OPEN in the meantime.
+export async function acceptQuote(taskId: string, quoteId: string) {
+  return prisma.$transaction(async (tx) => {
+    const quote = await tx.maintenanceQuote.findUnique({ where: { id: quoteId } });
+    const task = await tx.maintenanceTask.findUnique({
+      where: { id: taskId },
+      select: { status: true, contractorId: true }
+    });
+    if (!quote || quote.taskId !== taskId || task?.status !== MaintenanceStatus.OPEN) {
+      return null;
+    }
+
+    await tx.maintenanceQuote.updateMany({
+      where: { taskId, status: MaintenanceQuoteStatus.ACCEPTED, id: { not: quoteId } },
+      data: { status: MaintenanceQuoteStatus.SUBMITTED }
+    });
+    const accepted = await tx.maintenanceQuote.update({
+      where: { id: quoteId },
+      data: { status: MaintenanceQuoteStatus.ACCEPTED }
+    });
+    const contractorChanged = quote.contractorId !== null && quote.contractorId !== task.contractorId;
+    await tx.maintenanceTask.update({
+      where: { id: taskId },
+      data: {
+        estimatedCost: quote.amount,
+        ...(contractorChanged
+          ? { contractorId: quote.contractorId, contractorAssignedAt: new Date(), jobCardSentAt: null }
+          : {})
+      }
+    });
+    return accepted;
+  });
+}
+
+// How far the actual cost ran over the approved cost, beyond the tolerance; null when within it.
+export function costOverrun(
+  approvedCost: number | null,
+  actualCost: number | null,
+  tolerancePercent: number
+): number | null {
+  if (approvedCost === null || actualCost === null) {
+    return null;
+  }
+  return actualCost > approvedCost * (1 + tolerancePercent / 100) ? roundCurrency(actualCost - approvedCost) : null;
+}
+
+// Books a completed task's invoice as a maintenance expense, once. Returns null when the task has no
+// invoice or actual cost, or already has its expense.
+export async function createTaskExpense(taskId: string, userId: string): Promise<Expense | null> {
+  const task = await prisma.maintenanceTask.findUnique({
+    where: { id: taskId },
+    include: {
+      contractor: { select: { id: true, name: true } },
+      quotes: { where: { status: MaintenanceQuoteStatus.ACCEPTED }, take: 1 },
+      expense: { select: { id: true } }
+    }
+  });
+  if (!task || task.expense || !task.invoiceFileUrl || task.actualCost === null) {
+    return null;
+  }
+
+  const acceptedQuote = task.quotes[0];
+  return prisma.expense.create({
+    data: {
+      category: ExpenseCategory.MAINTENANCE,
+      title: task.title,
+      description: task.overrunAmount
+        ? `Over the approved cost of ZAR ${Number(task.approvedCost).toFixed(2)}.`
+        : undefined,
+      supplier: task.contractor?.name ?? acceptedQuote?.supplierName ?? undefined,
+      contractorId: task.contractorId ?? acceptedQuote?.contractorId,
+      amount: task.actualCost,
+      serviceDate: task.completedAt ?? new Date(),
+      invoiceFileUrl: task.invoiceFileUrl,
+      maintenanceTaskId: task.id,
+      createdById: userId
+    }
+  });
+}
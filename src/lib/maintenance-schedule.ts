@@ -0,0 +1,401 @@
+import { MaintenanceStatus, type MaintenanceTask } from "@prisma/client";
+import { Frequency, RRule } from "rrule";
+import { prisma } from "@/lib/prisma";
+
+export type OccurrenceState = "TASK" | "SCHEDULED" | "RESCHEDULED" | "SKIPPED";
+
+export type ScheduledOccurrence = {
+  occurrenceDate: string;
+  dueDate: string;
+  state: OccurrenceState;
+  taskId: string | null;
+  taskStatus: MaintenanceStatus | null;
+  note: string | null;
+};
+
+export type MaintenanceSeries = {
+  seriesId: string;
+  title: string;
+  asset: { id: string; name: string } | null;
+  recurrenceRule: string;
+  ruleText: string;
+  occurrences: ScheduledOccurrence[];
+};
+
+export type SeriesInfo = {
+  seriesId: string;
+  anchor: Date;
+  latest: MaintenanceTask;
+};
+
+export type OccurrenceAction = "skip" | "reschedule" | "restore";
+
+type PlannedOccurrence = {
+  occurrenceDate: Date;
+  dueDate: Date;
+  skipped: boolean;
+  rescheduled: boolean;
+  note: string | null;
+};
+
+// Spawn occurrences this many days before they fall due.
+export const DEFAULT_LEAD_DAYS = 14;
+
+const MAX_SPAWNS_PER_SERIES = 12;
+const OPEN_STATUSES = [MaintenanceStatus.OPEN, MaintenanceStatus.IN_PROGRESS];
+
+function dateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+export function startOfUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+// Accepts an RRULE value with or without the "RRULE:" prefix and returns it in canonical form, or null
+// when it is invalid. DTSTART is not allowed: the first occurrence is the task's due date. Rules more
+// frequent than daily make no sense for maintenance and are rejected too, as are rules that do not
+// actually recur (INTERVAL=0, COUNT=1, BYMONTH=13, an UNTIL already past): the canonical rule must
+// expand to at least two occurrences from today.
+export function normalizeRecurrenceRule(value: string): string | null {
+  const body = value.trim().replace(/^RRULE:/i, "");
+  if (!body || /[\r\n]/.test(body) || /(^|;)DTSTART/i.test(body)) {
+    return null;
+  }
+  try {
+    const options = RRule.parseString(body);
+    if (options.freq === undefined || options.freq > Frequency.DAILY) {
+      return null;
+    }
+    const normalized = RRule.optionsToString(options).replace(/^RRULE:/, "");
+    const occurrences = ruleFor(normalized, startOfUtcDay(new Date())).all((_date, index) => index < 2);
+    return occurrences.length >= 2 ? normalized : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeRecurrenceRule(rule: string): string {
+  try {
+    return RRule.fromString(rule).toText();
+  } catch {
+    return rule;
+  }
+}
+
+function ruleFor(rule: string, anchor: Date): RRule {
+  return new RRule({ ...RRule.parseString(rule), dtstart: anchor });
+}
+
+export function isSeriesOccurrence(series: SeriesInfo, occurrenceDate: Date): boolean {
+  if (!series.latest.recurrenceRule) {
+    return false;
+  }
+  const day = startOfUtcDay(occurrenceDate);
+  return ruleFor(series.latest.recurrenceRule, series.anchor).between(day, day, true).length > 0;
+}
+
+// The series anchor is its first occurrence; the latest instance carries the rule that drives it, so
+// editing or clearing the rule there changes or stops what comes next.
+export async function findSeries(seriesId: string): Promise<SeriesInfo | null> {
+  const [first, latest] = await Promise.all([
+    prisma.maintenanceTask.findFirst({
+      where: { seriesId, occurrenceDate: { not: null } },
+      orderBy: { occurrenceDate: "asc" },
+      select: { occurrenceDate: true }
+    }),
+    prisma.maintenanceTask.findFirst({
+      where: { seriesId, occurrenceDate: { not: null } },
+      orderBy: { occurrenceDate: "desc" }
+    })
+  ]);
+  if (!first?.occurrenceDate || !latest) {
+    return null;
+  }
+  return { seriesId, anchor: first.occurrenceDate, latest };
+}
+
+async function listSeries(assetId?: string): Promise<SeriesInfo[]> {
+  const groups = await prisma.maintenanceTask.groupBy({
+    by: ["seriesId"],
+    where: { seriesId: { not: null }, occurrenceDate: { not: null } },
+    _min: { occurrenceDate: true },
+    _max: { occurrenceDate: true }
+  });
+  if (groups.length === 0) {
+    return [];
+  }
+
+  const latestTasks = await prisma.maintenanceTask.findMany({
+    where: {
+      recurrenceRule: { not: null },
+      assetId,
+      OR: groups.map((group) => ({ seriesId: group.seriesId, occurrenceDate: group._max.occurrenceDate }))
+    }
+  });
+
+  return latestTasks.flatMap((latest) => {
+    const group = groups.find((entry) => entry.seriesId === latest.seriesId);
+    return group?._min.occurrenceDate
+      ? [{ seriesId: latest.seriesId as string, anchor: group._min.occurrenceDate, latest }]
+      : [];
+  });
+}
+
+// Occurrences after the latest instance due by `until` (null for no limit), with skipped ones left out
+// and rescheduled ones moved.
+async function nextOccurrences(
+  series: SeriesInfo,
+  until: Date | null,
+  limit: number,
+  includeSkipped = false
+): Promise<PlannedOccurrence[]> {
+  if (!series.latest.recurrenceRule || !series.latest.occurrenceDate) {
+    return [];
+  }
+
+  const rule = ruleFor(series.latest.recurrenceRule, series.anchor);
+  const dates: Date[] = [];
+  // Reschedules can pull a later occurrence inside the window, so look a year past it.
+  const searchUntil = until ? new Date(until.getTime() + 366 * 24 * 60 * 60 * 1000) : null;
+  rule.all((date) => {
+    if ((searchUntil && date > searchUntil) || dates.length >= Math.max(limit * 4, 24)) {
+      return false;
+    }
+    if (date > (series.latest.occurrenceDate as Date)) {
+      dates.push(date);
+    }
+    return true;
+  });
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const exceptions = await prisma.maintenanceException.findMany({
+    where: { seriesId: series.seriesId, occurrenceDate: { in: dates } }
+  });
+
+  return dates
+    .map((occurrenceDate) => {
+      const exception = exceptions.find((entry) => entry.occurrenceDate.getTime() === occurrenceDate.getTime());
+      return {
+        occurrenceDate,
+        dueDate: exception?.rescheduledTo ?? occurrenceDate,
+        skipped: exception?.skipped ?? false,
+        rescheduled: Boolean(exception?.rescheduledTo),
+        note: exception?.note ?? null
+      };
+    })
+    .filter((entry) => (!until || entry.dueDate <= until) && (includeSkipped || !entry.skipped))
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    .slice(0, limit);
+}
+
+// New instances copy the latest one and start again in OPEN, waiting for approval. The unique
+// (seriesId, occurrenceDate) index keeps concurrent runs from creating the same occurrence twice.
+async function createInstances(series: SeriesInfo, occurrences: Array<{ occurrenceDate: Date; dueDate: Date }>) {
+  const template = series.latest;
+  const created = await prisma.maintenanceTask.createMany({
+    data: occurrences.map((occurrence) => ({
+      seriesId: series.seriesId,
+      occurrenceDate: occurrence.occurrenceDate,
+      dueDate: occurrence.dueDate,
+      assetId: template.assetId,
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      estimatedCost: template.estimatedCost,
+      assignedToId: template.assignedToId,
+      contractorId: template.contractorId,
+      recurrenceRule: template.recurrenceRule,
+      createdById: template.createdById,
+      status: MaintenanceStatus.OPEN
+    })),
+    skipDuplicates: true
+  });
+  return created.count;
+}
+
+// Called when an instance is marked DONE: the next occurrence is created straight away unless the
+// series already has one open.
+export async function spawnNextOccurrence(seriesId: string): Promise<MaintenanceTask | null> {
+  const series = await findSeries(seriesId);
+  if (!series) {
+    return null;
+  }
+  const open = await prisma.maintenanceTask.count({ where: { seriesId, status: { in: OPEN_STATUSES } } });
+  if (open > 0) {
+    return null;
+  }
+
+  const [next] = await nextOccurrences(series, null, 1);
+  if (!next || (await createInstances(series, [next])) === 0) {
+    return null;
+  }
+  return prisma.maintenanceTask.findUnique({
+    where: { seriesId_occurrenceDate: { seriesId, occurrenceDate: next.occurrenceDate } }
+  });
+}
+
+export async function spawnDueOccurrences(leadDays = DEFAULT_LEAD_DAYS, now = new Date()): Promise<number> {
+  const until = new Date(startOfUtcDay(now).getTime() + (leadDays + 1) * 24 * 60 * 60 * 1000 - 1);
+  let created = 0;
+  for (const series of await listSeries()) {
+    // One series with a rule that no longer expands must not stop the others.
+    try {
+      const due = await nextOccurrences(series, until, MAX_SPAWNS_PER_SERIES);
+      if (due.length > 0) {
+        created += await createInstances(series, due);
+      }
+    } catch (error) {
+      console.error(`Could not schedule maintenance series ${series.seriesId}`, error);
+    }
+  }
+  return created;
+}
+
+export async function buildMaintenanceSchedule(options: {
+  assetId?: string;
+  horizonDays?: number;
+  limit?: number;
+  now?: Date;
+}): Promise<MaintenanceSeries[]> {
+  const now = options.now ?? new Date();
+  const until = new Date(startOfUtcDay(now).getTime() + (options.horizonDays ?? 365) * 24 * 60 * 60 * 1000);
+  const limit = options.limit ?? 6;
+  const seriesList = await listSeries(options.assetId);
+  if (seriesList.length === 0) {
+    return [];
+  }
+
+  const seriesIds = seriesList.map((series) => series.seriesId);
+  // Instances cancelled by a skip stay listed until their date passes so the skip can be undone.
+  const [openTasks, skipExceptions, assets] = await Promise.all([
+    prisma.maintenanceTask.findMany({
+      where: { seriesId: { in: seriesIds }, status: { in: OPEN_STATUSES } },
+      orderBy: { dueDate: "asc" }
+    }),
+    prisma.maintenanceException.findMany({
+      where: { seriesId: { in: seriesIds }, skipped: true, occurrenceDate: { gte: startOfUtcDay(now) } }
+    }),
+    prisma.asset.findMany({
+      where: { id: { in: seriesList.flatMap((series) => (series.latest.assetId ? [series.latest.assetId] : [])) } },
+      select: { id: true, name: true }
+    })
+  ]);
+
+  const schedule = await Promise.all(
+    seriesList.map(async (series) => {
+      const planned = await nextOccurrences(series, until, limit, true).catch((error: unknown) => {
+        console.error(`Could not expand maintenance series ${series.seriesId}`, error);
+        return [];
+      });
+      const skipped = skipExceptions.filter(
+        (entry) =>
+          entry.seriesId === series.seriesId && entry.occurrenceDate <= (series.latest.occurrenceDate as Date)
+      );
+      const occurrences: ScheduledOccurrence[] = [
+        ...openTasks
+          .filter((task) => task.seriesId === series.seriesId)
+          .map((task) => ({
+            occurrenceDate: dateLabel(task.occurrenceDate ?? task.createdAt),
+            dueDate: dateLabel(task.dueDate ?? task.occurrenceDate ?? task.createdAt),
+            state: "TASK" as const,
+            taskId: task.id,
+            taskStatus: task.status,
+            note: null
+          })),
+        ...skipped.map((entry) => ({
+          occurrenceDate: dateLabel(entry.occurrenceDate),
+          dueDate: dateLabel(entry.occurrenceDate),
+          state: "SKIPPED" as const,
+          taskId: null,
+          taskStatus: null,
+          note: entry.note
+        })),
+        ...planned.map((occurrence) => ({
+          occurrenceDate: dateLabel(occurrence.occurrenceDate),
+          dueDate: dateLabel(occurrence.dueDate),
+          state: occurrence.skipped
+            ? ("SKIPPED" as const)
+            : occurrence.rescheduled
+              ? ("RESCHEDULED" as const)
+              : ("SCHEDULED" as const),
+          taskId: null,
+          taskStatus: null,
+          note: occurrence.note
+        }))
+      ].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+      return {
+        seriesId: series.seriesId,
+        title: series.latest.title,
+        asset: assets.find((asset) => asset.id === series.latest.assetId) ?? null,
+        recurrenceRule: series.latest.recurrenceRule as string,
+        ruleText: describeRecurrenceRule(series.latest.recurrenceRule as string),
+        occurrences
+      };
+    })
+  );
+
+  return schedule.sort((a, b) =>
+    (a.occurrences[0]?.dueDate ?? "9999").localeCompare(b.occurrences[0]?.dueDate ?? "9999")
+  );
+}
+
+// Skipping an occurrence that already has an OPEN task cancels it and rescheduling moves its due date;
+// restoring removes the exception and reopens a task cancelled by a skip. Returns null if the task
+// was started in the meantime.
+export async function applyOccurrenceException(input: {
+  seriesId: string;
+  occurrenceDate: Date;
+  action: OccurrenceAction;
+  rescheduledTo?: Date;
+  note?: string;
+  userId: string;
+}): Promise<{ occurrenceDate: string; action: OccurrenceAction } | null> {
+  const where = { seriesId_occurrenceDate: { seriesId: input.seriesId, occurrenceDate: input.occurrenceDate } };
+
+  return prisma.$transaction(async (tx) => {
+    const task = await tx.maintenanceTask.findUnique({ where, select: { id: true, status: true } });
+    const existing = await tx.maintenanceException.findUnique({ where });
+
+    if (input.action === "restore") {
+      if (existing) {
+        await tx.maintenanceException.delete({ where });
+      }
+      if (task && existing?.skipped) {
+        await tx.maintenanceTask.updateMany({
+          where: { id: task.id, status: MaintenanceStatus.CANCELLED },
+          data: { status: MaintenanceStatus.OPEN }
+        });
+      }
+      return { occurrenceDate: dateLabel(input.occurrenceDate), action: input.action };
+    }
+
+    if (task) {
+      const updated = await tx.maintenanceTask.updateMany({
+        where: { id: task.id, status: MaintenanceStatus.OPEN },
+        data:
+          input.action === "skip"
+            ? { status: MaintenanceStatus.CANCELLED }
+            : { dueDate: input.rescheduledTo ?? input.occurrenceDate }
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+    }
+
+    const data = {
+      skipped: input.action === "skip",
+      rescheduledTo: input.action === "reschedule" ? (input.rescheduledTo ?? null) : null,
+      note: input.note ?? null,
+      createdById: input.userId
+    };
+    await tx.maintenanceException.upsert({
+      where,
+      create: { seriesId: input.seriesId, occurrenceDate: input.occurrenceDate, ...data },
+      update: data
+    });
+    return { occurrenceDate: dateLabel(input.occurrenceDate), action: input.action };
+  });
+}
@@ -1,4 +1,8 @@
+import path from "path";
 import OpenAI from "openai";
+import { createWorker } from "tesseract.js";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { StoredDocument } from "@/lib/documents";
 
 export type InvoiceExtraction = {
   supplierName?: string;
@@ -17,12 +21,61 @@ export type InvoiceExtraction = {
   notes?: string;
 };
 
-export async function extractInvoiceWithOpenAI(imageUrl: string): Promise<InvoiceExtraction> {
+export type OcrProvider = "openai" | "pdf-text" | "tesseract";
+
+export type InvoiceField =
+  | "supplierName"
+  | "invoiceNumber"
+  | "invoiceDate"
+  | "dueDate"
+  | "amountTotal"
+  | "vatAmount"
+  | "currency";
+
+// Confidence per extracted field, from 0 to 1.
+export type FieldConfidence = Partial<Record<InvoiceField, number>>;
+
+export type InvoiceOcrResult = {
+  provider: OcrProvider;
+  extraction: InvoiceExtraction;
+  confidence: FieldConfidence;
+  pageCount: number;
+  // Providers tried before the one that succeeded, with the reason each was skipped.
+  attempts: Array<{ provider: OcrProvider; error: string }>;
+  extractedAt: string;
+};
+
+type ExtractorOutput = Pick<InvoiceOcrResult, "extraction" | "confidence" | "pageCount">;
+
+type InvoiceExtractor = {
+  provider: OcrProvider;
+  available: (document: StoredDocument) => boolean;
+  extract: (document: StoredDocument) => Promise<ExtractorOutput>;
+};
+
+const INVOICE_FIELDS: InvoiceField[] = [
+  "supplierName",
+  "invoiceNumber",
+  "invoiceDate",
+  "dueDate",
+  "amountTotal",
+  "vatAmount",
+  "currency"
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function roundConfidence(value: number): number {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100;
+}
+
+export async function extractInvoiceWithOpenAI(document: StoredDocument): Promise<ExtractorOutput> {
   if (!process.env.OPENAI_API_KEY) {
     throw new Error("OPENAI_API_KEY is required for OCR extraction");
   }
 
   const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const dataUrl = `data:${document.mimeType};base64,${document.data.toString("base64")}`;
 
   const response = await client.responses.create({
     model: process.env.OPENAI_MODEL ?? "gpt-4.1-mini",
@@ -32,12 +85,13 @@ export async function extractInvoiceWithOpenAI(imageUrl: string): Promise<Invoic
         content: [
           {
             type: "input_text",
-            text: "Extract structured invoice data from this image for bookkeeping. Return strict JSON only."
+            text:
+              "Extract structured invoice data from this document for bookkeeping. Give dates as YYYY-MM-DD " +
+              "and, per field, your confidence from 0 to 1. Return strict JSON only."
           },
-          {
-            type: "input_image",
-            image_url: imageUrl
-          }
+          document.mimeType === "application/pdf"
+            ? { type: "input_file", filename: document.fileName, file_data: dataUrl }
+            : { type: "input_image", image_url: dataUrl }
         ]
       }
     ],
@@ -71,6 +125,12 @@ export async function extractInvoiceWithOpenAI(imageUrl: string): Promise<Invoic
                 },
                 required: ["description"]
               }
+            },
+            confidence: {
+              type: "object",
+              additionalProperties: false,
+              properties: Object.fromEntries(INVOICE_FIELDS.map((field) => [field, { type: "number" }])),
+              required: []
             }
           },
           required: []
@@ -81,8 +141,285 @@ export async function extractInvoiceWithOpenAI(imageUrl: string): Promise<Invoic
 
   const content = response.output_text;
   if (!content) {
-    return {};
+    return { extraction: {}, confidence: {}, pageCount: 1 };
+  }
+
+  const { confidence: reported, ...extraction } = JSON.parse(content) as InvoiceExtraction & {
+    confidence?: Record<string, unknown>;
+  };
+  const confidence: FieldConfidence = {};
+  for (const field of INVOICE_FIELDS) {
+    if (extraction[field] !== undefined && extraction[field] !== "") {
+      const value = Number(reported?.[field]);
+      confidence[field] = roundConfidence(Number.isFinite(value) ? value : 0.8);
+    }
+  }
+  return { extraction, confidence, pageCount: 1 };
+}
+
+function parseAmount(token: string): number | null {
+  const digits = token.replace(/[^\d.,-]/g, "");
+  const decimalComma = /,\d{2}$/.test(digits);
+  const normalized = decimalComma ? digits.replace(/\./g, "").replace(",", ".") : digits.replace(/,/g, "");
+  const value = Number(normalized);
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; read: (match: RegExpMatchArray) => string | null }> = [
+  {
+    pattern: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g,
+    read: (match) => toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+  },
+  // Day first, as South African invoices are written.
+  {
+    pattern: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/g,
+    read: (match) => toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]))
+  },
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/gi,
+    read: (match) => toIsoDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]))
+  },
+  {
+    pattern: /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/gi,
+    read: (match) => toIsoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]))
+  }
+];
+
+function findDates(line: string): string[] {
+  const found: Array<{ index: number; date: string }> = [];
+  for (const { pattern, read } of DATE_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      const date = read(match);
+      if (date) {
+        found.push({ index: match.index ?? 0, date });
+      }
+    }
+  }
+  return found.sort((a, b) => a.index - b.index).map((entry) => entry.date);
+}
+
+// Amounts need two decimals, so invoice numbers, dates and VAT rates are not mistaken for money.
+function findAmounts(line: string): number[] {
+  const cleaned = DATE_PATTERNS.reduce((text, { pattern }) => text.replace(pattern, " "), line).replace(
+    /\d+(?:[.,]\d+)?\s*%/g,
+    " "
+  );
+  return [...cleaned.matchAll(/-?\d{1,3}(?:[ ,.\u00a0]\d{3})*[.,]\d{2}\b|-?\d+[.,]\d{2}\b/g)]
+    .map((match) => parseAmount(match[0]))
+    .filter((value): value is number => value !== null);
+}
+
+// Amount on a labelled line, or on the line below when the label stands on its own.
+function amountNear(lines: string[], index: number): number | null {
+  const amounts = findAmounts(lines[index]);
+  if (amounts.length > 0) {
+    return amounts[amounts.length - 1];
+  }
+  const next = lines[index + 1] ? findAmounts(lines[index + 1]) : [];
+  return next.length > 0 ? next[next.length - 1] : null;
+}
+
+function bestLabelled(
+  lines: string[],
+  labels: Array<{ pattern: RegExp; exclude?: RegExp; confidence: number }>
+): { value: number; confidence: number } | null {
+  let best: { value: number; confidence: number } | null = null;
+  for (const label of labels) {
+    for (const [index, line] of lines.entries()) {
+      if (!label.pattern.test(line) || label.exclude?.test(line)) {
+        continue;
+      }
+      const value = amountNear(lines, index);
+      if (
+        value !== null &&
+        (!best || label.confidence > best.confidence || (label.confidence === best.confidence && value > best.value))
+      ) {
+        best = { value, confidence: label.confidence };
+      }
+    }
+  }
+  return best;
+}
+
+// Heuristic reading of invoice text from the PDF text layer or image OCR.
+export function parseInvoiceText(text: string): { extraction: InvoiceExtraction; confidence: FieldConfidence } {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const extraction: InvoiceExtraction = {};
+  const confidence: FieldConfidence = {};
+  const set = <K extends InvoiceField>(field: K, value: InvoiceExtraction[K] | null | undefined, score: number) => {
+    if (value !== null && value !== undefined && extraction[field] === undefined) {
+      extraction[field] = value;
+      confidence[field] = roundConfidence(score);
+    }
+  };
+
+  const labelledSupplier = lines
+    .map((line) => line.match(/^(?:supplier|from|vendor|seller)\s*:\s*(.{3,})$/i)?.[1])
+    .find(Boolean);
+  set("supplierName", labelledSupplier, 0.8);
+  const header = lines
+    .slice(0, 8)
+    .filter((line) => /[a-z]{3}/i.test(line) && !/^(?:tax\s+)?invoice\b|^page\b|^date\b|^to\b|^bill\b/i.test(line));
+  const company = header.find((line) => /\((?:pty)\)|\b(?:pty|ltd|limited|cc|inc|llc)\b/i.test(line));
+  set("supplierName", company, 0.75);
+  set("supplierName", header[0], 0.4);
+
+  for (const line of lines) {
+    const labelled = line.match(
+      /\b(?:tax\s+)?invoice\s*(?:no\.?|number|num|#)\s*[:#.]?\s*([a-z0-9][a-z0-9\-/]*\d[a-z0-9\-/]*)/i
+    );
+    set("invoiceNumber", labelled?.[1], 0.85);
+  }
+  for (const line of lines) {
+    const reference = line.match(
+      /\b(?:inv|document|doc|reference|ref)\s*(?:no\.?|number|#)?\s*[:#]\s*([a-z0-9][a-z0-9\-/]{2,})/i
+    );
+    set("invoiceNumber", reference?.[1], 0.6);
+  }
+  set("invoiceNumber", text.match(/\bINV[-\s]?\d{3,}\b/i)?.[0], 0.5);
+
+  const datedLines = lines.map((line, index) => ({ line, index, dates: findDates(line) }));
+  const dateNear = (pattern: RegExp, exclude?: RegExp) => {
+    for (const entry of datedLines) {
+      if (pattern.test(entry.line) && !exclude?.test(entry.line)) {
+        const dates = entry.dates.length > 0 ? entry.dates : (datedLines[entry.index + 1]?.dates ?? []);
+        if (dates.length > 0) {
+          return dates[0];
+        }
+      }
+    }
+    return null;
+  };
+  set("dueDate", dateNear(/\bdue\b|payable (?:by|before)/i), 0.85);
+  set("invoiceDate", dateNear(/invoice date|date of issue|issue date|tax point|date issued/i), 0.85);
+  set("invoiceDate", dateNear(/\bdate\b/i, /\bdue\b/i), 0.65);
+  set(
+    "invoiceDate",
+    datedLines.flatMap((entry) => entry.dates).find((date) => date !== extraction.dueDate),
+    0.4
+  );
+
+  const total = bestLabelled(lines, [
+    {
+      pattern: /amount due|balance due|total due|grand total|(?:amount|total) payable|total (?:amount )?incl/i,
+      confidence: 0.9
+    },
+    { pattern: /\btotal\b/i, exclude: /sub\s*-?total|excl|\bvat\b|\btax\b/i, confidence: 0.75 }
+  ]);
+  const subtotal = bestLabelled(lines, [
+    { pattern: /sub\s*-?total|total (?:excl|excluding)|amount excl|excl\.? vat/i, confidence: 0.8 }
+  ]);
+  const vat = bestLabelled(lines, [
+    {
+      pattern: /\bvat\b|\btax\b/i,
+      exclude: /(?:vat|tax)\s*(?:reg|registration|no\b|no\.|number|#)|tax invoice|incl|excl/i,
+      confidence: 0.75
+    }
+  ]);
+  const allAmounts = lines.flatMap((line) => findAmounts(line));
+  set("amountTotal", total?.value, total?.confidence ?? 0);
+  set("amountTotal", allAmounts.length > 0 ? Math.max(...allAmounts) : null, 0.35);
+
+  if (vat && extraction.amountTotal !== undefined && vat.value < extraction.amountTotal) {
+    // A 15% share of the total, or a subtotal that adds up, backs the VAT line up.
+    const consistent =
+      Math.abs(vat.value - (extraction.amountTotal * 15) / 115) <= 0.05 ||
+      (subtotal !== null && Math.abs(subtotal.value + vat.value - extraction.amountTotal) <= 0.05);
+    set("vatAmount", vat.value, consistent ? 0.9 : vat.confidence);
+  } else if (subtotal && extraction.amountTotal !== undefined && subtotal.value < extraction.amountTotal) {
+    set("vatAmount", Math.round((extraction.amountTotal - subtotal.value) * 100) / 100, 0.55);
+  }
+
+  const currencies: Array<[string, RegExp]> = [
+    ["ZAR", /\bZAR\b|\bR ?\d/],
+    ["USD", /\bUSD\b|\$ ?\d/],
+    ["EUR", /\bEUR\b|€ ?\d/],
+    ["GBP", /\bGBP\b|£ ?\d/]
+  ];
+  const currency = currencies.find(([, pattern]) => pattern.test(text));
+  set("currency", currency?.[0], 0.7);
+
+  return { extraction, confidence };
+}
+
+async function extractFromPdfText(document: StoredDocument): Promise<ExtractorOutput> {
+  const pdf = await getDocumentProxy(new Uint8Array(document.data));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const content = text.join("\n");
+  if (content.replace(/\s/g, "").length < 20) {
+    throw new Error("The PDF has no text layer; scanned PDFs need OPENAI_API_KEY to be read");
+  }
+  return { ...parseInvoiceText(content), pageCount: totalPages };
+}
+
+// Uses the English model bundled with @tesseract.js-data/eng, so no download is needed at runtime.
+async function extractWithTesseract(document: StoredDocument): Promise<ExtractorOutput> {
+  const worker = await createWorker("eng", 1, {
+    langPath: process.env.OCR_LANG_PATH || path.join(process.cwd(), "node_modules/@tesseract.js-data/eng/4.0.0"),
+    gzip: true,
+    cacheMethod: "none"
+  });
+  try {
+    const { data } = await worker.recognize(document.data);
+    if (data.text.trim().length === 0) {
+      throw new Error("No text was recognised in the image");
+    }
+    // Heuristic confidence is scaled by how sure the OCR engine was of the text itself.
+    const { extraction, confidence } = parseInvoiceText(data.text);
+    const scale = data.confidence / 100;
+    const scaled = Object.fromEntries(
+      Object.entries(confidence).map(([field, value]) => [field, roundConfidence(value * scale)])
+    ) as FieldConfidence;
+    return { extraction, confidence: scaled, pageCount: 1 };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+const EXTRACTORS: InvoiceExtractor[] = [
+  { provider: "openai", available: () => Boolean(process.env.OPENAI_API_KEY), extract: extractInvoiceWithOpenAI },
+  {
+    provider: "pdf-text",
+    available: (document) => document.mimeType === "application/pdf",
+    extract: extractFromPdfText
+  },
+  {
+    provider: "tesseract",
+    available: (document) => document.mimeType !== null && document.mimeType.startsWith("image/"),
+    extract: extractWithTesseract
+  }
+];
+
+// Tries OpenAI first when configured, falling back to local extraction if it is not or the call fails.
+export async function extractInvoice(document: StoredDocument): Promise<InvoiceOcrResult> {
+  const attempts: InvoiceOcrResult["attempts"] = [];
+  for (const extractor of EXTRACTORS) {
+    if (!extractor.available(document)) {
+      continue;
+    }
+    try {
+      const output = await extractor.extract(document);
+      return { provider: extractor.provider, ...output, attempts, extractedAt: new Date().toISOString() };
+    } catch (error) {
+      console.error(`Invoice extraction with ${extractor.provider} failed`, error);
+      attempts.push({ provider: extractor.provider, error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
-  return JSON.parse(content) as InvoiceExtraction;
+  throw new Error(
+    attempts.length > 0
+      ? `Could not extract the invoice: ${attempts.map((attempt) => attempt.error).join("; ")}`
+      : "Could not extract the invoice: unsupported file type"
+  );
 }
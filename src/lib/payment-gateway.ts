@@ -0,0 +1,404 @@
+import { PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { coveredNextDueDate } from "@/lib/arrears";
+import { prisma } from "@/lib/prisma";
+
+export const GATEWAY_PROVIDERS = ["yoco", "ozow", "fake"] as const;
+
+export type GatewayProvider = (typeof GATEWAY_PROVIDERS)[number];
+
+export type CheckoutRequest = {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  successUrl: string;
+  cancelUrl: string;
+  failureUrl: string;
+  notifyUrl: string;
+  customerEmail?: string;
+};
+
+export type CheckoutSession = {
+  checkoutId: string;
+  redirectUrl: string;
+  raw: Prisma.InputJsonValue;
+};
+
+export type GatewayWebhookEvent = {
+  eventId: string;
+  checkoutId: string;
+  status: "CONFIRMED" | "FAILED" | "PENDING";
+  // What the provider says was paid, in major units; null when the event does not carry it.
+  amount: number | null;
+  currency: string | null;
+  raw: Prisma.InputJsonValue;
+};
+
+export type PaymentGateway = {
+  provider: GatewayProvider;
+  method: PaymentMethod;
+  isConfigured(): boolean;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Returns null when the signature does not verify.
+  parseWebhook(rawBody: string, headers: Headers): GatewayWebhookEvent | null;
+};
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "utf8");
+  const right = Buffer.from(b, "utf8");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Yoco Checkout API: https://developer.yoco.com/online/checkout/
+const yocoGateway: PaymentGateway = {
+  provider: "yoco",
+  method: PaymentMethod.YOCO,
+  isConfigured() {
+    return Boolean(process.env.YOCO_SECRET_KEY);
+  },
+  async createCheckout(request) {
+    const response = await fetch("https://payments.yoco.com/api/checkouts", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.YOCO_SECRET_KEY}`,
+        "Content-Type": "application/json",
+        "Idempotency-Key": request.paymentId
+      },
+      body: JSON.stringify({
+        amount: toMinorUnits(request.amount),
+        currency: request.currency,
+        successUrl: request.successUrl,
+        cancelUrl: request.cancelUrl,
+        failureUrl: request.failureUrl,
+        metadata: { paymentId: request.paymentId, description: request.description }
+      })
+    });
+
+    const data = (await response.json()) as { id?: string; redirectUrl?: string; errorMessage?: string };
+    if (!response.ok || !data.id || !data.redirectUrl) {
+      throw new Error(data.errorMessage ?? `Yoco checkout failed with HTTP ${response.status}.`);
+    }
+
+    return { checkoutId: data.id, redirectUrl: data.redirectUrl, raw: data as Prisma.InputJsonObject };
+  },
+  parseWebhook(rawBody, headers) {
+    const secret = process.env.YOCO_WEBHOOK_SECRET;
+    const id = headers.get("webhook-id");
+    const timestamp = headers.get("webhook-timestamp");
+    const signatureHeader = headers.get("webhook-signature");
+    if (!secret || !id || !timestamp || !signatureHeader) {
+      return null;
+    }
+
+    // Reject replays older than five minutes.
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > 300) {
+      return null;
+    }
+
+    const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+    const expected = createHmac("sha256", key).update(`${id}.${timestamp}.${rawBody}`).digest("base64");
+    const signatures = signatureHeader.split(" ").map((entry) => entry.split(",")[1] ?? "");
+    if (!signatures.some((signature) => safeEqual(signature, expected))) {
+      return null;
+    }
+
+    const event = JSON.parse(rawBody) as {
+      id?: string;
+      type?: string;
+      payload?: { amount?: number; currency?: string; metadata?: { checkoutId?: string } };
+    };
+    const checkoutId = event.payload?.metadata?.checkoutId;
+    if (!checkoutId) {
+      return null;
+    }
+
+    return {
+      eventId: event.id ?? id,
+      checkoutId,
+      status:
+        event.type === "payment.succeeded" ? "CONFIRMED" : event.type === "payment.failed" ? "FAILED" : "PENDING",
+      amount: typeof event.payload?.amount === "number" ? event.payload.amount / 100 : null,
+      currency: event.payload?.currency ?? null,
+      raw: event as Prisma.InputJsonObject
+    };
+  }
+};
+
+const OZOW_NOTIFY_HASH_FIELDS = [
+  "SiteCode",
+  "TransactionId",
+  "TransactionReference",
+  "Amount",
+  "Status",
+  "Optional1",
+  "Optional2",
+  "Optional3",
+  "Optional4",
+  "Optional5",
+  "CurrencyCode",
+  "IsTest",
+  "StatusMessage"
+];
+
+function ozowHash(values: string[]): string {
+  const input = `${values.join("")}${process.env.OZOW_PRIVATE_KEY ?? ""}`.toLowerCase();
+  return createHash("sha512").update(input).digest("hex");
+}
+
+// Ozow payment request API: https://hub.ozow.com/docs/step-1-request-payment
+const ozowGateway: PaymentGateway = {
+  provider: "ozow",
+  method: PaymentMethod.OZOW,
+  isConfigured() {
+    return Boolean(process.env.OZOW_SITE_CODE && process.env.OZOW_PRIVATE_KEY && process.env.OZOW_API_KEY);
+  },
+  async createCheckout(request) {
+    const fields = {
+      SiteCode: process.env.OZOW_SITE_CODE ?? "",
+      CountryCode: "ZA",
+      CurrencyCode: request.currency,
+      Amount: request.amount.toFixed(2),
+      TransactionReference: request.paymentId,
+      BankReference: request.paymentId.slice(-20),
+      CancelUrl: request.cancelUrl,
+      ErrorUrl: request.failureUrl,
+      SuccessUrl: request.successUrl,
+      NotifyUrl: request.notifyUrl,
+      IsTest: process.env.OZOW_IS_TEST === "true" ? "true" : "false"
+    };
+
+    const response = await fetch("https://api.ozow.com/PostPaymentRequest", {
+      method: "POST",
+      headers: {
+        ApiKey: process.env.OZOW_API_KEY ?? "",
+        Accept: "application/json",
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ ...fields, HashCheck: ozowHash(Object.values(fields)) })
+    });
+
+    const data = (await response.json()) as { paymentRequestId?: string; url?: string; errorMessage?: string };
+    if (!response.ok || !data.url) {
+      throw new Error(data.errorMessage ?? `Ozow payment request failed with HTTP ${response.status}.`);
+    }
+
+    // Ozow notifications carry our TransactionReference, so the payment id doubles as the checkout id.
+    return { checkoutId: request.paymentId, redirectUrl: data.url, raw: data as Prisma.InputJsonObject };
+  },
+  parseWebhook(rawBody) {
+    const params = new URLSearchParams(rawBody);
+    const hash = params.get("Hash");
+    const reference = params.get("TransactionReference");
+    if (!hash || !reference || !process.env.OZOW_PRIVATE_KEY) {
+      return null;
+    }
+
+    const expected = ozowHash(OZOW_NOTIFY_HASH_FIELDS.map((field) => params.get(field) ?? ""));
+    if (!safeEqual(hash.toLowerCase(), expected)) {
+      return null;
+    }
+
+    const status = params.get("Status") ?? "";
+    return {
+      eventId: `${params.get("TransactionId") ?? reference}:${status}`,
+      checkoutId: reference,
+      status:
+        status === "Complete"
+          ? "CONFIRMED"
+          : status === "Cancelled" || status === "Error" || status === "Abandoned"
+            ? "FAILED"
+            : "PENDING",
+      amount: params.get("Amount") ? Number(params.get("Amount")) : null,
+      currency: params.get("CurrencyCode"),
+      raw: Object.fromEntries(params.entries())
+    };
+  }
+};
+
+export function signFakeGatewayPayload(rawBody: string, secret: string): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+// Offline stand-in used in development and tests; it never moves money. It has to be switched on explicitly
+// with its own secret so a deploy that forgets the environment cannot accept forged "paid" webhooks.
+const fakeGateway: PaymentGateway = {
+  provider: "fake",
+  method: PaymentMethod.OTHER,
+  isConfigured() {
+    return process.env.FAKE_GATEWAY_ENABLED === "true" && Boolean(process.env.FAKE_GATEWAY_SECRET);
+  },
+  async createCheckout(request) {
+    const checkoutId = `fake_${request.paymentId}`;
+    const redirectUrl = new URL(request.successUrl);
+    redirectUrl.searchParams.set("checkoutId", checkoutId);
+    return {
+      checkoutId,
+      redirectUrl: redirectUrl.toString(),
+      raw: { checkoutId, amount: request.amount, currency: request.currency }
+    };
+  },
+  parseWebhook(rawBody, headers) {
+    const secret = process.env.FAKE_GATEWAY_SECRET;
+    const signature = headers.get("x-fake-signature");
+    if (!secret || !signature || !safeEqual(signature, signFakeGatewayPayload(rawBody, secret))) {
+      return null;
+    }
+
+    const event = JSON.parse(rawBody) as {
+      id?: string;
+      checkoutId?: string;
+      status?: string;
+      amount?: number;
+      currency?: string;
+    };
+    if (!event.id || !event.checkoutId) {
+      return null;
+    }
+
+    return {
+      eventId: event.id,
+      checkoutId: event.checkoutId,
+      status: event.status === "succeeded" ? "CONFIRMED" : event.status === "failed" ? "FAILED" : "PENDING",
+      amount: typeof event.amount === "number" ? event.amount : null,
+      currency: event.currency ?? null,
+      raw: event as Prisma.InputJsonObject
+    };
+  }
+};
+
+const gateways: Record<GatewayProvider, PaymentGateway> = {
+  yoco: yocoGateway,
+  ozow: ozowGateway,
+  fake: fakeGateway
+};
+
+export function getPaymentGateway(provider: string): PaymentGateway | null {
+  return GATEWAY_PROVIDERS.includes(provider as GatewayProvider) ? gateways[provider as GatewayProvider] : null;
+}
+
+type GatewayPayload = {
+  checkout?: Prisma.InputJsonValue;
+  events?: Array<{
+    eventId: string;
+    status: string;
+    receivedAt: string;
+    raw: Prisma.InputJsonValue;
+    mismatch?: string;
+  }>;
+};
+
+export type WebhookOutcome = {
+  paymentId: string | null;
+  status: PaymentStatus | null;
+  duplicate: boolean;
+  // Set when a success event does not match the payment; the payment is left PENDING for review.
+  mismatch: string | null;
+};
+
+function paidAmountMismatch(payment: { amount: Prisma.Decimal; currency: string }, event: GatewayWebhookEvent) {
+  const expected = `${payment.currency} ${Number(payment.amount).toFixed(2)}`;
+  if (event.amount === null || !Number.isFinite(event.amount) || !event.currency) {
+    return `Provider did not report the amount paid; expected ${expected}.`;
+  }
+  if (
+    event.currency.toUpperCase() !== payment.currency.toUpperCase() ||
+    Math.round(event.amount * 100) !== Math.round(Number(payment.amount) * 100)
+  ) {
+    return `Provider reported ${event.currency.toUpperCase()} ${event.amount.toFixed(2)} paid; expected ${expected}.`;
+  }
+  return null;
+}
+
+// Webhooks may be retried or arrive out of order; only a PENDING payment is ever transitioned.
+export async function applyGatewayWebhook(
+  gateway: PaymentGateway,
+  event: GatewayWebhookEvent
+): Promise<WebhookOutcome> {
+  return prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findFirst({
+      where: { gatewayProvider: gateway.provider, reference: event.checkoutId },
+      include: { subscriptionLinks: true }
+    });
+
+    if (!payment) {
+      return { paymentId: null, status: null, duplicate: false, mismatch: null };
+    }
+
+    const payload = (payment.gatewayPayload ?? {}) as GatewayPayload;
+    const events = payload.events ?? [];
+    if (events.some((entry) => entry.eventId === event.eventId)) {
+      return { paymentId: payment.id, status: payment.status, duplicate: true, mismatch: null };
+    }
+
+    const nextEvents = [
+      ...events,
+      { eventId: event.eventId, status: event.status, receivedAt: new Date().toISOString(), raw: event.raw }
+    ];
+
+    if (event.status === "PENDING" || payment.status !== PaymentStatus.PENDING) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { gatewayPayload: { ...payload, events: nextEvents } as Prisma.InputJsonObject }
+      });
+      return {
+        paymentId: payment.id,
+        status: payment.status,
+        duplicate: payment.status !== PaymentStatus.PENDING,
+        mismatch: null
+      };
+    }
+
+    const mismatch = event.status === "CONFIRMED" ? paidAmountMismatch(payment, event) : null;
+    if (mismatch) {
+      console.error(`Payment ${payment.id}: ${mismatch}`);
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          gatewayPayload: {
+            ...payload,
+            events: nextEvents.map((entry) => (entry.eventId === event.eventId ? { ...entry, mismatch } : entry))
+          } as Prisma.InputJsonObject
+        }
+      });
+      return { paymentId: payment.id, status: payment.status, duplicate: false, mismatch };
+    }
+
+    const paidAt = new Date();
+    const transitioned = await tx.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.PENDING },
+      data: {
+        status: event.status === "CONFIRMED" ? PaymentStatus.CONFIRMED : PaymentStatus.FAILED,
+        paidAt: event.status === "CONFIRMED" ? paidAt : undefined,
+        gatewayPayload: { ...payload, events: nextEvents } as Prisma.InputJsonObject
+      }
+    });
+
+    if (transitioned.count === 0) {
+      return { paymentId: payment.id, status: payment.status, duplicate: true, mismatch: null };
+    }
+
+    if (event.status === "CONFIRMED") {
+      for (const link of payment.subscriptionLinks) {
+        await tx.subscription.update({
+          where: { id: link.subscriptionId },
+          data: {
+            lastPaymentDate: paidAt,
+            nextDueDate: await coveredNextDueDate(tx, link.subscriptionId, link.periodEnd)
+          }
+        });
+      }
+    }
+
+    return {
+      paymentId: payment.id,
+      status: event.status === "CONFIRMED" ? PaymentStatus.CONFIRMED : PaymentStatus.FAILED,
+      duplicate: false,
+      mismatch: null
+    };
+  });
+}
@@ -0,0 +1,179 @@
+// Minimal PDF 1.4 writer for generated documents (statements, reports, labels).
+// Supports the built-in Helvetica fonts, lines and filled rectangles; no embedding or images.
+
+export type PdfColor = [number, number, number];
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  operations: string[];
+};
+
+export type PdfDocument = {
+  title: string;
+  pages: PdfPage[];
+};
+
+export type PdfTextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right";
+};
+
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 };
+export const A4_LANDSCAPE = { width: 841.89, height: 595.28 };
+
+export function createPdfDocument(title: string): PdfDocument {
+  return { title, pages: [] };
+}
+
+export function addPdfPage(document: PdfDocument, size = A4_PORTRAIT): PdfPage {
+  const page = { width: size.width, height: size.height, operations: [] };
+  document.pages.push(page);
+  return page;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOperands(color: PdfColor): string {
+  return color.map((channel) => formatNumber(channel)).join(" ");
+}
+
+// Standard fonts use WinAnsiEncoding; anything outside Latin-1 is replaced.
+function escapeText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+// Approximate Helvetica advance width; good enough for right-aligning and truncating columns.
+export function measurePdfText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    if ("il.,:;'|!".includes(char)) {
+      units += 0.28;
+    } else if ("mwMW@".includes(char)) {
+      units += 0.85;
+    } else if (char >= "A" && char <= "Z") {
+      units += 0.67;
+    } else if (char === " ") {
+      units += 0.28;
+    } else {
+      units += 0.55;
+    }
+  }
+  return units * size * (bold ? 1.05 : 1);
+}
+
+export function truncatePdfText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (measurePdfText(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let result = text;
+  while (result.length > 1 && measurePdfText(`${result}...`, size, bold) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}...`;
+}
+
+// Coordinates are in points from the top-left corner of the page.
+export function drawText(page: PdfPage, text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+  const size = options.size ?? 10;
+  const left = options.align === "right" ? x - measurePdfText(text, size, options.bold) : x;
+  page.operations.push(
+    [
+      "BT",
+      `${colorOperands(options.color ?? [0, 0, 0])} rg`,
+      `/${options.bold ? "F2" : "F1"} ${formatNumber(size)} Tf`,
+      `${formatNumber(left)} ${formatNumber(page.height - y)} Td`,
+      `(${escapeText(text)}) Tj`,
+      "ET"
+    ].join("\n")
+  );
+}
+
+export function drawLine(
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  options: { width?: number; color?: PdfColor } = {}
+): void {
+  page.operations.push(
+    [
+      `${colorOperands(options.color ?? [0, 0, 0])} RG`,
+      `${formatNumber(options.width ?? 0.5)} w`,
+      `${formatNumber(x1)} ${formatNumber(page.height - y1)} m`,
+      `${formatNumber(x2)} ${formatNumber(page.height - y2)} l`,
+      "S"
+    ].join("\n")
+  );
+}
+
+export function drawRect(
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}
+): void {
+  const operator = options.fill && options.stroke ? "B" : options.fill ? "f" : "S";
+  page.operations.push(
+    [
+      options.fill ? `${colorOperands(options.fill)} rg` : "",
+      options.stroke || !options.fill ? `${colorOperands(options.stroke ?? [0, 0, 0])} RG` : "",
+      options.stroke || !options.fill ? `${formatNumber(options.lineWidth ?? 0.5)} w` : "",
+      `${formatNumber(x)} ${formatNumber(page.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      operator
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+}
+
+export function renderPdf(document: PdfDocument): Buffer {
+  const pages = document.pages.length > 0 ? document.pages : [{ ...A4_PORTRAIT, operations: [] }];
+  const objects: string[] = [];
+  const pageIds = pages.map((_page, index) => 6 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${escapeText(document.title)}) /Producer (Reebok House Manager) >>`;
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = page.operations.join("\n");
+    objects[pageId] = [
+      "<< /Type /Page /Parent 2 0 R",
+      `/MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}]`,
+      "/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >>",
+      `/Contents ${pageId + 1} 0 R >>`
+    ].join(" ");
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,408 @@
+import {
+  BookingAuditAction,
+  BookingScope,
+  BookingSource,
+  BookingStatus,
+  PeakAllocationMethod,
+  PeakPeriodStatus,
+  type PeakPeriod,
+  type Prisma
+} from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import { findConflictingBooking } from "@/lib/availability";
+import { calculateNights } from "@/lib/booking";
+import { generateBookingManageToken } from "@/lib/booking-manage";
+import { calculateBookingFees } from "@/lib/fees";
+import { prisma } from "@/lib/prisma";
+
+// Allocations from draws in this many years before a period count towards its fairness weighting.
+export const PEAK_HISTORY_YEARS = 5;
+
+const DAY_MS = 86400000;
+
+export type PeakSlot = { start: Date; end: Date };
+
+export type BranchHistory = {
+  familyBranch: string;
+  allocations: number;
+  lastAllocatedAt: string | null;
+};
+
+export type PeakDrawStep = {
+  round: number;
+  pick: number;
+  familyBranch: string;
+  outcome: "ALLOCATED" | "NO_PREFERENCE_LEFT";
+  slotStart?: string;
+  rank?: number;
+  skipped: Array<{ slotStart: string; rank: number; reason: "TAKEN" | "UNAVAILABLE" | "NOT_A_SLOT" }>;
+};
+
+// Everything needed to re-run a draw by hand and arrive at the same result.
+export type PeakDrawLog = {
+  method: PeakAllocationMethod;
+  seed: string;
+  historyYears: number;
+  history: BranchHistory[];
+  weights: Record<string, number> | null;
+  order: string[];
+  unavailableSlots: Array<{ slotStart: string; conflictingBookingId: string }>;
+  steps: PeakDrawStep[];
+};
+
+export type PlannedAllocation = {
+  familyBranch: string;
+  slot: PeakSlot;
+  rank: number;
+  drawOrder: number;
+};
+
+type DrawPreference = { familyBranch: string; slotStart: Date; rank: number };
+
+export function peakSlots(period: Pick<PeakPeriod, "startDate" | "endDate" | "slotNights">): PeakSlot[] {
+  const slots: PeakSlot[] = [];
+  const step = Math.max(1, period.slotNights) * DAY_MS;
+  for (let start = period.startDate.getTime(); start < period.endDate.getTime(); start += step) {
+    slots.push({ start: new Date(start), end: new Date(Math.min(start + step, period.endDate.getTime())) });
+  }
+  return slots;
+}
+
+export async function listFamilyBranches(): Promise<string[]> {
+  const profiles = await prisma.shareholderProfile.findMany({
+    where: { familyBranch: { not: null }, user: { isActive: true } },
+    select: { familyBranch: true },
+    distinct: ["familyBranch"]
+  });
+  return profiles
+    .map((profile) => profile.familyBranch?.trim() ?? "")
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export async function getUserFamilyBranch(userId: string): Promise<string | null> {
+  const profile = await prisma.shareholderProfile.findUnique({
+    where: { userId },
+    select: { familyBranch: true }
+  });
+  return profile?.familyBranch?.trim() || null;
+}
+
+export const PEAK_PERIOD_INCLUDE = {
+  preferences: { orderBy: [{ familyBranch: "asc" }, { rank: "asc" }] },
+  allocations: {
+    orderBy: { slotStart: "asc" },
+    include: { booking: { select: { id: true, status: true } } }
+  },
+  drawnBy: { select: { name: true } }
+} satisfies Prisma.PeakPeriodInclude;
+
+export function serializePeakPeriod<T extends Prisma.PeakPeriodGetPayload<{ include: { preferences: true } }>>(
+  period: T,
+  familyBranch: string | null,
+  isManager: boolean
+) {
+  return {
+    ...period,
+    slots: peakSlots(period).map((slot) => ({ start: slot.start.toISOString(), end: slot.end.toISOString() })),
+    // Members see only their own branch's ranking before the draw; the draw log covers the rest.
+    preferences: isManager
+      ? period.preferences
+      : period.preferences.filter((preference) => preference.familyBranch === familyBranch)
+  };
+}
+
+// Deterministic PRNG (mulberry32) so a published seed reproduces the draw exactly.
+export function seededRandom(seed: string): () => number {
+  let state = createHash("sha256").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function orderBranches(
+  method: PeakAllocationMethod,
+  history: BranchHistory[],
+  random: () => number
+): { order: string[]; weights: Record<string, number> | null } {
+  // The random tiebreak is drawn up front so rotation and lottery consume the seed the same way.
+  const tiebreak = new Map(history.map((entry) => [entry.familyBranch, random()]));
+
+  if (method === PeakAllocationMethod.ROTATION) {
+    // Fewest recent peak allocations first; among equals, whoever has waited longest.
+    const order = [...history]
+      .sort(
+        (a, b) =>
+          a.allocations - b.allocations ||
+          (a.lastAllocatedAt ?? "").localeCompare(b.lastAllocatedAt ?? "") ||
+          (tiebreak.get(a.familyBranch) ?? 0) - (tiebreak.get(b.familyBranch) ?? 0)
+      )
+      .map((entry) => entry.familyBranch);
+    return { order, weights: null };
+  }
+
+  // Each recent allocation lowers a branch's odds of picking early: weight = 1 / (1 + allocations).
+  const weights = Object.fromEntries(
+    history.map((entry) => [entry.familyBranch, Math.round((1 / (1 + entry.allocations)) * 10000) / 10000])
+  );
+  const remaining = [...history].sort((a, b) => a.familyBranch.localeCompare(b.familyBranch));
+  const order: string[] = [];
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, entry) => sum + weights[entry.familyBranch], 0);
+    let target = random() * total;
+    let index = remaining.findIndex((entry) => {
+      target -= weights[entry.familyBranch];
+      return target < 0;
+    });
+    if (index < 0) {
+      index = remaining.length - 1;
+    }
+    order.push(remaining[index].familyBranch);
+    remaining.splice(index, 1);
+  }
+  return { order, weights };
+}
+
+// Branches pick in draw order, snaking back each round, and each takes its highest-ranked
+// slot that is still free. Pure so the logged inputs always reproduce the logged result.
+export function planPeakDraw(input: {
+  method: PeakAllocationMethod;
+  seed: string;
+  slots: PeakSlot[];
+  slotsPerBranch: number;
+  unavailable: Map<string, string>;
+  preferences: DrawPreference[];
+  history: BranchHistory[];
+}): { allocations: PlannedAllocation[]; log: PeakDrawLog } {
+  const random = seededRandom(input.seed);
+  const { order, weights } = orderBranches(input.method, input.history, random);
+  const slotsByStart = new Map(input.slots.map((slot) => [slot.start.toISOString(), slot]));
+  const taken = new Set<string>();
+  const allocations: PlannedAllocation[] = [];
+  const steps: PeakDrawStep[] = [];
+
+  for (let round = 1; round <= Math.max(1, input.slotsPerBranch); round += 1) {
+    const roundOrder = round % 2 === 1 ? order : [...order].reverse();
+    for (const familyBranch of roundOrder) {
+      const ranked = input.preferences
+        .filter((preference) => preference.familyBranch === familyBranch)
+        .sort((a, b) => a.rank - b.rank);
+      const step: PeakDrawStep = {
+        round,
+        pick: steps.length + 1,
+        familyBranch,
+        outcome: "NO_PREFERENCE_LEFT",
+        skipped: []
+      };
+
+      for (const preference of ranked) {
+        const key = preference.slotStart.toISOString();
+        const slot = slotsByStart.get(key);
+        const reason = !slot
+          ? "NOT_A_SLOT"
+          : input.unavailable.has(key)
+            ? "UNAVAILABLE"
+            : taken.has(key)
+              ? "TAKEN"
+              : null;
+        if (reason) {
+          step.skipped.push({ slotStart: key, rank: preference.rank, reason });
+          continue;
+        }
+
+        taken.add(key);
+        allocations.push({ familyBranch, slot: slot!, rank: preference.rank, drawOrder: step.pick });
+        step.outcome = "ALLOCATED";
+        step.slotStart = key;
+        step.rank = preference.rank;
+        break;
+      }
+
+      steps.push(step);
+    }
+  }
+
+  return {
+    allocations,
+    log: {
+      method: input.method,
+      seed: input.seed,
+      historyYears: PEAK_HISTORY_YEARS,
+      history: input.history,
+      weights,
+      order,
+      unavailableSlots: [...input.unavailable].map(([slotStart, conflictingBookingId]) => ({
+        slotStart,
+        conflictingBookingId
+      })),
+      steps
+    }
+  };
+}
+
+async function loadBranchHistory(branches: string[], period: PeakPeriod): Promise<BranchHistory[]> {
+  const since = new Date(period.startDate);
+  since.setUTCFullYear(since.getUTCFullYear() - PEAK_HISTORY_YEARS);
+
+  const prior = await prisma.peakAllocation.findMany({
+    where: {
+      familyBranch: { in: branches },
+      period: {
+        id: { not: period.id },
+        status: PeakPeriodStatus.DRAWN,
+        startDate: { gte: since, lt: period.startDate }
+      }
+    },
+    select: { familyBranch: true, slotStart: true }
+  });
+
+  return branches.map((familyBranch) => {
+    const mine = prior.filter((allocation) => allocation.familyBranch === familyBranch);
+    const last = mine.reduce<Date | null>(
+      (latest, allocation) => (!latest || allocation.slotStart > latest ? allocation.slotStart : latest),
+      null
+    );
+    return { familyBranch, allocations: mine.length, lastAllocatedAt: last ? last.toISOString() : null };
+  });
+}
+
+export type PeakDrawActor = { id: string; role: Prisma.BookingAuditLogCreateInput["actorRole"] };
+
+// Runs the draw for an open period and creates a PENDING booking per allocation. Returns null
+// when the period was drawn or closed in the meantime.
+export async function runPeakDraw(periodId: string, actor: PeakDrawActor, seed = randomBytes(16).toString("hex")) {
+  const period = await prisma.peakPeriod.findUniqueOrThrow({
+    where: { id: periodId },
+    include: { preferences: true }
+  });
+  const slots = peakSlots(period);
+
+  const unavailable = new Map<string, string>();
+  for (const slot of slots) {
+    const conflict = await findConflictingBooking({
+      scope: BookingScope.WHOLE_HOUSE,
+      startDate: slot.start,
+      endDate: slot.end,
+      roomIds: []
+    });
+    if (conflict) {
+      unavailable.set(slot.start.toISOString(), conflict.id);
+    }
+  }
+
+  const branches = [...new Set(period.preferences.map((preference) => preference.familyBranch))].sort();
+  const history = await loadBranchHistory(branches, period);
+  const { allocations, log } = planPeakDraw({
+    method: period.method,
+    seed,
+    slots,
+    slotsPerBranch: period.slotsPerBranch,
+    unavailable,
+    preferences: period.preferences,
+    history
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.peakPeriod.updateMany({
+      where: { id: period.id, status: PeakPeriodStatus.OPEN },
+      data: {
+        status: PeakPeriodStatus.DRAWN,
+        drawSeed: seed,
+        drawLog: log as unknown as Prisma.InputJsonObject,
+        drawnAt: new Date(),
+        drawnById: actor.id
+      }
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const created = [];
+    for (const allocation of allocations) {
+      const submitter = period.preferences.find(
+        (preference) =>
+          preference.familyBranch === allocation.familyBranch &&
+          preference.slotStart.getTime() === allocation.slot.start.getTime()
+      );
+      const nights = calculateNights(allocation.slot.start, allocation.slot.end);
+      const feeConfig =
+        (await tx.feeConfig.findFirst({
+          where: {
+            isActive: true,
+            effectiveFrom: { lte: allocation.slot.start },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gte: allocation.slot.start } }]
+          },
+          orderBy: { effectiveFrom: "desc" }
+        })) ?? (await tx.feeConfig.create({ data: {} }));
+      const seasonalRates = await tx.seasonalRate.findMany({ where: { feeConfigId: feeConfig.id, enabled: true } });
+      // Guest numbers are unknown at draw time; the estimate covers one member until the booking is edited.
+      const feeBreakdown = calculateBookingFees(
+        {
+          source: "INTERNAL",
+          startDate: allocation.slot.start,
+          nights,
+          counts: {
+            member: 1,
+            dependentWithMember: 0,
+            dependentWithoutMember: 0,
+            guestOfMember: 0,
+            guestOfDependent: 0,
+            mereFamily: 0,
+            visitorAdult: 0,
+            visitorChildUnder6: 0
+          }
+        },
+        feeConfig,
+        seasonalRates
+      );
+
+      const booking = await tx.booking.create({
+        data: {
+          source: BookingSource.INTERNAL,
+          scope: BookingScope.WHOLE_HOUSE,
+          status: BookingStatus.PENDING,
+          startDate: allocation.slot.start,
+          endDate: allocation.slot.end,
+          nights,
+          totalGuests: 1,
+          manageToken: generateBookingManageToken(),
+          requestedById: submitter?.submittedById,
+          notes: `${period.name}: peak allocation for the ${allocation.familyBranch} branch.`,
+          feeSnapshot: feeBreakdown as Prisma.InputJsonValue,
+          totalAmount: feeBreakdown.total,
+          currency: feeBreakdown.currency,
+          bookingAuditLogs: {
+            create: {
+              actorId: actor.id,
+              actorRole: actor.role,
+              action: BookingAuditAction.CREATED,
+              comment:
+                `Created by the ${period.name} peak draw (${period.method.toLowerCase().replace("_", " ")}, ` +
+                `pick ${allocation.drawOrder}, choice #${allocation.rank} of the ${allocation.familyBranch} branch).`
+            }
+          }
+        },
+        include: { requestedBy: { select: { name: true, email: true } } }
+      });
+
+      const record = await tx.peakAllocation.create({
+        data: {
+          periodId: period.id,
+          familyBranch: allocation.familyBranch,
+          slotStart: allocation.slot.start,
+          slotEnd: allocation.slot.end,
+          preferenceRank: allocation.rank,
+          drawOrder: allocation.drawOrder,
+          bookingId: booking.id
+        }
+      });
+      created.push({ ...record, booking });
+    }
+
+    return { seed, log, allocations: created };
+  });
+}
@@ -0,0 +1,505 @@
+import {
+  BankMatchStatus,
+  BankTransactionDirection,
+  PaymentMethod,
+  PaymentStatus,
+  type Prisma
+} from "@prisma/client";
+import { accrueSubscriptionArrears } from "@/lib/arrears";
+import {
+  bankLineFingerprints,
+  parseBankStatement,
+  type BankStatementFormat
+} from "@/lib/bank-statements";
+import { buildSubscriptionCoverage } from "@/lib/fees";
+import { prisma } from "@/lib/prisma";
+
+export type MatchTargetType = "PAYMENT" | "SUBSCRIPTION" | "EXPENSE";
+
+export type MatchCandidate = {
+  type: MatchTargetType;
+  id: string;
+  label: string;
+  amount: number;
+  score: number;
+  reason: string;
+};
+
+export type BankImportResult = {
+  importId: string;
+  lineCount: number;
+  imported: number;
+  duplicates: number;
+  proposed: number;
+};
+
+export type ConfirmTarget = {
+  type: MatchTargetType;
+  id: string;
+  // Subscription matches only; defaults to the amount divided by the monthly fee.
+  monthsCovered?: number;
+  // Payment and expense matches whose amount differs from the bank line are refused unless this is set.
+  acceptAmountDifference?: boolean;
+};
+
+type MatchableTransaction = {
+  id: string;
+  direction: BankTransactionDirection;
+  amount: Prisma.Decimal | number;
+  description: string;
+  reference: string | null;
+};
+
+type CandidatePools = Awaited<ReturnType<typeof loadCandidatePools>>;
+
+// A proposal needs more than an amount match on its own: amount plus a reference or a name.
+const PROPOSE_MIN_SCORE = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sameAmount(left: number, right: number): boolean {
+  return Math.abs(left - right) < 0.005;
+}
+
+// Null when the bank line settles the payment or expense exactly.
+export function bankAmountMismatch(
+  bankAmount: Prisma.Decimal | number,
+  targetAmount: Prisma.Decimal | number,
+  targetLabel: "payment" | "expense"
+): string | null {
+  const bank = Number(bankAmount);
+  const expected = Number(targetAmount);
+  if (sameAmount(bank, expected)) {
+    return null;
+  }
+  return `The bank line is R${bank.toFixed(2)} but the ${targetLabel} is R${expected.toFixed(2)}.`;
+}
+
+function compactText(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function nameTokens(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((token) => token.length >= 3);
+}
+
+function transactionText(transaction: MatchableTransaction): string {
+  return [transaction.description, transaction.reference].filter(Boolean).join(" ");
+}
+
+function referenceFound(text: string, reference: string | null | undefined): boolean {
+  const needle = compactText(reference ?? "");
+  return needle.length >= 4 && compactText(text).includes(needle);
+}
+
+// Full name scores higher than a surname on its own; bank narratives often drop first names.
+function nameScore(text: string, name: string | null | undefined): { score: number; reason: string } | null {
+  const tokens = nameTokens(name);
+  if (tokens.length === 0) {
+    return null;
+  }
+  const words = new Set(nameTokens(text));
+  if (tokens.length > 1 && tokens.every((token) => words.has(token))) {
+    return { score: 30, reason: `name ${name}` };
+  }
+  if (words.has(tokens[tokens.length - 1])) {
+    return { score: 20, reason: `surname ${tokens[tokens.length - 1]}` };
+  }
+  return null;
+}
+
+// Payments and expenses already proposed for or confirmed against another line are left out.
+async function loadCandidatePools(forTransactionId?: string) {
+  const [claimed, payments, subscriptions, expenses] = await Promise.all([
+    prisma.bankTransaction.findMany({
+      where: {
+        matchStatus: { in: [BankMatchStatus.PROPOSED, BankMatchStatus.CONFIRMED] },
+        ...(forTransactionId ? { id: { not: forTransactionId } } : {})
+      },
+      select: { paymentId: true, expenseId: true }
+    }),
+    prisma.payment.findMany({
+      where: { status: PaymentStatus.PENDING },
+      select: {
+        id: true,
+        amount: true,
+        reference: true,
+        payer: { select: { name: true } },
+        booking: { select: { id: true, externalLeadName: true, requestedBy: { select: { name: true } } } }
+      }
+    }),
+    prisma.subscription.findMany({
+      where: { user: { isActive: true } },
+      select: { id: true, monthlyAmount: true, arrearsAmount: true, user: { select: { name: true } } }
+    }),
+    prisma.expense.findMany({
+      where: { paidDate: null },
+      select: { id: true, title: true, supplier: true, invoiceNumber: true, amount: true }
+    })
+  ]);
+
+  const claimedPayments = new Set(claimed.map((entry) => entry.paymentId).filter(Boolean));
+  const claimedExpenses = new Set(claimed.map((entry) => entry.expenseId).filter(Boolean));
+  return {
+    payments: payments.filter((payment) => !claimedPayments.has(payment.id)),
+    subscriptions,
+    expenses: expenses.filter((expense) => !claimedExpenses.has(expense.id))
+  };
+}
+
+function paymentCandidates(transaction: MatchableTransaction, pools: CandidatePools): MatchCandidate[] {
+  const amount = Number(transaction.amount);
+  const text = transactionText(transaction);
+  return pools.payments.map((payment) => {
+    let score = 0;
+    const reasons: string[] = [];
+    if (sameAmount(amount, Number(payment.amount))) {
+      score += 50;
+      reasons.push("amount");
+    }
+    const bookingId = payment.booking?.id;
+    if (referenceFound(text, payment.reference)) {
+      score += 40;
+      reasons.push(`reference ${payment.reference}`);
+    } else if (bookingId && (referenceFound(text, bookingId) || referenceFound(text, bookingId.slice(0, 8)))) {
+      score += 40;
+      reasons.push("booking reference");
+    }
+    const name = payment.payer?.name ?? payment.booking?.requestedBy?.name ?? payment.booking?.externalLeadName;
+    const nameMatch = nameScore(text, name);
+    if (nameMatch) {
+      score += nameMatch.score;
+      reasons.push(nameMatch.reason);
+    }
+    return {
+      type: "PAYMENT" as const,
+      id: payment.id,
+      label: `${bookingId ? `Booking ${bookingId}` : "Subscription"} payment${name ? ` from ${name}` : ""}`,
+      amount: Number(payment.amount),
+      score,
+      reason: reasons.join(", ")
+    };
+  });
+}
+
+function subscriptionCandidates(transaction: MatchableTransaction, pools: CandidatePools): MatchCandidate[] {
+  const amount = Number(transaction.amount);
+  const text = transactionText(transaction);
+  return pools.subscriptions.map((subscription) => {
+    let score = 0;
+    const reasons: string[] = [];
+    const monthly = Number(subscription.monthlyAmount);
+    const months = monthly > 0 ? Math.round(amount / monthly) : 0;
+    if (months >= 1 && months <= 12 && sameAmount(amount, months * monthly)) {
+      score += 40;
+      reasons.push(`${months} month${months === 1 ? "" : "s"} of subscription`);
+    }
+    const arrears = Number(subscription.arrearsAmount);
+    if (arrears > 0 && sameAmount(amount, arrears)) {
+      score += 45;
+      reasons.push("settles arrears");
+    }
+    const nameMatch = nameScore(text, subscription.user.name);
+    if (nameMatch) {
+      score += nameMatch.score;
+      reasons.push(nameMatch.reason);
+    }
+    return {
+      type: "SUBSCRIPTION" as const,
+      id: subscription.id,
+      label: `Subscription for ${subscription.user.name}`,
+      amount: monthly,
+      score,
+      reason: reasons.join(", ")
+    };
+  });
+}
+
+function expenseCandidates(transaction: MatchableTransaction, pools: CandidatePools): MatchCandidate[] {
+  const amount = Number(transaction.amount);
+  const text = transactionText(transaction);
+  return pools.expenses.map((expense) => {
+    let score = 0;
+    const reasons: string[] = [];
+    if (sameAmount(amount, Number(expense.amount))) {
+      score += 50;
+      reasons.push("amount");
+    }
+    if (referenceFound(text, expense.invoiceNumber)) {
+      score += 40;
+      reasons.push(`invoice ${expense.invoiceNumber}`);
+    }
+    const words = new Set(nameTokens(text));
+    if (nameTokens(expense.supplier).some((token) => words.has(token))) {
+      score += 25;
+      reasons.push(`supplier ${expense.supplier}`);
+    }
+    return {
+      type: "EXPENSE" as const,
+      id: expense.id,
+      label: `${expense.title}${expense.supplier ? ` (${expense.supplier})` : ""}`,
+      amount: Number(expense.amount),
+      score,
+      reason: reasons.join(", ")
+    };
+  });
+}
+
+function rankCandidates(transaction: MatchableTransaction, pools: CandidatePools): MatchCandidate[] {
+  const candidates =
+    transaction.direction === BankTransactionDirection.CREDIT
+      ? [...paymentCandidates(transaction, pools), ...subscriptionCandidates(transaction, pools)]
+      : expenseCandidates(transaction, pools);
+  return candidates.filter((candidate) => candidate.score > 0).sort((left, right) => right.score - left.score);
+}
+
+export async function findMatchCandidates(transaction: MatchableTransaction, limit = 5): Promise<MatchCandidate[]> {
+  const pools = await loadCandidatePools(transaction.id);
+  return rankCandidates(transaction, pools).slice(0, limit);
+}
+
+function targetFields(candidate: MatchCandidate) {
+  return {
+    paymentId: candidate.type === "PAYMENT" ? candidate.id : null,
+    subscriptionId: candidate.type === "SUBSCRIPTION" ? candidate.id : null,
+    expenseId: candidate.type === "EXPENSE" ? candidate.id : null
+  };
+}
+
+// Proposes the best candidate for each unmatched line. A payment or expense is only ever proposed
+// for one line; subscriptions can take several (monthly debit orders).
+export async function proposeMatches(importId?: string): Promise<number> {
+  const [transactions, pools] = await Promise.all([
+    prisma.bankTransaction.findMany({
+      where: { matchStatus: BankMatchStatus.UNMATCHED, ...(importId ? { importId } : {}) },
+      orderBy: { postedAt: "asc" }
+    }),
+    loadCandidatePools()
+  ]);
+
+  const taken = new Set<string>();
+  let proposed = 0;
+  for (const transaction of transactions) {
+    const best = rankCandidates(transaction, pools).find(
+      (candidate) => candidate.type === "SUBSCRIPTION" || !taken.has(candidate.id)
+    );
+    if (!best || best.score < PROPOSE_MIN_SCORE) {
+      continue;
+    }
+    const updated = await prisma.bankTransaction.updateMany({
+      where: { id: transaction.id, matchStatus: BankMatchStatus.UNMATCHED },
+      data: {
+        matchStatus: BankMatchStatus.PROPOSED,
+        matchScore: best.score,
+        matchReason: best.reason,
+        ...targetFields(best)
+      }
+    });
+    if (updated.count > 0) {
+      taken.add(best.id);
+      proposed += 1;
+    }
+  }
+  return proposed;
+}
+
+export async function importBankStatement(input: {
+  fileName: string;
+  format: BankStatementFormat;
+  content: string;
+  uploadedById: string;
+}): Promise<BankImportResult> {
+  const lines = parseBankStatement(input.format, input.content);
+  if (lines.length === 0) {
+    throw new Error(`No transactions found in the ${input.format.toUpperCase()} statement.`);
+  }
+  const fingerprints = bankLineFingerprints(lines);
+  const existing = await prisma.bankTransaction.findMany({
+    where: { fingerprint: { in: fingerprints } },
+    select: { fingerprint: true }
+  });
+  const known = new Set(existing.map((entry) => entry.fingerprint));
+  const fresh = lines
+    .map((line, index) => ({ line, fingerprint: fingerprints[index] }))
+    .filter((entry) => !known.has(entry.fingerprint));
+
+  const dates = lines.map((line) => line.postedAt.getTime());
+  const statementImport = await prisma.bankStatementImport.create({
+    data: {
+      fileName: input.fileName,
+      format: input.format,
+      uploadedById: input.uploadedById,
+      statementStart: new Date(Math.min(...dates)),
+      statementEnd: new Date(Math.max(...dates)),
+      lineCount: lines.length,
+      duplicateCount: lines.length - fresh.length,
+      transactions: {
+        create: fresh.map(({ line, fingerprint }) => ({
+          fingerprint,
+          postedAt: line.postedAt,
+          direction: line.amount > 0 ? BankTransactionDirection.CREDIT : BankTransactionDirection.DEBIT,
+          amount: roundCurrency(Math.abs(line.amount)),
+          description: line.description.slice(0, 500),
+          reference: line.reference?.slice(0, 120) ?? null
+        }))
+      }
+    }
+  });
+
+  const proposed = fresh.length > 0 ? await proposeMatches(statementImport.id) : 0;
+  return {
+    importId: statementImport.id,
+    lineCount: lines.length,
+    imported: fresh.length,
+    duplicates: lines.length - fresh.length,
+    proposed
+  };
+}
+
+// Applies a confirmed match to the ledger it belongs to. Returns null when the line was confirmed, the target
+// settled in the meantime or its amount no longer matches; the caller has already validated the pairing.
+export async function confirmBankMatch(transactionId: string, target: ConfirmTarget, actorId: string) {
+  const now = new Date();
+  const result = await prisma.$transaction(async (tx) => {
+    const transaction = await tx.bankTransaction.findUnique({ where: { id: transactionId } });
+    if (!transaction || transaction.matchStatus === BankMatchStatus.CONFIRMED) {
+      return null;
+    }
+    const amount = Number(transaction.amount);
+    const payment =
+      target.type === "PAYMENT"
+        ? await tx.payment.findUnique({ where: { id: target.id }, include: { subscriptionLinks: true } })
+        : null;
+    const subscription =
+      target.type === "SUBSCRIPTION" ? await tx.subscription.findUnique({ where: { id: target.id } }) : null;
+    const expense = target.type === "EXPENSE" ? await tx.expense.findUnique({ where: { id: target.id } }) : null;
+    if (
+      (target.type === "PAYMENT" && payment?.status !== PaymentStatus.PENDING) ||
+      (target.type === "SUBSCRIPTION" && !subscription) ||
+      (target.type === "EXPENSE" && (!expense || expense.paidDate))
+    ) {
+      return null;
+    }
+    const expected = payment ?? expense;
+    if (
+      expected &&
+      !target.acceptAmountDifference &&
+      bankAmountMismatch(amount, expected.amount, payment ? "payment" : "expense")
+    ) {
+      return null;
+    }
+
+    const claimed = await tx.bankTransaction.updateMany({
+      where: { id: transaction.id, matchStatus: { not: BankMatchStatus.CONFIRMED } },
+      data: { matchStatus: BankMatchStatus.CONFIRMED, confirmedById: actorId, confirmedAt: now }
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    let paymentId: string | null = null;
+    let subscriptionUserId: string | null = null;
+
+    if (payment) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          // A short or over payment accepted by the admin is recorded at what actually arrived.
+          amount,
+          status: PaymentStatus.CONFIRMED,
+          paidAt: payment.paidAt ?? transaction.postedAt,
+          verifiedById: actorId,
+          verifiedAt: now
+        }
+      });
+      for (const link of payment.subscriptionLinks) {
+        const linked = await tx.subscription.update({
+          where: { id: link.subscriptionId },
+          data: {
+            lastPaymentDate: transaction.postedAt,
+            nextDueDate: new Date(link.periodEnd.getTime() + DAY_MS)
+          }
+        });
+        subscriptionUserId = linked.userId;
+      }
+      paymentId = payment.id;
+    }
+
+    if (subscription) {
+      const monthly = Number(subscription.monthlyAmount);
+      const monthsCovered = target.monthsCovered ?? Math.max(1, monthly > 0 ? Math.round(amount / monthly) : 1);
+      const periodStart =
+        subscription.nextDueDate ??
+        new Date(Date.UTC(transaction.postedAt.getUTCFullYear(), transaction.postedAt.getUTCMonth(), 1));
+      const coverage = buildSubscriptionCoverage(periodStart, monthsCovered);
+      const created = await tx.payment.create({
+        data: {
+          payerId: subscription.userId,
+          amount,
+          method: PaymentMethod.EFT,
+          status: PaymentStatus.CONFIRMED,
+          reference: (transaction.reference ?? transaction.description).slice(0, 120),
+          periodStart: coverage.periodStart,
+          periodEnd: coverage.periodEnd,
+          monthsCovered,
+          paidAt: transaction.postedAt,
+          verifiedById: actorId,
+          verifiedAt: now
+        }
+      });
+      await tx.subscriptionPayment.create({
+        data: {
+          subscriptionId: subscription.id,
+          paymentId: created.id,
+          periodStart: coverage.periodStart,
+          periodEnd: coverage.periodEnd,
+          monthsCovered
+        }
+      });
+      await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          lastPaymentDate: transaction.postedAt,
+          nextDueDate: new Date(coverage.periodEnd.getTime() + DAY_MS)
+        }
+      });
+      paymentId = created.id;
+      subscriptionUserId = subscription.userId;
+    }
+
+    if (expense) {
+      await tx.expense.update({ where: { id: expense.id }, data: { paidDate: transaction.postedAt } });
+    }
+
+    const confirmed = await tx.bankTransaction.update({
+      where: { id: transaction.id },
+      data: {
+        paymentId,
+        subscriptionId: subscription?.id ?? null,
+        expenseId: expense?.id ?? null
+      }
+    });
+    return { transaction: confirmed, subscriptionUserId };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  // The ledger credit comes from the confirmed payment; a failed rebuild is caught up by the arrears job.
+  if (result.subscriptionUserId) {
+    try {
+      await accrueSubscriptionArrears({ userId: result.subscriptionUserId });
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  return result.transaction;
+}
@@ -0,0 +1,360 @@
+import { BookingStatus, PaymentStatus, SubscriptionLedgerEntryType, type Payment } from "@prisma/client";
+import { monthsInLedger } from "@/lib/arrears";
+import { toCsv } from "@/lib/csv";
+import { addPdfPage, createPdfDocument, drawLine, drawRect, drawText, renderPdf, truncatePdfText } from "@/lib/pdf";
+import { prisma } from "@/lib/prisma";
+
+export type StatementLineKind = "SUBSCRIPTION" | "BOOKING" | "PAYMENT" | "ADJUSTMENT";
+
+export type StatementLine = {
+  date: string;
+  kind: StatementLineKind;
+  description: string;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+export type MemberStatement = {
+  member: { id: string; name: string; email: string };
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  generatedAt: string;
+};
+
+type StatementEntry = {
+  date: Date;
+  kind: StatementLineKind;
+  description: string;
+  reference: string | null;
+  // Positive amounts are owed by the member, negative amounts reduce the balance.
+  amount: number;
+};
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dateLabel(value: Date | string): string {
+  return (typeof value === "string" ? value : value.toISOString()).slice(0, 10);
+}
+
+// Defaults to month-to-date; an explicit end date includes that whole day.
+export function resolveStatementPeriod(from?: Date, to?: Date, now = new Date()): { from: Date; to: Date } {
+  const end = to ? new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate(), 23, 59, 59, 999)) : now;
+  return { from: from ?? new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1)), to: end };
+}
+
+function paymentDescription(
+  payment: Pick<Payment, "status" | "reference" | "method" | "bookingId" | "monthsCovered">
+): string {
+  if (payment.status === PaymentStatus.REFUNDED) {
+    return `Booking refund (${payment.reference?.startsWith("credit-note:") ? "credited to account" : payment.method})`;
+  }
+  if (payment.bookingId) {
+    return `Booking payment (${payment.method})`;
+  }
+  const months = payment.monthsCovered ? `, ${payment.monthsCovered} month(s)` : "";
+  return `Subscription payment (${payment.method}${months})`;
+}
+
+async function collectEntries(userId: string): Promise<StatementEntry[]> {
+  const [ledgerEntries, bookings, payments] = await Promise.all([
+    // Ledger credits mirror payments, which are listed individually below.
+    prisma.subscriptionLedgerEntry.findMany({
+      where: { subscription: { userId }, type: { not: SubscriptionLedgerEntryType.CREDIT } }
+    }),
+    prisma.booking.findMany({
+      where: {
+        requestedById: userId,
+        OR: [
+          { status: BookingStatus.APPROVED, totalAmount: { gt: 0 } },
+          { status: BookingStatus.CANCELLED, cancellationFee: { gt: 0 } }
+        ]
+      },
+      select: {
+        id: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        approvedAt: true,
+        cancelledAt: true,
+        createdAt: true,
+        totalAmount: true,
+        cancellationFee: true
+      }
+    }),
+    prisma.payment.findMany({
+      where: {
+        status: { in: [PaymentStatus.CONFIRMED, PaymentStatus.REFUNDED] },
+        OR: [{ payerId: userId }, { booking: { requestedById: userId } }]
+      },
+      select: {
+        id: true,
+        amount: true,
+        status: true,
+        method: true,
+        reference: true,
+        bookingId: true,
+        monthsCovered: true,
+        paidAt: true,
+        createdAt: true,
+        subscriptionLinks: {
+          select: { subscriptionId: true, periodStart: true, periodEnd: true, monthsCovered: true }
+        }
+      }
+    })
+  ]);
+
+  // The opening balance already nets off coverage from before the ledger began, so subscription payments only
+  // count for their months inside the ledger, prorated as the arrears credits are.
+  const ledgerStarts = new Map(
+    ledgerEntries
+      .filter((entry) => entry.type === SubscriptionLedgerEntryType.OPENING_BALANCE)
+      .map((entry) => [entry.subscriptionId, entry.periodStart])
+  );
+  const statementAmount = (payment: (typeof payments)[number]): number => {
+    if (payment.subscriptionLinks.length === 0) {
+      return Number(payment.amount);
+    }
+    return roundCurrency(
+      payment.subscriptionLinks.reduce((total, link) => {
+        const ledgerStart = ledgerStarts.get(link.subscriptionId);
+        const months = ledgerStart ? monthsInLedger(link, ledgerStart) : link.monthsCovered;
+        return total + (Number(payment.amount) * months) / Math.max(1, link.monthsCovered);
+      }, 0)
+    );
+  };
+
+  return [
+    ...ledgerEntries.map((entry) => ({
+      date: entry.periodStart,
+      kind:
+        entry.type === SubscriptionLedgerEntryType.ADJUSTMENT ? ("ADJUSTMENT" as const) : ("SUBSCRIPTION" as const),
+      description: entry.description,
+      reference: null,
+      amount: Number(entry.amount)
+    })),
+    // A cancelled booking only ever charges the fee that was retained.
+    ...bookings.map((booking) =>
+      booking.status === BookingStatus.CANCELLED
+        ? {
+            date: booking.cancelledAt ?? booking.createdAt,
+            kind: "BOOKING" as const,
+            description: `Cancellation fee ${dateLabel(booking.startDate)} to ${dateLabel(booking.endDate)}`,
+            reference: booking.id,
+            amount: Number(booking.cancellationFee ?? 0)
+          }
+        : {
+            date: booking.approvedAt ?? booking.createdAt,
+            kind: "BOOKING" as const,
+            description: `Booking ${dateLabel(booking.startDate)} to ${dateLabel(booking.endDate)}`,
+            reference: booking.id,
+            amount: Number(booking.totalAmount ?? 0)
+          }
+    ),
+    ...payments
+      .map((payment) => ({ payment, amount: statementAmount(payment) }))
+      .filter(({ amount }) => amount > 0)
+      .map(({ payment, amount }) => ({
+        date: payment.paidAt ?? payment.createdAt,
+        kind: "PAYMENT" as const,
+        description: paymentDescription(payment),
+        reference: payment.reference ?? payment.id,
+        amount: payment.status === PaymentStatus.REFUNDED ? amount : -amount
+      }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export async function buildMemberStatement(userId: string, from: Date, to: Date): Promise<MemberStatement | null> {
+  const member = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true }
+  });
+  if (!member) {
+    return null;
+  }
+
+  const entries = await collectEntries(userId);
+  const openingBalance = roundCurrency(
+    entries.filter((entry) => entry.date < from).reduce((total, entry) => total + entry.amount, 0)
+  );
+
+  let balance = openingBalance;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const lines: StatementLine[] = [];
+
+  for (const entry of entries) {
+    if (entry.date < from || entry.date > to) {
+      continue;
+    }
+    balance = roundCurrency(balance + entry.amount);
+    const debit = entry.amount > 0 ? roundCurrency(entry.amount) : 0;
+    const credit = entry.amount < 0 ? roundCurrency(-entry.amount) : 0;
+    totalDebits += debit;
+    totalCredits += credit;
+    lines.push({
+      date: dateLabel(entry.date),
+      kind: entry.kind,
+      description: entry.description,
+      reference: entry.reference,
+      debit,
+      credit,
+      balance
+    });
+  }
+
+  return {
+    member,
+    currency: "ZAR",
+    periodStart: dateLabel(from),
+    periodEnd: dateLabel(to),
+    openingBalance,
+    totalDebits: roundCurrency(totalDebits),
+    totalCredits: roundCurrency(totalCredits),
+    closingBalance: balance,
+    lines,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+export function statementFileName(statement: MemberStatement, extension: "pdf" | "csv"): string {
+  const slug = statement.member.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "member";
+  return `statement-${slug}-${statement.periodStart}-${statement.periodEnd}.${extension}`;
+}
+
+export function statementToCsv(statement: MemberStatement): string {
+  return toCsv([
+    {
+      date: statement.periodStart,
+      type: "OPENING",
+      description: "Opening balance",
+      reference: "",
+      debit: "",
+      credit: "",
+      balance: statement.openingBalance.toFixed(2)
+    },
+    ...statement.lines.map((line) => ({
+      date: line.date,
+      type: line.kind,
+      description: line.description,
+      reference: line.reference ?? "",
+      debit: line.debit ? line.debit.toFixed(2) : "",
+      credit: line.credit ? line.credit.toFixed(2) : "",
+      balance: line.balance.toFixed(2)
+    })),
+    {
+      date: statement.periodEnd,
+      type: "CLOSING",
+      description: "Closing balance",
+      reference: "",
+      debit: statement.totalDebits.toFixed(2),
+      credit: statement.totalCredits.toFixed(2),
+      balance: statement.closingBalance.toFixed(2)
+    }
+  ]);
+}
+
+const STATEMENT_COLUMNS = [
+  { label: "Date", x: 40, width: 62 },
+  { label: "Description", x: 104, width: 215 },
+  { label: "Debit", x: 400, width: 70, align: "right" as const },
+  { label: "Credit", x: 475, width: 70, align: "right" as const },
+  { label: "Balance", x: 555, width: 75, align: "right" as const }
+];
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+export function statementToPdf(statement: MemberStatement): Buffer {
+  const document = createPdfDocument(`Statement ${statement.member.name} ${statement.periodStart}`);
+  const rowHeight = 16;
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+  let page = addPdfPage(document);
+  let y = 0;
+
+  const drawHeader = (first: boolean) => {
+    y = 50;
+    if (first) {
+      drawText(page, "Reebok House - Member Statement", 40, y, { size: 16, bold: true });
+      y += 22;
+      drawText(page, `${statement.member.name} (${statement.member.email})`, 40, y, { size: 10 });
+      y += 14;
+      drawText(page, `Period: ${statement.periodStart} to ${statement.periodEnd}`, 40, y, { size: 10, color: grey });
+      drawText(page, `Generated ${dateLabel(statement.generatedAt)}`, 555, y, { size: 9, color: grey, align: "right" });
+      y += 24;
+    }
+
+    drawRect(page, 36, y - 11, 523, rowHeight, { fill: [0.91, 0.94, 0.9] });
+    for (const column of STATEMENT_COLUMNS) {
+      drawText(page, column.label, column.x, y, { size: 9, bold: true, align: column.align });
+    }
+    y += rowHeight;
+  };
+
+  const drawRow = (cells: [string, string, string, string, string], bold = false) => {
+    if (y > page.height - 60) {
+      page = addPdfPage(document);
+      drawHeader(false);
+    }
+    cells.forEach((cell, index) => {
+      const column = STATEMENT_COLUMNS[index];
+      drawText(page, truncatePdfText(cell, column.width, 9, bold), column.x, y, {
+        size: 9,
+        bold,
+        align: column.align
+      });
+    });
+    y += rowHeight;
+  };
+
+  drawHeader(true);
+  drawRow([statement.periodStart, "Opening balance", "", "", money(statement.openingBalance)], true);
+  for (const line of statement.lines) {
+    const description = line.reference ? `${line.description} - ${line.reference}` : line.description;
+    drawRow([
+      line.date,
+      description,
+      line.debit ? money(line.debit) : "",
+      line.credit ? money(line.credit) : "",
+      money(line.balance)
+    ]);
+  }
+
+  drawLine(page, 36, y - 10, 559, y - 10);
+  y += 4;
+  drawRow(
+    [
+      statement.periodEnd,
+      "Closing balance",
+      money(statement.totalDebits),
+      money(statement.totalCredits),
+      money(statement.closingBalance)
+    ],
+    true
+  );
+
+  y += 10;
+  drawText(
+    page,
+    statement.closingBalance > 0
+      ? `Amount due: ${statement.currency} ${money(statement.closingBalance)}`
+      : statement.closingBalance < 0
+        ? `In credit: ${statement.currency} ${money(-statement.closingBalance)}`
+        : "Your account is settled. Thank you.",
+    40,
+    y,
+    { size: 11, bold: true }
+  );
+
+  return renderPdf(document);
+}
@@ -0,0 +1,205 @@
+import { BookingSource, BookingStatus } from "@prisma/client";
+import { toCsv } from "@/lib/csv";
+import { readFeeSnapshot, vatIncludedIn } from "@/lib/fees";
+import { prisma } from "@/lib/prisma";
+
+export type VatReportLine = {
+  date: string;
+  kind: "SUPPLY" | "CREDIT" | "EXPENSE";
+  description: string;
+  reference: string | null;
+  rate: number;
+  amountExclVat: number;
+  vatAmount: number;
+  amountInclVat: number;
+};
+
+export type VatTotals = {
+  amountExclVat: number;
+  vatAmount: number;
+  amountInclVat: number;
+};
+
+export type VatReport = {
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  vatRegistered: boolean;
+  vatNumber: string | null;
+  vatRate: number;
+  output: VatTotals;
+  input: VatTotals;
+  netVat: number;
+  vat201: Array<{ field: string; label: string; amount: number }>;
+  lines: VatReportLine[];
+  generatedAt: string;
+};
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+function sumTotals(lines: VatReportLine[]): VatTotals {
+  return {
+    amountExclVat: roundCurrency(lines.reduce((sum, line) => sum + line.amountExclVat, 0)),
+    vatAmount: roundCurrency(lines.reduce((sum, line) => sum + line.vatAmount, 0)),
+    amountInclVat: roundCurrency(lines.reduce((sum, line) => sum + line.amountInclVat, 0))
+  };
+}
+
+function guestLabel(booking: { externalLeadName: string | null; startDate: Date }): string {
+  return `Stay ${dateLabel(booking.startDate)}${booking.externalLeadName ? ` - ${booking.externalLeadName}` : ""}`;
+}
+
+// Invoice basis: output VAT is declared when an external stay is approved, and reduced when it
+// is later cancelled by the part of the charge that is not retained. Input VAT is taken from
+// expenses by service (invoice) date, falling back to when the expense was captured.
+export async function buildVatReport(from: Date, to: Date): Promise<VatReport> {
+  const [feeConfig, supplies, cancellations, expenses] = await Promise.all([
+    prisma.feeConfig.findFirst({
+      where: { isActive: true, effectiveFrom: { lte: to } },
+      orderBy: { effectiveFrom: "desc" }
+    }),
+    prisma.booking.findMany({
+      where: {
+        source: BookingSource.EXTERNAL_PUBLIC,
+        status: { in: [BookingStatus.APPROVED, BookingStatus.CANCELLED] },
+        approvedAt: { gte: from, lte: to }
+      },
+      orderBy: { approvedAt: "asc" }
+    }),
+    prisma.booking.findMany({
+      where: {
+        source: BookingSource.EXTERNAL_PUBLIC,
+        status: BookingStatus.CANCELLED,
+        approvedAt: { not: null },
+        cancelledAt: { gte: from, lte: to }
+      },
+      orderBy: { cancelledAt: "asc" }
+    }),
+    prisma.expense.findMany({
+      where: {
+        vatAmount: { gt: 0 },
+        OR: [
+          { serviceDate: { gte: from, lte: to } },
+          { serviceDate: null, createdAt: { gte: from, lte: to } }
+        ]
+      },
+      orderBy: { serviceDate: "asc" }
+    })
+  ]);
+
+  const output: VatReportLine[] = [];
+  for (const booking of supplies) {
+    const vat = readFeeSnapshot(booking.feeSnapshot)?.vat;
+    if (!vat || !booking.approvedAt) {
+      continue;
+    }
+    output.push({
+      date: dateLabel(booking.approvedAt),
+      kind: "SUPPLY",
+      description: guestLabel(booking),
+      reference: booking.externalReference ?? booking.id,
+      rate: vat.rate,
+      amountExclVat: vat.amountExclVat,
+      vatAmount: vat.vatAmount,
+      amountInclVat: vat.amountInclVat
+    });
+  }
+
+  for (const booking of cancellations) {
+    const vat = readFeeSnapshot(booking.feeSnapshot)?.vat;
+    const credited = vat ? roundCurrency(vat.amountInclVat - Number(booking.cancellationFee ?? 0)) : 0;
+    if (!vat || !booking.cancelledAt || credited <= 0) {
+      continue;
+    }
+    const vatAmount = vatIncludedIn(credited, vat.rate);
+    output.push({
+      date: dateLabel(booking.cancelledAt),
+      kind: "CREDIT",
+      description: `Cancelled: ${guestLabel(booking)}`,
+      reference: booking.externalReference ?? booking.id,
+      rate: vat.rate,
+      amountExclVat: -roundCurrency(credited - vatAmount),
+      vatAmount: -vatAmount,
+      amountInclVat: -credited
+    });
+  }
+
+  const input: VatReportLine[] = expenses.map((expense) => {
+    const amountInclVat = Number(expense.amount);
+    const vatAmount = Number(expense.vatAmount ?? 0);
+    const amountExclVat = roundCurrency(amountInclVat - vatAmount);
+    return {
+      date: dateLabel(expense.serviceDate ?? expense.createdAt),
+      kind: "EXPENSE",
+      description: expense.supplier ? `${expense.title} - ${expense.supplier}` : expense.title,
+      reference: expense.invoiceNumber,
+      rate: amountExclVat > 0 ? roundCurrency((vatAmount / amountExclVat) * 100) : 0,
+      amountExclVat,
+      vatAmount,
+      amountInclVat
+    };
+  });
+
+  const outputTotals = sumTotals(output);
+  const inputTotals = sumTotals(input);
+  const netVat = roundCurrency(outputTotals.vatAmount - inputTotals.vatAmount);
+
+  return {
+    periodStart: dateLabel(from),
+    periodEnd: dateLabel(to),
+    currency: feeConfig?.currency ?? "ZAR",
+    vatRegistered: feeConfig?.vatRegistered ?? false,
+    vatNumber: feeConfig?.vatNumber ?? null,
+    vatRate: Number(feeConfig?.vatRate ?? 15),
+    output: outputTotals,
+    input: inputTotals,
+    netVat,
+    // Every external stay is a standard-rated supply and every expense "other goods or services";
+    // capital goods, imports and adjustments are left for the return to be completed by hand.
+    vat201: [
+      { field: "1", label: "Standard-rated supplies (incl. VAT)", amount: outputTotals.amountInclVat },
+      { field: "4", label: "Output tax on standard-rated supplies", amount: outputTotals.vatAmount },
+      { field: "13", label: "Total output tax (A)", amount: outputTotals.vatAmount },
+      { field: "15", label: "Input tax: other goods and services", amount: inputTotals.vatAmount },
+      { field: "19", label: "Total input tax (B)", amount: inputTotals.vatAmount },
+      { field: "20", label: "VAT payable / (refundable) (A - B)", amount: netVat }
+    ],
+    lines: [...output, ...input].sort((a, b) => a.date.localeCompare(b.date)),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+export function vatReportFileName(report: VatReport): string {
+  return `vat-${report.periodStart}-${report.periodEnd}.csv`;
+}
+
+export function vatReportToCsv(report: VatReport): string {
+  return toCsv([
+    ...report.lines.map((line) => ({
+      date: line.date,
+      type: line.kind,
+      description: line.description,
+      reference: line.reference ?? "",
+      rate: line.rate,
+      amountExclVat: line.amountExclVat.toFixed(2),
+      vatAmount: line.vatAmount.toFixed(2),
+      amountInclVat: line.amountInclVat.toFixed(2)
+    })),
+    ...report.vat201.map((entry) => ({
+      date: report.periodEnd,
+      type: `VAT201 FIELD ${entry.field}`,
+      description: entry.label,
+      reference: report.vatNumber ?? "",
+      rate: "",
+      amountExclVat: "",
+      vatAmount: entry.amount.toFixed(2),
+      amountInclVat: ""
+    }))
+  ]);
+}
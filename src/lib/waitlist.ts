@@ -0,0 +1,166 @@
+import { WaitlistStatus, type BookingScope, type BookingSource, type Prisma } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { findConflictingBooking } from "@/lib/availability";
+import { occupancyRangesClash, type OccupancyRange } from "@/lib/booking";
+import { getAppBaseUrl } from "@/lib/booking-manage";
+import { getBookingPolicy } from "@/lib/booking-payments";
+import { renderEmailTemplate } from "@/lib/email-templates";
+import { sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+export type JoinWaitlistInput = {
+  source: BookingSource;
+  scope: BookingScope;
+  startDate: Date;
+  endDate: Date;
+  roomIds: string[];
+  requestedById?: string;
+  contactName?: string;
+  contactEmail: string;
+  requestPayload: Prisma.InputJsonValue;
+};
+
+function asDateLabel(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+function asDateTimeLabel(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function buildWaitlistHoldUrl(token: string): string {
+  const url = new URL("/booking/waitlist", getAppBaseUrl());
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+// An unexpired offer keeps its dates free for the holder, the same way a pending booking would.
+export async function findClashingHold(candidate: OccupancyRange, exceptEntryId?: string, now = new Date()) {
+  const holds = await prisma.bookingWaitlistEntry.findMany({
+    where: {
+      id: exceptEntryId ? { not: exceptEntryId } : undefined,
+      status: WaitlistStatus.OFFERED,
+      holdExpiresAt: { gt: now },
+      startDate: { lt: candidate.endDate },
+      endDate: { gt: candidate.startDate }
+    },
+    orderBy: { holdExpiresAt: "asc" }
+  });
+
+  return holds.find((hold) => occupancyRangesClash(candidate, hold)) ?? null;
+}
+
+// Position among the entries still waiting or on offer, counting from 1.
+export async function waitlistRank(position: number): Promise<number> {
+  const ahead = await prisma.bookingWaitlistEntry.count({
+    where: { status: { in: ACTIVE_WAITLIST_STATUSES }, position: { lt: position } }
+  });
+  return ahead + 1;
+}
+
+export async function joinWaitlist(input: JoinWaitlistInput) {
+  const last = await prisma.bookingWaitlistEntry.aggregate({ _max: { position: true } });
+  const entry = await prisma.bookingWaitlistEntry.create({
+    data: { ...input, position: (last._max.position ?? 0) + 1 }
+  });
+  const rank = await waitlistRank(entry.position);
+
+  const template = await renderEmailTemplate("WAITLIST_JOINED", {
+    CONTACT_NAME: entry.contactName ?? "there",
+    START_DATE: asDateLabel(entry.startDate),
+    END_DATE: asDateLabel(entry.endDate),
+    WAITLIST_POSITION: String(rank)
+  });
+  await sendMail({ to: entry.contactEmail, subject: template.subject, text: template.text });
+
+  return { ...entry, rank };
+}
+
+// Returns the entry only while its hold is live; expired or used tokens resolve to null.
+export async function resolveWaitlistHold(token: string, now = new Date()) {
+  const entry = await prisma.bookingWaitlistEntry.findUnique({ where: { holdToken: token } });
+  if (!entry || entry.status !== WaitlistStatus.OFFERED || !entry.holdExpiresAt || entry.holdExpiresAt <= now) {
+    return null;
+  }
+  return entry;
+}
+
+export async function markWaitlistConverted(entryId: string, bookingId: string): Promise<void> {
+  await prisma.bookingWaitlistEntry.update({
+    where: { id: entryId },
+    data: { status: WaitlistStatus.CONVERTED, bookingId }
+  });
+}
+
+export async function expireWaitlistEntries(now = new Date()): Promise<number> {
+  const [holds, stale] = await prisma.$transaction([
+    prisma.bookingWaitlistEntry.updateMany({
+      where: { status: WaitlistStatus.OFFERED, holdExpiresAt: { lte: now } },
+      data: { status: WaitlistStatus.EXPIRED }
+    }),
+    // Nobody can take up dates that have already started.
+    prisma.bookingWaitlistEntry.updateMany({
+      where: { status: { in: ACTIVE_WAITLIST_STATUSES }, startDate: { lte: now } },
+      data: { status: WaitlistStatus.EXPIRED }
+    })
+  ]);
+  return holds.count + stale.count;
+}
+
+export type WaitlistOfferSummary = {
+  expired: number;
+  offered: Array<{ id: string; contactEmail: string; holdExpiresAt: string }>;
+};
+
+// Walks the waitlist in order and offers a hold to every entry whose dates are free again.
+// Once an entry is offered its hold blocks later entries for the same dates, so each
+// release only ever reaches the first requester in line for it.
+export async function offerWaitlistHolds(now = new Date()): Promise<WaitlistOfferSummary> {
+  const expired = await expireWaitlistEntries(now);
+  const policy = await getBookingPolicy();
+  const waiting = await prisma.bookingWaitlistEntry.findMany({
+    where: { status: WaitlistStatus.WAITING },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }]
+  });
+
+  const offered: WaitlistOfferSummary["offered"] = [];
+  for (const entry of waiting) {
+    if ((await findConflictingBooking(entry)) || (await findClashingHold(entry, entry.id, now))) {
+      continue;
+    }
+
+    const holdToken = randomBytes(24).toString("hex");
+    const holdExpiresAt = new Date(now.getTime() + policy.waitlistHoldHours * 3600000);
+    const claimed = await prisma.bookingWaitlistEntry.updateMany({
+      where: { id: entry.id, status: WaitlistStatus.WAITING },
+      data: { status: WaitlistStatus.OFFERED, holdToken, offeredAt: now, holdExpiresAt }
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const template = await renderEmailTemplate("WAITLIST_OFFER", {
+      CONTACT_NAME: entry.contactName ?? "there",
+      START_DATE: asDateLabel(entry.startDate),
+      END_DATE: asDateLabel(entry.endDate),
+      HOLD_EXPIRES_AT: asDateTimeLabel(holdExpiresAt),
+      HOLD_URL: buildWaitlistHoldUrl(holdToken)
+    });
+    await sendMail({ to: entry.contactEmail, subject: template.subject, text: template.text });
+
+    offered.push({ id: entry.id, contactEmail: entry.contactEmail, holdExpiresAt: holdExpiresAt.toISOString() });
+  }
+
+  return { expired, offered };
+}
+
+// Admin reordering: the listed entries take positions 1..n in the given order.
+export async function reorderWaitlist(entryIds: string[]): Promise<void> {
+  await prisma.$transaction(
+    entryIds.map((id, index) =>
+      prisma.bookingWaitlistEntry.update({ where: { id }, data: { position: index + 1 } })
+    )
+  );
+}
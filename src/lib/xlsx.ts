@@ -18,3 +18,31 @@ export function fromXlsxBuffer(buffer: Buffer): Array<Record<string, unknown>> {
   const sheet = workbook.Sheets[firstSheetName];
   return XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
 }
+
+export type XlsxSheet = {
+  name: string;
+  headers: string[];
+  rows: Array<Record<string, unknown>>;
+  // Headers of columns shown with two decimals; the cells stay numeric.
+  moneyColumns?: string[];
+};
+
+export function toXlsxWorkbookBuffer(sheets: XlsxSheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.headers });
+    sheet.headers.forEach((header, column) => {
+      if (!sheet.moneyColumns?.includes(header)) {
+        return;
+      }
+      for (let row = 1; row <= sheet.rows.length; row += 1) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: column })];
+        if (cell && cell.t === "n") {
+          cell.z = "#,##0.00";
+        }
+      }
+    });
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
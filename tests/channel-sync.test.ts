@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { ChannelConnection } from "@prisma/client";
+import { installInMemoryPrisma } from "./support/in-memory-prisma";
+
+const db = installInMemoryPrisma();
+const fixture = (name: string) => path.join(process.cwd(), "prisma", "fixtures", name);
+const FEED_URL = pathToFileURL(fixture("airbnb-calendar.ics")).href;
+const ERROR_PAGE_URL = pathToFileURL(fixture("channel-error-page.html")).href;
+
+let ical: typeof import("@/lib/ical");
+let channelSync: typeof import("@/lib/channel-sync");
+let feedServer: Server;
+let feedServerUrl: string;
+
+before(async () => {
+  ical = await import("@/lib/ical");
+  channelSync = await import("@/lib/channel-sync");
+
+  // Serves the fixture, and an oversized body streamed without a Content-Length.
+  const feed = await readFile(fixture("airbnb-calendar.ics"));
+  feedServer = createServer((req, res) => {
+    if (req.url === "/oversized.ics") {
+      res.writeHead(200, { "Content-Type": "text/calendar" });
+      const chunk = Buffer.alloc(1024 * 1024, "X");
+      for (let written = 0; written < 6; written += 1) {
+        res.write(chunk);
+      }
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/calendar" });
+    res.end(feed);
+  });
+  await new Promise<void>((resolve) => feedServer.listen(0, "127.0.0.1", resolve));
+  feedServerUrl = `http://127.0.0.1:${(feedServer.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => feedServer.close(() => resolve())));
+
+async function connectionFor(icalUrl: string): Promise<ChannelConnection> {
+  const existing = db.rows("channelConnection")[0];
+  if (existing) {
+    existing.settings = { icalUrl };
+    return existing as unknown as ChannelConnection;
+  }
+  return (await db.client.channelConnection.create({
+    data: { provider: "AIRBNB", accountLabel: null, status: "CONNECTED", settings: { icalUrl } }
+  })) as ChannelConnection;
+}
+
+function bookingFor(uid: string) {
+  const event = db.rows("externalCalendarEvent").find((row) => row.externalId === uid);
+  return db.rows("booking").find((row) => row.id === event?.bookingId);
+}
+
+describe("parseICalendar", () => {
+  it("reads the Airbnb fixture feed", async () => {
+    const feed = ical.parseICalendar(await readFile(fixture("airbnb-calendar.ics"), "utf8"));
+
+    assert.equal(feed.events.length, 3);
+    assert.deepEqual(feed.invalidUids, ["broken-event@airbnb.com"]);
+    assert.equal(feed.errors.length, 1);
+
+    const [first, , oneNight] = feed.events;
+    assert.equal(first.startDate.toISOString(), "2027-01-03T00:00:00.000Z");
+    assert.equal(first.endDate.toISOString(), "2027-01-08T00:00:00.000Z");
+    assert.match(first.description ?? "", /reservations\/details\/HMABCDE123\nPhone Number/);
+    assert.equal(oneNight.endDate.toISOString(), "2027-03-02T00:00:00.000Z");
+  });
+
+  it("rejects feeds that are not calendars", async () => {
+    const errorPage = await readFile(fixture("channel-error-page.html"), "utf8");
+
+    assert.throws(() => ical.parseICalendar(errorPage), /BEGIN:VCALENDAR missing/);
+    assert.throws(() => ical.parseICalendar(""), /BEGIN:VCALENDAR missing/);
+    assert.throws(() => ical.parseICalendar("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"), /END:VCALENDAR missing/);
+  });
+});
+
+describe("syncChannelConnection", () => {
+  beforeEach(() => db.reset());
+
+  it("imports the fixture feed as blocking bookings", async () => {
+    const result = await channelSync.syncChannelConnection(await connectionFor(FEED_URL));
+
+    assert.equal(result.added, 3);
+    assert.equal(result.removed, 0);
+    assert.equal(result.errors.length, 1);
+    assert.equal(db.rows("booking").length, 3);
+    assert.ok(db.rows("booking").every((booking) => booking.status === "APPROVED" && booking.source === "AIRBNB"));
+    assert.equal(db.rows("channelConnection")[0].status, "CONNECTED");
+  });
+
+  it("leaves an unchanged feed alone on the next sync", async () => {
+    await channelSync.syncChannelConnection(await connectionFor(FEED_URL));
+    const result = await channelSync.syncChannelConnection(await connectionFor(FEED_URL));
+
+    assert.deepEqual([result.added, result.updated, result.removed], [0, 0, 0]);
+    assert.equal(db.rows("booking").length, 3);
+  });
+
+  it("keeps the booking of an event that no longer parses", async () => {
+    const connection = await connectionFor(FEED_URL);
+    const booking = await db.client.booking.create({
+      data: {
+        status: "APPROVED",
+        startDate: new Date("2027-03-25"),
+        endDate: new Date("2027-04-01"),
+        nights: 7,
+        totalGuests: 0
+      }
+    });
+    await db.client.externalCalendarEvent.create({
+      data: {
+        provider: "AIRBNB",
+        externalId: "broken-event@airbnb.com",
+        connectionId: connection.id,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        bookingId: booking.id
+      }
+    });
+
+    const result = await channelSync.syncChannelConnection(connection);
+
+    assert.equal(result.removed, 0);
+    assert.equal(bookingFor("broken-event@airbnb.com")?.status, "APPROVED");
+  });
+
+  it("cancels bookings for events removed from the feed", async () => {
+    const connection = await connectionFor(FEED_URL);
+    await channelSync.syncChannelConnection(connection);
+    const removedUid = "7f3b2a1c9d8e-5a4b3c2d1e0f9a8b7c6d5e4f@airbnb.com";
+    db.rows("externalCalendarEvent").find((row) => row.externalId === removedUid)!.externalId = "gone@airbnb.com";
+
+    const result = await channelSync.syncChannelConnection(connection);
+
+    assert.equal(result.removed, 1);
+    assert.equal(result.added, 1);
+    assert.equal(db.rows("booking").filter((booking) => booking.status === "CANCELLED").length, 1);
+  });
+
+  it("downloads feeds over HTTP", async () => {
+    const result = await channelSync.syncChannelConnection(await connectionFor(`${feedServerUrl}/calendar.ics`));
+
+    assert.equal(result.added, 3);
+    assert.equal(db.rows("channelConnection")[0].status, "CONNECTED");
+  });
+
+  it("fails the sync when the feed is larger than the cap", async () => {
+    await channelSync.syncChannelConnection(await connectionFor(FEED_URL));
+    const result = await channelSync.syncChannelConnection(await connectionFor(`${feedServerUrl}/oversized.ics`));
+
+    assert.match(result.errors[0], /larger than 5 MB/);
+    assert.equal(result.removed, 0);
+    assert.equal(db.rows("channelConnection")[0].status, "ERROR");
+    assert.ok(db.rows("booking").every((booking) => booking.status === "APPROVED"));
+  });
+
+  it("records a failed sync and keeps existing bookings when the feed is not a calendar", async () => {
+    await channelSync.syncChannelConnection(await connectionFor(FEED_URL));
+    const result = await channelSync.syncChannelConnection(await connectionFor(ERROR_PAGE_URL));
+
+    assert.equal(result.removed, 0);
+    assert.match(result.errors[0], /not an iCalendar file/);
+    assert.equal(db.rows("channelConnection")[0].status, "ERROR");
+    assert.match(String(db.rows("channelConnection")[0].lastSyncStatus), /^Sync failed\./);
+    assert.equal(db.rows("booking").length, 3);
+    assert.ok(db.rows("booking").every((booking) => booking.status === "APPROVED"));
+  });
+});
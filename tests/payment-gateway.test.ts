@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it, mock } from "node:test";
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { installInMemoryPrisma } from "./support/in-memory-prisma";
+
+const db = installInMemoryPrisma();
+const SECRET = "test-fake-gateway-secret";
+
+let gateways: typeof import("@/lib/payment-gateway");
+let webhookRoute: typeof import("@/app/api/payments/webhooks/[provider]/route");
+
+before(async () => {
+  gateways = await import("@/lib/payment-gateway");
+  webhookRoute = await import("@/app/api/payments/webhooks/[provider]/route");
+});
+
+// Mirrors POST /api/payments/checkout: a PENDING payment whose reference is the provider's checkout id.
+async function checkout(amount = 450) {
+  const subscription = await db.client.subscription.create({
+    data: { userId: "member_1", monthlyAmount: 150, nextDueDate: new Date("2026-11-01") }
+  });
+  const payment = await db.client.payment.create({
+    data: {
+      payerId: "member_1",
+      amount: new Prisma.Decimal(amount),
+      currency: "ZAR",
+      method: "OTHER",
+      status: "PENDING",
+      gatewayProvider: "fake"
+    }
+  });
+  await db.client.subscriptionPayment.create({
+    data: {
+      subscriptionId: subscription.id,
+      paymentId: payment.id,
+      monthsCovered: 3,
+      periodStart: new Date("2026-11-01"),
+      periodEnd: new Date("2027-01-31")
+    }
+  });
+
+  const gateway = gateways.getPaymentGateway("fake");
+  assert.ok(gateway);
+  const session = await gateway.createCheckout({
+    paymentId: payment.id,
+    amount,
+    currency: "ZAR",
+    description: "Subscription",
+    successUrl: "http://localhost:3000/member?payment=success",
+    cancelUrl: "http://localhost:3000/member?payment=cancelled",
+    failureUrl: "http://localhost:3000/member?payment=failed",
+    notifyUrl: "http://localhost:3000/api/payments/webhooks/fake"
+  });
+  await db.client.payment.update({
+    where: { id: payment.id },
+    data: { reference: session.checkoutId, gatewayPayload: { checkout: session.raw, events: [] } }
+  });
+
+  return { paymentId: payment.id, subscriptionId: subscription.id, session };
+}
+
+async function deliverWebhook(body: Record<string, unknown>, signature?: string) {
+  const rawBody = JSON.stringify(body);
+  const request = new NextRequest("http://localhost:3000/api/payments/webhooks/fake", {
+    method: "POST",
+    body: rawBody,
+    headers: {
+      "content-type": "application/json",
+      "x-fake-signature": signature ?? gateways.signFakeGatewayPayload(rawBody, SECRET)
+    }
+  });
+  const response = await webhookRoute.POST(request, { params: Promise.resolve({ provider: "fake" }) });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+function paymentRow(paymentId: string) {
+  return db.rows("payment").find((row) => row.id === paymentId) as Record<string, unknown>;
+}
+
+describe("fake gateway checkout and webhook", () => {
+  beforeEach(() => {
+    db.reset();
+    process.env.FAKE_GATEWAY_ENABLED = "true";
+    process.env.FAKE_GATEWAY_SECRET = SECRET;
+  });
+
+  it("redirects checkout straight to the success URL", async () => {
+    const { paymentId, session } = await checkout();
+
+    assert.equal(session.checkoutId, `fake_${paymentId}`);
+    assert.equal(new URL(session.redirectUrl).searchParams.get("checkoutId"), session.checkoutId);
+  });
+
+  it("confirms the payment on a signed success webhook", async () => {
+    const { paymentId, subscriptionId, session } = await checkout();
+
+    const response = await deliverWebhook({
+      id: "evt_1",
+      checkoutId: session.checkoutId,
+      status: "succeeded",
+      amount: 450,
+      currency: "ZAR"
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.status, "CONFIRMED");
+    assert.equal(paymentRow(paymentId).status, "CONFIRMED");
+    assert.ok(paymentRow(paymentId).paidAt instanceof Date);
+    const subscription = db.rows("subscription").find((row) => row.id === subscriptionId);
+    assert.equal((subscription?.nextDueDate as Date).toISOString(), "2027-02-01T00:00:00.000Z");
+  });
+
+  it("ignores a replayed webhook", async () => {
+    const { session } = await checkout();
+    const event = { id: "evt_1", checkoutId: session.checkoutId, status: "succeeded", amount: 450, currency: "ZAR" };
+
+    await deliverWebhook(event);
+    const replay = await deliverWebhook(event);
+
+    assert.equal(replay.status, 200);
+    assert.equal(replay.body.duplicate, true);
+  });
+
+  it("rejects a webhook with a bad signature", async () => {
+    const { paymentId, session } = await checkout();
+
+    const response = await deliverWebhook(
+      { id: "evt_1", checkoutId: session.checkoutId, status: "succeeded", amount: 450, currency: "ZAR" },
+      gateways.signFakeGatewayPayload("{}", SECRET)
+    );
+
+    assert.equal(response.status, 401);
+    assert.equal(paymentRow(paymentId).status, "PENDING");
+  });
+
+  it("keeps the payment pending when the paid amount does not match", async () => {
+    const { paymentId, session } = await checkout();
+    const logged = mock.method(console, "error", () => undefined);
+
+    const response = await deliverWebhook({
+      id: "evt_1",
+      checkoutId: session.checkoutId,
+      status: "succeeded",
+      amount: 1.5,
+      currency: "ZAR"
+    });
+    logged.mock.restore();
+
+    assert.equal(response.status, 409);
+    assert.match(String(response.body.error), /ZAR 1\.50 paid; expected ZAR 450\.00/);
+    assert.equal(logged.mock.callCount(), 1);
+    const payment = paymentRow(paymentId);
+    assert.equal(payment.status, "PENDING");
+    const events = (payment.gatewayPayload as { events: { eventId: string; mismatch?: string }[] }).events;
+    assert.equal(events[0].eventId, "evt_1");
+    assert.ok(events[0].mismatch);
+  });
+
+  it("keeps the payment pending when the currency does not match", async () => {
+    const { paymentId, session } = await checkout();
+    const logged = mock.method(console, "error", () => undefined);
+
+    const response = await deliverWebhook({
+      id: "evt_1",
+      checkoutId: session.checkoutId,
+      status: "succeeded",
+      amount: 450,
+      currency: "USD"
+    });
+    logged.mock.restore();
+
+    assert.equal(response.status, 409);
+    assert.equal(paymentRow(paymentId).status, "PENDING");
+  });
+
+  it("is unavailable unless explicitly enabled with a secret", async () => {
+    const { paymentId, session } = await checkout();
+    const event = { id: "evt_1", checkoutId: session.checkoutId, status: "succeeded", amount: 450, currency: "ZAR" };
+
+    delete process.env.FAKE_GATEWAY_ENABLED;
+    assert.equal((await deliverWebhook(event)).status, 404);
+
+    process.env.FAKE_GATEWAY_ENABLED = "true";
+    delete process.env.FAKE_GATEWAY_SECRET;
+    assert.equal((await deliverWebhook(event)).status, 404);
+    assert.equal(paymentRow(paymentId).status, "PENDING");
+  });
+});
@@ -0,0 +1,250 @@
+import type { PrismaClient } from "@prisma/client";
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+type Relation = { model: string; kind: "one" | "many"; foreignKey: string };
+
+// Only the relations the code under test reads through include/select or filters on.
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  externalCalendarEvent: { booking: { model: "booking", kind: "one", foreignKey: "bookingId" } },
+  booking: { roomAllocations: { model: "bookingRoomAllocation", kind: "many", foreignKey: "bookingId" } },
+  payment: { subscriptionLinks: { model: "subscriptionPayment", kind: "many", foreignKey: "paymentId" } },
+  subscriptionPayment: { payment: { model: "payment", kind: "one", foreignKey: "paymentId" } }
+};
+
+const OPERATORS = ["in", "notIn", "not", "lt", "lte", "gt", "gte", "equals", "some", "mode"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (isPlainObject(value) && typeof (value as { toNumber?: unknown }).toNumber === "function") {
+    return (value as { toNumber(): number }).toNumber();
+  }
+  return value ?? null;
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) && Object.keys(value).every((key) => OPERATORS.includes(key));
+}
+
+// A small in-memory stand-in for PrismaClient: enough of findMany/create/update and friends, with
+// equality, in/not/lt/gt filters, OR/AND/NOT and one level of relation filters and includes.
+export function createInMemoryPrisma() {
+  const tables = new Map<string, Row[]>();
+  let sequence = 0;
+
+  function table(model: string): Row[] {
+    if (!tables.has(model)) {
+      tables.set(model, []);
+    }
+    return tables.get(model) as Row[];
+  }
+
+  function related(model: string, row: Row, name: string): Row | Row[] | null {
+    const relation = RELATIONS[model]?.[name];
+    if (!relation) {
+      return null;
+    }
+    if (relation.kind === "one") {
+      return table(relation.model).find((target) => target.id === row[relation.foreignKey]) ?? null;
+    }
+    return table(relation.model).filter((target) => target[relation.foreignKey] === row.id);
+  }
+
+  function matchesValue(actual: unknown, condition: unknown): boolean {
+    if (!isOperatorObject(condition)) {
+      return comparable(actual) === comparable(condition);
+    }
+    const value = comparable(actual);
+    return Object.entries(condition).every(([operator, expected]) => {
+      switch (operator) {
+        case "in":
+          return (expected as unknown[]).map(comparable).includes(value);
+        case "notIn":
+          return !(expected as unknown[]).map(comparable).includes(value);
+        case "not":
+          return !matchesValue(actual, expected);
+        case "lt":
+          return value !== null && (value as number) < (comparable(expected) as number);
+        case "lte":
+          return value !== null && (value as number) <= (comparable(expected) as number);
+        case "gt":
+          return value !== null && (value as number) > (comparable(expected) as number);
+        case "gte":
+          return value !== null && (value as number) >= (comparable(expected) as number);
+        case "equals":
+          return value === comparable(expected);
+        default:
+          return true;
+      }
+    });
+  }
+
+  function matches(model: string, row: Row, where: Where | undefined): boolean {
+    return Object.entries(where ?? {}).every(([key, condition]) => {
+      if (condition === undefined) {
+        return true;
+      }
+      if (key === "OR") {
+        return (condition as Where[]).some((entry) => matches(model, row, entry));
+      }
+      if (key === "AND") {
+        return (condition as Where[]).every((entry) => matches(model, row, entry));
+      }
+      if (key === "NOT") {
+        return !matches(model, row, condition as Where);
+      }
+      const relation = RELATIONS[model]?.[key];
+      if (relation) {
+        const target = related(model, row, key);
+        if (relation.kind === "many") {
+          const some = (condition as { some?: Where }).some;
+          return (target as Row[]).some((entry) => matches(relation.model, entry, some));
+        }
+        return target !== null && matches(relation.model, target as Row, condition as Where);
+      }
+      // Compound unique keys such as subscriptionId_entryKey.
+      if (key.includes("_") && isPlainObject(condition) && !isOperatorObject(condition)) {
+        return matches(model, row, condition);
+      }
+      return matchesValue(row[key], condition);
+    });
+  }
+
+  function shape(model: string, row: Row, args: { include?: Row; select?: Row } = {}): Row {
+    const result: Row = { ...row };
+    for (const [name, option] of Object.entries({ ...args.include, ...args.select })) {
+      if (!option || !RELATIONS[model]?.[name]) {
+        continue;
+      }
+      const relation = RELATIONS[model][name];
+      const value = related(model, row, name);
+      const nested = isPlainObject(option) ? option : {};
+      result[name] = Array.isArray(value)
+        ? value
+            .filter((entry) => matches(relation.model, entry, nested.where as Where | undefined))
+            .map((entry) => shape(relation.model, entry, nested))
+        : value && shape(relation.model, value, nested);
+    }
+    return result;
+  }
+
+  // Nested relation writes (audit logs and the like) are not modelled.
+  function scalarData(data: Row): Row {
+    return Object.fromEntries(
+      Object.entries(data).filter(
+        ([, value]) =>
+          value !== undefined && !(isPlainObject(value) && ("create" in value || "connect" in value))
+      )
+    );
+  }
+
+  function delegate(model: string) {
+    const rows = () => table(model);
+    const findMany = async (args: { where?: Where; include?: Row; select?: Row; take?: number } = {}) =>
+      rows()
+        .filter((row) => matches(model, row, args.where))
+        .slice(0, args.take ?? undefined)
+        .map((row) => shape(model, row, args));
+    const findFirst = async (args: { where?: Where; include?: Row; select?: Row } = {}) =>
+      (await findMany(args))[0] ?? null;
+    const create = async (args: { data: Row; include?: Row; select?: Row }) => {
+      sequence += 1;
+      const now = new Date();
+      const row: Row = { id: `${model}_${sequence}`, createdAt: now, updatedAt: now, ...scalarData(args.data) };
+      rows().push(row);
+      return shape(model, row, args);
+    };
+    const update = async (args: { where: Where; data: Row; include?: Row; select?: Row }) => {
+      const row = rows().find((entry) => matches(model, entry, args.where));
+      if (!row) {
+        throw new Error(`${model}.update: record not found`);
+      }
+      Object.assign(row, scalarData(args.data), { updatedAt: new Date() });
+      return shape(model, row, args);
+    };
+
+    return {
+      findMany,
+      findFirst,
+      findUnique: findFirst,
+      async findUniqueOrThrow(args: { where?: Where; include?: Row; select?: Row }) {
+        const row = await findFirst(args);
+        if (!row) {
+          throw new Error(`${model}.findUniqueOrThrow: record not found`);
+        }
+        return row;
+      },
+      create,
+      async createMany(args: { data: Row[] }) {
+        for (const data of args.data) {
+          await create({ data });
+        }
+        return { count: args.data.length };
+      },
+      update,
+      async updateMany(args: { where?: Where; data: Row }) {
+        const matching = rows().filter((row) => matches(model, row, args.where));
+        matching.forEach((row) => Object.assign(row, scalarData(args.data), { updatedAt: new Date() }));
+        return { count: matching.length };
+      },
+      async upsert(args: { where: Where; create: Row; update: Row }) {
+        const existing = rows().find((row) => matches(model, row, args.where));
+        return existing ? update({ where: args.where, data: args.update }) : create({ data: args.create });
+      },
+      async delete(args: { where: Where }) {
+        const index = rows().findIndex((row) => matches(model, row, args.where));
+        if (index < 0) {
+          throw new Error(`${model}.delete: record not found`);
+        }
+        return rows().splice(index, 1)[0];
+      },
+      async deleteMany(args: { where?: Where } = {}) {
+        const keep = rows().filter((row) => !matches(model, row, args.where));
+        const count = rows().length - keep.length;
+        tables.set(model, keep);
+        return { count };
+      },
+      async count(args: { where?: Where } = {}) {
+        return rows().filter((row) => matches(model, row, args.where)).length;
+      }
+    };
+  }
+
+  const delegates = new Map<string, ReturnType<typeof delegate>>();
+  const client: Record<string, unknown> = {
+    async $transaction(work: unknown) {
+      return typeof work === "function" ? work(proxy) : Promise.all(work as Promise<unknown>[]);
+    }
+  };
+  const proxy = new Proxy(client, {
+    get(target, property) {
+      if (typeof property !== "string" || property in target) {
+        return target[property as string];
+      }
+      if (!delegates.has(property)) {
+        delegates.set(property, delegate(property));
+      }
+      return delegates.get(property);
+    }
+  });
+
+  return {
+    client: proxy as unknown as PrismaClient,
+    rows: (model: string) => table(model),
+    reset: () => tables.clear()
+  };
+}
+
+// The app's prisma module reuses a client stored on globalThis, so installing the fake before the first
+// import of "@/lib/prisma" routes every query to it.
+export function installInMemoryPrisma() {
+  const fake = createInMemoryPrisma();
+  (globalThis as unknown as { prisma: PrismaClient }).prisma = fake.client;
+  return fake;
+}